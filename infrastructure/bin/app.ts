@@ -15,6 +15,27 @@ const env = {
   region: process.env.CDK_DEFAULT_REGION ?? "us-east-1",
 };
 
+// Identity provider for the order API (cdk deploy -c authJwksUrl=... -c authIssuer=... -c authAudience=...)
+function requireContext(key: string): string {
+  const value = app.node.tryGetContext(key);
+  if (!value) {
+    throw new Error(`Missing CDK context value: ${key}`);
+  }
+  return value;
+}
+
+const auth = {
+  jwksUrl: requireContext("authJwksUrl"),
+  issuer: requireContext("authIssuer"),
+  audience: requireContext("authAudience"),
+};
+
+// Registered payment processor the functions charge through (cdk deploy -c paymentProvider=...)
+const paymentProvider = requireContext("paymentProvider");
+
+// Registered age verifier the order processor checks buyers with (cdk deploy -c ageVerifier=...)
+const ageVerifier = requireContext("ageVerifier");
+
 // Database stack - DynamoDB tables
 const databaseStack = new DatabaseStack(app, "AcmeLiquors-Database", {
   env,
@@ -28,6 +49,13 @@ const processingStack = new ProcessingStack(app, "AcmeLiquors-Processing", {
   ordersTable: databaseStack.ordersTable,
   orderByIdTable: databaseStack.orderByIdTable,
   inventoryTable: databaseStack.inventoryTable,
+  customersTable: databaseStack.customersTable,
+  ageVerificationsTable: databaseStack.ageVerificationsTable,
+  sagasTable: databaseStack.sagasTable,
+  reservationsTable: databaseStack.reservationsTable,
+  orderStatusHistoryTable: databaseStack.orderStatusHistoryTable,
+  paymentProvider,
+  ageVerifier,
 });
 
 // API stack - API Gateway + Lambda handlers
@@ -36,7 +64,18 @@ new ApiStack(app, "AcmeLiquors-Api", {
   description: "ACME Liquors Order API",
   ordersTable: databaseStack.ordersTable,
   orderByIdTable: databaseStack.orderByIdTable,
+  productsTable: databaseStack.productsTable,
+  taxRatesTable: databaseStack.taxRatesTable,
+  complianceRulesTable: databaseStack.complianceRulesTable,
+  inventoryTable: databaseStack.inventoryTable,
+  inventoryAdjustmentsTable: databaseStack.inventoryAdjustmentsTable,
+  reservationsTable: databaseStack.reservationsTable,
+  sagasTable: databaseStack.sagasTable,
+  idempotencyKeysTable: databaseStack.idempotencyKeysTable,
+  orderStatusHistoryTable: databaseStack.orderStatusHistoryTable,
   orderQueue: processingStack.orderQueue,
+  auth,
+  paymentProvider,
 });
 
 // Events stack - DynamoDB Streams + EventBridge
@@ -44,6 +83,11 @@ const eventsStack = new EventsStack(app, "AcmeLiquors-Events", {
   env,
   description: "ACME Liquors event streaming and EventBridge",
   ordersTable: databaseStack.ordersTable,
+  orderByIdTable: databaseStack.orderByIdTable,
+  inventoryTable: databaseStack.inventoryTable,
+  reservationsTable: databaseStack.reservationsTable,
+  inventoryAlertsTable: databaseStack.inventoryAlertsTable,
+  paymentProvider,
 });
 
 // Analytics stack - Firehose + S3 + Athena
@@ -0,0 +1,179 @@
+import * as cdk from "aws-cdk-lib";
+import * as apigateway from "aws-cdk-lib/aws-apigateway";
+import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
+import { Construct } from "constructs";
+import * as path from "path";
+
+export interface InventoryApiProps {
+  api: apigateway.RestApi;
+  inventoryTable: dynamodb.ITable;
+  inventoryAdjustmentsTable: dynamodb.ITable;
+  paginationTokenSecret: secretsmanager.ISecret;
+  // Token authorizer shared with the order API; handlers check store scope
+  authorizedMethodOptions: apigateway.MethodOptions;
+}
+
+export class InventoryApi extends Construct {
+  public readonly getInventoryFn: lambda.Function;
+  public readonly listInventoryFn: lambda.Function;
+  public readonly adjustInventoryFn: lambda.Function;
+  public readonly importInventoryFn: lambda.Function;
+
+  constructor(scope: Construct, id: string, props: InventoryApiProps) {
+    super(scope, id);
+
+    const lambdaDir = path.join(__dirname, "../../../services/inventory-api/src/handlers");
+
+    // Common Lambda configuration
+    const commonLambdaProps: Partial<nodejs.NodejsFunctionProps> = {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      memorySize: 256,
+      timeout: cdk.Duration.seconds(10),
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_MONTH,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ["@aws-sdk/*"],
+      },
+      environment: {
+        NODE_OPTIONS: "--enable-source-maps",
+        INVENTORY_TABLE_NAME: props.inventoryTable.tableName,
+        INVENTORY_ADJUSTMENTS_TABLE_NAME: props.inventoryAdjustmentsTable.tableName,
+        // Read at runtime; rotating the key invalidates outstanding next tokens
+        PAGINATION_TOKEN_SECRET_ARN: props.paginationTokenSecret.secretArn,
+      },
+    };
+
+    // Get Inventory Lambda
+    this.getInventoryFn = new nodejs.NodejsFunction(this, "GetInventoryFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "get-inventory.ts"),
+      functionName: "acme-get-inventory",
+      description: "Get stock for a store and SKU",
+    });
+
+    // List Inventory Lambda
+    this.listInventoryFn = new nodejs.NodejsFunction(this, "ListInventoryFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "list-inventory.ts"),
+      functionName: "acme-list-inventory",
+      description: "List a store's inventory",
+    });
+
+    // Adjust Inventory Lambda
+    this.adjustInventoryFn = new nodejs.NodejsFunction(this, "AdjustInventoryFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "adjust-inventory.ts"),
+      functionName: "acme-adjust-inventory",
+      description: "Adjust stock with a reason code",
+    });
+
+    // Import Inventory Lambda (bulk CSV upsert)
+    this.importInventoryFn = new nodejs.NodejsFunction(this, "ImportInventoryFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "import-inventory.ts"),
+      functionName: "acme-import-inventory",
+      description: "Bulk-upsert a store's inventory from CSV",
+      memorySize: 512,
+      timeout: cdk.Duration.seconds(29), // API Gateway integration limit
+    });
+
+    // Grant permissions
+    props.inventoryTable.grantReadData(this.getInventoryFn);
+    props.inventoryTable.grantReadData(this.listInventoryFn);
+    props.inventoryTable.grantReadWriteData(this.adjustInventoryFn);
+    props.inventoryTable.grantReadWriteData(this.importInventoryFn);
+
+    props.inventoryAdjustmentsTable.grantWriteData(this.adjustInventoryFn);
+    props.inventoryAdjustmentsTable.grantWriteData(this.importInventoryFn);
+
+    props.paginationTokenSecret.grantRead(this.listInventoryFn);
+
+    // API Gateway resources
+    const inventoryResource = props.api.root.addResource("inventory", {
+      defaultMethodOptions: props.authorizedMethodOptions,
+    });
+    const storeResource = inventoryResource.addResource("{store_id}");
+
+    // GET /inventory/{store_id}
+    storeResource.addMethod(
+      "GET",
+      new apigateway.LambdaIntegration(this.listInventoryFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "ListInventory",
+        requestParameters: {
+          "method.request.querystring.limit": false,
+          "method.request.querystring.next_token": false,
+        },
+      }
+    );
+
+    // POST /inventory/{store_id}/import
+    storeResource.addResource("import").addMethod(
+      "POST",
+      new apigateway.LambdaIntegration(this.importInventoryFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "ImportInventory",
+      }
+    );
+
+    // Single item resource
+    const itemResource = storeResource.addResource("{sku}");
+
+    // GET /inventory/{store_id}/{sku}
+    itemResource.addMethod(
+      "GET",
+      new apigateway.LambdaIntegration(this.getInventoryFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "GetInventory",
+      }
+    );
+
+    // POST /inventory/{store_id}/{sku}/adjustments
+    itemResource.addResource("adjustments").addMethod(
+      "POST",
+      new apigateway.LambdaIntegration(this.adjustInventoryFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "AdjustInventory",
+        requestValidator: new apigateway.RequestValidator(this, "AdjustInventoryValidator", {
+          restApi: props.api,
+          validateRequestBody: true,
+        }),
+        requestModels: {
+          "application/json": new apigateway.Model(this, "AdjustInventoryModel", {
+            restApi: props.api,
+            contentType: "application/json",
+            modelName: "AdjustInventoryRequest",
+            schema: {
+              type: apigateway.JsonSchemaType.OBJECT,
+              required: ["quantity_delta", "reason", "expected_updated_at"],
+              properties: {
+                quantity_delta: { type: apigateway.JsonSchemaType.INTEGER },
+                reason: {
+                  type: apigateway.JsonSchemaType.STRING,
+                  enum: ["RECEIVING", "SHRINKAGE", "DAMAGE", "COUNT_CORRECTION"],
+                },
+                note: { type: apigateway.JsonSchemaType.STRING },
+                expected_updated_at: { type: apigateway.JsonSchemaType.STRING },
+              },
+            },
+          }),
+        },
+      }
+    );
+  }
+}
@@ -6,21 +6,52 @@ import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import * as sqs from "aws-cdk-lib/aws-sqs";
 import * as iam from "aws-cdk-lib/aws-iam";
 import * as logs from "aws-cdk-lib/aws-logs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 import { Construct } from "constructs";
 import * as path from "path";
 
+// Identity provider whose access tokens the API accepts
+export interface OrderApiAuthConfig {
+  jwksUrl: string;
+  issuer: string;
+  audience: string;
+}
+
 export interface OrderApiProps {
   api: apigateway.RestApi;
+  auth: OrderApiAuthConfig;
   ordersTable: dynamodb.ITable;
   orderByIdTable: dynamodb.ITable;
+  productsTable: dynamodb.ITable;
+  taxRatesTable: dynamodb.ITable;
+  complianceRulesTable: dynamodb.ITable;
+  inventoryTable: dynamodb.ITable;
+  reservationsTable: dynamodb.ITable;
+  sagasTable: dynamodb.ITable;
+  idempotencyKeysTable: dynamodb.ITable;
+  orderStatusHistoryTable: dynamodb.ITable;
   orderQueue: sqs.IQueue;
+  paginationTokenSecret: secretsmanager.ISecret;
+  paymentProvider: string; // Registered payment processor name
 }
 
 export class OrderApi extends Construct {
+  public readonly authorizerFn: lambda.Function;
+  // Method options that put a route behind the token authorizer
+  public readonly authorizedMethodOptions: apigateway.MethodOptions;
   public readonly createOrderFn: lambda.Function;
   public readonly getOrderFn: lambda.Function;
+  public readonly getOrderHistoryFn: lambda.Function;
   public readonly listOrdersFn: lambda.Function;
   public readonly cancelOrderFn: lambda.Function;
+  public readonly amendOrderFn: lambda.Function;
+  public readonly cancelLineFn: lambda.Function;
+  public readonly reorderOrderFn: lambda.Function;
+  public readonly refundOrderFn: lambda.Function;
+  public readonly fulfillOrderFn: lambda.Function;
+  public readonly listStoreOrdersFn: lambda.Function;
+  public readonly getPickListFn: lambda.Function;
+  public readonly getCountySummaryFn: lambda.Function;
 
   constructor(scope: Construct, id: string, props: OrderApiProps) {
     super(scope, id);
@@ -44,10 +75,47 @@ export class OrderApi extends Construct {
         NODE_OPTIONS: "--enable-source-maps",
         ORDERS_TABLE_NAME: props.ordersTable.tableName,
         ORDERS_BY_ID_TABLE_NAME: props.orderByIdTable.tableName,
+        PRODUCTS_TABLE_NAME: props.productsTable.tableName,
+        TAX_RATES_TABLE_NAME: props.taxRatesTable.tableName,
+        COMPLIANCE_RULES_TABLE_NAME: props.complianceRulesTable.tableName,
+        INVENTORY_TABLE_NAME: props.inventoryTable.tableName,
+        RESERVATIONS_TABLE_NAME: props.reservationsTable.tableName,
+        SAGAS_TABLE_NAME: props.sagasTable.tableName,
+        IDEMPOTENCY_KEYS_TABLE_NAME: props.idempotencyKeysTable.tableName,
+        ORDER_STATUS_HISTORY_TABLE_NAME: props.orderStatusHistoryTable.tableName,
         ORDER_QUEUE_URL: props.orderQueue.queueUrl,
+        PAYMENT_PROVIDER: props.paymentProvider,
+        // Read at runtime; rotating the key invalidates outstanding next tokens
+        PAGINATION_TOKEN_SECRET_ARN: props.paginationTokenSecret.secretArn,
       },
     };
 
+    // Authorizer Lambda: verifies the caller's JWT for every order and inventory API route
+    this.authorizerFn = new nodejs.NodejsFunction(this, "AuthorizerFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "authorizer.ts"),
+      functionName: "acme-order-api-authorizer",
+      description: "Verify access tokens against the identity provider's JWKS",
+      environment: {
+        NODE_OPTIONS: "--enable-source-maps",
+        AUTH_JWKS_URL: props.auth.jwksUrl,
+        AUTH_ISSUER: props.auth.issuer,
+        AUTH_AUDIENCE: props.auth.audience,
+      },
+    });
+
+    const authorizer = new apigateway.TokenAuthorizer(this, "Authorizer", {
+      handler: this.authorizerFn,
+      resultsCacheTtl: cdk.Duration.minutes(5),
+    });
+
+    // Every route below requires a verified caller; handlers check what it may do
+    const authorizedMethodOptions: apigateway.MethodOptions = {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.CUSTOM,
+    };
+    this.authorizedMethodOptions = authorizedMethodOptions;
+
     // Create Order Lambda
     this.createOrderFn = new nodejs.NodejsFunction(this, "CreateOrderFn", {
       ...commonLambdaProps,
@@ -64,6 +132,14 @@ export class OrderApi extends Construct {
       description: "Get order by ID",
     });
 
+    // Get Order History Lambda
+    this.getOrderHistoryFn = new nodejs.NodejsFunction(this, "GetOrderHistoryFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "get-order-history.ts"),
+      functionName: "acme-get-order-history",
+      description: "Get an order's status history",
+    });
+
     // List Orders Lambda
     this.listOrdersFn = new nodejs.NodejsFunction(this, "ListOrdersFn", {
       ...commonLambdaProps,
@@ -77,22 +153,135 @@ export class OrderApi extends Construct {
       ...commonLambdaProps,
       entry: path.join(lambdaDir, "cancel-order.ts"),
       functionName: "acme-cancel-order",
-      description: "Cancel an order",
+      description: "Cancel an order and queue inventory release and payment reversal",
+    });
+
+    // Amend Order Lambda
+    this.amendOrderFn = new nodejs.NodejsFunction(this, "AmendOrderFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "amend-order.ts"),
+      functionName: "acme-amend-order",
+      description: "Amend a pending or confirmed order's lines or shipping address",
+    });
+
+    // Cancel Line Lambda (store staff and customer service)
+    this.cancelLineFn = new nodejs.NodejsFunction(this, "CancelLineFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "cancel-line.ts"),
+      functionName: "acme-cancel-order-line",
+      description: "Cancel one line of a confirmed order and give back its stock and money",
+    });
+
+    // Reorder Lambda (customers)
+    this.reorderOrderFn = new nodejs.NodejsFunction(this, "ReorderOrderFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "reorder-order.ts"),
+      functionName: "acme-reorder-order",
+      description: "Preview and place a past order again at current prices and stock",
+    });
+
+    // Refund Order Lambda
+    this.refundOrderFn = new nodejs.NodejsFunction(this, "RefundOrderFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "refund-order.ts"),
+      functionName: "acme-refund-order",
+      description: "Refund a captured order in full or by line item",
+    });
+
+    // Fulfill Order Lambda (store staff)
+    this.fulfillOrderFn = new nodejs.NodejsFunction(this, "FulfillOrderFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "fulfill-order.ts"),
+      functionName: "acme-fulfill-order",
+      description: "Record an order being picked, packed, shipped or delivered",
+    });
+
+    // List Store Orders Lambda (store staff)
+    this.listStoreOrdersFn = new nodejs.NodejsFunction(this, "ListStoreOrdersFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "list-store-orders.ts"),
+      functionName: "acme-list-store-orders",
+      description: "List a store's orders by status and time window",
+    });
+
+    // Get Pick List Lambda (store staff)
+    this.getPickListFn = new nodejs.NodejsFunction(this, "GetPickListFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "get-pick-list.ts"),
+      functionName: "acme-get-pick-list",
+      description: "Roll up SKUs to pick across a store's confirmed orders",
+    });
+
+    // Get County Summary Lambda (regional managers)
+    this.getCountySummaryFn = new nodejs.NodejsFunction(this, "GetCountySummaryFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "get-county-summary.ts"),
+      functionName: "acme-get-county-summary",
+      timeout: cdk.Duration.seconds(29), // Pages the county index through the whole window; API Gateway's limit
+      description: "Summarize a county's orders, revenue and top SKUs over a window",
     });
 
     // Grant permissions
     props.ordersTable.grantReadWriteData(this.createOrderFn);
     props.ordersTable.grantReadData(this.listOrdersFn);
     props.ordersTable.grantReadWriteData(this.cancelOrderFn);
+    props.ordersTable.grantReadWriteData(this.amendOrderFn);
+    props.ordersTable.grantReadWriteData(this.cancelLineFn);
+    props.ordersTable.grantReadWriteData(this.reorderOrderFn);
+    props.ordersTable.grantReadWriteData(this.refundOrderFn);
+    props.ordersTable.grantReadWriteData(this.fulfillOrderFn);
+    props.ordersTable.grantReadData(this.listStoreOrdersFn);
+    props.ordersTable.grantReadData(this.getPickListFn);
+    props.ordersTable.grantReadData(this.getCountySummaryFn);
 
     props.orderByIdTable.grantReadWriteData(this.createOrderFn);
     props.orderByIdTable.grantReadData(this.getOrderFn);
+    props.orderByIdTable.grantReadData(this.getOrderHistoryFn);
     props.orderByIdTable.grantReadWriteData(this.cancelOrderFn);
+    props.orderByIdTable.grantReadWriteData(this.amendOrderFn);
+    props.orderByIdTable.grantReadWriteData(this.cancelLineFn);
+    props.orderByIdTable.grantReadWriteData(this.reorderOrderFn);
+    props.orderByIdTable.grantReadWriteData(this.refundOrderFn);
+    props.orderByIdTable.grantReadWriteData(this.fulfillOrderFn);
+
+    props.productsTable.grantReadData(this.createOrderFn);
+    props.productsTable.grantReadData(this.amendOrderFn);
+    props.productsTable.grantReadData(this.cancelLineFn);
+    props.productsTable.grantReadData(this.reorderOrderFn);
+    props.taxRatesTable.grantReadData(this.createOrderFn);
+    props.taxRatesTable.grantReadData(this.amendOrderFn);
+    props.taxRatesTable.grantReadData(this.reorderOrderFn);
+    props.complianceRulesTable.grantReadData(this.createOrderFn);
+    props.complianceRulesTable.grantReadData(this.amendOrderFn);
+    props.complianceRulesTable.grantReadData(this.reorderOrderFn);
+    props.inventoryTable.grantReadData(this.reorderOrderFn);
+    props.inventoryTable.grantReadWriteData(this.amendOrderFn);
+    props.reservationsTable.grantReadWriteData(this.amendOrderFn);
+    props.inventoryTable.grantReadWriteData(this.cancelLineFn);
+    props.reservationsTable.grantReadWriteData(this.cancelLineFn);
+    props.sagasTable.grantReadData(this.cancelOrderFn);
+    props.sagasTable.grantReadData(this.amendOrderFn);
+    props.idempotencyKeysTable.grantReadWriteData(this.createOrderFn);
+    props.idempotencyKeysTable.grantReadWriteData(this.reorderOrderFn);
+
+    props.orderStatusHistoryTable.grantWriteData(this.createOrderFn);
+    props.orderStatusHistoryTable.grantWriteData(this.reorderOrderFn);
+    props.orderStatusHistoryTable.grantWriteData(this.cancelOrderFn);
+    props.orderStatusHistoryTable.grantWriteData(this.fulfillOrderFn);
+    props.orderStatusHistoryTable.grantReadData(this.getOrderHistoryFn);
 
     props.orderQueue.grantSendMessages(this.createOrderFn);
+    props.orderQueue.grantSendMessages(this.reorderOrderFn);
+    props.orderQueue.grantSendMessages(this.cancelOrderFn);
+
+    props.paginationTokenSecret.grantRead(this.listOrdersFn);
+    props.paginationTokenSecret.grantRead(this.listStoreOrdersFn);
+    props.paginationTokenSecret.grantRead(this.getPickListFn);
 
     // API Gateway resources
-    const ordersResource = props.api.root.addResource("orders");
+    const ordersResource = props.api.root.addResource("orders", {
+      defaultMethodOptions: authorizedMethodOptions,
+    });
 
     // POST /orders
     ordersResource.addMethod(
@@ -117,7 +306,7 @@ export class OrderApi extends Construct {
             modelName: "CreateOrderRequest",
             schema: {
               type: apigateway.JsonSchemaType.OBJECT,
-              required: ["customer_id", "store_id", "county_id", "items", "shipping_address"],
+              required: ["customer_id", "store_id", "county_id", "items", "shipping_address", "payment_method"],
               properties: {
                 customer_id: { type: apigateway.JsonSchemaType.STRING },
                 store_id: { type: apigateway.JsonSchemaType.STRING },
@@ -126,12 +315,19 @@ export class OrderApi extends Construct {
                   type: apigateway.JsonSchemaType.ARRAY,
                   items: {
                     type: apigateway.JsonSchemaType.OBJECT,
-                    required: ["sku", "name", "quantity", "unit_price"],
+                    required: ["sku", "quantity"],
                     properties: {
                       sku: { type: apigateway.JsonSchemaType.STRING },
                       name: { type: apigateway.JsonSchemaType.STRING },
                       quantity: { type: apigateway.JsonSchemaType.INTEGER },
-                      unit_price: { type: apigateway.JsonSchemaType.NUMBER },
+                      unit_price: {
+                        type: apigateway.JsonSchemaType.OBJECT,
+                        required: ["amount", "currency"],
+                        properties: {
+                          amount: { type: apigateway.JsonSchemaType.INTEGER },
+                          currency: { type: apigateway.JsonSchemaType.STRING },
+                        },
+                      },
                     },
                   },
                 },
@@ -145,6 +341,7 @@ export class OrderApi extends Construct {
                     zip: { type: apigateway.JsonSchemaType.STRING },
                   },
                 },
+                payment_method: { type: apigateway.JsonSchemaType.STRING },
               },
             },
           }),
@@ -192,5 +389,129 @@ export class OrderApi extends Construct {
         operationName: "CancelOrder",
       }
     );
+
+    // PATCH /orders/{order_id}
+    orderResource.addMethod(
+      "PATCH",
+      new apigateway.LambdaIntegration(this.amendOrderFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "AmendOrder",
+      }
+    );
+
+    // POST /orders/{order_id}/items/{sku}/cancel
+    orderResource.addResource("items").addResource("{sku}").addResource("cancel").addMethod(
+      "POST",
+      new apigateway.LambdaIntegration(this.cancelLineFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "CancelOrderLine",
+      }
+    );
+
+    // POST /orders/{order_id}/reorder
+    orderResource.addResource("reorder").addMethod(
+      "POST",
+      new apigateway.LambdaIntegration(this.reorderOrderFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "ReorderOrder",
+      }
+    );
+
+    // GET /orders/{order_id}/history
+    orderResource.addResource("history").addMethod(
+      "GET",
+      new apigateway.LambdaIntegration(this.getOrderHistoryFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "GetOrderHistory",
+      }
+    );
+
+    // POST /orders/{order_id}/refunds
+    orderResource.addResource("refunds").addMethod(
+      "POST",
+      new apigateway.LambdaIntegration(this.refundOrderFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "RefundOrder",
+        requestParameters: {
+          "method.request.header.X-Idempotency-Key": true,
+        },
+      }
+    );
+
+    // POST /orders/{order_id}/fulfillment/{step}
+    orderResource.addResource("fulfillment").addResource("{step}").addMethod(
+      "POST",
+      new apigateway.LambdaIntegration(this.fulfillOrderFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "FulfillOrder",
+      }
+    );
+
+    // Store resources
+    const storeResource = props.api.root
+      .addResource("stores", { defaultMethodOptions: authorizedMethodOptions })
+      .addResource("{store_id}");
+
+    // GET /stores/{store_id}/orders
+    storeResource.addResource("orders").addMethod(
+      "GET",
+      new apigateway.LambdaIntegration(this.listStoreOrdersFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "ListStoreOrders",
+        requestParameters: {
+          "method.request.querystring.status": false,
+          "method.request.querystring.from": false,
+          "method.request.querystring.to": false,
+          "method.request.querystring.limit": false,
+          "method.request.querystring.next_token": false,
+        },
+      }
+    );
+
+    // GET /stores/{store_id}/pick-list
+    storeResource.addResource("pick-list").addMethod(
+      "GET",
+      new apigateway.LambdaIntegration(this.getPickListFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "GetPickList",
+      }
+    );
+
+    // County resources
+    const countyResource = props.api.root
+      .addResource("counties", { defaultMethodOptions: authorizedMethodOptions })
+      .addResource("{county_id}");
+
+    // GET /counties/{county_id}/summary
+    countyResource.addResource("summary").addMethod(
+      "GET",
+      new apigateway.LambdaIntegration(this.getCountySummaryFn, {
+        proxy: true,
+      }),
+      {
+        operationName: "GetCountySummary",
+        requestParameters: {
+          "method.request.querystring.from": false,
+          "method.request.querystring.to": false,
+          "method.request.querystring.top": false,
+        },
+      }
+    );
   }
 }
@@ -4,6 +4,8 @@ import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
 import * as sqs from "aws-cdk-lib/aws-sqs";
 import * as sns from "aws-cdk-lib/aws-sns";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventsTargets from "aws-cdk-lib/aws-events-targets";
 import * as logs from "aws-cdk-lib/aws-logs";
 import * as lambdaEventSources from "aws-cdk-lib/aws-lambda-event-sources";
 import { Construct } from "constructs";
@@ -14,14 +16,26 @@ export interface OrderProcessorProps {
   ordersTable: dynamodb.ITable;
   orderByIdTable: dynamodb.ITable;
   inventoryTable: dynamodb.ITable;
+  customersTable: dynamodb.ITable;
+  ageVerificationsTable: dynamodb.ITable;
+  sagasTable: dynamodb.ITable;
+  reservationsTable: dynamodb.ITable;
+  orderStatusHistoryTable: dynamodb.ITable;
   notificationTopic: sns.ITopic;
+  paymentProvider: string; // Registered payment processor name
+  ageVerifier: string; // Registered age verifier name
 }
 
 export class OrderProcessor extends Construct {
   public readonly processOrderFn: lambda.Function;
+  public readonly verifyAgeFn: lambda.Function;
   public readonly reserveInventoryFn: lambda.Function;
-  public readonly processPaymentFn: lambda.Function;
+  public readonly releaseInventoryFn: lambda.Function;
+  public readonly authorizePaymentFn: lambda.Function;
+  public readonly voidPaymentFn: lambda.Function;
   public readonly sendNotificationsFn: lambda.Function;
+  public readonly sweepReservationsFn: lambda.Function;
+  public readonly repairOrderDriftFn: lambda.Function;
 
   constructor(scope: Construct, id: string, props: OrderProcessorProps) {
     super(scope, id);
@@ -46,8 +60,15 @@ export class OrderProcessor extends Construct {
         ORDERS_TABLE_NAME: props.ordersTable.tableName,
         ORDERS_BY_ID_TABLE_NAME: props.orderByIdTable.tableName,
         INVENTORY_TABLE_NAME: props.inventoryTable.tableName,
+        CUSTOMERS_TABLE_NAME: props.customersTable.tableName,
+        AGE_VERIFICATIONS_TABLE_NAME: props.ageVerificationsTable.tableName,
+        SAGAS_TABLE_NAME: props.sagasTable.tableName,
+        RESERVATIONS_TABLE_NAME: props.reservationsTable.tableName,
+        ORDER_STATUS_HISTORY_TABLE_NAME: props.orderStatusHistoryTable.tableName,
         ORDER_QUEUE_URL: props.orderQueue.queueUrl,
         NOTIFICATION_TOPIC_ARN: props.notificationTopic.topicArn,
+        PAYMENT_PROVIDER: props.paymentProvider,
+        AGE_VERIFIER: props.ageVerifier,
       },
     };
 
@@ -60,6 +81,14 @@ export class OrderProcessor extends Construct {
       reservedConcurrentExecutions: 50, // Limit concurrency
     });
 
+    // Verify Age Lambda
+    this.verifyAgeFn = new nodejs.NodejsFunction(this, "VerifyAgeFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "verify-age.ts"),
+      functionName: "acme-verify-age",
+      description: "Verify buyer is of legal drinking age",
+    });
+
     // Reserve Inventory Lambda
     this.reserveInventoryFn = new nodejs.NodejsFunction(this, "ReserveInventoryFn", {
       ...commonLambdaProps,
@@ -68,12 +97,28 @@ export class OrderProcessor extends Construct {
       description: "Reserve inventory for order items",
     });
 
-    // Process Payment Lambda
-    this.processPaymentFn = new nodejs.NodejsFunction(this, "ProcessPaymentFn", {
+    // Release Inventory Lambda (saga compensation)
+    this.releaseInventoryFn = new nodejs.NodejsFunction(this, "ReleaseInventoryFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "release-inventory.ts"),
+      functionName: "acme-release-inventory",
+      description: "Release an inventory reservation",
+    });
+
+    // Authorize Payment Lambda
+    this.authorizePaymentFn = new nodejs.NodejsFunction(this, "AuthorizePaymentFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "authorize-payment.ts"),
+      functionName: "acme-authorize-payment",
+      description: "Authorize payment for order",
+    });
+
+    // Void Payment Lambda (saga compensation)
+    this.voidPaymentFn = new nodejs.NodejsFunction(this, "VoidPaymentFn", {
       ...commonLambdaProps,
-      entry: path.join(lambdaDir, "process-payment.ts"),
-      functionName: "acme-process-payment",
-      description: "Process payment for order",
+      entry: path.join(lambdaDir, "void-payment.ts"),
+      functionName: "acme-void-payment",
+      description: "Void a payment authorization for a failed order",
     });
 
     // Send Notifications Lambda
@@ -84,18 +129,70 @@ export class OrderProcessor extends Construct {
       description: "Send order notifications via SNS",
     });
 
+    // Sweep Reservations Lambda (scheduled)
+    this.sweepReservationsFn = new nodejs.NodejsFunction(this, "SweepReservationsFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "sweep-reservations.ts"),
+      functionName: "acme-sweep-reservations",
+      description: "Release expired inventory reservations",
+      timeout: cdk.Duration.minutes(2),
+      reservedConcurrentExecutions: 1,
+    });
+
+    new events.Rule(this, "SweepReservationsSchedule", {
+      ruleName: "acme-sweep-reservations",
+      description: "Release expired inventory reservations",
+      schedule: events.Schedule.rate(cdk.Duration.minutes(5)),
+      targets: [new eventsTargets.LambdaFunction(this.sweepReservationsFn)],
+    });
+
+    // Repair Order Drift Lambda (scheduled)
+    this.repairOrderDriftFn = new nodejs.NodejsFunction(this, "RepairOrderDriftFn", {
+      ...commonLambdaProps,
+      entry: path.join(lambdaDir, "repair-order-drift.ts"),
+      functionName: "acme-repair-order-drift",
+      description: "Reconcile the Orders and OrderById tables",
+      timeout: cdk.Duration.minutes(15),
+      reservedConcurrentExecutions: 1,
+    });
+
+    new events.Rule(this, "RepairOrderDriftSchedule", {
+      ruleName: "acme-repair-order-drift",
+      description: "Reconcile the Orders and OrderById tables",
+      schedule: events.Schedule.cron({ minute: "0", hour: "8" }), // 08:00 UTC, overnight in the US
+      targets: [new eventsTargets.LambdaFunction(this.repairOrderDriftFn)],
+    });
+
     // Grant DynamoDB permissions
     props.ordersTable.grantReadWriteData(this.processOrderFn);
     props.ordersTable.grantReadWriteData(this.reserveInventoryFn);
-    props.ordersTable.grantReadWriteData(this.processPaymentFn);
+    props.ordersTable.grantReadWriteData(this.authorizePaymentFn);
+    props.ordersTable.grantReadWriteData(this.voidPaymentFn);
     props.ordersTable.grantReadData(this.sendNotificationsFn);
+    props.ordersTable.grantReadWriteData(this.repairOrderDriftFn);
 
     props.orderByIdTable.grantReadWriteData(this.processOrderFn);
     props.orderByIdTable.grantReadWriteData(this.reserveInventoryFn);
-    props.orderByIdTable.grantReadWriteData(this.processPaymentFn);
+    props.orderByIdTable.grantReadWriteData(this.authorizePaymentFn);
+    props.orderByIdTable.grantReadWriteData(this.voidPaymentFn);
     props.orderByIdTable.grantReadData(this.sendNotificationsFn);
+    props.orderByIdTable.grantReadWriteData(this.repairOrderDriftFn);
 
+    props.inventoryTable.grantReadWriteData(this.processOrderFn); // Cancellation releases inventory
     props.inventoryTable.grantReadWriteData(this.reserveInventoryFn);
+    props.inventoryTable.grantReadWriteData(this.releaseInventoryFn);
+    props.inventoryTable.grantReadWriteData(this.sweepReservationsFn);
+
+    props.reservationsTable.grantReadWriteData(this.reserveInventoryFn);
+    props.reservationsTable.grantReadWriteData(this.releaseInventoryFn);
+    props.reservationsTable.grantReadWriteData(this.processOrderFn);
+    props.reservationsTable.grantReadWriteData(this.sweepReservationsFn);
+
+    props.sagasTable.grantReadWriteData(this.processOrderFn);
+    props.orderStatusHistoryTable.grantWriteData(this.processOrderFn);
+
+    props.customersTable.grantReadData(this.verifyAgeFn);
+    props.ageVerificationsTable.grantWriteData(this.verifyAgeFn);
 
     // Grant SQS permissions
     props.orderQueue.grantConsumeMessages(this.processOrderFn);
@@ -114,18 +211,33 @@ export class OrderProcessor extends Construct {
     );
 
     // Allow process order to invoke other functions
+    this.verifyAgeFn.grantInvoke(this.processOrderFn);
     this.reserveInventoryFn.grantInvoke(this.processOrderFn);
-    this.processPaymentFn.grantInvoke(this.processOrderFn);
+    this.releaseInventoryFn.grantInvoke(this.processOrderFn);
+    this.authorizePaymentFn.grantInvoke(this.processOrderFn);
+    this.voidPaymentFn.grantInvoke(this.processOrderFn);
     this.sendNotificationsFn.grantInvoke(this.processOrderFn);
 
     // Add function ARNs to process order environment
+    this.processOrderFn.addEnvironment(
+      "VERIFY_AGE_FN_ARN",
+      this.verifyAgeFn.functionArn
+    );
     this.processOrderFn.addEnvironment(
       "RESERVE_INVENTORY_FN_ARN",
       this.reserveInventoryFn.functionArn
     );
     this.processOrderFn.addEnvironment(
-      "PROCESS_PAYMENT_FN_ARN",
-      this.processPaymentFn.functionArn
+      "RELEASE_INVENTORY_FN_ARN",
+      this.releaseInventoryFn.functionArn
+    );
+    this.processOrderFn.addEnvironment(
+      "AUTHORIZE_PAYMENT_FN_ARN",
+      this.authorizePaymentFn.functionArn
+    );
+    this.processOrderFn.addEnvironment(
+      "VOID_PAYMENT_FN_ARN",
+      this.voidPaymentFn.functionArn
     );
     this.processOrderFn.addEnvironment(
       "SEND_NOTIFICATIONS_FN_ARN",
@@ -94,9 +94,10 @@ export class AnalyticsStack extends cdk.Stack {
             { name: "county_id", type: "string" },
             { name: "status", type: "string" },
             { name: "payment_state", type: "string" },
-            { name: "subtotal", type: "double" },
-            { name: "tax", type: "double" },
-            { name: "total", type: "double" },
+            { name: "subtotal", type: "decimal(12,2)" },
+            { name: "tax", type: "decimal(12,2)" },
+            { name: "total", type: "decimal(12,2)" },
+            { name: "currency", type: "string" },
             { name: "item_count", type: "int" },
             { name: "event_timestamp", type: "timestamp" },
             { name: "created_at", type: "timestamp" },
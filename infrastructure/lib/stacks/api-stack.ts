@@ -3,13 +3,26 @@ import * as apigateway from "aws-cdk-lib/aws-apigateway";
 import * as wafv2 from "aws-cdk-lib/aws-wafv2";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 import { Construct } from "constructs";
-import { OrderApi } from "../constructs/order-api";
+import { OrderApi, OrderApiAuthConfig } from "../constructs/order-api";
+import { InventoryApi } from "../constructs/inventory-api";
 
 export interface ApiStackProps extends cdk.StackProps {
   ordersTable: dynamodb.ITable;
   orderByIdTable: dynamodb.ITable;
+  productsTable: dynamodb.ITable;
+  taxRatesTable: dynamodb.ITable;
+  complianceRulesTable: dynamodb.ITable;
+  inventoryTable: dynamodb.ITable;
+  inventoryAdjustmentsTable: dynamodb.ITable;
+  reservationsTable: dynamodb.ITable;
+  sagasTable: dynamodb.ITable;
+  idempotencyKeysTable: dynamodb.ITable;
+  orderStatusHistoryTable: dynamodb.ITable;
   orderQueue: sqs.IQueue;
+  auth: OrderApiAuthConfig;
+  paymentProvider: string;
 }
 
 export class ApiStack extends cdk.Stack {
@@ -113,11 +126,41 @@ export class ApiStack extends cdk.Stack {
     });
 
     // Create Order API endpoints
-    new OrderApi(this, "OrderApi", {
+    // Key that signs list endpoints' next tokens
+    const paginationTokenSecret = new secretsmanager.Secret(this, "PaginationTokenSecret", {
+      secretName: "acme-liquors/pagination-token-key",
+      description: "HMAC key for signing pagination tokens",
+      generateSecretString: {
+        passwordLength: 64,
+        excludePunctuation: true,
+      },
+    });
+
+    const orderApi = new OrderApi(this, "OrderApi", {
       api: this.api,
+      auth: props.auth,
       ordersTable: props.ordersTable,
       orderByIdTable: props.orderByIdTable,
+      productsTable: props.productsTable,
+      taxRatesTable: props.taxRatesTable,
+      complianceRulesTable: props.complianceRulesTable,
+      inventoryTable: props.inventoryTable,
+      reservationsTable: props.reservationsTable,
+      sagasTable: props.sagasTable,
+      idempotencyKeysTable: props.idempotencyKeysTable,
+      orderStatusHistoryTable: props.orderStatusHistoryTable,
       orderQueue: props.orderQueue,
+      paginationTokenSecret,
+      paymentProvider: props.paymentProvider,
+    });
+
+    // Create Inventory API endpoints
+    new InventoryApi(this, "InventoryApi", {
+      api: this.api,
+      inventoryTable: props.inventoryTable,
+      inventoryAdjustmentsTable: props.inventoryAdjustmentsTable,
+      paginationTokenSecret,
+      authorizedMethodOptions: orderApi.authorizedMethodOptions,
     });
 
     // Outputs
@@ -8,6 +8,17 @@ export class DatabaseStack extends cdk.Stack {
   public readonly ordersTable: dynamodb.Table;
   public readonly orderByIdTable: dynamodb.Table;
   public readonly inventoryTable: dynamodb.Table;
+  public readonly productsTable: dynamodb.Table;
+  public readonly taxRatesTable: dynamodb.Table;
+  public readonly complianceRulesTable: dynamodb.Table;
+  public readonly customersTable: dynamodb.Table;
+  public readonly ageVerificationsTable: dynamodb.Table;
+  public readonly sagasTable: dynamodb.Table;
+  public readonly idempotencyKeysTable: dynamodb.Table;
+  public readonly orderStatusHistoryTable: dynamodb.Table;
+  public readonly reservationsTable: dynamodb.Table;
+  public readonly inventoryAdjustmentsTable: dynamodb.Table;
+  public readonly inventoryAlertsTable: dynamodb.Table;
   public readonly encryptionKey: kms.Key;
 
   constructor(scope: Construct, id: string, props?: cdk.StackProps) {
@@ -52,9 +63,228 @@ export class DatabaseStack extends cdk.Stack {
       encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
       encryptionKey: this.encryptionKey,
       pointInTimeRecovery: true,
+      stream: dynamodb.StreamViewType.NEW_AND_OLD_IMAGES, // For low-stock alerts
       removalPolicy: cdk.RemovalPolicy.RETAIN,
     });
 
+    // GSI: Inventory by store (store listing)
+    this.inventoryTable.addGlobalSecondaryIndex({
+      indexName: "store-inventory-index",
+      partitionKey: {
+        name: "store_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "sku",
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Inventory adjustments table (append-only ledger of reason-coded changes)
+    this.inventoryAdjustmentsTable = new dynamodb.Table(this, "InventoryAdjustmentsTable", {
+      tableName: "acme-inventory-adjustments",
+      partitionKey: {
+        name: "store_sku",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "adjustment_ts_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Inventory alerts table (last low-stock alert per SKU, for de-duplication)
+    this.inventoryAlertsTable = new dynamodb.Table(this, "InventoryAlertsTable", {
+      tableName: "acme-inventory-alerts",
+      partitionKey: {
+        name: "store_sku",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      timeToLiveAttribute: "ttl",
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Products table (catalog and price authority)
+    this.productsTable = new dynamodb.Table(this, "ProductsTable", {
+      tableName: "acme-products",
+      partitionKey: {
+        name: "sku",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Tax rates table (versioned, effective-dated rate tables per jurisdiction)
+    // Sort key is effective_from#version, so tables published for the same
+    // instant don't overwrite each other
+    this.taxRatesTable = new dynamodb.Table(this, "TaxRatesTable", {
+      tableName: "acme-tax-rates",
+      partitionKey: {
+        name: "jurisdiction_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "effective_version",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Compliance rules table (wet/dry status and sale restrictions per county)
+    this.complianceRulesTable = new dynamodb.Table(this, "ComplianceRulesTable", {
+      tableName: "acme-compliance-rules",
+      partitionKey: {
+        name: "county_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Customers table (profiles, including date of birth)
+    this.customersTable = new dynamodb.Table(this, "CustomersTable", {
+      tableName: "acme-customers",
+      partitionKey: {
+        name: "customer_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Age verification audit table (append-only, one row per attempt)
+    this.ageVerificationsTable = new dynamodb.Table(this, "AgeVerificationsTable", {
+      tableName: "acme-age-verifications",
+      partitionKey: {
+        name: "order_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "verified_at",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Order saga state table (step progress per order)
+    this.sagasTable = new dynamodb.Table(this, "OrderSagasTable", {
+      tableName: "acme-order-sagas",
+      partitionKey: {
+        name: "saga_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Idempotency keys table (one row per customer and key, expires after a day)
+    this.idempotencyKeysTable = new dynamodb.Table(this, "IdempotencyKeysTable", {
+      tableName: "acme-idempotency-keys",
+      partitionKey: {
+        name: "customer_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "idempotency_key",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      timeToLiveAttribute: "ttl",
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Order status history table (append-only, one row per status change)
+    this.orderStatusHistoryTable = new dynamodb.Table(this, "OrderStatusHistoryTable", {
+      tableName: "acme-order-status-history",
+      partitionKey: {
+        name: "order_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "changed_ts_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // Inventory reservations table (one row per reserved line)
+    this.reservationsTable = new dynamodb.Table(this, "ReservationsTable", {
+      tableName: "acme-reservations",
+      partitionKey: {
+        name: "reservation_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "store_sku",
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED,
+      encryptionKey: this.encryptionKey,
+      pointInTimeRecovery: true,
+      removalPolicy: cdk.RemovalPolicy.RETAIN,
+    });
+
+    // GSI: Reservations by order
+    this.reservationsTable.addGlobalSecondaryIndex({
+      indexName: "order-reservation-index",
+      partitionKey: {
+        name: "order_id",
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // GSI: Reservations by status and expiry (for the expiry sweeper)
+    this.reservationsTable.addGlobalSecondaryIndex({
+      indexName: "status-expiry-index",
+      partitionKey: {
+        name: "status",
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: "expires_at",
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
     // Outputs
     new cdk.CfnOutput(this, "OrdersTableName", {
       value: this.ordersTable.tableName,
@@ -66,11 +296,66 @@ export class DatabaseStack extends cdk.Stack {
       exportName: "AcmeLiquors-OrderByIdTableName",
     });
 
+    new cdk.CfnOutput(this, "OrderStatusHistoryTableName", {
+      value: this.orderStatusHistoryTable.tableName,
+      exportName: "AcmeLiquors-OrderStatusHistoryTableName",
+    });
+
     new cdk.CfnOutput(this, "InventoryTableName", {
       value: this.inventoryTable.tableName,
       exportName: "AcmeLiquors-InventoryTableName",
     });
 
+    new cdk.CfnOutput(this, "InventoryAdjustmentsTableName", {
+      value: this.inventoryAdjustmentsTable.tableName,
+      exportName: "AcmeLiquors-InventoryAdjustmentsTableName",
+    });
+
+    new cdk.CfnOutput(this, "InventoryAlertsTableName", {
+      value: this.inventoryAlertsTable.tableName,
+      exportName: "AcmeLiquors-InventoryAlertsTableName",
+    });
+
+    new cdk.CfnOutput(this, "ProductsTableName", {
+      value: this.productsTable.tableName,
+      exportName: "AcmeLiquors-ProductsTableName",
+    });
+
+    new cdk.CfnOutput(this, "TaxRatesTableName", {
+      value: this.taxRatesTable.tableName,
+      exportName: "AcmeLiquors-TaxRatesTableName",
+    });
+
+    new cdk.CfnOutput(this, "ComplianceRulesTableName", {
+      value: this.complianceRulesTable.tableName,
+      exportName: "AcmeLiquors-ComplianceRulesTableName",
+    });
+
+    new cdk.CfnOutput(this, "CustomersTableName", {
+      value: this.customersTable.tableName,
+      exportName: "AcmeLiquors-CustomersTableName",
+    });
+
+    new cdk.CfnOutput(this, "AgeVerificationsTableName", {
+      value: this.ageVerificationsTable.tableName,
+      exportName: "AcmeLiquors-AgeVerificationsTableName",
+    });
+
+    new cdk.CfnOutput(this, "OrderSagasTableName", {
+      value: this.sagasTable.tableName,
+      exportName: "AcmeLiquors-OrderSagasTableName",
+    });
+
+    new cdk.CfnOutput(this, "IdempotencyKeysTableName", {
+      value: this.idempotencyKeysTable.tableName,
+      exportName: "AcmeLiquors-IdempotencyKeysTableName",
+    });
+
+    new cdk.CfnOutput(this, "ReservationsTableName", {
+      value: this.reservationsTable.tableName,
+      exportName: "AcmeLiquors-ReservationsTableName",
+    });
+
     new cdk.CfnOutput(this, "OrdersTableStreamArn", {
       value: this.ordersTable.tableStreamArn ?? "",
       exportName: "AcmeLiquors-OrdersTableStreamArn",
@@ -5,17 +5,27 @@ import * as lambda from "aws-cdk-lib/aws-lambda";
 import * as nodejs from "aws-cdk-lib/aws-lambda-nodejs";
 import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import * as logs from "aws-cdk-lib/aws-logs";
+import * as sns from "aws-cdk-lib/aws-sns";
 import * as lambdaEventSources from "aws-cdk-lib/aws-lambda-event-sources";
 import { Construct } from "constructs";
 import * as path from "path";
 
 export interface EventsStackProps extends cdk.StackProps {
   ordersTable: dynamodb.ITable;
+  orderByIdTable: dynamodb.ITable;
+  inventoryTable: dynamodb.ITable;
+  reservationsTable: dynamodb.ITable;
+  inventoryAlertsTable: dynamodb.ITable;
+  paymentProvider: string; // Registered payment processor name, for captures
 }
 
 export class EventsStack extends cdk.Stack {
   public readonly eventBus: events.EventBus;
   public readonly streamProcessorFn: lambda.Function;
+  public readonly inventoryAlertsFn: lambda.Function;
+  public readonly reorderReportFn: lambda.Function;
+  public readonly inventoryAlertTopic: sns.Topic;
+  public readonly reorderReportTopic: sns.Topic;
 
   constructor(scope: Construct, id: string, props: EventsStackProps) {
     super(scope, id, props);
@@ -31,7 +41,7 @@ export class EventsStack extends cdk.Stack {
       archiveName: "acme-orders-archive",
       description: "Archive of all order events for replay",
       eventPattern: {
-        source: ["acme.orders"],
+        source: ["acme.orders", "acme.inventory"],
       },
       retention: cdk.Duration.days(90),
     });
@@ -44,7 +54,7 @@ export class EventsStack extends cdk.Stack {
       architecture: lambda.Architecture.ARM_64,
       entry: path.join(lambdaDir, "stream-handler.ts"),
       functionName: "acme-stream-processor",
-      description: "Process DynamoDB Streams and publish to EventBridge",
+      description: "Process DynamoDB Streams, publish to EventBridge and apply inventory and payment changes",
       memorySize: 256,
       timeout: cdk.Duration.seconds(30),
       tracing: lambda.Tracing.ACTIVE,
@@ -57,12 +67,25 @@ export class EventsStack extends cdk.Stack {
       environment: {
         NODE_OPTIONS: "--enable-source-maps",
         EVENT_BUS_NAME: this.eventBus.eventBusName,
+        ORDERS_TABLE_NAME: props.ordersTable.tableName,
+        ORDERS_BY_ID_TABLE_NAME: props.orderByIdTable.tableName,
+        INVENTORY_TABLE_NAME: props.inventoryTable.tableName,
+        RESERVATIONS_TABLE_NAME: props.reservationsTable.tableName,
+        PAYMENT_PROVIDER: props.paymentProvider,
       },
     });
 
     // Grant permissions to publish to EventBridge
     this.eventBus.grantPutEventsTo(this.streamProcessorFn);
 
+    // Grant permissions to record payment captures on both order tables
+    props.ordersTable.grantReadWriteData(this.streamProcessorFn);
+    props.orderByIdTable.grantReadWriteData(this.streamProcessorFn);
+
+    // Grant permissions to commit and release inventory reservations
+    props.inventoryTable.grantReadWriteData(this.streamProcessorFn);
+    props.reservationsTable.grantReadWriteData(this.streamProcessorFn);
+
     // Add DynamoDB Streams trigger
     this.streamProcessorFn.addEventSource(
       new lambdaEventSources.DynamoEventSource(props.ordersTable, {
@@ -94,7 +117,7 @@ export class EventsStack extends cdk.Stack {
       ruleName: "log-all-order-events",
       description: "Log all order events to CloudWatch",
       eventPattern: {
-        source: ["acme.orders"],
+        source: ["acme.orders", "acme.inventory"],
       },
       targets: [new eventsTargets.CloudWatchLogGroup(eventLogGroup)],
     });
@@ -140,13 +163,122 @@ export class EventsStack extends cdk.Stack {
         source: ["acme.orders"],
         detailType: ["Order Created"],
         detail: {
-          total: [{ numeric: [">", 500] }],
+          // Totals are Money in minor units: $500.00 = 50000 cents
+          total: { amount: [{ numeric: [">", 50000] }] },
         },
       },
       // Add targets for special handling of high-value orders
       // targets: [new eventsTargets.LambdaFunction(vipHandlerFn)],
     });
 
+    // Inventory table stream processor Lambda (low-stock alerts)
+    this.inventoryAlertsFn = new nodejs.NodejsFunction(this, "InventoryAlertsFn", {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      entry: path.join(lambdaDir, "inventory-alerts.ts"),
+      functionName: "acme-inventory-alerts",
+      description: "Publish low-stock alerts from the inventory table stream",
+      memorySize: 256,
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_MONTH,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ["@aws-sdk/*"],
+      },
+      environment: {
+        NODE_OPTIONS: "--enable-source-maps",
+        EVENT_BUS_NAME: this.eventBus.eventBusName,
+        INVENTORY_ALERTS_TABLE_NAME: props.inventoryAlertsTable.tableName,
+      },
+    });
+
+    this.eventBus.grantPutEventsTo(this.inventoryAlertsFn);
+    props.inventoryAlertsTable.grantReadWriteData(this.inventoryAlertsFn);
+
+    this.inventoryAlertsFn.addEventSource(
+      new lambdaEventSources.DynamoEventSource(props.inventoryTable, {
+        startingPosition: lambda.StartingPosition.LATEST,
+        batchSize: 100,
+        maxBatchingWindow: cdk.Duration.seconds(5),
+        retryAttempts: 3,
+        reportBatchItemFailures: true,
+        filters: [
+          lambda.FilterCriteria.filter({
+            eventName: lambda.FilterRule.or("INSERT", "MODIFY"),
+          }),
+        ],
+      })
+    );
+
+    // Daily reorder report Lambda
+    this.reorderReportFn = new nodejs.NodejsFunction(this, "ReorderReportFn", {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      architecture: lambda.Architecture.ARM_64,
+      entry: path.join(lambdaDir, "reorder-report.ts"),
+      functionName: "acme-reorder-report",
+      description: "Publish the daily per-store reorder suggestion report",
+      memorySize: 512,
+      timeout: cdk.Duration.minutes(5),
+      tracing: lambda.Tracing.ACTIVE,
+      logRetention: logs.RetentionDays.ONE_MONTH,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ["@aws-sdk/*"],
+      },
+      environment: {
+        NODE_OPTIONS: "--enable-source-maps",
+        EVENT_BUS_NAME: this.eventBus.eventBusName,
+        INVENTORY_TABLE_NAME: props.inventoryTable.tableName,
+      },
+    });
+
+    this.eventBus.grantPutEventsTo(this.reorderReportFn);
+    props.inventoryTable.grantReadData(this.reorderReportFn);
+
+    new events.Rule(this, "ReorderReportSchedule", {
+      ruleName: "acme-reorder-report",
+      description: "Publish the reorder report before stores open",
+      schedule: events.Schedule.cron({ minute: "0", hour: "10" }), // 10:00 UTC
+      targets: [new eventsTargets.LambdaFunction(this.reorderReportFn)],
+    });
+
+    // Store managers subscribe to low-stock alerts
+    this.inventoryAlertTopic = new sns.Topic(this, "InventoryAlertTopic", {
+      topicName: "acme-inventory-alerts",
+      displayName: "ACME Liquors Low Stock Alerts",
+    });
+
+    new events.Rule(this, "InventoryLowRule", {
+      eventBus: this.eventBus,
+      ruleName: "inventory-low",
+      description: "Notify store managers when a SKU drops below its reorder level",
+      eventPattern: {
+        source: ["acme.inventory"],
+        detailType: ["Inventory Low"],
+      },
+      targets: [new eventsTargets.SnsTopic(this.inventoryAlertTopic)],
+    });
+
+    // Purchasing subscribes to the reorder report
+    this.reorderReportTopic = new sns.Topic(this, "ReorderReportTopic", {
+      topicName: "acme-reorder-reports",
+      displayName: "ACME Liquors Reorder Reports",
+    });
+
+    new events.Rule(this, "ReorderReportRule", {
+      eventBus: this.eventBus,
+      ruleName: "inventory-reorder-report",
+      description: "Send the daily reorder report to purchasing",
+      eventPattern: {
+        source: ["acme.inventory"],
+        detailType: ["Inventory Reorder Report"],
+      },
+      targets: [new eventsTargets.SnsTopic(this.reorderReportTopic)],
+    });
+
     // Outputs
     new cdk.CfnOutput(this, "EventBusName", {
       value: this.eventBus.eventBusName,
@@ -158,6 +290,16 @@ export class EventsStack extends cdk.Stack {
       exportName: "AcmeLiquors-EventBusArn",
     });
 
+    new cdk.CfnOutput(this, "InventoryAlertTopicArn", {
+      value: this.inventoryAlertTopic.topicArn,
+      exportName: "AcmeLiquors-InventoryAlertTopicArn",
+    });
+
+    new cdk.CfnOutput(this, "ReorderReportTopicArn", {
+      value: this.reorderReportTopic.topicArn,
+      exportName: "AcmeLiquors-ReorderReportTopicArn",
+    });
+
     new cdk.CfnOutput(this, "StreamProcessorFnArn", {
       value: this.streamProcessorFn.functionArn,
       exportName: "AcmeLiquors-StreamProcessorFnArn",
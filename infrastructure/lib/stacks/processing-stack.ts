@@ -9,6 +9,13 @@ export interface ProcessingStackProps extends cdk.StackProps {
   ordersTable?: dynamodb.ITable;
   orderByIdTable?: dynamodb.ITable;
   inventoryTable?: dynamodb.ITable;
+  customersTable?: dynamodb.ITable;
+  ageVerificationsTable?: dynamodb.ITable;
+  sagasTable?: dynamodb.ITable;
+  reservationsTable?: dynamodb.ITable;
+  orderStatusHistoryTable?: dynamodb.ITable;
+  paymentProvider?: string; // PAYMENT_PROVIDER for the payment steps
+  ageVerifier?: string; // AGE_VERIFIER for the age check
 }
 
 export class ProcessingStack extends cdk.Stack {
@@ -45,13 +52,31 @@ export class ProcessingStack extends cdk.Stack {
     });
 
     // Create order processor Lambda functions (if tables are provided)
-    if (props?.ordersTable && props?.orderByIdTable && props?.inventoryTable) {
+    if (
+      props?.ordersTable &&
+      props?.orderByIdTable &&
+      props?.inventoryTable &&
+      props?.customersTable &&
+      props?.ageVerificationsTable &&
+      props?.sagasTable &&
+      props?.reservationsTable &&
+      props?.orderStatusHistoryTable &&
+      props?.paymentProvider &&
+      props?.ageVerifier
+    ) {
       new OrderProcessor(this, "OrderProcessor", {
         orderQueue: this.orderQueue,
         ordersTable: props.ordersTable,
         orderByIdTable: props.orderByIdTable,
         inventoryTable: props.inventoryTable,
+        customersTable: props.customersTable,
+        ageVerificationsTable: props.ageVerificationsTable,
+        sagasTable: props.sagasTable,
+        reservationsTable: props.reservationsTable,
+        orderStatusHistoryTable: props.orderStatusHistoryTable,
         notificationTopic: this.notificationTopic,
+        paymentProvider: props.paymentProvider,
+        ageVerifier: props.ageVerifier,
       });
     }
 
@@ -9,8 +9,10 @@ import {
   TableNames,
   Order,
   OrderById,
+  OrderItem,
   OrderStatus,
   PaymentState,
+  fromDecimalString,
 } from "@acme-liquors/shared";
 import { BatchWriteCommand } from "@aws-sdk/lib-dynamodb";
 
@@ -219,8 +221,8 @@ async function fetchOrdersFromSql(
         'sku', oi.sku,
         'name', oi.name,
         'quantity', oi.quantity,
-        'unit_price', oi.unit_price,
-        'total_price', oi.total_price
+        'unit_price', oi.unit_price::text,
+        'total_price', oi.total_price::text
       )) as items
     FROM orders o
     LEFT JOIN order_items oi ON o.order_id = oi.order_id
@@ -242,10 +244,19 @@ async function fetchOrdersFromSql(
     county_id: row.county_id,
     status: row.status as OrderStatus,
     payment_state: row.payment_state as PaymentState,
-    items: row.items.filter((i: unknown) => i !== null),
-    subtotal: parseFloat(row.subtotal),
-    tax: parseFloat(row.tax),
-    total: parseFloat(row.total),
+    // NUMERIC columns arrive as strings; parse them without float math
+    items: row.items
+      .filter((i: unknown) => i !== null)
+      .map((i: { sku: string; name: string; quantity: number; unit_price: string; total_price: string }): OrderItem => ({
+        sku: i.sku,
+        name: i.name,
+        quantity: i.quantity,
+        unit_price: fromDecimalString(i.unit_price),
+        total_price: fromDecimalString(i.total_price),
+      })),
+    subtotal: fromDecimalString(row.subtotal),
+    tax: fromDecimalString(row.tax),
+    total: fromDecimalString(row.total),
     shipping_address: {
       street: row.shipping_street,
       city: row.shipping_city,
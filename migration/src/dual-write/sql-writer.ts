@@ -12,7 +12,7 @@ import {
 import { unmarshall } from "@aws-sdk/util-dynamodb";
 import { AttributeValue } from "@aws-sdk/client-dynamodb";
 import { Pool, PoolClient } from "pg";
-import { Order } from "@acme-liquors/shared";
+import { Order, OrderItem, OrderLineStatus, normalizeOrderAmounts, toDecimalString } from "@acme-liquors/shared";
 
 const ssmClient = new SSMClient({});
 const secretsClient = new SecretsManagerClient({});
@@ -37,6 +37,7 @@ const PARAM_CACHE_TTL = 60000; // 1 minute
  * - Connection pooling for efficiency
  * - Batch processing with partial failure reporting
  * - Idempotent operations (UPSERT)
+ * - Each order and its lines are written in one SQL transaction
  */
 export async function handler(
   event: DynamoDBStreamEvent
@@ -151,7 +152,7 @@ async function processRecord(
     case "INSERT":
     case "MODIFY": {
       const newImage = record.dynamodb.NewImage
-        ? (unmarshall(record.dynamodb.NewImage as Record<string, AttributeValue>) as Order)
+        ? normalizeOrderAmounts<Order>(unmarshall(record.dynamodb.NewImage as Record<string, AttributeValue>))
         : null;
 
       if (newImage) {
@@ -162,7 +163,7 @@ async function processRecord(
 
     case "REMOVE": {
       const oldImage = record.dynamodb.OldImage
-        ? (unmarshall(record.dynamodb.OldImage as Record<string, AttributeValue>) as Order)
+        ? normalizeOrderAmounts<Order>(unmarshall(record.dynamodb.OldImage as Record<string, AttributeValue>))
         : null;
 
       if (oldImage) {
@@ -176,8 +177,28 @@ async function processRecord(
 
 /**
  * Upsert order to SQL database
+ *
+ * Amendments and line cancellations change the amounts, the shipping
+ * address and the lines, so all of them are brought up to date, and lines
+ * no longer on the order are deleted. Cancelled lines stay, with their
+ * status and reason.
  */
 async function upsertOrder(client: PoolClient, order: Order): Promise<void> {
+  await client.query("BEGIN");
+  try {
+    await writeOrder(client, order);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+  console.log("Upserted order to SQL:", order.order_id);
+}
+
+/**
+ * Write an order row and its lines (inside the caller's transaction)
+ */
+async function writeOrder(client: PoolClient, order: Order): Promise<void> {
   const query = `
     INSERT INTO orders (
       order_id, customer_id, store_id, county_id,
@@ -188,6 +209,13 @@ async function upsertOrder(client: PoolClient, order: Order): Promise<void> {
     ON CONFLICT (order_id) DO UPDATE SET
       status = EXCLUDED.status,
       payment_state = EXCLUDED.payment_state,
+      subtotal = EXCLUDED.subtotal,
+      tax = EXCLUDED.tax,
+      total = EXCLUDED.total,
+      shipping_street = EXCLUDED.shipping_street,
+      shipping_city = EXCLUDED.shipping_city,
+      shipping_state = EXCLUDED.shipping_state,
+      shipping_zip = EXCLUDED.shipping_zip,
       updated_at = EXCLUDED.updated_at
   `;
 
@@ -198,9 +226,9 @@ async function upsertOrder(client: PoolClient, order: Order): Promise<void> {
     order.county_id,
     order.status,
     order.payment_state,
-    order.subtotal,
-    order.tax,
-    order.total,
+    toDecimalString(order.subtotal),
+    toDecimalString(order.tax),
+    toDecimalString(order.total),
     order.shipping_address.street,
     order.shipping_address.city,
     order.shipping_address.state,
@@ -210,12 +238,15 @@ async function upsertOrder(client: PoolClient, order: Order): Promise<void> {
   ];
 
   await client.query(query, values);
-  console.log("Upserted order to SQL:", order.order_id);
 
-  // Also upsert order items
+  // Also upsert order items, and drop lines an amendment removed
   for (const item of order.items) {
     await upsertOrderItem(client, order.order_id, item);
   }
+  await client.query(
+    "DELETE FROM order_items WHERE order_id = $1 AND NOT (sku = ANY($2::text[]))",
+    [order.order_id, order.items.map((item) => item.sku)]
+  );
 }
 
 /**
@@ -224,15 +255,21 @@ async function upsertOrder(client: PoolClient, order: Order): Promise<void> {
 async function upsertOrderItem(
   client: PoolClient,
   orderId: string,
-  item: { sku: string; name: string; quantity: number; unit_price: number; total_price: number }
+  item: OrderItem
 ): Promise<void> {
   const query = `
-    INSERT INTO order_items (order_id, sku, name, quantity, unit_price, total_price)
-    VALUES ($1, $2, $3, $4, $5, $6)
+    INSERT INTO order_items (
+      order_id, sku, name, quantity, unit_price, total_price,
+      status, cancel_reason_code, cancelled_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
     ON CONFLICT (order_id, sku) DO UPDATE SET
+      name = EXCLUDED.name,
       quantity = EXCLUDED.quantity,
       unit_price = EXCLUDED.unit_price,
-      total_price = EXCLUDED.total_price
+      total_price = EXCLUDED.total_price,
+      status = EXCLUDED.status,
+      cancel_reason_code = EXCLUDED.cancel_reason_code,
+      cancelled_at = EXCLUDED.cancelled_at
   `;
 
   await client.query(query, [
@@ -240,8 +277,11 @@ async function upsertOrderItem(
     item.sku,
     item.name,
     item.quantity,
-    item.unit_price,
-    item.total_price,
+    toDecimalString(item.unit_price),
+    toDecimalString(item.total_price),
+    item.status ?? OrderLineStatus.ACTIVE,
+    item.cancellation?.reason_code ?? null,
+    item.cancellation?.cancelled_at ?? null,
   ]);
 }
 
@@ -3,6 +3,7 @@ import {
   FirehoseTransformationResult,
   FirehoseTransformationResultRecord,
 } from "aws-lambda";
+import { LegacyAmount, Money, toMajorUnits, toMoney } from "@acme-liquors/shared";
 
 /**
  * Analytics record structure for Athena queries
@@ -18,6 +19,7 @@ interface AnalyticsRecord {
   subtotal: number | null;
   tax: number | null;
   total: number | null;
+  currency: string | null;
   item_count: number | null;
   event_timestamp: string;
   created_at: string | null;
@@ -95,9 +97,10 @@ function transformToAnalyticsFormat(event: Record<string, unknown>): AnalyticsRe
     county_id: detail.county_id ? String(detail.county_id) : null,
     status: detail.status ? String(detail.status) : (detail.new_status ? String(detail.new_status) : null),
     payment_state: detail.payment_state ? String(detail.payment_state) : (detail.new_state ? String(detail.new_state) : null),
-    subtotal: typeof detail.subtotal === "number" ? detail.subtotal : null,
-    tax: typeof detail.tax === "number" ? detail.tax : null,
-    total: typeof detail.total === "number" ? detail.total : null,
+    subtotal: toAnalyticsAmount(detail.subtotal),
+    tax: toAnalyticsAmount(detail.tax),
+    total: toAnalyticsAmount(detail.total),
+    currency: isMoney(detail.total) ? detail.total.currency : (typeof detail.total === "number" ? "USD" : null),
     item_count: typeof detail.item_count === "number" ? detail.item_count :
       (Array.isArray(detail.items) ? detail.items.length : null),
     event_timestamp: formatTimestamp(eventTimestamp),
@@ -105,6 +108,29 @@ function transformToAnalyticsFormat(event: Record<string, unknown>): AnalyticsRe
   };
 }
 
+/**
+ * Check whether a value is a Money object
+ */
+function isMoney(value: unknown): value is Money {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Money).amount === "number" &&
+    typeof (value as Money).currency === "string"
+  );
+}
+
+/**
+ * Convert an event amount to a major-unit decimal for Athena
+ * Events emitted before Money existed carry float dollar amounts.
+ */
+function toAnalyticsAmount(value: unknown): number | null {
+  if (typeof value !== "number" && !isMoney(value)) {
+    return null;
+  }
+  return toMajorUnits(toMoney(value as LegacyAmount));
+}
+
 /**
  * Format timestamp for Athena compatibility
  */
@@ -0,0 +1,142 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  InventoryUpdateRequestSchema,
+  adjustInventory,
+  formatValidationErrors,
+  validate,
+  callerFromAuthorizerContext,
+  checkInventoryAccess,
+} from "@acme-liquors/shared";
+
+/**
+ * POST /inventory/{store_id}/{sku}/adjustments
+ * Adjust on-hand quantity with a reason code
+ * Store staff, for their own stores.
+ *
+ * Body: { quantity_delta, reason, expected_updated_at, note? }
+ * expected_updated_at is the updated_at last read for the item; a stale
+ * value returns 409 with the current item so the client can re-apply.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const storeId = event.pathParameters?.store_id;
+    const sku = event.pathParameters?.sku;
+
+    if (!storeId || !sku) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing store_id or sku parameter",
+        }),
+      };
+    }
+
+    const denied = checkInventoryAccess(caller, storeId);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(event.body ?? "");
+    } catch {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          formatValidationErrors([{ field: "body", message: "Invalid JSON", code: "invalid_json" }])
+        ),
+      };
+    }
+
+    const validation = validate(InventoryUpdateRequestSchema, {
+      ...(body as object),
+      store_id: storeId,
+      sku,
+    });
+    if (!validation.success) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formatValidationErrors(validation.errors!)),
+      };
+    }
+
+    const result = await adjustInventory(validation.data!);
+
+    switch (result.status) {
+      case "NOT_FOUND":
+        return {
+          statusCode: 404,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            error: "Inventory item not found",
+            store_id: storeId,
+            sku,
+          }),
+        };
+
+      case "CONFLICT":
+        return {
+          statusCode: 409,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            error: "Inventory item changed, please retry",
+            message: "expected_updated_at does not match the current item",
+            current: result.current,
+          }),
+        };
+
+      case "INVALID":
+        return {
+          statusCode: 422,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            error: "Invalid inventory adjustment",
+            message: result.errors.map((e) => e.message).join("; "),
+            details: result.errors,
+          }),
+        };
+
+      case "ADJUSTED":
+        return {
+          statusCode: 200,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            item: result.item,
+            adjustment: result.adjustment,
+          }),
+        };
+    }
+  } catch (error) {
+    console.error("Error adjusting inventory:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  getInventoryItem,
+  callerFromAuthorizerContext,
+  checkInventoryAccess,
+} from "@acme-liquors/shared";
+
+/**
+ * GET /inventory/{store_id}/{sku}
+ * Get stock for a store and SKU
+ * Store staff, for their own stores.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const storeId = event.pathParameters?.store_id;
+    const sku = event.pathParameters?.sku;
+
+    if (!storeId || !sku) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing store_id or sku parameter",
+        }),
+      };
+    }
+
+    const denied = checkInventoryAccess(caller, storeId);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    const item = await getInventoryItem(storeId, sku);
+
+    if (!item) {
+      return {
+        statusCode: 404,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Inventory item not found",
+          store_id: storeId,
+          sku,
+        }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(item),
+    };
+  } catch (error) {
+    console.error("Error getting inventory:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  DEFAULT_CURRENCY,
+  InventoryUpsert,
+  ValidationError,
+  fromDecimalString,
+  upsertInventoryItem,
+  callerFromAuthorizerContext,
+  checkInventoryAccess,
+} from "@acme-liquors/shared";
+import { parseCsv } from "../csv";
+
+// Rows accepted per request; larger files must be split
+const MAX_IMPORT_ROWS = 1000;
+
+const REQUIRED_COLUMNS = ["sku", "product_name", "quantity_available", "reorder_level", "unit_cost"];
+
+interface RowFailure {
+  row: number; // 1-based, header is row 1
+  sku?: string;
+  details: ValidationError[];
+}
+
+/**
+ * POST /inventory/{store_id}/import
+ * Bulk-upsert a store's inventory from CSV
+ * Store staff, for their own stores.
+ *
+ * Columns: sku, product_name, quantity_available, reorder_level,
+ * unit_cost (decimal), and optionally currency and updated_at. Rows
+ * without updated_at create new items; rows with it update the item only
+ * if it still has that updated_at. Each row is applied independently and
+ * reported as created, updated, conflicting or invalid. Rows that change
+ * quantity_available are recorded in the adjustment ledger as
+ * COUNT_CORRECTION.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const storeId = event.pathParameters?.store_id;
+
+    if (!storeId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing store_id parameter",
+        }),
+      };
+    }
+
+    const denied = checkInventoryAccess(caller, storeId);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    const text = event.isBase64Encoded
+      ? Buffer.from(event.body ?? "", "base64").toString("utf-8")
+      : event.body ?? "";
+    const [header, ...rows] = parseCsv(text);
+    const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+
+    const missing = REQUIRED_COLUMNS.filter((column) => !columns.includes(column));
+    if (missing.length > 0) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid CSV header",
+          message: `Missing columns: ${missing.join(", ")}`,
+        }),
+      };
+    }
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return {
+        statusCode: 413,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Too many rows",
+          message: `Import at most ${MAX_IMPORT_ROWS} rows per request`,
+        }),
+      };
+    }
+
+    let created = 0;
+    let updated = 0;
+    const conflicts: Array<{ row: number; sku: string }> = [];
+    const errors: RowFailure[] = [];
+
+    for (const [index, fields] of rows.entries()) {
+      const rowNumber = index + 2;
+      const record = Object.fromEntries(columns.map((column, i) => [column, (fields[i] ?? "").trim()]));
+
+      let upsert: InventoryUpsert;
+      try {
+        upsert = toUpsert(storeId, record);
+      } catch (error) {
+        errors.push({
+          row: rowNumber,
+          sku: record.sku,
+          details: [{ field: "unit_cost", message: (error as Error).message, code: "invalid_decimal" }],
+        });
+        continue;
+      }
+
+      const result = await upsertInventoryItem(upsert, record.updated_at || undefined);
+
+      switch (result.status) {
+        case "CREATED":
+          created++;
+          break;
+        case "UPDATED":
+          updated++;
+          break;
+        case "CONFLICT":
+          conflicts.push({ row: rowNumber, sku: upsert.sku });
+          break;
+        case "INVALID":
+          errors.push({ row: rowNumber, sku: upsert.sku, details: result.errors });
+          break;
+      }
+    }
+
+    console.log(`Inventory import for ${storeId}: ${created} created, ${updated} updated, ` +
+      `${conflicts.length} conflicts, ${errors.length} invalid`);
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        store_id: storeId,
+        created,
+        updated,
+        conflicts,
+        errors,
+      }),
+    };
+  } catch (error) {
+    console.error("Error importing inventory:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
+
+/**
+ * Map a CSV record to an upsert; numeric fields are checked by the schema
+ */
+function toUpsert(storeId: string, record: Record<string, string>): InventoryUpsert {
+  return {
+    store_id: storeId,
+    sku: record.sku,
+    product_name: record.product_name,
+    quantity_available: toNumber(record.quantity_available),
+    reorder_level: toNumber(record.reorder_level),
+    unit_cost: fromDecimalString(record.unit_cost, record.currency || DEFAULT_CURRENCY),
+  };
+}
+
+function toNumber(value: string): number {
+  return value === "" ? NaN : Number(value);
+}
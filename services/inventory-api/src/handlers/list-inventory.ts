@@ -0,0 +1,103 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  PaginationTokenError,
+  listStoreInventory,
+  callerFromAuthorizerContext,
+  checkInventoryAccess,
+} from "@acme-liquors/shared";
+
+/**
+ * GET /inventory/{store_id}?limit=50&next_token=xxx
+ * List a store's inventory with pagination
+ * Store staff, for their own stores.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const storeId = event.pathParameters?.store_id;
+    const limitStr = event.queryStringParameters?.limit;
+    const nextToken = event.queryStringParameters?.next_token;
+
+    if (!storeId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing store_id parameter",
+        }),
+      };
+    }
+
+    const denied = checkInventoryAccess(caller, storeId);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    // Parse and validate limit
+    let limit = 50;
+    if (limitStr) {
+      const parsed = parseInt(limitStr, 10);
+      if (isNaN(parsed) || parsed < 1 || parsed > 100) {
+        return {
+          statusCode: 400,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            error: "Invalid limit parameter. Must be between 1 and 100",
+          }),
+        };
+      }
+      limit = parsed;
+    }
+
+    const result = await listStoreInventory(storeId, limit, nextToken);
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        store_id: storeId,
+        items: result.items,
+        next_token: result.nextToken,
+      }),
+    };
+  } catch (error) {
+    if (error instanceof PaginationTokenError) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid next_token",
+          message: error.message,
+        }),
+      };
+    }
+
+    console.error("Error listing inventory:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -0,0 +1,5 @@
+// Export all handlers
+export { handler as getInventoryHandler } from "./handlers/get-inventory";
+export { handler as listInventoryHandler } from "./handlers/list-inventory";
+export { handler as adjustInventoryHandler } from "./handlers/adjust-inventory";
+export { handler as importInventoryHandler } from "./handlers/import-inventory";
@@ -0,0 +1,191 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  AmendOrderRequestSchema,
+  OrderAction,
+  amendOrder,
+  callerActor,
+  callerFromAuthorizerContext,
+  checkOrderAccess,
+  formatQuoteRefusal,
+  formatValidationErrors,
+  getOrderById,
+  parseAndValidateBody,
+} from "@acme-liquors/shared";
+
+/**
+ * PATCH /orders/{order_id}
+ * Amend an order's lines or shipping address before it is picked
+ *
+ * Body: any of { add: [{ sku, quantity }], remove: [sku],
+ * change: [{ sku, quantity }], shipping_address }, plus an optional reason.
+ *
+ * Allowed while the order is PENDING (before processing starts) or
+ * CONFIRMED. The whole order is re-priced, re-checked for compliance and
+ * re-taxed; a confirmed order's reservation and payment authorization
+ * move by the difference. The response carries the amended order and the
+ * before/after diff, which is also published as Order Amended.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const orderId = event.pathParameters?.order_id;
+
+    if (!orderId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing order_id parameter",
+        }),
+      };
+    }
+
+    const validation = parseAndValidateBody(AmendOrderRequestSchema, event.body);
+    if (!validation.success) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formatValidationErrors(validation.errors!)),
+      };
+    }
+
+    const request = validation.data!;
+    const order = await getOrderById(orderId);
+
+    if (!order) {
+      return {
+        statusCode: 404,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order not found",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    const denied = checkOrderAccess(caller, order, OrderAction.AMEND);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    const result = await amendOrder(order, request, callerActor(caller));
+
+    if (result.status === "INVALID") {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid amendment",
+          message: result.errors.map((e) => e.message).join("; "),
+          details: result.errors,
+        }),
+      };
+    }
+
+    if (result.status === "QUOTE_FAILED") {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          formatQuoteRefusal(result.result, {
+            county_id: order.county_id,
+            shipping_address: request.shipping_address ?? order.shipping_address,
+          })
+        ),
+      };
+    }
+
+    if (result.status === "PAYMENT_DECLINED") {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Payment declined",
+          message: `The authorization could not be raised to the new total (${result.decline_code})`,
+          decline_code: result.decline_code,
+        }),
+      };
+    }
+
+    if (result.status === "REJECTED") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order cannot be amended",
+          order_id: orderId,
+          current_status: order.status,
+          message: result.reason,
+        }),
+      };
+    }
+
+    if (result.status === "INSUFFICIENT_INVENTORY") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Insufficient inventory",
+          order_id: orderId,
+          failed_items: result.failed_items,
+        }),
+      };
+    }
+
+    if (result.status === "CONFLICT") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order changed, please retry",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        order_id: result.order.order_id,
+        status: result.order.status,
+        payment_state: result.order.payment_state,
+        items: result.order.items,
+        subtotal: result.order.subtotal,
+        tax: result.order.tax,
+        total: result.order.total,
+        tax_breakdown: result.order.tax_breakdown,
+        shipping_address: result.order.shipping_address,
+        amendment: result.amendment,
+      }),
+    };
+  } catch (error) {
+    console.error("Error amending order:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { APIGatewayAuthorizerResult, APIGatewayTokenAuthorizerEvent } from "aws-lambda";
+import {
+  AuthenticationError,
+  callerFromClaims,
+  toAuthorizerContext,
+  verifyAccessToken,
+} from "@acme-liquors/shared";
+
+/**
+ * Lambda TOKEN authorizer for the order API
+ *
+ * Verifies the bearer JWT against the identity provider's JWKS and hands
+ * the caller (subject, role, store and county scope) to handlers through
+ * the authorizer context. Handlers decide what the caller may do.
+ *
+ * The policy allows the whole API so API Gateway can cache it per token
+ * across routes. An untrusted token is answered with 401.
+ */
+export async function handler(
+  event: APIGatewayTokenAuthorizerEvent
+): Promise<APIGatewayAuthorizerResult> {
+  const token = event.authorizationToken?.replace(/^Bearer\s+/i, "") ?? "";
+
+  try {
+    const caller = callerFromClaims(await verifyAccessToken(token));
+    // methodArn: arn:aws:execute-api:{region}:{account}:{api_id}/{stage}/{method}/{path}
+    const [apiArn, stage] = event.methodArn.split("/");
+
+    return {
+      principalId: caller.subject,
+      policyDocument: {
+        Version: "2012-10-17",
+        Statement: [
+          {
+            Action: "execute-api:Invoke",
+            Effect: "Allow",
+            Resource: `${apiArn}/${stage}/*`,
+          },
+        ],
+      },
+      context: toAuthorizerContext(caller),
+    };
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
+      console.warn("Rejected access token:", error.message);
+      throw new Error("Unauthorized"); // API Gateway answers 401
+    }
+    console.error("Error verifying access token:", error);
+    throw error;
+  }
+}
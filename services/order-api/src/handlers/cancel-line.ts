@@ -0,0 +1,167 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  CancelLineRequestSchema,
+  OrderAction,
+  callerActor,
+  callerFromAuthorizerContext,
+  cancelOrderLine,
+  checkOrderAccess,
+  formatValidationErrors,
+  getOrderById,
+  parseAndValidateBody,
+} from "@acme-liquors/shared";
+
+/**
+ * POST /orders/{order_id}/items/{sku}/cancel
+ * Cancel a single line of a confirmed order, e.g. when the store is out
+ * of that SKU
+ * Store staff and customer-service agents, for orders of their stores or
+ * counties.
+ *
+ * Body: { reason_code, note? }
+ *
+ * Allowed while the order is CONFIRMED, PROCESSING or PACKED. The line
+ * stays on the order marked CANCELLED, the totals drop by its price and
+ * tax, its reservation is released, and the authorization is lowered (or
+ * the line refunded from a capture). Cancelling the same line again
+ * returns the cancellation and resumes an unfinished payment follow-up.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const orderId = event.pathParameters?.order_id;
+    const sku = event.pathParameters?.sku;
+
+    if (!orderId || !sku) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing order_id or sku parameter",
+        }),
+      };
+    }
+
+    const validation = parseAndValidateBody(CancelLineRequestSchema, event.body);
+    if (!validation.success) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formatValidationErrors(validation.errors!)),
+      };
+    }
+
+    const order = await getOrderById(orderId);
+
+    if (!order) {
+      return {
+        statusCode: 404,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order not found",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    const denied = checkOrderAccess(caller, order, OrderAction.CANCEL_LINE);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    const result = await cancelOrderLine(order, sku, validation.data!, callerActor(caller));
+
+    if (result.status === "NOT_FOUND") {
+      return {
+        statusCode: 404,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Line not found",
+          order_id: orderId,
+          sku,
+        }),
+      };
+    }
+
+    if (result.status === "INVALID") {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid line cancellation",
+          message: result.errors.map((e) => e.message).join("; "),
+          details: result.errors,
+        }),
+      };
+    }
+
+    if (result.status === "REJECTED") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Line cannot be cancelled",
+          order_id: orderId,
+          current_status: order.status,
+          payment_state: order.payment_state,
+          message: result.reason,
+        }),
+      };
+    }
+
+    if (result.status === "CONFLICT") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order changed, please retry",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        order_id: result.order.order_id,
+        status: result.order.status,
+        payment_state: result.order.payment_state,
+        line: result.line,
+        items: result.order.items,
+        subtotal: result.order.subtotal,
+        tax: result.order.tax,
+        total: result.order.total,
+        ...(result.created ? {} : { message: "Line already cancelled (idempotent)" }),
+      }),
+    };
+  } catch (error) {
+    console.error("Error cancelling order line:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -1,24 +1,55 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
 import {
-  getOrderById,
-  updateOrderStatus,
+  DynamoSagaStateStore,
+  OrderAction,
+  OrderById,
   OrderStatus,
+  SagaStatus,
+  callerActor,
+  callerFromAuthorizerContext,
+  cancellationSagaId,
+  checkOrderAccess,
+  getOrderById,
+  queueCancellationFollowUps,
+  transitionOrder,
 } from "@acme-liquors/shared";
 
-// Statuses that can be cancelled
-const CANCELLABLE_STATUSES: OrderStatus[] = [
-  OrderStatus.PENDING,
-  OrderStatus.CONFIRMED,
-];
+// Progress of the cancellation follow-ups (inventory release, payment reversal)
+interface CancellationFollowUps {
+  status: "QUEUED" | "IN_PROGRESS" | "COMPLETED" | "FAILED";
+  steps: Record<string, string>;
+  failure_reason?: string;
+}
+
+const sagaStore = new DynamoSagaStateStore();
 
 /**
  * DELETE /orders/{order_id}
- * Cancel an order (only if in PENDING or CONFIRMED status)
+ * Cancel an order (only if in PENDING, CONFIRMED or ON_HOLD status)
+ * Allowed for the customer who placed it and for customer-service agents
+ * assigned to its store or county.
+ *
+ * The order becomes CANCELLED right away through the order state machine,
+ * which queues releasing its inventory and voiding or refunding its
+ * payment as follow-ups, retried until they finish. payment_state shows
+ * VOID_PENDING or REFUND_PENDING meanwhile. Cancelling an already cancelled order reports the follow-up
+ * progress, and re-queues them if they have not finished.
  */
 export async function handler(
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> {
   try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
     const orderId = event.pathParameters?.order_id;
 
     if (!orderId) {
@@ -45,8 +76,33 @@ export async function handler(
       };
     }
 
-    // Check if order can be cancelled
-    if (!CANCELLABLE_STATUSES.includes(order.status)) {
+    const denied = checkOrderAccess(caller, order, OrderAction.CANCEL);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    if (order.status === OrderStatus.CANCELLED) {
+      const followUps = await getFollowUps(orderId);
+      if (followUps.status === "QUEUED" || followUps.status === "IN_PROGRESS") {
+        await queueCancellationFollowUps(order);
+      }
+      return cancelledResponse(order, followUps, "Order already cancelled");
+    }
+
+    // Only applied if neither status nor payment state changed meanwhile.
+    // If queueing the follow-ups fails, cancelling again re-queues them.
+    const result = await transitionOrder(order, OrderStatus.CANCELLED, {
+      actor: callerActor(caller),
+    });
+
+    if (result.status === "REJECTED") {
       return {
         statusCode: 409,
         headers: { "Content-Type": "application/json" },
@@ -54,24 +110,12 @@ export async function handler(
           error: "Order cannot be cancelled",
           order_id: orderId,
           current_status: order.status,
-          message: `Order can only be cancelled when status is ${CANCELLABLE_STATUSES.join(" or ")}`,
+          message: result.reason,
         }),
       };
     }
 
-    // Build the order_ts_id for the main orders table
-    const orderTsId = `${order.order_ts}#${order.order_id}`;
-
-    // Update order status with conditional check
-    const updated = await updateOrderStatus(
-      order.customer_id,
-      orderTsId,
-      orderId,
-      OrderStatus.CANCELLED,
-      order.status // Only update if status hasn't changed
-    );
-
-    if (!updated) {
+    if (result.status === "CONFLICT") {
       return {
         statusCode: 409,
         headers: { "Content-Type": "application/json" },
@@ -82,15 +126,11 @@ export async function handler(
       };
     }
 
-    return {
-      statusCode: 200,
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        order_id: orderId,
-        status: OrderStatus.CANCELLED,
-        message: "Order cancelled successfully",
-      }),
-    };
+    return cancelledResponse(
+      result.order,
+      { status: "QUEUED", steps: {} },
+      "Order cancelled successfully"
+    );
   } catch (error) {
     console.error("Error cancelling order:", error);
     return {
@@ -102,3 +142,45 @@ export async function handler(
     };
   }
 }
+
+/**
+ * Read follow-up progress from the cancellation saga's state
+ */
+async function getFollowUps(orderId: string): Promise<CancellationFollowUps> {
+  const state = await sagaStore.load(cancellationSagaId(orderId));
+  if (!state) {
+    return { status: "QUEUED", steps: {} };
+  }
+
+  const steps = Object.fromEntries(
+    Object.entries(state.steps).map(([name, step]) => [name, step.status])
+  );
+  if (state.failed_step) {
+    return { status: "FAILED", steps, failure_reason: state.failure_reason };
+  }
+  return {
+    status: state.status === SagaStatus.COMPLETED ? "COMPLETED" : "IN_PROGRESS",
+    steps,
+  };
+}
+
+/**
+ * Build the response for a cancelled order
+ */
+function cancelledResponse(
+  order: OrderById,
+  followUps: CancellationFollowUps,
+  message: string
+): APIGatewayProxyResult {
+  return {
+    statusCode: 200,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      order_id: order.order_id,
+      status: OrderStatus.CANCELLED,
+      payment_state: order.payment_state,
+      follow_ups: followUps,
+      message,
+    }),
+  };
+}
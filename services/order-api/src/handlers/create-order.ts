@@ -2,24 +2,51 @@ import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
 import {
   CreateOrderRequestSchema,
   Order,
-  OrderStatus,
-  PaymentState,
-  createOrder,
   generateOrderId,
-  generateOrderSortKey,
   parseAndValidateBody,
   formatValidationErrors,
-  sendOrderMessage,
+  findPlacedOrder,
+  placeOrder,
+  formatQuoteRefusal,
+  callerFromAuthorizerContext,
+  checkCustomerAccess,
+  isValidIdempotencyKey,
+  fingerprint,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  releaseIdempotencyKey,
+  CreateOrderRequest,
+  IdempotencyRecord,
 } from "@acme-liquors/shared";
 
 /**
  * POST /orders
  * Create a new order with idempotency support
+ * customer_id must be the signed-in customer.
+ *
+ * X-Idempotency-Key is claimed for the customer before anything else
+ * happens. Retrying with the same key and body returns the first response
+ * unchanged; reusing it with a different body is refused with 422, and
+ * retrying while the first request is still running gets 409. A request
+ * the order rules refuse gives its key back so it can be retried; one that
+ * fails part-way keeps it until its lock lapses, and the retry then
+ * finishes the same order rather than creating another.
  */
 export async function handler(
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> {
   try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
     // Get idempotency key from header
     const idempotencyKey = event.headers["X-Idempotency-Key"]
       ?? event.headers["x-idempotency-key"];
@@ -34,6 +61,17 @@ export async function handler(
       };
     }
 
+    if (!isValidIdempotencyKey(idempotencyKey)) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid X-Idempotency-Key header",
+          message: "X-Idempotency-Key must be 8 to 128 characters",
+        }),
+      };
+    }
+
     // Parse and validate request body
     const validation = parseAndValidateBody(CreateOrderRequestSchema, event.body);
     if (!validation.success) {
@@ -46,77 +84,72 @@ export async function handler(
 
     const request = validation.data!;
 
-    // Generate order identifiers
+    const denied = checkCustomerAccess(caller, request.customer_id);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    // Identifiers a retry that takes over this key will reuse
     const orderId = generateOrderId();
     const orderTs = new Date().toISOString();
-    const orderTsId = `${orderTs}#${orderId}`;
 
-    // Calculate totals
-    const subtotal = request.items.reduce(
-      (sum, item) => sum + item.quantity * item.unit_price,
-      0
+    const claim = await claimIdempotencyKey(
+      request.customer_id,
+      idempotencyKey,
+      fingerprint(request),
+      { order_id: orderId, order_ts: orderTs }
     );
-    const tax = subtotal * 0.08; // 8% tax rate
-    const total = subtotal + tax;
-
-    // Build order with calculated total_price for each item
-    const itemsWithTotals = request.items.map((item) => ({
-      ...item,
-      total_price: item.quantity * item.unit_price,
-    }));
-
-    // Create order object
-    const order: Order = {
-      customer_id: request.customer_id,
-      order_ts_id: orderTsId,
-      order_id: orderId,
-      order_ts: orderTs,
-      store_id: request.store_id,
-      county_id: request.county_id,
-      status: OrderStatus.PENDING,
-      payment_state: PaymentState.PENDING,
-      items: itemsWithTotals,
-      subtotal,
-      tax,
-      total,
-      shipping_address: request.shipping_address,
-      idempotency_key: idempotencyKey,
-      created_at: orderTs,
-      updated_at: orderTs,
-    };
 
-    // Create order with idempotency check
-    const result = await createOrder(order);
-
-    // If order was newly created, enqueue for processing
-    if (result.created) {
-      await sendOrderMessage({
-        order_id: orderId,
-        customer_id: request.customer_id,
-        order_ts_id: orderTsId,
-        action: "PROCESS_ORDER",
-        timestamp: orderTs,
+    if (claim.status === "MISMATCH") {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Idempotency key reused",
+          message: "X-Idempotency-Key was already used for a different request",
+        }),
+      };
+    }
+
+    if (claim.status === "IN_PROGRESS") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Request in progress",
+          message: "A request with this X-Idempotency-Key is still being processed; retry shortly",
+        }),
+      };
+    }
+
+    if (claim.status === "REPLAY") {
+      return {
+        statusCode: claim.response.status_code,
+        headers: { "Content-Type": "application/json", "Idempotent-Replayed": "true" },
+        body: claim.response.body,
+      };
+    }
+
+    const response = await placeClaimedOrder(request, claim.record, claim.resumed);
+
+    // Refusals give the key back; accepted orders are kept for replay
+    if (response.statusCode < 300) {
+      await completeIdempotencyKey(claim.record, {
+        status_code: response.statusCode,
+        body: response.body,
       });
+    } else {
+      await releaseIdempotencyKey(claim.record);
     }
 
-    // Return response
-    const statusCode = result.created ? 201 : 200;
-    return {
-      statusCode,
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        order_id: result.order.order_id,
-        customer_id: result.order.customer_id,
-        status: result.order.status,
-        payment_state: result.order.payment_state,
-        items: result.order.items,
-        subtotal: result.order.subtotal,
-        tax: result.order.tax,
-        total: result.order.total,
-        created_at: result.order.created_at,
-        ...(result.created ? {} : { message: "Order already exists (idempotent)" }),
-      }),
-    };
+    return response;
   } catch (error) {
     console.error("Error creating order:", error);
     return {
@@ -128,3 +161,51 @@ export async function handler(
     };
   }
 }
+
+/**
+ * Place the order for a claimed idempotency key, or pick up the one a
+ * lapsed attempt already wrote
+ */
+async function placeClaimedOrder(
+  request: CreateOrderRequest,
+  record: IdempotencyRecord,
+  resumed: boolean
+): Promise<APIGatewayProxyResult> {
+  if (resumed) {
+    const existing = await findPlacedOrder(record);
+    if (existing) {
+      return orderResponse(existing, false);
+    }
+  }
+
+  const placed = await placeOrder(request, record);
+  if (placed.status === "QUOTE_FAILED") {
+    return {
+      statusCode: 422,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(formatQuoteRefusal(placed.result, request)),
+    };
+  }
+
+  return orderResponse(placed.order, placed.created);
+}
+
+function orderResponse(order: Order, created: boolean): APIGatewayProxyResult {
+  return {
+    statusCode: created ? 201 : 200,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      order_id: order.order_id,
+      customer_id: order.customer_id,
+      status: order.status,
+      payment_state: order.payment_state,
+      items: order.items,
+      subtotal: order.subtotal,
+      tax: order.tax,
+      total: order.total,
+      tax_breakdown: order.tax_breakdown,
+      created_at: order.created_at,
+      ...(created ? {} : { message: "Order already exists (idempotent)" }),
+    }),
+  };
+}
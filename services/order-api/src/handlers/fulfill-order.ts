@@ -0,0 +1,189 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  FULFILLMENT_REQUEST_SCHEMAS,
+  FULFILLMENT_STEP_STATUS,
+  FulfillmentStep,
+  OrderAction,
+  callerFromAuthorizerContext,
+  checkOrderAccess,
+  formatValidationErrors,
+  fulfillOrder,
+  getOrderById,
+  parseAndValidateBody,
+} from "@acme-liquors/shared";
+
+const FULFILLMENT_STEPS = Object.values(FulfillmentStep);
+
+/**
+ * POST /orders/{order_id}/fulfillment/{step}
+ * Record a store fulfillment step: pick, pack, ship or deliver
+ *
+ * Body: { staff_id } for pick and pack; ship adds { carrier,
+ * tracking_number }; deliver adds { proof_of_delivery, id_check } and is
+ * refused unless the recipient's ID shows they are of legal drinking age
+ * and has not expired.
+ *
+ * Only staff assigned to the order's store may record steps, under their
+ * own staff_id. Each step moves the order one status along (CONFIRMED →
+ * PROCESSING → PACKED → SHIPPED → DELIVERED), conditioned on it still
+ * being in the previous one. Repeating a step that already happened
+ * returns the order unchanged.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const orderId = event.pathParameters?.order_id;
+    const step = event.pathParameters?.step as FulfillmentStep | undefined;
+
+    if (!orderId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing order_id parameter",
+        }),
+      };
+    }
+
+    if (!step || !FULFILLMENT_STEPS.includes(step)) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: `Invalid fulfillment step. Must be one of ${FULFILLMENT_STEPS.join(", ")}`,
+        }),
+      };
+    }
+
+    const validation = parseAndValidateBody(FULFILLMENT_REQUEST_SCHEMAS[step], event.body);
+    if (!validation.success) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formatValidationErrors(validation.errors!)),
+      };
+    }
+
+    const stepRequest = validation.data!;
+    const order = await getOrderById(orderId);
+
+    if (!order) {
+      return {
+        statusCode: 404,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order not found",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    const denied = checkOrderAccess(caller, order, OrderAction.FULFILL);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    // Milestones are recorded under staff_id, so it must be the caller
+    if (stepRequest.request.staff_id !== caller.subject) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: "staff_id does not match the signed-in staff member",
+        }),
+      };
+    }
+
+    const status = FULFILLMENT_STEP_STATUS[step];
+    if (order.status === status) {
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          order_id: order.order_id,
+          status: order.status,
+          fulfillment: order.fulfillment,
+          message: `Order already ${status}`,
+        }),
+      };
+    }
+
+    const result = await fulfillOrder(order, stepRequest);
+
+    if (result.status === "INVALID") {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Delivery refused",
+          message: result.errors.map((e) => e.message).join("; "),
+          details: result.errors,
+        }),
+      };
+    }
+
+    if (result.status === "REJECTED") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: `Order cannot be moved to ${status}`,
+          order_id: orderId,
+          current_status: order.status,
+          message: result.reason,
+        }),
+      };
+    }
+
+    if (result.status === "CONFLICT") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order changed, please retry",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        order_id: result.order.order_id,
+        status: result.order.status,
+        fulfillment: result.order.fulfillment,
+        message: `Order ${status}`,
+      }),
+    };
+  } catch (error) {
+    console.error("Error recording fulfillment step:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  CountySummaryQuerySchema,
+  DEFAULT_SUMMARY_WINDOW_HOURS,
+  MAX_SUMMARY_WINDOW_DAYS,
+  SummaryTooLargeError,
+  callerFromAuthorizerContext,
+  checkCountyAccess,
+  formatValidationErrors,
+  getCountySummary,
+  parseQueryParams,
+} from "@acme-liquors/shared";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * GET /counties/{county_id}/summary?from=&to=&top=10
+ * Order counts by status, revenue, average order value and top SKUs for
+ * the orders placed in a county over a window
+ *
+ * to defaults to now and from to 24 hours before it; the window may span
+ * at most 31 days. A window with more orders than one request can read
+ * gets a 422 asking for a narrower one.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const countyId = event.pathParameters?.county_id;
+
+    if (!countyId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing county_id parameter",
+        }),
+      };
+    }
+
+    const denied = checkCountyAccess(caller, countyId);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    const validation = parseQueryParams(CountySummaryQuerySchema, event.queryStringParameters);
+    if (!validation.success) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formatValidationErrors(validation.errors!)),
+      };
+    }
+
+    const query = validation.data!;
+    const to = query.to ?? new Date().toISOString();
+    const from = query.from ?? new Date(Date.parse(to) - DEFAULT_SUMMARY_WINDOW_HOURS * HOUR_MS).toISOString();
+
+    if (Date.parse(to) - Date.parse(from) > MAX_SUMMARY_WINDOW_DAYS * 24 * HOUR_MS) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: `Summary window cannot exceed ${MAX_SUMMARY_WINDOW_DAYS} days`,
+        }),
+      };
+    }
+
+    const summary = await getCountySummary(countyId, from, to, query.top);
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(summary),
+    };
+  } catch (error) {
+    if (error instanceof SummaryTooLargeError) {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Summary window too large",
+          message: error.message,
+        }),
+      };
+    }
+
+    console.error("Error building county summary:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  OrderAction,
+  callerFromAuthorizerContext,
+  checkOrderAccess,
+  getOrderById,
+  listOrderStatusHistory,
+} from "@acme-liquors/shared";
+
+/**
+ * GET /orders/{order_id}/history
+ * Get an order's status changes, oldest first: who made each one, when,
+ * why, and the statuses it moved between
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const orderId = event.pathParameters?.order_id;
+
+    if (!orderId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing order_id parameter",
+        }),
+      };
+    }
+
+    const order = await getOrderById(orderId);
+
+    if (!order) {
+      return {
+        statusCode: 404,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order not found",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    const denied = checkOrderAccess(caller, order, OrderAction.VIEW);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    const changes = await listOrderStatusHistory(orderId);
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        order_id: order.order_id,
+        status: order.status,
+        history: changes.map((change) => ({
+          from_status: change.from_status,
+          to_status: change.to_status,
+          actor: change.actor,
+          reason: change.reason,
+          changed_at: change.changed_at,
+        })),
+      }),
+    };
+  } catch (error) {
+    console.error("Error getting order history:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -1,5 +1,10 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import { getOrderById } from "@acme-liquors/shared";
+import {
+  OrderAction,
+  callerFromAuthorizerContext,
+  checkOrderAccess,
+  getOrderById,
+} from "@acme-liquors/shared";
 
 /**
  * GET /orders/{order_id}
@@ -9,6 +14,17 @@ export async function handler(
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> {
   try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
     const orderId = event.pathParameters?.order_id;
 
     if (!orderId) {
@@ -35,6 +51,18 @@ export async function handler(
       };
     }
 
+    const denied = checkOrderAccess(caller, order, OrderAction.VIEW);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
     // Return order response
     return {
       statusCode: 200,
@@ -50,6 +78,7 @@ export async function handler(
         subtotal: order.subtotal,
         tax: order.tax,
         total: order.total,
+        tax_breakdown: order.tax_breakdown,
         shipping_address: order.shipping_address,
         created_at: order.created_at,
         updated_at: order.updated_at,
@@ -0,0 +1,64 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import { callerFromAuthorizerContext, checkStoreAccess, getPickList } from "@acme-liquors/shared";
+
+/**
+ * GET /stores/{store_id}/pick-list
+ * SKUs and quantities to pick across all of a store's CONFIRMED orders
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const storeId = event.pathParameters?.store_id;
+
+    if (!storeId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing store_id parameter",
+        }),
+      };
+    }
+
+    const denied = checkStoreAccess(caller, storeId);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    const pickList = await getPickList(storeId);
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(pickList),
+    };
+  } catch (error) {
+    console.error("Error building pick list:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
@@ -1,14 +1,30 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
-import { listOrdersByCustomer } from "@acme-liquors/shared";
+import {
+  PaginationTokenError,
+  callerFromAuthorizerContext,
+  checkCustomerAccess,
+  listOrdersByCustomer,
+} from "@acme-liquors/shared";
 
 /**
  * GET /orders?customer_id=xxx&limit=20&next_token=xxx
- * List orders by customer with pagination
+ * List the signed-in customer's orders with pagination
  */
 export async function handler(
   event: APIGatewayProxyEvent
 ): Promise<APIGatewayProxyResult> {
   try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
     const customerId = event.queryStringParameters?.customer_id;
     const limitStr = event.queryStringParameters?.limit;
     const nextToken = event.queryStringParameters?.next_token;
@@ -23,6 +39,18 @@ export async function handler(
       };
     }
 
+    const denied = checkCustomerAccess(caller, customerId);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
     // Parse and validate limit
     let limit = 20;
     if (limitStr) {
@@ -64,6 +92,17 @@ export async function handler(
       }),
     };
   } catch (error) {
+    if (error instanceof PaginationTokenError) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid next_token",
+          message: error.message,
+        }),
+      };
+    }
+
     console.error("Error listing orders:", error);
     return {
       statusCode: 500,
@@ -0,0 +1,117 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  ListStoreOrdersQuerySchema,
+  PaginationTokenError,
+  callerFromAuthorizerContext,
+  checkStoreAccess,
+  formatValidationErrors,
+  listOrdersByStore,
+  parseQueryParams,
+} from "@acme-liquors/shared";
+
+/**
+ * GET /stores/{store_id}/orders?status=CONFIRMED,PROCESSING&from=&to=&limit=20&next_token=xxx
+ * List a store's orders, newest first, for its fulfillment queue
+ *
+ * status takes one or more comma-separated statuses; from and to bound
+ * the order time (ISO timestamps, inclusive).
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const storeId = event.pathParameters?.store_id;
+
+    if (!storeId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing store_id parameter",
+        }),
+      };
+    }
+
+    const denied = checkStoreAccess(caller, storeId);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    const validation = parseQueryParams(ListStoreOrdersQuerySchema, event.queryStringParameters);
+    if (!validation.success) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formatValidationErrors(validation.errors!)),
+      };
+    }
+
+    const query = validation.data!;
+    const result = await listOrdersByStore(
+      storeId,
+      { statuses: query.status, from: query.from, to: query.to },
+      query.limit,
+      query.next_token
+    );
+
+    const orders = result.orders.map((order) => ({
+      order_id: order.order_id,
+      customer_id: order.customer_id,
+      status: order.status,
+      payment_state: order.payment_state,
+      items: order.items,
+      total: order.total,
+      shipping_address: order.shipping_address,
+      fulfillment: order.fulfillment,
+      order_ts: order.order_ts,
+    }));
+
+    return {
+      statusCode: 200,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        store_id: storeId,
+        orders,
+        next_token: result.nextToken,
+      }),
+    };
+  } catch (error) {
+    if (error instanceof PaginationTokenError) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid next_token",
+          message: error.message,
+        }),
+      };
+    }
+
+    console.error("Error listing store orders:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
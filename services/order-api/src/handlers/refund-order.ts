@@ -0,0 +1,221 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  OrderAction,
+  OrderById,
+  OrderRefund,
+  REFUNDABLE_PAYMENT_STATES,
+  RefundRequestSchema,
+  RefundStatus,
+  calculateRefund,
+  callerFromAuthorizerContext,
+  checkOrderAccess,
+  formatValidationErrors,
+  generateRefundId,
+  getOrderById,
+  parseAndValidateBody,
+  recordPendingRefund,
+  submitRefund,
+} from "@acme-liquors/shared";
+
+/**
+ * POST /orders/{order_id}/refunds
+ * Refund a captured order in full or by line item
+ * Customer-service agents only, for orders of their stores or counties.
+ *
+ * Body: { reason, lines?: [{ sku, quantity }] }; omit lines to refund
+ * everything not yet refunded. Requires an X-Idempotency-Key header: a
+ * retried request returns the original refund, and one interrupted after
+ * the provider call is resumed rather than refunded twice.
+ *
+ * The refund is recorded PENDING before the provider is called, so
+ * concurrent refunds can never exceed the captured total between them.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const idempotencyKey = event.headers["X-Idempotency-Key"]
+      ?? event.headers["x-idempotency-key"];
+
+    if (!idempotencyKey) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing X-Idempotency-Key header",
+        }),
+      };
+    }
+
+    const orderId = event.pathParameters?.order_id;
+
+    if (!orderId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing order_id parameter",
+        }),
+      };
+    }
+
+    const validation = parseAndValidateBody(RefundRequestSchema, event.body);
+    if (!validation.success) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formatValidationErrors(validation.errors!)),
+      };
+    }
+
+    const order = await getOrderById(orderId);
+
+    if (!order) {
+      return {
+        statusCode: 404,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order not found",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    const denied = checkOrderAccess(caller, order, OrderAction.REFUND);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    // Replay or resume a refund already requested with this key
+    const existing = order.refunds?.find((r) => r.idempotency_key === idempotencyKey);
+    if (existing) {
+      return existing.status === RefundStatus.PENDING
+        ? await completeRefund(order, existing)
+        : refundResponse(order, existing, false);
+    }
+
+    if (!REFUNDABLE_PAYMENT_STATES.includes(order.payment_state) || !order.payment_capture_id) {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order payment cannot be refunded",
+          order_id: orderId,
+          payment_state: order.payment_state,
+          message: `Refunds require payment_state ${REFUNDABLE_PAYMENT_STATES.join(" or ")}`,
+        }),
+      };
+    }
+
+    const calculation = calculateRefund(order, validation.data!.lines);
+    if (calculation.status === "INVALID") {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid refund",
+          message: calculation.errors.map((e) => e.message).join("; "),
+          details: calculation.errors,
+        }),
+      };
+    }
+
+    const refund: OrderRefund = {
+      refund_id: generateRefundId(),
+      idempotency_key: idempotencyKey,
+      status: RefundStatus.PENDING,
+      lines: calculation.lines,
+      subtotal: calculation.subtotal,
+      tax: calculation.tax,
+      ...(calculation.deposit && { deposit: calculation.deposit }),
+      amount: calculation.amount,
+      reason: validation.data!.reason,
+      requested_at: new Date().toISOString(),
+    };
+
+    if (!(await recordPendingRefund(order, refund))) {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order changed, please retry",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    return await completeRefund(order, refund);
+  } catch (error) {
+    console.error("Error refunding order:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
+
+/**
+ * Submit a pending refund and build the response
+ */
+async function completeRefund(
+  order: OrderById,
+  refund: OrderRefund
+): Promise<APIGatewayProxyResult> {
+  const settled = await submitRefund(order, refund);
+  return refundResponse(settled.order, settled.refund, true);
+}
+
+/**
+ * Build the response for a settled refund
+ */
+function refundResponse(
+  order: OrderById,
+  refund: OrderRefund,
+  created: boolean
+): APIGatewayProxyResult {
+  if (refund.status === RefundStatus.FAILED) {
+    return {
+      statusCode: 422,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Refund declined",
+        message: `Payment provider declined the refund (${refund.decline_code})`,
+        order_id: order.order_id,
+        refund,
+      }),
+    };
+  }
+
+  return {
+    statusCode: created ? 201 : 200,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      order_id: order.order_id,
+      payment_state: order.payment_state,
+      refunded_total: order.refunded_total,
+      refund,
+      ...(created ? {} : { message: "Refund already processed (idempotent)" }),
+    }),
+  };
+}
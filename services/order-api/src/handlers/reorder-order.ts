@@ -0,0 +1,328 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  IdempotencyRecord,
+  Money,
+  Order,
+  OrderAction,
+  OrderById,
+  PrepareReorderResult,
+  ReorderLine,
+  ReorderRequestSchema,
+  callerFromAuthorizerContext,
+  checkOrderAccess,
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  findPlacedOrder,
+  fingerprint,
+  formatQuoteRefusal,
+  formatValidationErrors,
+  generateOrderId,
+  getOrderById,
+  isValidIdempotencyKey,
+  moneyEquals,
+  parseAndValidateBody,
+  placeOrder,
+  prepareReorder,
+  releaseIdempotencyKey,
+} from "@acme-liquors/shared";
+
+/**
+ * POST /orders/{order_id}/reorder
+ * Place a past order again: same store, lines and shipping address
+ * Customers, for their own orders.
+ *
+ * Body (optional): { confirm?, expected_total?, payment_method? }
+ *
+ * Without confirm, returns a preview: every line of the past order with
+ * its current price, and whether it is left out (no longer sold, out of
+ * stock) or cut to the store's free stock, plus the new order's totals
+ * after compliance checks and tax. Nothing is written.
+ *
+ * With confirm, places the new order exactly as create-order does, under
+ * a new X-Idempotency-Key (a key stays bound to the request it was first
+ * used for, so reusing the past order's key is refused). Send the
+ * preview's total as expected_total to have the confirm refused with 409
+ * and a fresh preview if prices or stock have moved since. The payment
+ * method defaults to the one the past order was paid with.
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  try {
+    const caller = callerFromAuthorizerContext(event.requestContext.authorizer);
+    if (!caller) {
+      return {
+        statusCode: 401,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Unauthorized",
+        }),
+      };
+    }
+
+    const orderId = event.pathParameters?.order_id;
+
+    if (!orderId) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing order_id parameter",
+        }),
+      };
+    }
+
+    // An empty body asks for a preview
+    const validation = parseAndValidateBody(ReorderRequestSchema, event.body || "{}");
+    if (!validation.success) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(formatValidationErrors(validation.errors!)),
+      };
+    }
+
+    const request = validation.data!;
+    const order = await getOrderById(orderId);
+
+    if (!order) {
+      return {
+        statusCode: 404,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Order not found",
+          order_id: orderId,
+        }),
+      };
+    }
+
+    const denied = checkOrderAccess(caller, order, OrderAction.REORDER);
+    if (denied) {
+      return {
+        statusCode: 403,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Forbidden",
+          message: denied,
+        }),
+      };
+    }
+
+    if (!request.confirm) {
+      const prepared = await prepareReorder(order, new Date().toISOString());
+      if (prepared.status !== "PREVIEW") {
+        return refusalResponse(prepared, order);
+      }
+      return {
+        statusCode: 200,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(prepared.preview),
+      };
+    }
+
+    const idempotencyKey = event.headers["X-Idempotency-Key"]
+      ?? event.headers["x-idempotency-key"];
+
+    if (!idempotencyKey) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Missing X-Idempotency-Key header",
+          message: "Confirming a reorder needs a new X-Idempotency-Key",
+        }),
+      };
+    }
+
+    if (!isValidIdempotencyKey(idempotencyKey)) {
+      return {
+        statusCode: 400,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Invalid X-Idempotency-Key header",
+          message: "X-Idempotency-Key must be 8 to 128 characters",
+        }),
+      };
+    }
+
+    const paymentMethod = request.payment_method ?? order.payment_method;
+    if (!paymentMethod) {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Payment method required",
+          message: `Order ${orderId} has no saved payment method; send payment_method`,
+        }),
+      };
+    }
+
+    // Identifiers a retry that takes over this key will reuse
+    const claim = await claimIdempotencyKey(
+      order.customer_id,
+      idempotencyKey,
+      fingerprint({ reordered_from: orderId, ...request }),
+      { order_id: generateOrderId(), order_ts: new Date().toISOString() }
+    );
+
+    if (claim.status === "MISMATCH") {
+      return {
+        statusCode: 422,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Idempotency key reused",
+          message: "X-Idempotency-Key was already used for a different request",
+        }),
+      };
+    }
+
+    if (claim.status === "IN_PROGRESS") {
+      return {
+        statusCode: 409,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          error: "Request in progress",
+          message: "A request with this X-Idempotency-Key is still being processed; retry shortly",
+        }),
+      };
+    }
+
+    if (claim.status === "REPLAY") {
+      return {
+        statusCode: claim.response.status_code,
+        headers: { "Content-Type": "application/json", "Idempotent-Replayed": "true" },
+        body: claim.response.body,
+      };
+    }
+
+    const response = await placeReorder(order, paymentMethod, request.expected_total, claim.record, claim.resumed);
+
+    // Refusals give the key back; accepted orders are kept for replay
+    if (response.statusCode < 300) {
+      await completeIdempotencyKey(claim.record, {
+        status_code: response.statusCode,
+        body: response.body,
+      });
+    } else {
+      await releaseIdempotencyKey(claim.record);
+    }
+
+    return response;
+  } catch (error) {
+    console.error("Error reordering order:", error);
+    return {
+      statusCode: 500,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Internal server error",
+      }),
+    };
+  }
+}
+
+/**
+ * Re-check the past order against today's catalog and stock and place it
+ * for a claimed idempotency key, or pick up the order a lapsed attempt
+ * already wrote
+ */
+async function placeReorder(
+  order: OrderById,
+  paymentMethod: string,
+  expectedTotal: Money | undefined,
+  record: IdempotencyRecord,
+  resumed: boolean
+): Promise<APIGatewayProxyResult> {
+  // The written order holds its own stock now, so don't re-check it
+  if (resumed) {
+    const existing = await findPlacedOrder(record);
+    if (existing) {
+      return orderResponse(existing, false);
+    }
+  }
+
+  const prepared = await prepareReorder(order, record.order_ts);
+  if (prepared.status !== "PREVIEW") {
+    return refusalResponse(prepared, order);
+  }
+
+  const preview = prepared.preview;
+  if (expectedTotal && !moneyEquals(expectedTotal, preview.total)) {
+    return {
+      statusCode: 409,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Reorder changed",
+        message: "Prices or stock changed since the preview; review it and confirm again",
+        preview,
+      }),
+    };
+  }
+
+  const request = {
+    customer_id: order.customer_id,
+    store_id: order.store_id,
+    county_id: order.county_id,
+    // Prices are pinned to the preview, so a change in between is refused as drift
+    items: preview.items.map((item) => ({ sku: item.sku, quantity: item.quantity, unit_price: item.unit_price })),
+    shipping_address: order.shipping_address,
+    payment_method: paymentMethod,
+  };
+  const placed = await placeOrder(request, record, order.order_id);
+  if (placed.status === "QUOTE_FAILED") {
+    return {
+      statusCode: 422,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(formatQuoteRefusal(placed.result, request)),
+    };
+  }
+
+  return orderResponse(placed.order, placed.created, preview.lines);
+}
+
+/**
+ * 422 for a past order that can't be placed again today
+ */
+function refusalResponse(
+  result: Exclude<PrepareReorderResult, { status: "PREVIEW" }>,
+  order: OrderById
+): APIGatewayProxyResult {
+  if (result.status === "NOTHING_AVAILABLE") {
+    return {
+      statusCode: 422,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        error: "Nothing to reorder",
+        message: `No line of order ${order.order_id} is available at store ${order.store_id}`,
+        lines: result.lines,
+      }),
+    };
+  }
+
+  return {
+    statusCode: 422,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(formatQuoteRefusal(result.result, order)),
+  };
+}
+
+function orderResponse(order: Order, created: boolean, lines?: ReorderLine[]): APIGatewayProxyResult {
+  return {
+    statusCode: created ? 201 : 200,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      order_id: order.order_id,
+      customer_id: order.customer_id,
+      reordered_from: order.reordered_from,
+      status: order.status,
+      payment_state: order.payment_state,
+      ...(lines && { lines }),
+      items: order.items,
+      subtotal: order.subtotal,
+      tax: order.tax,
+      total: order.total,
+      tax_breakdown: order.tax_breakdown,
+      created_at: order.created_at,
+      ...(created ? {} : { message: "Order already exists (idempotent)" }),
+    }),
+  };
+}
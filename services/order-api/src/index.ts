@@ -1,5 +1,15 @@
 // Export all handlers
+export { handler as authorizerHandler } from "./handlers/authorizer";
 export { handler as createOrderHandler } from "./handlers/create-order";
 export { handler as getOrderHandler } from "./handlers/get-order";
+export { handler as getOrderHistoryHandler } from "./handlers/get-order-history";
 export { handler as listOrdersHandler } from "./handlers/list-orders";
 export { handler as cancelOrderHandler } from "./handlers/cancel-order";
+export { handler as amendOrderHandler } from "./handlers/amend-order";
+export { handler as cancelLineHandler } from "./handlers/cancel-line";
+export { handler as reorderOrderHandler } from "./handlers/reorder-order";
+export { handler as refundOrderHandler } from "./handlers/refund-order";
+export { handler as fulfillOrderHandler } from "./handlers/fulfill-order";
+export { handler as listStoreOrdersHandler } from "./handlers/list-store-orders";
+export { handler as getPickListHandler } from "./handlers/get-pick-list";
+export { handler as getCountySummaryHandler } from "./handlers/get-county-summary";
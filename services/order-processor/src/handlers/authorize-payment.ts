@@ -0,0 +1,115 @@
+import {
+  Money,
+  PaymentOperation,
+  PaymentOutcome,
+  PaymentState,
+  getPaymentProvider,
+  paymentIdempotencyKey,
+  toDecimalString,
+  updatePaymentState,
+} from "@acme-liquors/shared";
+
+interface AuthorizePaymentRequest {
+  order_id: string;
+  customer_id: string;
+  order_ts_id: string;
+  payment_method?: string;
+  amount: Money;
+}
+
+interface AuthorizePaymentResponse {
+  success: boolean;
+  authorization_id?: string;
+  payment_state?: PaymentState;
+  decline_code?: string;
+  challenge_url?: string;
+  error?: string;
+}
+
+/**
+ * Authorize payment for an order with the active payment provider
+ *
+ * Funds are only held here; they are captured when the order ships. The
+ * idempotency key is derived from the order ID, so a redelivered SQS
+ * message or a retried saga step gets the original authorization back
+ * instead of placing a second hold.
+ *
+ * - Approved: payment_state PENDING -> AUTHORIZED, authorization ID stored on
+ *   the order; an order no longer PENDING is left as it is
+ * - Declined: payment_state FAILED
+ * - Challenge required: payment_state stays PENDING; the challenge URL is returned
+ * - Provider timeout or error: no state change, so the step is retried
+ */
+export async function handler(
+  event: AuthorizePaymentRequest
+): Promise<AuthorizePaymentResponse> {
+  console.log("Authorizing payment for order:", event.order_id, "amount:", toDecimalString(event.amount), event.amount.currency);
+
+  try {
+    if (!event.payment_method) {
+      await updatePaymentState(event.customer_id, event.order_ts_id, event.order_id, PaymentState.FAILED);
+      return {
+        success: false,
+        payment_state: PaymentState.FAILED,
+        error: "Order has no payment method",
+      };
+    }
+
+    const result = await getPaymentProvider().authorize({
+      idempotency_key: paymentIdempotencyKey(event.order_id, PaymentOperation.AUTHORIZE),
+      order_id: event.order_id,
+      customer_id: event.customer_id,
+      payment_method: event.payment_method,
+      amount: event.amount,
+    });
+
+    switch (result.outcome) {
+      case PaymentOutcome.APPROVED: {
+        // A replayed approval finds the order already AUTHORIZED (or moved on)
+        const updated = await updatePaymentState(
+          event.customer_id,
+          event.order_ts_id,
+          event.order_id,
+          PaymentState.AUTHORIZED,
+          PaymentState.PENDING,
+          { payment_authorization_id: result.transaction_id }
+        );
+        if (updated) {
+          console.log("Payment authorized:", result.transaction_id);
+        } else {
+          console.log("Payment state already past PENDING; leaving it:", event.order_id);
+        }
+        return {
+          success: true,
+          authorization_id: result.transaction_id,
+          payment_state: PaymentState.AUTHORIZED,
+        };
+      }
+
+      case PaymentOutcome.CHALLENGE_REQUIRED:
+        console.log("Payment requires a challenge:", event.order_id);
+        return {
+          success: false,
+          payment_state: PaymentState.PENDING,
+          challenge_url: result.challenge_url,
+          error: "Payment requires cardholder authentication",
+        };
+
+      default:
+        await updatePaymentState(event.customer_id, event.order_ts_id, event.order_id, PaymentState.FAILED);
+        console.log("Payment declined:", event.order_id, result.decline_code);
+        return {
+          success: false,
+          payment_state: PaymentState.FAILED,
+          decline_code: result.decline_code,
+          error: "Payment declined",
+        };
+    }
+  } catch (error) {
+    console.error("Error authorizing payment:", error);
+    return {
+      success: false,
+      error: String(error),
+    };
+  }
+}
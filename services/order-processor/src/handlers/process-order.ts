@@ -1,27 +1,37 @@
 import { SQSEvent, SQSBatchResponse, SQSBatchItemFailure } from "aws-lambda";
-import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
 import {
   OrderProcessingMessage,
   getOrderById,
-  updateOrderStatus,
+  transitionOrder,
   OrderStatus,
-  PaymentState,
+  SagaConcurrencyError,
+  cancellationSagaId,
 } from "@acme-liquors/shared";
+import { createCancellationSaga } from "../workflow/cancel-saga";
+import { invokeFunction } from "../workflow/invoke";
+import { ORDER_PROCESSOR_ACTOR, createOrderSaga } from "../workflow/order-saga";
 
-const lambdaClient = new LambdaClient({});
-
-const RESERVE_INVENTORY_FN = process.env.RESERVE_INVENTORY_FN_ARN!;
-const PROCESS_PAYMENT_FN = process.env.PROCESS_PAYMENT_FN_ARN!;
 const SEND_NOTIFICATIONS_FN = process.env.SEND_NOTIFICATIONS_FN_ARN!;
 
+const orderSaga = createOrderSaga();
+const cancellationSaga = createCancellationSaga();
+
 /**
- * Main SQS consumer - orchestrates the order processing workflow
+ * Main SQS consumer - runs the order processing saga
+ *
+ * Saga steps (see workflow/order-saga.ts):
+ * 1. Verify buyer age
+ * 2. Reserve inventory (compensation: release reservation)
+ * 3. Process payment (compensation: void payment)
+ * 4. Update order status to CONFIRMED
+ *
+ * Step state is saved per order, so a redelivered message resumes the
+ * saga instead of starting over. When a step fails, completed steps are
+ * compensated and the order is failed; notifications go out at the end.
  *
- * Workflow:
- * 1. Reserve inventory
- * 2. Process payment
- * 3. Update order status to CONFIRMED
- * 4. Send notifications
+ * CANCEL_ORDER messages run the cancellation saga instead (see
+ * workflow/cancel-saga.ts): release inventory, then void or refund the
+ * payment. Transient failures are retried through SQS redelivery.
  */
 export async function handler(event: SQSEvent): Promise<SQSBatchResponse> {
   const batchItemFailures: SQSBatchItemFailure[] = [];
@@ -38,57 +48,47 @@ export async function handler(event: SQSEvent): Promise<SQSBatchResponse> {
         continue; // Don't retry - order doesn't exist
       }
 
-      // Skip if already processed (idempotency)
-      if (order.status !== OrderStatus.PENDING) {
-        console.log("Order already processed:", message.order_id, order.status);
+      if (message.action === "CANCEL_ORDER") {
+        const result = await cancellationSaga.run(cancellationSagaId(message.order_id), { message, order });
+
+        if (result.status === "RETRY") {
+          console.warn("Cancellation will retry:", message.order_id, result.failed_step, result.reason);
+          batchItemFailures.push({ itemIdentifier: record.messageId });
+        } else if (result.status === "FAILED") {
+          console.error("Cancellation follow-up failed:", message.order_id, result.failed_step, result.reason);
+        } else {
+          console.log("Cancellation completed:", message.order_id);
+        }
         continue;
       }
 
-      // Step 1: Reserve inventory
-      const inventoryResult = await invokeFunction(RESERVE_INVENTORY_FN, {
-        order_id: message.order_id,
-        customer_id: message.customer_id,
-        items: order.items,
-        store_id: order.store_id,
-      });
-
-      if (!inventoryResult.success) {
-        console.error("Inventory reservation failed:", inventoryResult.error);
-        await failOrder(message, "Inventory reservation failed");
+      // Skip if already processed (idempotency); a PENDING order may
+      // still have a saga in progress, which resumes below
+      if (order.status !== OrderStatus.PENDING) {
+        console.log("Order already processed:", message.order_id, order.status);
         continue;
       }
 
-      // Step 2: Process payment
-      const paymentResult = await invokeFunction(PROCESS_PAYMENT_FN, {
-        order_id: message.order_id,
-        customer_id: message.customer_id,
-        amount: order.total,
-      });
-
-      if (!paymentResult.success) {
-        console.error("Payment processing failed:", paymentResult.error);
-        // TODO: Release inventory reservation
-        await failOrder(message, "Payment processing failed");
+      const result = await orderSaga.run(message.order_id, { message, order });
+
+      if (result.status === "RETRY") {
+        console.warn("Order saga will retry:", message.order_id, result.failed_step, result.reason);
+        batchItemFailures.push({ itemIdentifier: record.messageId });
         continue;
       }
 
-      // Step 3: Update order status to CONFIRMED
-      const orderTsId = `${order.order_ts}#${order.order_id}`;
-      const updated = await updateOrderStatus(
-        message.customer_id,
-        orderTsId,
-        message.order_id,
-        OrderStatus.CONFIRMED,
-        OrderStatus.PENDING
-      );
-
-      if (!updated) {
-        console.error("Failed to update order status:", message.order_id);
-        batchItemFailures.push({ itemIdentifier: record.messageId });
+      if (result.status === "FAILED") {
+        // Completed steps have been compensated by now
+        console.error("Order saga failed:", message.order_id, result.failed_step, result.reason);
+        await failOrder(
+          message,
+          result.reason ?? "Order processing failed",
+          (result.output?.order_status as OrderStatus | undefined) ?? OrderStatus.FAILED
+        );
         continue;
       }
 
-      // Step 4: Send notifications (async, don't wait)
+      // Send notifications (async, don't wait)
       await invokeFunction(
         SEND_NOTIFICATIONS_FN,
         {
@@ -102,7 +102,12 @@ export async function handler(event: SQSEvent): Promise<SQSBatchResponse> {
 
       console.log("Order processed successfully:", message.order_id);
     } catch (error) {
-      console.error("Error processing message:", record.messageId, error);
+      if (error instanceof SagaConcurrencyError) {
+        // Another worker is running this order's saga; let it finish
+        console.warn(error.message);
+      } else {
+        console.error("Error processing message:", record.messageId, error);
+      }
       batchItemFailures.push({ itemIdentifier: record.messageId });
     }
   }
@@ -111,75 +116,36 @@ export async function handler(event: SQSEvent): Promise<SQSBatchResponse> {
 }
 
 /**
- * Mark order as failed
+ * Mark order as failed (or another terminal/hold status) with a reason
+ * Errors propagate so SQS redelivers the message; the transition is
+ * conditioned on the order still being PENDING, so a retry can't fail it
+ * twice.
  */
 async function failOrder(
   message: OrderProcessingMessage,
-  reason: string
+  reason: string,
+  status: OrderStatus = OrderStatus.FAILED
 ): Promise<void> {
-  try {
-    const order = await getOrderById(message.order_id);
-    if (order) {
-      const orderTsId = `${order.order_ts}#${order.order_id}`;
-      await updateOrderStatus(
-        message.customer_id,
-        orderTsId,
-        message.order_id,
-        OrderStatus.FAILED,
-        OrderStatus.PENDING
-      );
-    }
-
-    // Send failure notification
-    await invokeFunction(
-      SEND_NOTIFICATIONS_FN,
-      {
-        order_id: message.order_id,
-        customer_id: message.customer_id,
-        status: OrderStatus.FAILED,
-        reason,
-      },
-      true
-    );
-  } catch (error) {
-    console.error("Error failing order:", error);
+  const order = await getOrderById(message.order_id);
+  const result = order?.status === OrderStatus.PENDING
+    ? await transitionOrder(order, status, { actor: ORDER_PROCESSOR_ACTOR, reason })
+    : undefined;
+
+  // Order left PENDING meanwhile (e.g. cancelled); its own flow notifies
+  if (result?.status !== "TRANSITIONED") {
+    console.log("Order no longer pending, not failing:", message.order_id);
+    return;
   }
-}
-
-/**
- * Invoke a Lambda function
- */
-async function invokeFunction(
-  functionArn: string,
-  payload: unknown,
-  async = false
-): Promise<{ success: boolean; data?: unknown; error?: string }> {
-  try {
-    const response = await lambdaClient.send(
-      new InvokeCommand({
-        FunctionName: functionArn,
-        InvocationType: async ? "Event" : "RequestResponse",
-        Payload: Buffer.from(JSON.stringify(payload)),
-      })
-    );
-
-    if (async) {
-      return { success: true };
-    }
 
-    if (response.FunctionError) {
-      const errorPayload = response.Payload
-        ? JSON.parse(Buffer.from(response.Payload).toString())
-        : {};
-      return { success: false, error: errorPayload.errorMessage || "Function error" };
-    }
-
-    const result = response.Payload
-      ? JSON.parse(Buffer.from(response.Payload).toString())
-      : {};
-    return { success: true, data: result };
-  } catch (error) {
-    console.error("Error invoking function:", functionArn, error);
-    return { success: false, error: String(error) };
-  }
+  // Send failure notification
+  await invokeFunction(
+    SEND_NOTIFICATIONS_FN,
+    {
+      order_id: message.order_id,
+      customer_id: message.customer_id,
+      status,
+      reason,
+    },
+    true
+  );
 }
@@ -0,0 +1,38 @@
+import { releaseReservation } from "@acme-liquors/shared";
+
+interface ReleaseInventoryRequest {
+  order_id: string;
+  reservation_id: string;
+}
+
+interface ReleaseInventoryResponse {
+  success: boolean;
+  released_lines?: number;
+  error?: string;
+}
+
+/**
+ * Release an inventory reservation (saga compensation for reserve-inventory)
+ *
+ * Each still-held reservation line is marked RELEASED and its units
+ * returned to stock in one transaction per line, so repeated calls
+ * never release a line twice.
+ */
+export async function handler(
+  event: ReleaseInventoryRequest
+): Promise<ReleaseInventoryResponse> {
+  console.log("Releasing inventory for order:", event.order_id, event.reservation_id);
+
+  try {
+    const released = await releaseReservation(event.reservation_id);
+
+    console.log("Inventory released:", event.reservation_id, "lines:", released);
+    return { success: true, released_lines: released };
+  } catch (error) {
+    console.error("Error releasing inventory:", error);
+    return {
+      success: false,
+      error: String(error),
+    };
+  }
+}
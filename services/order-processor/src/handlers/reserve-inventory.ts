@@ -2,9 +2,13 @@ import {
   getDocumentClient,
   TableNames,
   executeTransaction,
-  generateReservationId,
-  calculateTTL,
+  getReservation,
+  isConditionCancellation,
+  orderReservationId,
   OrderItem,
+  Reservation,
+  ReservationStatus,
+  RESERVATION_TTL_MINUTES,
 } from "@acme-liquors/shared";
 import { GetCommand, TransactWriteCommandInput } from "@aws-sdk/lib-dynamodb";
 
@@ -30,21 +34,37 @@ interface ReserveInventoryResponse {
  * Reserve inventory for order items using DynamoDB transactions
  *
  * This handler:
- * 1. Checks availability for all items
- * 2. Creates reservations atomically using TransactWriteItems
- * 3. Returns failure if any item is unavailable
+ * 1. Returns the order's existing reservation if it already has one (retries);
+ *    its ID is derived from the order ID, so this is a consistent read of
+ *    the reservation itself
+ * 2. Checks availability for all items
+ * 3. Increments quantity_reserved and writes a PENDING reservation line per
+ *    item atomically using TransactWriteItems
+ * 4. Returns failure if any item is unavailable
+ *
+ * Unconfirmed reservations are released by the sweep-reservations job
+ * once they expire. A reservation that was released may be taken up again.
  */
 export async function handler(
   event: ReserveInventoryRequest
 ): Promise<ReserveInventoryResponse> {
   const client = getDocumentClient();
-  const reservationId = generateReservationId();
+  const reservationId = orderReservationId(event.order_id);
   const now = new Date().toISOString();
-  const ttl = calculateTTL(30); // 30 minute reservation TTL
+  const expiresAt = new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000).toISOString();
 
   console.log("Reserving inventory for order:", event.order_id);
 
   try {
+    // A retried saga step must not reserve the same order twice
+    if (await isHeld(reservationId)) {
+      console.log("Order already has a reservation:", reservationId);
+      return {
+        success: true,
+        reservation_id: reservationId,
+      };
+    }
+
     // First, check availability for all items
     const availabilityChecks = await Promise.all(
       event.items.map(async (item) => {
@@ -86,11 +106,20 @@ export async function handler(
       };
     }
 
-    // Build transaction to reserve all items
+    // Build transaction to reserve all items and record the reservation
     const transactItems: TransactWriteCommandInput["TransactItems"] = [];
 
     for (const item of event.items) {
       const storeSku = `${event.store_id}#${item.sku}`;
+      const reservation: Reservation = {
+        reservation_id: reservationId,
+        order_id: event.order_id,
+        store_sku: storeSku,
+        quantity: item.quantity,
+        status: ReservationStatus.PENDING,
+        created_at: now,
+        expires_at: expiresAt,
+      };
 
       // Update inventory - increment reserved quantity
       transactItems.push({
@@ -108,6 +137,17 @@ export async function handler(
           },
         },
       });
+
+      transactItems.push({
+        Put: {
+          TableName: TableNames.RESERVATIONS,
+          Item: reservation,
+          // A concurrent attempt for the same order fails here
+          ConditionExpression: "attribute_not_exists(reservation_id) OR #status = :released",
+          ExpressionAttributeNames: { "#status": "status" },
+          ExpressionAttributeValues: { ":released": ReservationStatus.RELEASED },
+        },
+      });
     }
 
     // Execute transaction
@@ -119,6 +159,15 @@ export async function handler(
       reservation_id: reservationId,
     };
   } catch (error) {
+    // Another attempt for the same order reserved it first
+    if (isConditionCancellation(error) && (await isHeld(reservationId).catch(() => false))) {
+      console.log("Order was reserved by a concurrent attempt:", reservationId);
+      return {
+        success: true,
+        reservation_id: reservationId,
+      };
+    }
+
     console.error("Error reserving inventory:", error);
 
     // Check if it's a transaction cancelled error (condition failed)
@@ -135,3 +184,11 @@ export async function handler(
     };
   }
 }
+
+/**
+ * Whether any line of the reservation still holds stock
+ */
+async function isHeld(reservationId: string): Promise<boolean> {
+  const lines = await getReservation(reservationId);
+  return lines.some((line) => line.status !== ReservationStatus.RELEASED);
+}
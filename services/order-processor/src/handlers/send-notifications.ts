@@ -1,5 +1,5 @@
 import { SNSClient, PublishCommand } from "@aws-sdk/client-sns";
-import { OrderStatus } from "@acme-liquors/shared";
+import { Money, OrderStatus, fingerprint } from "@acme-liquors/shared";
 
 const snsClient = new SNSClient({});
 const NOTIFICATION_TOPIC_ARN = process.env.NOTIFICATION_TOPIC_ARN!;
@@ -8,7 +8,7 @@ interface SendNotificationRequest {
   order_id: string;
   customer_id: string;
   status: OrderStatus;
-  total?: number;
+  total?: Money;
   reason?: string;
 }
 
@@ -27,6 +27,10 @@ interface SendNotificationResponse {
  * - SMS notifications
  * - Webhook integrations
  * - Other microservices
+ *
+ * Each message carries a notification_id fingerprinted from the request,
+ * so a retried or repeated invocation for the same order update has the
+ * same ID and subscribers can drop the repeat.
  */
 export async function handler(
   event: SendNotificationRequest
@@ -60,6 +64,10 @@ export async function handler(
             DataType: "String",
             StringValue: `ORDER_${event.status}`,
           },
+          notification_id: {
+            DataType: "String",
+            StringValue: message.notification_id,
+          },
         },
       })
     );
@@ -82,6 +90,7 @@ export async function handler(
  * Build notification message based on order status
  */
 function buildNotificationMessage(event: SendNotificationRequest): {
+  notification_id: string;
   type: string;
   order_id: string;
   customer_id: string;
@@ -90,6 +99,13 @@ function buildNotificationMessage(event: SendNotificationRequest): {
   details: Record<string, unknown>;
 } {
   const baseMessage = {
+    notification_id: fingerprint({
+      order_id: event.order_id,
+      customer_id: event.customer_id,
+      status: event.status,
+      total: event.total,
+      reason: event.reason,
+    }),
     type: `ORDER_${event.status}`,
     order_id: event.order_id,
     customer_id: event.customer_id,
@@ -118,6 +134,26 @@ function buildNotificationMessage(event: SendNotificationRequest): {
         },
       };
 
+    case OrderStatus.VERIFICATION_FAILED:
+      return {
+        ...baseMessage,
+        details: {
+          message: "We could not verify that you are of legal drinking age.",
+          reason: event.reason || "Age verification failed",
+          next_step: "Please contact support to verify your identity.",
+        },
+      };
+
+    case OrderStatus.ON_HOLD:
+      return {
+        ...baseMessage,
+        details: {
+          message: "Your order is on hold pending age verification.",
+          reason: event.reason || "Manual review required",
+          next_step: "Add your date of birth to your profile or contact support.",
+        },
+      };
+
     case OrderStatus.CANCELLED:
       return {
         ...baseMessage,
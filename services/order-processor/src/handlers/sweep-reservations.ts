@@ -0,0 +1,40 @@
+import {
+  listExpiredReservations,
+  releaseReservationLine,
+  ReservationStatus,
+} from "@acme-liquors/shared";
+
+// Lines released per run; the schedule picks up the rest next time
+const SWEEP_BATCH_SIZE = 500;
+
+interface SweepReservationsResponse {
+  expired: number;
+  released: number;
+}
+
+/**
+ * Release expired PENDING reservations (scheduled)
+ *
+ * Only lines still PENDING are released: a line confirmed or released
+ * since it was listed fails the transaction's condition and is skipped,
+ * so quantity_reserved is never decremented twice.
+ */
+export async function handler(): Promise<SweepReservationsResponse> {
+  const now = new Date().toISOString();
+  const expired = await listExpiredReservations(now, SWEEP_BATCH_SIZE);
+  let released = 0;
+
+  for (const line of expired) {
+    try {
+      if (await releaseReservationLine(line, [ReservationStatus.PENDING])) {
+        released++;
+      }
+    } catch (error) {
+      // Leave the line for the next run
+      console.error("Error releasing reservation:", line.reservation_id, line.store_sku, error);
+    }
+  }
+
+  console.log(`Released ${released} of ${expired.length} expired reservation lines`);
+  return { expired: expired.length, released };
+}
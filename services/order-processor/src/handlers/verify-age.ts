@@ -0,0 +1,82 @@
+import {
+  getCustomerProfile,
+  getAgeVerifier,
+  recordAgeVerification,
+  generateVerificationId,
+  calculateAge,
+  LEGAL_DRINKING_AGE,
+  VerificationOutcome,
+} from "@acme-liquors/shared";
+
+interface VerifyAgeRequest {
+  order_id: string;
+  customer_id: string;
+  shipping_state: string;
+}
+
+interface VerifyAgeResponse {
+  success: boolean;
+  verification_id?: string;
+  outcome?: VerificationOutcome;
+  reason?: string;
+  error?: string;
+}
+
+/**
+ * Verify the buyer is of legal drinking age
+ *
+ * This handler:
+ * 1. Loads the customer profile (date of birth)
+ * 2. Runs the active age verifier
+ * 3. Records the outcome for compliance audits
+ */
+export async function handler(event: VerifyAgeRequest): Promise<VerifyAgeResponse> {
+  const verificationId = generateVerificationId();
+  const now = new Date().toISOString();
+
+  console.log("Verifying age for order:", event.order_id);
+
+  try {
+    const profile = await getCustomerProfile(event.customer_id);
+    const verifier = getAgeVerifier();
+
+    const result = await verifier.verify({
+      customer_id: event.customer_id,
+      date_of_birth: profile?.date_of_birth,
+      shipping_state: event.shipping_state,
+      minimum_age: LEGAL_DRINKING_AGE,
+      as_of: now,
+    });
+
+    await recordAgeVerification({
+      order_id: event.order_id,
+      verified_at: now,
+      verification_id: verificationId,
+      customer_id: event.customer_id,
+      outcome: result.outcome,
+      reason: result.reason,
+      verifier: result.verifier,
+      reference: result.reference,
+      minimum_age: LEGAL_DRINKING_AGE,
+      customer_age: profile?.date_of_birth
+        ? calculateAge(profile.date_of_birth, now)
+        : undefined,
+      shipping_state: event.shipping_state,
+    });
+
+    console.log("Age verification:", event.order_id, result.outcome);
+
+    return {
+      success: result.outcome === VerificationOutcome.VERIFIED,
+      verification_id: verificationId,
+      outcome: result.outcome,
+      reason: result.reason,
+    };
+  } catch (error) {
+    console.error("Age verification error:", error);
+    return {
+      success: false,
+      error: String(error),
+    };
+  }
+}
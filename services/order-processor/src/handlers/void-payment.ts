@@ -0,0 +1,62 @@
+import {
+  PaymentOperation,
+  PaymentOutcome,
+  PaymentState,
+  getPaymentProvider,
+  paymentIdempotencyKey,
+  updatePaymentState,
+} from "@acme-liquors/shared";
+
+interface VoidPaymentRequest {
+  order_id: string;
+  customer_id: string;
+  order_ts_id: string;
+  authorization_id: string;
+}
+
+interface VoidPaymentResponse {
+  success: boolean;
+  payment_state?: PaymentState;
+  error?: string;
+}
+
+/**
+ * Void a payment authorization (saga compensation for authorize-payment)
+ *
+ * Uses an idempotency key derived from the order ID, so a retried
+ * compensation replays the original void. Only an AUTHORIZED payment is
+ * moved to VOIDED; one already voided (or moved on) is left as it is.
+ */
+export async function handler(event: VoidPaymentRequest): Promise<VoidPaymentResponse> {
+  console.log("Voiding payment for order:", event.order_id, event.authorization_id);
+
+  try {
+    const result = await getPaymentProvider().void({
+      idempotency_key: paymentIdempotencyKey(event.order_id, PaymentOperation.VOID),
+      order_id: event.order_id,
+      authorization_id: event.authorization_id,
+    });
+    if (result.outcome !== PaymentOutcome.APPROVED) {
+      return { success: false, error: `Void declined: ${result.decline_code}` };
+    }
+
+    const updated = await updatePaymentState(
+      event.customer_id,
+      event.order_ts_id,
+      event.order_id,
+      PaymentState.VOIDED,
+      PaymentState.AUTHORIZED
+    );
+    if (!updated) {
+      console.log("Payment no longer AUTHORIZED; leaving it:", event.order_id);
+    }
+
+    return { success: true, payment_state: PaymentState.VOIDED };
+  } catch (error) {
+    console.error("Error voiding payment:", error);
+    return {
+      success: false,
+      error: String(error),
+    };
+  }
+}
@@ -1,5 +1,5 @@
 // Export all handlers
 export { handler as processOrderHandler } from "./handlers/process-order";
 export { handler as reserveInventoryHandler } from "./handlers/reserve-inventory";
-export { handler as processPaymentHandler } from "./handlers/process-payment";
+export { handler as authorizePaymentHandler } from "./handlers/authorize-payment";
 export { handler as sendNotificationsHandler } from "./handlers/send-notifications";
@@ -0,0 +1,185 @@
+import {
+  OrderById,
+  OrderProcessingMessage,
+  OrderRefund,
+  PaymentOperation,
+  PaymentOutcome,
+  PaymentState,
+  RefundStatus,
+  SagaOrchestrator,
+  SagaStateStore,
+  SagaStep,
+  SagaStepResult,
+  calculateRefund,
+  generateRefundId,
+  getPaymentProvider,
+  paymentIdempotencyKey,
+  recordPendingRefund,
+  releaseOrderReservations,
+  submitRefund,
+  updatePaymentState,
+} from "@acme-liquors/shared";
+
+export const CANCELLATION_SAGA_TYPE = "order-cancellation";
+
+/**
+ * Context shared by every step of the cancellation saga
+ */
+export interface CancellationSagaContext {
+  message: OrderProcessingMessage;
+  order: OrderById;
+}
+
+/**
+ * Mark the payment reversal as failed so it shows up for follow-up
+ */
+async function reversalFailed(
+  order: OrderById,
+  pendingState: PaymentState,
+  reason: string
+): Promise<SagaStepResult> {
+  await updatePaymentState(
+    order.customer_id,
+    `${order.order_ts}#${order.order_id}`,
+    order.order_id,
+    PaymentState.REVERSAL_FAILED,
+    pendingState
+  );
+  return { status: "FAILED", reason, output: { payment_state: PaymentState.REVERSAL_FAILED } };
+}
+
+/**
+ * Void an authorization that was never captured
+ * Uses the same idempotency key as the order saga's void compensation, so
+ * the two can never void twice.
+ */
+async function voidAuthorization(order: OrderById): Promise<SagaStepResult> {
+  if (!order.payment_authorization_id) {
+    return reversalFailed(order, PaymentState.VOID_PENDING, "No authorization recorded to void");
+  }
+
+  const result = await getPaymentProvider().void({
+    idempotency_key: paymentIdempotencyKey(order.order_id, PaymentOperation.VOID),
+    order_id: order.order_id,
+    authorization_id: order.payment_authorization_id,
+  });
+  if (result.outcome !== PaymentOutcome.APPROVED) {
+    return reversalFailed(order, PaymentState.VOID_PENDING, `Void declined (${result.decline_code})`);
+  }
+
+  await updatePaymentState(
+    order.customer_id,
+    `${order.order_ts}#${order.order_id}`,
+    order.order_id,
+    PaymentState.VOIDED,
+    PaymentState.VOID_PENDING
+  );
+  return { status: "COMPLETED", output: { payment_state: PaymentState.VOIDED, void_id: result.transaction_id } };
+}
+
+/**
+ * Refund whatever is left of a capture
+ * The refund is recorded on the order like any other, under an idempotency
+ * key derived from the order, so a retried step resumes the same refund.
+ */
+async function refundCapture(order: OrderById): Promise<SagaStepResult> {
+  const idempotencyKey = `${order.order_id}:cancel`;
+  let refund = order.refunds?.find((r) => r.idempotency_key === idempotencyKey);
+
+  if (!refund) {
+    const calculation = calculateRefund(order);
+    if (calculation.status === "INVALID") {
+      if (calculation.errors.some((e) => e.code === "nothing_to_refund")) {
+        await updatePaymentState(
+          order.customer_id,
+          `${order.order_ts}#${order.order_id}`,
+          order.order_id,
+          PaymentState.REFUNDED,
+          PaymentState.REFUND_PENDING
+        );
+        return { status: "COMPLETED", output: { payment_state: PaymentState.REFUNDED } };
+      }
+      return reversalFailed(
+        order,
+        PaymentState.REFUND_PENDING,
+        calculation.errors.map((e) => e.message).join("; ")
+      );
+    }
+
+    const pending: OrderRefund = {
+      refund_id: generateRefundId(),
+      idempotency_key: idempotencyKey,
+      status: RefundStatus.PENDING,
+      lines: calculation.lines,
+      subtotal: calculation.subtotal,
+      tax: calculation.tax,
+      ...(calculation.deposit && { deposit: calculation.deposit }),
+      amount: calculation.amount,
+      reason: "Order cancelled",
+      requested_at: new Date().toISOString(),
+    };
+    if (!(await recordPendingRefund(order, pending))) {
+      return { status: "RETRY", reason: "Order changed while recording the refund" };
+    }
+    refund = pending;
+  }
+
+  let paymentState = order.payment_state;
+  if (refund.status === RefundStatus.PENDING) {
+    const settled = await submitRefund(order, refund);
+    refund = settled.refund;
+    paymentState = settled.order.payment_state;
+  }
+
+  if (refund.status === RefundStatus.FAILED) {
+    return reversalFailed(order, PaymentState.REFUND_PENDING, `Refund declined (${refund.decline_code})`);
+  }
+  return { status: "COMPLETED", output: { payment_state: paymentState, refund_id: refund.refund_id } };
+}
+
+/**
+ * Return the order's reserved units to available stock
+ * Only lines still RESERVED are released, so a retry is a no-op.
+ */
+export const releaseInventoryStep: SagaStep<CancellationSagaContext> = {
+  name: "release-inventory",
+  async execute({ order }) {
+    const released = await releaseOrderReservations(order.order_id);
+    return { status: "COMPLETED", output: { released_lines: released } };
+  },
+};
+
+/**
+ * Void the authorization or refund the capture, per the pending payment state
+ * the cancellation recorded. Provider timeouts throw and are retried;
+ * declines leave the payment REVERSAL_FAILED.
+ */
+export const reversePaymentStep: SagaStep<CancellationSagaContext> = {
+  name: "reverse-payment",
+  async execute({ order }) {
+    switch (order.payment_state) {
+      case PaymentState.VOID_PENDING:
+        return voidAuthorization(order);
+      case PaymentState.REFUND_PENDING:
+        return refundCapture(order);
+      default:
+        // Nothing was held, or a previous attempt already reversed it
+        return { status: "COMPLETED", output: { payment_state: order.payment_state } };
+    }
+  },
+};
+
+export const CANCELLATION_SAGA_STEPS: SagaStep<CancellationSagaContext>[] = [
+  releaseInventoryStep,
+  reversePaymentStep,
+];
+
+/**
+ * Create the order cancellation saga
+ */
+export function createCancellationSaga(
+  steps: SagaStep<CancellationSagaContext>[] = CANCELLATION_SAGA_STEPS,
+  store?: SagaStateStore
+): SagaOrchestrator<CancellationSagaContext> {
+  return new SagaOrchestrator(CANCELLATION_SAGA_TYPE, steps, store);
+}
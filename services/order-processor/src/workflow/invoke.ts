@@ -0,0 +1,44 @@
+import { LambdaClient, InvokeCommand } from "@aws-sdk/client-lambda";
+
+const lambdaClient = new LambdaClient({});
+
+/**
+ * Invoke a Lambda function
+ *
+ * `success` reports whether the invocation itself worked; the handler's
+ * own result (which may report a business failure) is returned in `data`.
+ */
+export async function invokeFunction(
+  functionArn: string,
+  payload: unknown,
+  async = false
+): Promise<{ success: boolean; data?: unknown; error?: string }> {
+  try {
+    const response = await lambdaClient.send(
+      new InvokeCommand({
+        FunctionName: functionArn,
+        InvocationType: async ? "Event" : "RequestResponse",
+        Payload: Buffer.from(JSON.stringify(payload)),
+      })
+    );
+
+    if (async) {
+      return { success: true };
+    }
+
+    if (response.FunctionError) {
+      const errorPayload = response.Payload
+        ? JSON.parse(Buffer.from(response.Payload).toString())
+        : {};
+      return { success: false, error: errorPayload.errorMessage || "Function error" };
+    }
+
+    const result = response.Payload
+      ? JSON.parse(Buffer.from(response.Payload).toString())
+      : {};
+    return { success: true, data: result };
+  } catch (error) {
+    console.error("Error invoking function:", functionArn, error);
+    return { success: false, error: String(error) };
+  }
+}
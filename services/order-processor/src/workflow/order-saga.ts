@@ -0,0 +1,227 @@
+import {
+  OrderById,
+  OrderProcessingMessage,
+  OrderStatus,
+  PaymentState,
+  SagaOrchestrator,
+  SagaStateStore,
+  SagaStep,
+  SagaStepResult,
+  VerificationOutcome,
+  confirmReservation,
+  getOrderById,
+  transitionOrder,
+} from "@acme-liquors/shared";
+import { invokeFunction } from "./invoke";
+
+const VERIFY_AGE_FN = process.env.VERIFY_AGE_FN_ARN!;
+const RESERVE_INVENTORY_FN = process.env.RESERVE_INVENTORY_FN_ARN!;
+const RELEASE_INVENTORY_FN = process.env.RELEASE_INVENTORY_FN_ARN!;
+const AUTHORIZE_PAYMENT_FN = process.env.AUTHORIZE_PAYMENT_FN_ARN!;
+const VOID_PAYMENT_FN = process.env.VOID_PAYMENT_FN_ARN!;
+
+export const ORDER_SAGA_TYPE = "order-processing";
+
+// Actor recorded in the status history for changes the processor makes
+export const ORDER_PROCESSOR_ACTOR = "system:order-processor";
+
+/**
+ * Context shared by every step of the order saga
+ */
+export interface OrderSagaContext {
+  message: OrderProcessingMessage;
+  order: OrderById;
+}
+
+// Result shape shared by the worker handlers
+interface WorkerResponse {
+  success: boolean;
+  error?: string;
+  [key: string]: unknown;
+}
+
+// Invocation failures (throttling, timeouts, crashes) are always retried
+const INVOCATION_FAILED: SagaStepResult = { status: "RETRY", reason: "Worker invocation failed" };
+
+/**
+ * Invoke a worker and return its response, or null if the invocation itself failed
+ */
+async function invokeWorker(functionArn: string, payload: unknown): Promise<WorkerResponse | null> {
+  const result = await invokeFunction(functionArn, payload);
+  return result.success && result.data ? (result.data as WorkerResponse) : null;
+}
+
+/**
+ * Verify the buyer is of legal drinking age
+ * Failures carry the order status to move to (VERIFICATION_FAILED or ON_HOLD).
+ */
+export const verifyAgeStep: SagaStep<OrderSagaContext> = {
+  name: "verify-age",
+  async execute({ message, order }) {
+    const response = await invokeWorker(VERIFY_AGE_FN, {
+      order_id: message.order_id,
+      customer_id: message.customer_id,
+      shipping_state: order.shipping_address.state,
+    });
+    if (!response) {
+      return INVOCATION_FAILED;
+    }
+
+    const outcome = response.outcome as VerificationOutcome | undefined;
+    if (!outcome) {
+      return { status: "RETRY", reason: response.error ?? "Age verification errored" };
+    }
+    if (outcome === VerificationOutcome.VERIFIED) {
+      return { status: "COMPLETED", output: { verification_id: response.verification_id } };
+    }
+    return {
+      status: "FAILED",
+      reason: (response.reason as string) ?? "Age verification failed",
+      output: {
+        order_status:
+          outcome === VerificationOutcome.FAILED
+            ? OrderStatus.VERIFICATION_FAILED
+            : OrderStatus.ON_HOLD,
+      },
+    };
+  },
+};
+
+/**
+ * Reserve inventory; compensated by releasing the reservation
+ */
+export const reserveInventoryStep: SagaStep<OrderSagaContext> = {
+  name: "reserve-inventory",
+  async execute({ message, order }) {
+    const response = await invokeWorker(RESERVE_INVENTORY_FN, {
+      order_id: message.order_id,
+      customer_id: message.customer_id,
+      items: order.items,
+      store_id: order.store_id,
+    });
+    if (!response) {
+      return INVOCATION_FAILED;
+    }
+
+    if (response.success) {
+      return { status: "COMPLETED", output: { reservation_id: response.reservation_id } };
+    }
+    if (response.failed_items) {
+      return {
+        status: "FAILED",
+        reason: "Inventory reservation failed",
+        output: { failed_items: response.failed_items },
+      };
+    }
+    return { status: "RETRY", reason: response.error ?? "Inventory reservation errored" };
+  },
+  async compensate({ message }, output) {
+    const response = await invokeWorker(RELEASE_INVENTORY_FN, {
+      order_id: message.order_id,
+      reservation_id: output.reservation_id,
+    });
+    if (!response?.success) {
+      throw new Error(`Inventory release failed for ${message.order_id}`);
+    }
+  },
+};
+
+/**
+ * Authorize payment; compensated by voiding the authorization
+ * Capture happens later, when the order ships. Declines fail the order; a
+ * required cardholder challenge puts it ON_HOLD.
+ */
+export const authorizePaymentStep: SagaStep<OrderSagaContext> = {
+  name: "authorize-payment",
+  async execute({ message, order }) {
+    const response = await invokeWorker(AUTHORIZE_PAYMENT_FN, {
+      order_id: message.order_id,
+      customer_id: message.customer_id,
+      order_ts_id: message.order_ts_id,
+      payment_method: order.payment_method,
+      amount: order.total,
+    });
+    if (!response) {
+      return INVOCATION_FAILED;
+    }
+
+    if (response.success) {
+      return { status: "COMPLETED", output: { authorization_id: response.authorization_id } };
+    }
+    if (response.payment_state === PaymentState.FAILED) {
+      return {
+        status: "FAILED",
+        reason: response.decline_code
+          ? `Payment declined (${response.decline_code})`
+          : (response.error ?? "Payment declined"),
+      };
+    }
+    if (response.challenge_url) {
+      return {
+        status: "FAILED",
+        reason: "Payment requires cardholder authentication",
+        output: { order_status: OrderStatus.ON_HOLD, challenge_url: response.challenge_url },
+      };
+    }
+    return { status: "RETRY", reason: response.error ?? "Payment authorization errored" };
+  },
+  async compensate({ message }, output) {
+    const response = await invokeWorker(VOID_PAYMENT_FN, {
+      order_id: message.order_id,
+      customer_id: message.customer_id,
+      order_ts_id: message.order_ts_id,
+      authorization_id: output.authorization_id,
+    });
+    if (!response?.success) {
+      throw new Error(`Payment void failed for ${message.order_id}`);
+    }
+  },
+};
+
+/**
+ * Confirm the reservation and move the order from PENDING to CONFIRMED
+ * Fails (and so compensates) if the reservation expired, the order left
+ * PENDING meanwhile (e.g. it was cancelled), or it was amended after this
+ * saga read it, so what was reserved and authorized no longer matches.
+ */
+export const confirmOrderStep: SagaStep<OrderSagaContext> = {
+  name: "confirm-order",
+  async execute({ order }, outputs) {
+    // Amendments are refused once the saga exists, but one may land
+    // between the order being read and the saga's first save
+    const current = await getOrderById(order.order_id);
+    if ((current?.amendments?.length ?? 0) !== (order.amendments?.length ?? 0)) {
+      return { status: "FAILED", reason: "Order was amended while it was being processed" };
+    }
+
+    const reservationId = outputs[reserveInventoryStep.name]?.reservation_id as string | undefined;
+    if (reservationId && !(await confirmReservation(reservationId))) {
+      return { status: "FAILED", reason: "Inventory reservation expired" };
+    }
+
+    const result = await transitionOrder(order, OrderStatus.CONFIRMED, {
+      actor: ORDER_PROCESSOR_ACTOR,
+    });
+    return result.status === "TRANSITIONED"
+      ? { status: "COMPLETED" }
+      : { status: "FAILED", reason: "Order is no longer pending" };
+  },
+};
+
+// Default order workflow; add stages (e.g. fraud screening) by inserting steps
+export const ORDER_SAGA_STEPS: SagaStep<OrderSagaContext>[] = [
+  verifyAgeStep,
+  reserveInventoryStep,
+  authorizePaymentStep,
+  confirmOrderStep,
+];
+
+/**
+ * Create the order processing saga
+ */
+export function createOrderSaga(
+  steps: SagaStep<OrderSagaContext>[] = ORDER_SAGA_STEPS,
+  store?: SagaStateStore
+): SagaOrchestrator<OrderSagaContext> {
+  return new SagaOrchestrator(ORDER_SAGA_TYPE, steps, store);
+}
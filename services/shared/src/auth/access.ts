@@ -0,0 +1,149 @@
+import { AccessTokenClaims, Caller, CallerRole, OrderAction } from "../types/auth";
+import { OrderById } from "../types/order";
+import { AuthenticationError } from "./jwt";
+
+// Roles allowed to take each action on an order
+const ORDER_ACTION_ROLES: Record<OrderAction, CallerRole[]> = {
+  [OrderAction.VIEW]: [CallerRole.CUSTOMER, CallerRole.STORE_STAFF, CallerRole.CUSTOMER_SERVICE],
+  [OrderAction.CANCEL]: [CallerRole.CUSTOMER, CallerRole.CUSTOMER_SERVICE],
+  [OrderAction.AMEND]: [CallerRole.CUSTOMER, CallerRole.CUSTOMER_SERVICE],
+  [OrderAction.CANCEL_LINE]: [CallerRole.STORE_STAFF, CallerRole.CUSTOMER_SERVICE],
+  [OrderAction.REORDER]: [CallerRole.CUSTOMER],
+  [OrderAction.REFUND]: [CallerRole.CUSTOMER_SERVICE],
+  [OrderAction.FULFILL]: [CallerRole.STORE_STAFF],
+};
+
+// Actor kind recorded in status history for each role
+const ACTOR_KINDS: Record<CallerRole, string> = {
+  [CallerRole.CUSTOMER]: "customer",
+  [CallerRole.STORE_STAFF]: "staff",
+  [CallerRole.CUSTOMER_SERVICE]: "agent",
+};
+
+const CALLER_ROLES = Object.values(CallerRole);
+
+/**
+ * Build the caller from verified token claims
+ * Tokens without a role are customers; an unknown role is refused rather
+ * than downgraded.
+ */
+export function callerFromClaims(claims: AccessTokenClaims): Caller {
+  const role = (claims.role ?? CallerRole.CUSTOMER) as CallerRole;
+  if (!CALLER_ROLES.includes(role)) {
+    throw new AuthenticationError(`Token role ${claims.role} is not recognized`);
+  }
+
+  return {
+    subject: claims.sub,
+    role,
+    store_ids: role === CallerRole.CUSTOMER ? [] : claims.store_ids ?? [],
+    county_ids: role === CallerRole.CUSTOMER ? [] : claims.county_ids ?? [],
+  };
+}
+
+/**
+ * Flatten a caller into an API Gateway authorizer context
+ * Context values must be strings, so scopes are comma-separated.
+ */
+export function toAuthorizerContext(caller: Caller): Record<string, string> {
+  return {
+    subject: caller.subject,
+    role: caller.role,
+    store_ids: caller.store_ids.join(","),
+    county_ids: caller.county_ids.join(","),
+  };
+}
+
+/**
+ * Read the caller the authorizer attached to a request
+ * Returns null when the request did not pass through the authorizer.
+ */
+export function callerFromAuthorizerContext(
+  context: Record<string, unknown> | null | undefined
+): Caller | null {
+  const subject = context?.subject;
+  const role = context?.role as CallerRole | undefined;
+  if (typeof subject !== "string" || !subject || !role || !CALLER_ROLES.includes(role)) {
+    return null;
+  }
+
+  const list = (value: unknown) => (typeof value === "string" && value ? value.split(",") : []);
+  return {
+    subject,
+    role,
+    store_ids: list(context?.store_ids),
+    county_ids: list(context?.county_ids),
+  };
+}
+
+/**
+ * Actor recorded for a caller's changes, e.g. customer:CUST-001 or agent:CS-7
+ */
+export function callerActor(caller: Caller): string {
+  return `${ACTOR_KINDS[caller.role]}:${caller.subject}`;
+}
+
+/**
+ * Check a caller may take an action on an order
+ * Customers may only touch their own orders; staff and agents only orders
+ * of a store or county they are assigned to. Returns why access is
+ * refused, or undefined when it is allowed.
+ */
+export function checkOrderAccess(
+  caller: Caller,
+  order: Pick<OrderById, "customer_id" | "store_id" | "county_id">,
+  action: OrderAction
+): string | undefined {
+  if (!ORDER_ACTION_ROLES[action].includes(caller.role)) {
+    return `A ${caller.role} cannot ${action.toLowerCase()} orders`;
+  }
+
+  if (caller.role === CallerRole.CUSTOMER) {
+    return order.customer_id === caller.subject ? undefined : "Order belongs to another customer";
+  }
+
+  return caller.store_ids.includes(order.store_id) || caller.county_ids.includes(order.county_id)
+    ? undefined
+    : `Order is outside the stores and counties assigned to ${caller.subject}`;
+}
+
+/**
+ * Check a caller may act as a customer (list or place their orders)
+ */
+export function checkCustomerAccess(caller: Caller, customerId: string): string | undefined {
+  if (caller.role !== CallerRole.CUSTOMER) {
+    return `A ${caller.role} cannot act for a customer`;
+  }
+  return customerId === caller.subject ? undefined : "customer_id does not match the signed-in customer";
+}
+
+/**
+ * Check a caller may work a store's orders
+ */
+export function checkStoreAccess(caller: Caller, storeId: string): string | undefined {
+  if (caller.role === CallerRole.CUSTOMER) {
+    return "Customers cannot view store orders";
+  }
+  return caller.store_ids.includes(storeId) ? undefined : `Store ${storeId} is not assigned to ${caller.subject}`;
+}
+
+/**
+ * Check a caller may read and change a store's stock
+ * Only store staff assigned to the store may.
+ */
+export function checkInventoryAccess(caller: Caller, storeId: string): string | undefined {
+  if (caller.role !== CallerRole.STORE_STAFF) {
+    return `A ${caller.role} cannot manage store inventory`;
+  }
+  return caller.store_ids.includes(storeId) ? undefined : `Store ${storeId} is not assigned to ${caller.subject}`;
+}
+
+/**
+ * Check a caller may view a county's orders
+ */
+export function checkCountyAccess(caller: Caller, countyId: string): string | undefined {
+  if (caller.role !== CallerRole.CUSTOMER_SERVICE) {
+    return `A ${caller.role} cannot view county summaries`;
+  }
+  return caller.county_ids.includes(countyId) ? undefined : `County ${countyId} is not assigned to ${caller.subject}`;
+}
@@ -0,0 +1,207 @@
+import { JsonWebKey, KeyObject, createPublicKey, generateKeyPairSync, sign, verify } from "crypto";
+import { AccessTokenClaims } from "../types/auth";
+
+// Only asymmetric signatures are accepted, so a leaked public key cannot mint tokens
+const SUPPORTED_ALGORITHM = "RS256";
+
+// Tolerated clock drift between us and the identity provider
+const CLOCK_SKEW_SECONDS = 60;
+
+// How long fetched JWKS keys are trusted before they are fetched again
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Least time between fetches triggered by an unknown key ID
+const JWKS_MIN_REFETCH_MS = 30 * 1000;
+
+/**
+ * Thrown when a caller's access token cannot be trusted
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * Where token signing keys come from
+ */
+export interface SigningKeySource {
+  getKey(kid: string): Promise<KeyObject | null>;
+}
+
+/**
+ * Signing keys published by the identity provider as a JWKS document
+ * Keys are cached; an unknown key ID triggers a refetch (rate limited) so
+ * rotated keys are picked up without a deploy.
+ */
+export class JwksSigningKeySource implements SigningKeySource {
+  private keys = new Map<string, KeyObject>();
+  private fetchedAt = 0;
+
+  constructor(private readonly url: string) {}
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    const age = Date.now() - this.fetchedAt;
+    if (age > JWKS_CACHE_TTL_MS || (!this.keys.has(kid) && age > JWKS_MIN_REFETCH_MS)) {
+      await this.refresh();
+    }
+    return this.keys.get(kid) ?? null;
+  }
+
+  private async refresh(): Promise<void> {
+    const response = await fetch(this.url);
+    if (!response.ok) {
+      throw new Error(`JWKS fetch from ${this.url} failed with ${response.status}`);
+    }
+
+    const { keys } = (await response.json()) as { keys: Array<JsonWebKey & { kid?: string }> };
+    this.keys = new Map(
+      keys
+        .filter((jwk) => jwk.kid && jwk.kty === "RSA" && (jwk.use ?? "sig") === "sig")
+        .map((jwk) => [jwk.kid!, createPublicKey({ key: jwk, format: "jwk" })])
+    );
+    this.fetchedAt = Date.now();
+  }
+}
+
+/**
+ * Locally generated signing key
+ *
+ * Stands in for the identity provider in development and tests: it signs
+ * tokens with a fresh RSA key and serves the public half as the only key.
+ */
+export class LocalSigningKey implements SigningKeySource {
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+
+  constructor(readonly kid: string = "local") {
+    const pair = generateKeyPairSync("rsa", { modulusLength: 2048 });
+    this.privateKey = pair.privateKey;
+    this.publicKey = pair.publicKey;
+  }
+
+  async getKey(kid: string): Promise<KeyObject | null> {
+    return kid === this.kid ? this.publicKey : null;
+  }
+
+  /**
+   * Sign claims into a compact JWT
+   */
+  sign(claims: Partial<AccessTokenClaims> & Record<string, unknown>): string {
+    const header = encodeSegment({ alg: SUPPORTED_ALGORITHM, typ: "JWT", kid: this.kid });
+    const payload = encodeSegment(claims);
+    const signature = sign("sha256", Buffer.from(`${header}.${payload}`), this.privateKey);
+    return `${header}.${payload}.${signature.toString("base64url")}`;
+  }
+
+  /**
+   * Public key as a JWKS document
+   */
+  jwks(): { keys: JsonWebKey[] } {
+    const jwk = this.publicKey.export({ format: "jwk" });
+    return { keys: [{ ...jwk, kid: this.kid, use: "sig", alg: SUPPORTED_ALGORITHM }] };
+  }
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function decodeSegment<T>(segment: string): T {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new AuthenticationError("Token is malformed");
+  }
+  // Valid JSON is not enough: null, numbers or arrays have no claims to read
+  if (typeof decoded !== "object" || decoded === null || Array.isArray(decoded)) {
+    throw new AuthenticationError("Token is malformed");
+  }
+  return decoded as T;
+}
+
+// Active signing key source (swappable for a local key in tests)
+let signingKeySource: SigningKeySource | null = null;
+
+/**
+ * Get the active signing key source
+ */
+export function getSigningKeySource(): SigningKeySource {
+  if (!signingKeySource) {
+    const url = process.env.AUTH_JWKS_URL;
+    if (!url) {
+      throw new Error("AUTH_JWKS_URL is not set");
+    }
+    signingKeySource = new JwksSigningKeySource(url);
+  }
+  return signingKeySource;
+}
+
+/**
+ * Replace the active signing key source
+ */
+export function setSigningKeySource(source: SigningKeySource | null): void {
+  signingKeySource = source;
+}
+
+/**
+ * Verify an access token and return its claims
+ *
+ * Checks the RS256 signature against the signing key source, then the
+ * issuer (AUTH_ISSUER), audience (AUTH_AUDIENCE) and validity window.
+ * Throws AuthenticationError for any token that cannot be trusted.
+ */
+export async function verifyAccessToken(
+  token: string,
+  now: number = Date.now()
+): Promise<AccessTokenClaims> {
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (!header || !payload || !signature || rest.length > 0) {
+    throw new AuthenticationError("Token is malformed");
+  }
+
+  const { alg, kid } = decodeSegment<{ alg?: string; kid?: string }>(header);
+  if (alg !== SUPPORTED_ALGORITHM) {
+    throw new AuthenticationError(`Token algorithm ${alg} is not accepted`);
+  }
+  if (!kid) {
+    throw new AuthenticationError("Token has no key ID");
+  }
+
+  const key = await getSigningKeySource().getKey(kid);
+  if (!key) {
+    throw new AuthenticationError(`Token signing key ${kid} is unknown`);
+  }
+  if (!verify("sha256", Buffer.from(`${header}.${payload}`), key, Buffer.from(signature, "base64url"))) {
+    throw new AuthenticationError("Token signature is invalid");
+  }
+
+  const claims = decodeSegment<AccessTokenClaims>(payload);
+  const nowSeconds = Math.floor(now / 1000);
+  const issuer = process.env.AUTH_ISSUER;
+  const audience = process.env.AUTH_AUDIENCE;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (!issuer || !audience) {
+    throw new Error("AUTH_ISSUER and AUTH_AUDIENCE must be set");
+  }
+  if (claims.iss !== issuer) {
+    throw new AuthenticationError(`Token issuer ${claims.iss} is not trusted`);
+  }
+  if (!audiences.includes(audience)) {
+    throw new AuthenticationError("Token is not meant for this API");
+  }
+  if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < nowSeconds) {
+    throw new AuthenticationError("Token has expired");
+  }
+  if (claims.nbf !== undefined && claims.nbf - CLOCK_SKEW_SECONDS > nowSeconds) {
+    throw new AuthenticationError("Token is not valid yet");
+  }
+  if (!claims.sub) {
+    throw new AuthenticationError("Token has no subject");
+  }
+
+  return claims;
+}
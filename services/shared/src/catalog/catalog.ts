@@ -0,0 +1,68 @@
+import {
+  BatchGetCommand,
+  BatchGetCommandOutput,
+  GetCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import { Product } from "../types/product";
+
+// DynamoDB BatchGetItem limit
+const BATCH_GET_LIMIT = 100;
+const MAX_UNPROCESSED_RETRIES = 3;
+
+/**
+ * Get a single product from the catalog
+ */
+export async function getProduct(sku: string): Promise<Product | null> {
+  const client = getDocumentClient();
+
+  const result = await client.send(
+    new GetCommand({
+      TableName: TableNames.PRODUCTS,
+      Key: { sku },
+    })
+  );
+
+  return (result.Item as Product) ?? null;
+}
+
+/**
+ * Get catalog products for a set of SKUs
+ * Returns a map keyed by SKU; unknown SKUs are simply absent
+ */
+export async function getProductsBySku(
+  skus: string[]
+): Promise<Map<string, Product>> {
+  const client = getDocumentClient();
+  const products = new Map<string, Product>();
+  const uniqueSkus = [...new Set(skus)];
+
+  for (let i = 0; i < uniqueSkus.length; i += BATCH_GET_LIMIT) {
+    let keys: Record<string, unknown>[] | undefined = uniqueSkus
+      .slice(i, i + BATCH_GET_LIMIT)
+      .map((sku) => ({ sku }));
+    let attempt = 0;
+
+    while (keys && keys.length > 0) {
+      const result: BatchGetCommandOutput = await client.send(
+        new BatchGetCommand({
+          RequestItems: {
+            [TableNames.PRODUCTS]: { Keys: keys },
+          },
+        })
+      );
+
+      for (const item of result.Responses?.[TableNames.PRODUCTS] ?? []) {
+        const product = item as Product;
+        products.set(product.sku, product);
+      }
+
+      keys = result.UnprocessedKeys?.[TableNames.PRODUCTS]?.Keys;
+      if (keys && keys.length > 0 && ++attempt > MAX_UNPROCESSED_RETRIES) {
+        throw new Error(`Failed to load ${keys.length} catalog products after retries`);
+      }
+    }
+  }
+
+  return products;
+}
@@ -0,0 +1,99 @@
+import { Money } from "../types/money";
+import { CreateOrderItem, OrderItem } from "../types/order";
+import { Product, PricingError, PricingErrorCode } from "../types/product";
+import { moneyEquals, multiplyMoney, sumMoney } from "../utils/money";
+
+/**
+ * Pricing result type
+ */
+export interface PricingResult {
+  success: boolean;
+  items?: OrderItem[];
+  errors?: PricingError[];
+}
+
+/**
+ * Resolve the effective unit price of a product for a store
+ * Store overrides win over the list price
+ */
+export function resolveUnitPrice(product: Product, storeId: string): Money {
+  return product.store_prices?.[storeId] ?? product.list_price;
+}
+
+/**
+ * Bottle deposits charged on a set of lines
+ * Deposits are part of the order total but are never taxed.
+ */
+export function sumDeposits(items: OrderItem[], currency: string): Money {
+  return sumMoney(
+    items.filter((item) => item.deposit).map((item) => multiplyMoney(item.deposit!, item.quantity)),
+    currency
+  );
+}
+
+/**
+ * Re-price order items from the catalog
+ *
+ * The catalog is the only price authority: client-supplied unit prices are
+ * optional, and when present must match the catalog price or the line is
+ * rejected as PRICE_DRIFT. Unknown and inactive SKUs are rejected as well.
+ */
+export function priceOrderItems(
+  items: CreateOrderItem[],
+  storeId: string,
+  catalog: Map<string, Product>
+): PricingResult {
+  const errors: PricingError[] = [];
+  const pricedItems: OrderItem[] = [];
+
+  for (const item of items) {
+    const product = catalog.get(item.sku);
+
+    if (!product) {
+      errors.push({
+        sku: item.sku,
+        code: PricingErrorCode.SKU_NOT_FOUND,
+        message: "SKU does not exist in the catalog",
+      });
+      continue;
+    }
+
+    if (!product.active) {
+      errors.push({
+        sku: item.sku,
+        code: PricingErrorCode.SKU_INACTIVE,
+        message: "SKU is no longer available for sale",
+      });
+      continue;
+    }
+
+    const unitPrice = resolveUnitPrice(product, storeId);
+
+    if (item.unit_price !== undefined && !moneyEquals(item.unit_price, unitPrice)) {
+      errors.push({
+        sku: item.sku,
+        code: PricingErrorCode.PRICE_DRIFT,
+        message: "Submitted price does not match the current catalog price",
+        submitted_price: item.unit_price,
+        catalog_price: unitPrice,
+      });
+      continue;
+    }
+
+    pricedItems.push({
+      sku: item.sku,
+      name: product.name,
+      quantity: item.quantity,
+      unit_price: unitPrice,
+      total_price: multiplyMoney(unitPrice, item.quantity),
+      ...(product.deposit && { deposit: product.deposit }),
+      category: product.category,
+    });
+  }
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, items: pricedItems };
+}
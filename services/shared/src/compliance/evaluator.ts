@@ -0,0 +1,139 @@
+import {
+  ComplianceLine,
+  ComplianceRequest,
+  ComplianceResult,
+  ComplianceRule,
+  ComplianceViolation,
+  CountyComplianceRules,
+  CountyWetStatus,
+} from "../types/compliance";
+import { parseClockTime, toLocalTime } from "./local-time";
+
+/**
+ * Total alcohol volume of a set of lines in millilitres
+ */
+export function calculateOrderVolume(lines: ComplianceLine[]): number {
+  return lines.reduce((sum, line) => sum + line.volume_ml * line.quantity, 0);
+}
+
+/**
+ * Check an order against a county's compliance rules
+ *
+ * All broken rules are reported, not just the first, so the client can
+ * fix the order in one round trip. A missing rules row or a dry county
+ * short-circuits since nothing else can make the order legal.
+ */
+export function evaluateCompliance(
+  rules: CountyComplianceRules | null,
+  request: ComplianceRequest
+): ComplianceResult {
+  if (!rules) {
+    return reject([
+      {
+        rule: ComplianceRule.COUNTY_NOT_SUPPORTED,
+        message: `No compliance rules are configured for county ${request.county_id}`,
+      },
+    ]);
+  }
+
+  if (rules.wet_status === CountyWetStatus.DRY) {
+    return reject([
+      {
+        rule: ComplianceRule.DRY_COUNTY,
+        message: `Alcohol sales are prohibited in county ${rules.county_id}`,
+      },
+    ]);
+  }
+
+  const violations: ComplianceViolation[] = [];
+  const shippingState = request.shipping_state.toUpperCase();
+
+  if (rules.allowed_ship_to_states && !rules.allowed_ship_to_states.includes(shippingState)) {
+    violations.push({
+      rule: ComplianceRule.SHIPPING_STATE_RESTRICTED,
+      message: `Orders from county ${rules.county_id} cannot ship to ${shippingState}`,
+      limit: rules.allowed_ship_to_states,
+      actual: shippingState,
+    });
+  }
+
+  const local = toLocalTime(request.order_ts, rules.time_zone);
+
+  if (rules.blackout_dates?.includes(local.date)) {
+    violations.push({
+      rule: ComplianceRule.HOLIDAY_BLACKOUT,
+      message: `Alcohol sales are not allowed on ${local.date}`,
+      actual: local.date,
+    });
+  }
+
+  if (
+    rules.sale_windows &&
+    !rules.sale_windows.some(
+      (window) =>
+        window.days.includes(local.weekday) &&
+        local.minutes >= parseClockTime(window.open) &&
+        local.minutes < parseClockTime(window.close)
+    )
+  ) {
+    violations.push({
+      rule: ComplianceRule.SALE_HOURS,
+      message: "Alcohol sales are not allowed at this day and time",
+      actual: request.order_ts,
+    });
+  }
+
+  for (const line of request.lines) {
+    if (rules.allowed_categories && !rules.allowed_categories.includes(line.category)) {
+      violations.push({
+        rule: ComplianceRule.CATEGORY_NOT_ALLOWED,
+        message: `${line.category} may not be sold in county ${rules.county_id}`,
+        sku: line.sku,
+        limit: rules.allowed_categories,
+        actual: line.category,
+      });
+    }
+
+    if (rules.max_abv !== undefined && line.abv > rules.max_abv) {
+      violations.push({
+        rule: ComplianceRule.MAX_ABV,
+        message: `Products over ${rules.max_abv}% ABV may not be sold in county ${rules.county_id}`,
+        sku: line.sku,
+        limit: rules.max_abv,
+        actual: line.abv,
+      });
+    }
+  }
+
+  const orderVolume = calculateOrderVolume(request.lines);
+
+  if (rules.max_volume_ml_per_order !== undefined && orderVolume > rules.max_volume_ml_per_order) {
+    violations.push({
+      rule: ComplianceRule.ORDER_VOLUME_LIMIT,
+      message: `Order volume exceeds the per-order limit of ${rules.max_volume_ml_per_order} ml`,
+      limit: rules.max_volume_ml_per_order,
+      actual: orderVolume,
+    });
+  }
+
+  if (rules.max_volume_ml_per_day !== undefined) {
+    const dailyVolume = (request.prior_volume_ml_today ?? 0) + orderVolume;
+    if (dailyVolume > rules.max_volume_ml_per_day) {
+      violations.push({
+        rule: ComplianceRule.DAILY_VOLUME_LIMIT,
+        message: `Daily volume exceeds the per-day limit of ${rules.max_volume_ml_per_day} ml`,
+        limit: rules.max_volume_ml_per_day,
+        actual: dailyVolume,
+      });
+    }
+  }
+
+  return violations.length > 0 ? reject(violations) : { success: true };
+}
+
+/**
+ * Build a failed compliance result
+ */
+function reject(violations: ComplianceViolation[]): ComplianceResult {
+  return { success: false, violations };
+}
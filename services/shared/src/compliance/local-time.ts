@@ -0,0 +1,85 @@
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Wall-clock view of an instant in a time zone
+ */
+export interface LocalTime {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday
+  minutes: number; // Minutes since local midnight
+  offsetMs: number; // Local wall time minus UTC
+}
+
+/**
+ * Convert an ISO timestamp to wall-clock time in an IANA time zone
+ */
+export function toLocalTime(timestamp: string, timeZone: string): LocalTime {
+  const instant = new Date(timestamp);
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)!.value;
+
+  const year = Number(get("year"));
+  const month = Number(get("month"));
+  const day = Number(get("day"));
+  const hour = Number(get("hour"));
+  const minute = Number(get("minute"));
+  const second = Number(get("second"));
+
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const truncated = Math.floor(instant.getTime() / 1000) * 1000;
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: WEEKDAYS.indexOf(get("weekday")),
+    minutes: hour * 60 + minute,
+    offsetMs: wallAsUtc - truncated,
+  };
+}
+
+/**
+ * UTC instant of a local midnight, given as that wall time read as UTC
+ * The offset is read at the midnight itself; the second read corrects a
+ * first guess that landed on the other side of a clock change.
+ */
+function localMidnight(wallAsUtc: number, timeZone: string): number {
+  const guess = wallAsUtc - toLocalTime(new Date(wallAsUtc).toISOString(), timeZone).offsetMs;
+  return wallAsUtc - toLocalTime(new Date(guess).toISOString(), timeZone).offsetMs;
+}
+
+/**
+ * UTC bounds [start, end) of the local calendar day containing an instant
+ * Each bound uses the offset at its own midnight, so days the clocks
+ * change on are 23 or 25 hours long.
+ */
+export function getLocalDayBounds(
+  timestamp: string,
+  timeZone: string
+): { start: string; end: string } {
+  const local = toLocalTime(timestamp, timeZone);
+  const [year, month, day] = local.date.split("-").map(Number);
+
+  return {
+    start: new Date(localMidnight(Date.UTC(year, month - 1, day), timeZone)).toISOString(),
+    end: new Date(localMidnight(Date.UTC(year, month - 1, day + 1), timeZone)).toISOString(),
+  };
+}
+
+/**
+ * Parse HH:MM to minutes since midnight
+ */
+export function parseClockTime(value: string): number {
+  const [hour, minute] = value.split(":").map(Number);
+  return hour * 60 + minute;
+}
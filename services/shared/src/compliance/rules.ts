@@ -0,0 +1,72 @@
+import { GetCommand, QueryCommand, QueryCommandOutput } from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import { CountyComplianceRules } from "../types/compliance";
+import { OrderStatus } from "../types/order";
+
+// Orders in these statuses do not count towards daily volume limits
+const NON_COUNTING_STATUSES: OrderStatus[] = [
+  OrderStatus.CANCELLED,
+  OrderStatus.FAILED,
+  OrderStatus.VERIFICATION_FAILED,
+];
+
+/**
+ * Get the compliance rules for a county
+ */
+export async function getCountyComplianceRules(
+  countyId: string
+): Promise<CountyComplianceRules | null> {
+  const client = getDocumentClient();
+
+  const result = await client.send(
+    new GetCommand({
+      TableName: TableNames.COMPLIANCE_RULES,
+      Key: { county_id: countyId },
+    })
+  );
+
+  return (result.Item as CountyComplianceRules) ?? null;
+}
+
+/**
+ * Sum the alcohol volume a customer has ordered in a time range
+ * Range is [start, end) on order_ts; cancelled and failed orders are ignored.
+ */
+export async function getCustomerOrderedVolume(
+  customerId: string,
+  start: string,
+  end: string
+): Promise<number> {
+  const client = getDocumentClient();
+  let volume = 0;
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result: QueryCommandOutput = await client.send(
+      new QueryCommand({
+        TableName: TableNames.ORDERS,
+        // order_ts_id is {order_ts}#{order_id}, so an order placed exactly at `end` sorts after it
+        KeyConditionExpression: "customer_id = :cid AND order_ts_id BETWEEN :start AND :end",
+        FilterExpression: "NOT (#status IN (:s0, :s1, :s2))",
+        ProjectionExpression: "total_volume_ml",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ":cid": customerId,
+          ":start": start,
+          ":end": end,
+          ":s0": NON_COUNTING_STATUSES[0],
+          ":s1": NON_COUNTING_STATUSES[1],
+          ":s2": NON_COUNTING_STATUSES[2],
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    for (const item of result.Items ?? []) {
+      volume += (item.total_volume_ml as number | undefined) ?? 0;
+    }
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return volume;
+}
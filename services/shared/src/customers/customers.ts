@@ -0,0 +1,21 @@
+import { GetCommand } from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import { CustomerProfile } from "../types/customer";
+
+/**
+ * Get a customer profile by customer_id
+ */
+export async function getCustomerProfile(
+  customerId: string
+): Promise<CustomerProfile | null> {
+  const client = getDocumentClient();
+
+  const result = await client.send(
+    new GetCommand({
+      TableName: TableNames.CUSTOMERS,
+      Key: { customer_id: customerId },
+    })
+  );
+
+  return (result.Item as CustomerProfile) ?? null;
+}
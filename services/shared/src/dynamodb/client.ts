@@ -53,7 +53,18 @@ export async function executeTransaction(
 export const TableNames = {
   ORDERS: process.env.ORDERS_TABLE_NAME ?? "acme-orders",
   ORDERS_BY_ID: process.env.ORDERS_BY_ID_TABLE_NAME ?? "acme-orders-by-id",
+  ORDER_STATUS_HISTORY: process.env.ORDER_STATUS_HISTORY_TABLE_NAME ?? "acme-order-status-history",
   INVENTORY: process.env.INVENTORY_TABLE_NAME ?? "acme-inventory",
+  RESERVATIONS: process.env.RESERVATIONS_TABLE_NAME ?? "acme-reservations",
+  INVENTORY_ADJUSTMENTS: process.env.INVENTORY_ADJUSTMENTS_TABLE_NAME ?? "acme-inventory-adjustments",
+  INVENTORY_ALERTS: process.env.INVENTORY_ALERTS_TABLE_NAME ?? "acme-inventory-alerts",
+  PRODUCTS: process.env.PRODUCTS_TABLE_NAME ?? "acme-products",
+  TAX_RATES: process.env.TAX_RATES_TABLE_NAME ?? "acme-tax-rates",
+  COMPLIANCE_RULES: process.env.COMPLIANCE_RULES_TABLE_NAME ?? "acme-compliance-rules",
+  CUSTOMERS: process.env.CUSTOMERS_TABLE_NAME ?? "acme-customers",
+  SAGAS: process.env.SAGAS_TABLE_NAME ?? "acme-order-sagas",
+  AGE_VERIFICATIONS: process.env.AGE_VERIFICATIONS_TABLE_NAME ?? "acme-age-verifications",
+  IDEMPOTENCY_KEYS: process.env.IDEMPOTENCY_KEYS_TABLE_NAME ?? "acme-idempotency-keys",
 } as const;
 
 // GSI names
@@ -61,4 +72,7 @@ export const IndexNames = {
   COUNTY_ORDER: "county-order-index",
   STORE_ORDER: "store-order-index",
   STATUS_ORDER: "status-order-index",
+  STORE_INVENTORY: "store-inventory-index",
+  RESERVATION_ORDER: "order-reservation-index",
+  RESERVATION_EXPIRY: "status-expiry-index",
 } as const;
@@ -1,76 +1,61 @@
-import {
-  GetCommand,
-  PutCommand,
-  QueryCommand,
-  UpdateCommand,
-  UpdateCommandInput,
-  DeleteCommand,
-  BatchWriteCommand,
-} from "@aws-sdk/lib-dynamodb";
-import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { GetCommand, QueryCommand, QueryCommandOutput } from "@aws-sdk/lib-dynamodb";
 import { getDocumentClient, TableNames, IndexNames } from "./client";
-import { Order, OrderById, OrderStatus } from "../types/order";
+import { putOrder, updateOrder } from "./order-repository";
+import { buildStatusChange, statusChangePut } from "../orders/status-history";
+import { Order, OrderById, OrderItem, OrderStatus, PaymentState } from "../types/order";
+import { LegacyAmount } from "../types/money";
+import { toMoney } from "../utils/money";
+import { PaginationScope, decodePaginationToken, encodePaginationToken } from "../utils/pagination";
+
+/**
+ * Read-compat: normalize stored amounts to Money
+ * Orders written before Money existed hold float dollar amounts.
+ */
+export function normalizeOrderAmounts<T extends Order | OrderById>(
+  record: Record<string, unknown>
+): T {
+  const stored = record as Record<string, unknown> & {
+    subtotal?: LegacyAmount;
+    tax?: LegacyAmount;
+    total?: LegacyAmount;
+    items?: Array<OrderItem & { unit_price: LegacyAmount; total_price: LegacyAmount }>;
+  };
+
+  return {
+    ...stored,
+    subtotal: toMoney(stored.subtotal),
+    tax: toMoney(stored.tax),
+    total: toMoney(stored.total),
+    ...(stored.items && {
+      items: stored.items.map((item) => ({
+        ...item,
+        unit_price: toMoney(item.unit_price),
+        total_price: toMoney(item.total_price),
+      })),
+    }),
+  } as unknown as T;
+}
 
 /**
  * Create a new order with conditional check (idempotency)
- * Returns existing order if idempotency key matches
+ * Returns existing order if idempotency key matches. The order's initial
+ * status starts its status history.
  */
 export async function createOrder(
-  order: Order
+  order: Order,
+  actor: string
 ): Promise<{ created: boolean; order: Order }> {
-  const client = getDocumentClient();
-
-  try {
-    await client.send(
-      new PutCommand({
-        TableName: TableNames.ORDERS,
-        Item: order,
-        ConditionExpression: "attribute_not_exists(customer_id)",
-      })
-    );
-
-    // Also write to OrderById table
-    const orderById: OrderById = {
-      order_id: order.order_id,
-      customer_id: order.customer_id,
-      order_ts: order.order_ts,
-      status: order.status,
-      payment_state: order.payment_state,
-      store_id: order.store_id,
-      county_id: order.county_id,
-      items: order.items,
-      subtotal: order.subtotal,
-      tax: order.tax,
-      total: order.total,
-      shipping_address: order.shipping_address,
-      created_at: order.created_at,
-      updated_at: order.updated_at,
-    };
-
-    await client.send(
-      new PutCommand({
-        TableName: TableNames.ORDERS_BY_ID,
-        Item: orderById,
-      })
-    );
-
+  const created = buildStatusChange(order.order_id, null, order.status, actor, order.created_at);
+  if (await putOrder(order, [statusChangePut(created)])) {
     return { created: true, order };
-  } catch (error) {
-    if (
-      error instanceof ConditionalCheckFailedException ||
-      (error instanceof Error && error.name === "ConditionalCheckFailedException")
-    ) {
-      // Order already exists, fetch and return it
-      const existing = await getOrderByCustomer(
-        order.customer_id,
-        order.order_ts_id
-      );
-      if (existing) {
-        return { created: false, order: existing };
-      }
-    }
-    throw error;
   }
+
+  // Order already exists, fetch and return it
+  const existing = await getOrderByCustomer(order.customer_id, order.order_ts_id);
+  if (!existing) {
+    throw new Error(`Order ${order.order_id} exists on only one order table`);
+  }
+  return { created: false, order: existing };
 }
 
 /**
@@ -92,7 +77,7 @@ export async function getOrderByCustomer(
     })
   );
 
-  return (result.Item as Order) ?? null;
+  return result.Item ? normalizeOrderAmounts<Order>(result.Item) : null;
 }
 
 /**
@@ -108,7 +93,7 @@ export async function getOrderById(orderId: string): Promise<OrderById | null> {
     })
   );
 
-  return (result.Item as OrderById) ?? null;
+  return result.Item ? normalizeOrderAmounts<OrderById>(result.Item) : null;
 }
 
 /**
@@ -120,6 +105,7 @@ export async function listOrdersByCustomer(
   nextToken?: string
 ): Promise<{ orders: Order[]; nextToken?: string }> {
   const client = getDocumentClient();
+  const scope: PaginationScope = { query: "orders-by-customer", partition: customerId };
 
   const result = await client.send(
     new QueryCommand({
@@ -130,27 +116,60 @@ export async function listOrdersByCustomer(
       },
       ScanIndexForward: false, // Newest first
       Limit: limit,
-      ExclusiveStartKey: nextToken ? JSON.parse(nextToken) : undefined,
+      ExclusiveStartKey: await decodePaginationToken(nextToken, scope),
     })
   );
 
   return {
-    orders: (result.Items as Order[]) ?? [],
-    nextToken: result.LastEvaluatedKey
-      ? JSON.stringify(result.LastEvaluatedKey)
-      : undefined,
+    orders: (result.Items ?? []).map((item) => normalizeOrderAmounts<Order>(item)),
+    nextToken: await encodePaginationToken(result.LastEvaluatedKey, scope),
   };
 }
 
 /**
- * List orders by county (using GSI)
+ * List orders by county in a time range, newest first (using GSI)
+ * Bounds are inclusive on order_ts; pass the next token back to read on.
  */
 export async function listOrdersByCounty(
   countyId: string,
   startTime?: string,
   endTime?: string,
-  limit: number = 100
-): Promise<Order[]> {
+  limit: number = 100,
+  nextToken?: string
+): Promise<{ orders: Order[]; nextToken?: string }> {
+  const scope: PaginationScope = {
+    query: "orders-by-county",
+    partition: countyId,
+    filters: { from: startTime, to: endTime },
+  };
+
+  const page = await queryOrdersByCounty(
+    countyId,
+    startTime,
+    endTime,
+    await decodePaginationToken(nextToken, scope),
+    limit
+  );
+
+  return {
+    orders: page.orders,
+    nextToken: await encodePaginationToken(page.lastKey, scope),
+  };
+}
+
+/**
+ * Read one page of a county's orders in a time range, newest first
+ * For paging inside a request: takes and returns the raw LastEvaluatedKey,
+ * which must not be handed to clients (see listOrdersByCounty). Without a
+ * limit a page runs to DynamoDB's 1 MB cap.
+ */
+export async function queryOrdersByCounty(
+  countyId: string,
+  startTime?: string,
+  endTime?: string,
+  exclusiveStartKey?: Record<string, unknown>,
+  limit?: number
+): Promise<{ orders: Order[]; lastKey?: Record<string, unknown> }> {
   const client = getDocumentClient();
 
   let keyCondition = "county_id = :cid";
@@ -163,6 +182,9 @@ export async function listOrdersByCounty(
   } else if (startTime) {
     keyCondition += " AND order_ts >= :start";
     expressionValues[":start"] = startTime;
+  } else if (endTime) {
+    keyCondition += " AND order_ts <= :end";
+    expressionValues[":end"] = endTime;
   }
 
   const result = await client.send(
@@ -173,128 +195,172 @@ export async function listOrdersByCounty(
       ExpressionAttributeValues: expressionValues,
       ScanIndexForward: false,
       Limit: limit,
+      ExclusiveStartKey: exclusiveStartKey,
     })
   );
 
-  return (result.Items as Order[]) ?? [];
+  return {
+    orders: (result.Items ?? []).map((item) => normalizeOrderAmounts<Order>(item)),
+    lastKey: result.LastEvaluatedKey,
+  };
+}
+
+// Filters for listing a store's orders
+export interface StoreOrderFilter {
+  statuses?: OrderStatus[];
+  from?: string; // Earliest order_ts (inclusive)
+  to?: string; // Latest order_ts (inclusive)
 }
 
+// Query pages read per call while topping up a page thinned by a status filter
+const MAX_FILTERED_PAGES = 10;
+
 /**
- * List orders by store (using GSI)
+ * List a store's orders, newest first (using GSI)
+ *
+ * The time window is a key condition on order_ts; statuses are filtered
+ * after the read, so a page thinned by the filter is topped up from the
+ * following ones until the limit is reached. A next token is returned
+ * whenever more orders may remain.
  */
 export async function listOrdersByStore(
   storeId: string,
-  limit: number = 100
-): Promise<Order[]> {
+  filter: StoreOrderFilter = {},
+  limit: number = 20,
+  nextToken?: string
+): Promise<{ orders: Order[]; nextToken?: string }> {
   const client = getDocumentClient();
+  const scope: PaginationScope = {
+    query: "orders-by-store",
+    partition: storeId,
+    filters: { statuses: filter.statuses, from: filter.from, to: filter.to },
+  };
 
-  const result = await client.send(
-    new QueryCommand({
-      TableName: TableNames.ORDERS,
-      IndexName: IndexNames.STORE_ORDER,
-      KeyConditionExpression: "store_id = :sid",
-      ExpressionAttributeValues: {
-        ":sid": storeId,
-      },
-      ScanIndexForward: false,
-      Limit: limit,
-    })
-  );
+  let keyCondition = "store_id = :sid";
+  const names: Record<string, string> = {};
+  const values: Record<string, string> = { ":sid": storeId };
+
+  if (filter.from && filter.to) {
+    keyCondition += " AND order_ts BETWEEN :from AND :to";
+    values[":from"] = filter.from;
+    values[":to"] = filter.to;
+  } else if (filter.from) {
+    keyCondition += " AND order_ts >= :from";
+    values[":from"] = filter.from;
+  } else if (filter.to) {
+    keyCondition += " AND order_ts <= :to";
+    values[":to"] = filter.to;
+  }
+
+  let filterExpression: string | undefined;
+  if (filter.statuses?.length) {
+    names["#status"] = "status";
+    filter.statuses.forEach((status, i) => (values[`:s${i}`] = status));
+    filterExpression = `#status IN (${filter.statuses.map((_, i) => `:s${i}`).join(", ")})`;
+  }
+
+  const orders: Order[] = [];
+  let exclusiveStartKey = await decodePaginationToken(nextToken, scope);
+  let pages = 0;
+
+  do {
+    // Never evaluate more than the page has room for, so the last key
+    // read is exactly where the next page starts
+    const result: QueryCommandOutput = await client.send(
+      new QueryCommand({
+        TableName: TableNames.ORDERS,
+        IndexName: IndexNames.STORE_ORDER,
+        KeyConditionExpression: keyCondition,
+        FilterExpression: filterExpression,
+        ExpressionAttributeNames: filterExpression ? names : undefined,
+        ExpressionAttributeValues: values,
+        ScanIndexForward: false,
+        Limit: limit - orders.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
 
-  return (result.Items as Order[]) ?? [];
+    orders.push(...(result.Items ?? []).map((item) => normalizeOrderAmounts<Order>(item)));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey && orders.length < limit && ++pages < MAX_FILTERED_PAGES);
+
+  return {
+    orders,
+    nextToken: await encodePaginationToken(exclusiveStartKey, scope),
+  };
 }
 
 /**
- * List orders by status (using GSI)
+ * List orders in a status, oldest first (using GSI), optionally for one store
+ * The store is filtered after the read, so a page may hold fewer than
+ * limit orders while a next token is still returned.
  */
 export async function listOrdersByStatus(
   status: OrderStatus,
-  limit: number = 100
-): Promise<Order[]> {
+  storeId?: string,
+  limit: number = 100,
+  nextToken?: string
+): Promise<{ orders: Order[]; nextToken?: string }> {
   const client = getDocumentClient();
+  const scope: PaginationScope = { query: "orders-by-status", partition: status, filters: { store_id: storeId } };
 
   const result = await client.send(
     new QueryCommand({
       TableName: TableNames.ORDERS,
       IndexName: IndexNames.STATUS_ORDER,
       KeyConditionExpression: "#status = :status",
+      FilterExpression: storeId ? "store_id = :sid" : undefined,
       ExpressionAttributeNames: {
         "#status": "status",
       },
       ExpressionAttributeValues: {
         ":status": status,
+        ...(storeId && { ":sid": storeId }),
       },
-      ScanIndexForward: false,
+      ScanIndexForward: true, // Oldest first, as the queue is worked
       Limit: limit,
+      ExclusiveStartKey: await decodePaginationToken(nextToken, scope),
     })
   );
 
-  return (result.Items as Order[]) ?? [];
+  return {
+    orders: (result.Items ?? []).map((item) => normalizeOrderAmounts<Order>(item)),
+    nextToken: await encodePaginationToken(result.LastEvaluatedKey, scope),
+  };
+}
+
+// Provider references recorded alongside a payment state change
+export interface PaymentReferences {
+  payment_authorization_id?: string;
+  payment_capture_id?: string;
 }
 
 /**
- * Update order status with conditional check
+ * Update payment state (and provider references) on both order tables
+ * Returns false if the order was not in the expected payment state.
  */
-export async function updateOrderStatus(
+export async function updatePaymentState(
   customerId: string,
   orderTsId: string,
   orderId: string,
-  newStatus: OrderStatus,
-  expectedCurrentStatus?: OrderStatus
+  newState: PaymentState,
+  expectedCurrentState?: PaymentState,
+  references: PaymentReferences = {}
 ): Promise<boolean> {
-  const client = getDocumentClient();
-  const now = new Date().toISOString();
+  const fields = Object.entries(references).filter(([, value]) => value !== undefined);
+  const setReferences = fields.map(([name]) => `, ${name} = :${name}`).join("");
 
-  try {
-    // Update main orders table
-    const updateParams: UpdateCommandInput = {
-      TableName: TableNames.ORDERS,
-      Key: {
-        customer_id: customerId,
-        order_ts_id: orderTsId,
-      },
-      UpdateExpression: "SET #status = :newStatus, updated_at = :now",
-      ExpressionAttributeNames: {
-        "#status": "status",
-      },
+  return updateOrder(
+    { customer_id: customerId, order_ts_id: orderTsId, order_id: orderId },
+    {
+      UpdateExpression: `SET payment_state = :newState, updated_at = :now${setReferences}`,
+      ConditionExpression: expectedCurrentState ? "payment_state = :currentState" : undefined,
       ExpressionAttributeValues: {
-        ":newStatus": newStatus,
-        ":now": now,
+        ":newState": newState,
+        ":now": new Date().toISOString(),
+        ...Object.fromEntries(fields.map(([name, value]) => [`:${name}`, value])),
+        ...(expectedCurrentState && { ":currentState": expectedCurrentState }),
       },
-    };
-
-    if (expectedCurrentStatus) {
-      updateParams.ConditionExpression = "#status = :currentStatus";
-      updateParams.ExpressionAttributeValues![":currentStatus"] =
-        expectedCurrentStatus;
     }
-
-    await client.send(new UpdateCommand(updateParams));
-
-    // Also update OrderById table
-    await client.send(
-      new UpdateCommand({
-        TableName: TableNames.ORDERS_BY_ID,
-        Key: { order_id: orderId },
-        UpdateExpression: "SET #status = :newStatus, updated_at = :now",
-        ExpressionAttributeNames: {
-          "#status": "status",
-        },
-        ExpressionAttributeValues: {
-          ":newStatus": newStatus,
-          ":now": now,
-        },
-      })
-    );
-
-    return true;
-  } catch (error) {
-    if (
-      error instanceof ConditionalCheckFailedException ||
-      (error instanceof Error && error.name === "ConditionalCheckFailedException")
-    ) {
-      return false;
-    }
-    throw error;
-  }
+  );
 }
@@ -0,0 +1,289 @@
+import { isDeepStrictEqual } from "util";
+import { GetCommand, ScanCommand, ScanCommandOutput, TransactWriteCommandInput } from "@aws-sdk/lib-dynamodb";
+import { executeTransaction, getDocumentClient, TableNames } from "./client";
+import { isConditionCancellation } from "../inventory/reservations";
+import { Order, OrderById } from "../types/order";
+
+/**
+ * Order repository: every write to the two order tables goes through here
+ *
+ * Orders (customer_id, order_ts_id) is the record the stream processor
+ * watches; OrderById (order_id) is the direct lookup the API reads. Each
+ * write updates both in one transaction, so they can't drift apart and
+ * every change reaches the stream.
+ */
+
+// Key of an order in both tables
+export interface OrderKey {
+  customer_id: string;
+  order_ts_id: string; // order_ts#order_id
+  order_id: string;
+}
+
+// An update applied identically to both tables
+export interface OrderUpdate {
+  UpdateExpression: string;
+  ExpressionAttributeNames?: Record<string, string>;
+  ExpressionAttributeValues: Record<string, unknown>;
+  ConditionExpression?: string; // Checked on both tables
+}
+
+// Another write to commit in the same transaction as an order write
+export type OrderTransactItem = NonNullable<TransactWriteCommandInput["TransactItems"]>[number];
+
+// Fields OrderById holds; kept identical on both tables
+export const ORDER_BY_ID_FIELDS = [
+  "order_id",
+  "customer_id",
+  "order_ts",
+  "status",
+  "status_reason",
+  "payment_state",
+  "payment_method",
+  "payment_authorization_id",
+  "payment_capture_id",
+  "refunds",
+  "refunded_total",
+  "fulfillment",
+  "amendments",
+  "reordered_from",
+  "store_id",
+  "county_id",
+  "items",
+  "subtotal",
+  "tax",
+  "total",
+  "tax_breakdown",
+  "total_volume_ml",
+  "shipping_address",
+  "created_at",
+  "updated_at",
+] as const satisfies ReadonlyArray<keyof OrderById>;
+
+/**
+ * Build an order's key from either table's record
+ */
+export function orderKey(order: Pick<OrderById, "customer_id" | "order_ts" | "order_id">): OrderKey {
+  return {
+    customer_id: order.customer_id,
+    order_ts_id: `${order.order_ts}#${order.order_id}`,
+    order_id: order.order_id,
+  };
+}
+
+/**
+ * Project an order onto the OrderById record
+ */
+export function toOrderById(order: Order): OrderById {
+  const record: Record<string, unknown> = {};
+  for (const field of ORDER_BY_ID_FIELDS) {
+    if (order[field] !== undefined) {
+      record[field] = order[field];
+    }
+  }
+  return record as unknown as OrderById;
+}
+
+/**
+ * Write a new order to both tables, along with any related writes
+ * Returns false if either table already holds it.
+ */
+export async function putOrder(order: Order, related: OrderTransactItem[] = []): Promise<boolean> {
+  try {
+    await executeTransaction({
+      TransactItems: [
+        {
+          Put: {
+            TableName: TableNames.ORDERS,
+            Item: order,
+            ConditionExpression: "attribute_not_exists(customer_id)",
+          },
+        },
+        {
+          Put: {
+            TableName: TableNames.ORDERS_BY_ID,
+            Item: toOrderById(order),
+            ConditionExpression: "attribute_not_exists(order_id)",
+          },
+        },
+        ...related,
+      ],
+    });
+    return true;
+  } catch (error) {
+    if (isConditionCancellation(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply the same update to both tables in one transaction, along with
+ * any related writes
+ * Returns false if the condition failed on either table.
+ */
+export async function updateOrder(
+  key: OrderKey,
+  update: OrderUpdate,
+  related: OrderTransactItem[] = []
+): Promise<boolean> {
+  try {
+    await executeTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TableNames.ORDERS,
+            Key: { customer_id: key.customer_id, order_ts_id: key.order_ts_id },
+            ...update,
+          },
+        },
+        {
+          Update: {
+            TableName: TableNames.ORDERS_BY_ID,
+            Key: { order_id: key.order_id },
+            ...update,
+          },
+        },
+        ...related,
+      ],
+    });
+    return true;
+  } catch (error) {
+    if (isConditionCancellation(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Scan the Orders table, one page at a time
+ */
+export async function* scanOrders(pageSize = 500): AsyncGenerator<Order[]> {
+  const client = getDocumentClient();
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result: ScanCommandOutput = await client.send(
+      new ScanCommand({
+        TableName: TableNames.ORDERS,
+        Limit: pageSize,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    yield (result.Items ?? []) as Order[];
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+}
+
+/**
+ * Fields whose stored values differ between an order's two records
+ */
+export function findOrderDrift(order: Order, orderById: OrderById): string[] {
+  return ORDER_BY_ID_FIELDS.filter((field) => !isDeepStrictEqual(order[field], orderById[field]));
+}
+
+// Outcome of reconciling one order
+export type OrderRepairResult =
+  | "IN_SYNC"
+  | "REPAIRED" // Stale record overwritten from the newer one
+  | "CREATED" // Missing OrderById record written
+  | "CHANGED"; // Updated while being repaired; left for the next run
+
+/**
+ * Reconcile an order's OrderById record with its Orders record
+ *
+ * A missing OrderById record is rebuilt from Orders. Drifted fields are
+ * copied from whichever record has the later updated_at (Orders on a
+ * tie, as it alone holds the full order) onto the other, conditioned on
+ * neither record changing since it was read. A repaired Orders record
+ * also replays the missed change to the stream processor.
+ */
+export async function repairOrder(order: Order): Promise<OrderRepairResult> {
+  const client = getDocumentClient();
+  const result = await client.send(
+    new GetCommand({
+      TableName: TableNames.ORDERS_BY_ID,
+      Key: { order_id: order.order_id },
+      ConsistentRead: true,
+    })
+  );
+  const orderById = result.Item as OrderById | undefined;
+
+  try {
+    if (!orderById) {
+      await executeTransaction({
+        TransactItems: [
+          {
+            ConditionCheck: {
+              TableName: TableNames.ORDERS,
+              Key: { customer_id: order.customer_id, order_ts_id: order.order_ts_id },
+              ConditionExpression: "updated_at = :expected",
+              ExpressionAttributeValues: { ":expected": order.updated_at },
+            },
+          },
+          {
+            Put: {
+              TableName: TableNames.ORDERS_BY_ID,
+              Item: toOrderById(order),
+              ConditionExpression: "attribute_not_exists(order_id)",
+            },
+          },
+        ],
+      });
+      return "CREATED";
+    }
+
+    const drifted = findOrderDrift(order, orderById);
+    if (drifted.length === 0) {
+      return "IN_SYNC";
+    }
+
+    const ordersIsSource = order.updated_at >= orderById.updated_at;
+    const source: Record<string, unknown> = ordersIsSource ? { ...order } : { ...orderById };
+    const set = drifted.filter((field) => source[field] !== undefined);
+    const remove = drifted.filter((field) => source[field] === undefined);
+    const names = Object.fromEntries(drifted.map((field) => [`#${field}`, field]));
+    const values = Object.fromEntries(set.map((field) => [`:${field}`, source[field]]));
+
+    const sourceTable = ordersIsSource
+      ? { TableName: TableNames.ORDERS, Key: { customer_id: order.customer_id, order_ts_id: order.order_ts_id } }
+      : { TableName: TableNames.ORDERS_BY_ID, Key: { order_id: order.order_id } };
+    const targetTable = ordersIsSource
+      ? { TableName: TableNames.ORDERS_BY_ID, Key: { order_id: order.order_id } }
+      : { TableName: TableNames.ORDERS, Key: { customer_id: order.customer_id, order_ts_id: order.order_ts_id } };
+    const targetUpdatedAt = ordersIsSource ? orderById.updated_at : order.updated_at;
+
+    await executeTransaction({
+      TransactItems: [
+        {
+          ConditionCheck: {
+            ...sourceTable,
+            ConditionExpression: "updated_at = :expected",
+            ExpressionAttributeValues: { ":expected": source.updated_at },
+          },
+        },
+        {
+          Update: {
+            ...targetTable,
+            UpdateExpression: [
+              set.length > 0 ? `SET ${set.map((field) => `#${field} = :${field}`).join(", ")}` : "",
+              remove.length > 0 ? `REMOVE ${remove.map((field) => `#${field}`).join(", ")}` : "",
+            ].join(" ").trim(),
+            ConditionExpression: "#updated_at = :expected",
+            ExpressionAttributeNames: { ...names, "#updated_at": "updated_at" },
+            ExpressionAttributeValues: { ...values, ":expected": targetUpdatedAt },
+          },
+        },
+      ],
+    });
+    return "REPAIRED";
+  } catch (error) {
+    if (isConditionCancellation(error)) {
+      return "CHANGED";
+    }
+    throw error;
+  }
+}
@@ -1,15 +1,84 @@
 // Types
+export * from "./types/money";
 export * from "./types/order";
 export * from "./types/inventory";
 export * from "./types/events";
+export * from "./types/product";
+export * from "./types/tax";
+export * from "./types/compliance";
+export * from "./types/customer";
+export * from "./types/verification";
+export * from "./types/saga";
+export * from "./types/payment";
+export * from "./types/fulfillment";
+export * from "./types/reporting";
+export * from "./types/auth";
+export * from "./types/idempotency";
+export * from "./types/amendment";
+export * from "./types/line-cancellation";
+export * from "./types/reorder";
 
 // DynamoDB utilities
 export * from "./dynamodb/client";
 export * from "./dynamodb/operations";
+export * from "./dynamodb/order-repository";
+
+// Authentication and access control
+export * from "./auth/jwt";
+export * from "./auth/access";
+
+// Order lifecycle
+export * from "./orders/status-history";
+export * from "./orders/state-machine";
+export * from "./orders/fulfillment";
+export * from "./orders/pick-list";
+export * from "./orders/county-summary";
+export * from "./orders/idempotency-keys";
+export * from "./orders/quote";
+export * from "./orders/placement";
+export * from "./orders/amendment";
+export * from "./orders/line-cancellation";
+export * from "./orders/reorder";
+
+// Product catalog
+export * from "./catalog/catalog";
+export * from "./catalog/pricing";
+
+// Tax engine
+export * from "./tax/rates";
+export * from "./tax/calculator";
+
+// Compliance rules
+export * from "./compliance/local-time";
+export * from "./compliance/rules";
+export * from "./compliance/evaluator";
+
+// Inventory
+export * from "./inventory/reservations";
+export * from "./inventory/stock";
+export * from "./inventory/reorder";
+
+// Customers
+export * from "./customers/customers";
+
+// Age verification
+export * from "./verification/verifier";
+export * from "./verification/audit";
+
+// Payments
+export * from "./payments/provider";
+export * from "./payments/refunds";
+
+// Saga orchestration
+export * from "./saga/store";
+export * from "./saga/orchestrator";
 
 // SQS utilities
 export * from "./sqs/client";
 
 // Utilities
+export * from "./utils/money";
 export * from "./utils/idempotency";
 export * from "./utils/validation";
+export * from "./utils/pagination";
+export * from "./utils/fingerprint";
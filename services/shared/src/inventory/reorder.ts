@@ -0,0 +1,134 @@
+import { DeleteCommand, PutCommand, ScanCommand, ScanCommandOutput } from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import { InventoryAlert, InventoryItem, ReorderSuggestion } from "../types/inventory";
+import { multiplyMoney } from "../utils/money";
+import { calculateTTL } from "../utils/idempotency";
+import { normalizeInventoryItem } from "./stock";
+
+// A SKU alerts at most once per cooldown, however often it crosses its reorder level
+export const LOW_STOCK_ALERT_COOLDOWN_HOURS = 24;
+
+// Suggested orders bring free stock back up to this multiple of the reorder level
+export const REORDER_TARGET_MULTIPLIER = 2;
+
+/**
+ * Units not held by reservations
+ */
+export function freeStock(item: Pick<InventoryItem, "quantity_available" | "quantity_reserved">): number {
+  return (item.quantity_available ?? 0) - (item.quantity_reserved ?? 0);
+}
+
+/**
+ * Whether free stock is below the reorder level
+ */
+export function isLowStock(item: InventoryItem): boolean {
+  return freeStock(item) < item.reorder_level;
+}
+
+/**
+ * Suggest a reorder for a low-stock item, or null if it is not low
+ */
+export function suggestReorder(item: InventoryItem): ReorderSuggestion | null {
+  if (!isLowStock(item)) {
+    return null;
+  }
+
+  const quantityFree = freeStock(item);
+  const suggestedQuantity = item.reorder_level * REORDER_TARGET_MULTIPLIER - quantityFree;
+
+  return {
+    store_id: item.store_id,
+    sku: item.sku,
+    product_name: item.product_name,
+    quantity_free: quantityFree,
+    reorder_level: item.reorder_level,
+    suggested_quantity: suggestedQuantity,
+    unit_cost: item.unit_cost,
+    estimated_cost: multiplyMoney(item.unit_cost, suggestedQuantity),
+  };
+}
+
+/**
+ * Claim the low-stock alert for a SKU
+ *
+ * Succeeds only if the SKU has not alerted within the cooldown, so
+ * concurrent or redelivered stream records raise one alert. Returns the
+ * claimed record, or null if an alert was already raised.
+ */
+export async function claimLowStockAlert(item: InventoryItem): Promise<InventoryAlert | null> {
+  const client = getDocumentClient();
+  const now = new Date();
+  const cooldownStart = new Date(
+    now.getTime() - LOW_STOCK_ALERT_COOLDOWN_HOURS * 60 * 60 * 1000
+  ).toISOString();
+
+  const alert: InventoryAlert = {
+    store_sku: item.store_sku,
+    alerted_at: now.toISOString(),
+    quantity_free: freeStock(item),
+    reorder_level: item.reorder_level,
+    ttl: calculateTTL(LOW_STOCK_ALERT_COOLDOWN_HOURS * 60),
+  };
+
+  try {
+    await client.send(
+      new PutCommand({
+        TableName: TableNames.INVENTORY_ALERTS,
+        Item: alert,
+        // TTL deletion is lazy, so an expired record may still be present
+        ConditionExpression: "attribute_not_exists(store_sku) OR alerted_at < :cooldownStart",
+        ExpressionAttributeValues: { ":cooldownStart": cooldownStart },
+      })
+    );
+    return alert;
+  } catch (error) {
+    if (error instanceof Error && error.name === "ConditionalCheckFailedException") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give back a claimed alert (e.g. publishing it failed) so a retry can raise it
+ */
+export async function releaseLowStockAlert(alert: InventoryAlert): Promise<void> {
+  const client = getDocumentClient();
+
+  try {
+    await client.send(
+      new DeleteCommand({
+        TableName: TableNames.INVENTORY_ALERTS,
+        Key: { store_sku: alert.store_sku },
+        ConditionExpression: "alerted_at = :alertedAt",
+        ExpressionAttributeValues: { ":alertedAt": alert.alerted_at },
+      })
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "ConditionalCheckFailedException") {
+      return; // Already replaced by a newer claim
+    }
+    throw error;
+  }
+}
+
+/**
+ * Scan the whole inventory table, one page at a time
+ */
+export async function* scanInventory(pageSize = 500): AsyncGenerator<InventoryItem[]> {
+  const client = getDocumentClient();
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result: ScanCommandOutput = await client.send(
+      new ScanCommand({
+        TableName: TableNames.INVENTORY,
+        Limit: pageSize,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    yield (result.Items ?? []).map(normalizeInventoryItem);
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+}
@@ -0,0 +1,437 @@
+import {
+  QueryCommand,
+  QueryCommandOutput,
+  UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, executeTransaction, TableNames, IndexNames } from "../dynamodb/client";
+import { OrderTransactItem } from "../dynamodb/order-repository";
+import { Reservation, ReservationStatus } from "../types/inventory";
+
+// How long a PENDING reservation holds stock before the sweeper releases it
+export const RESERVATION_TTL_MINUTES = 30;
+
+/**
+ * Check whether a transaction was cancelled by a failed condition
+ * (as opposed to throttling or a conflicting transaction)
+ */
+export function isConditionCancellation(error: unknown): boolean {
+  return cancellationReasons(error).some((reason) => reason.Code === "ConditionalCheckFailed");
+}
+
+/**
+ * Check whether a transaction was cancelled by the condition on the item
+ * at `index` of its TransactItems
+ */
+export function isConditionCancellationAt(error: unknown, index: number): boolean {
+  return cancellationReasons(error)[index]?.Code === "ConditionalCheckFailed";
+}
+
+// Per-item reasons of a cancelled transaction, in TransactItems order
+function cancellationReasons(error: unknown): Array<{ Code?: string }> {
+  if (!(error instanceof Error) || error.name !== "TransactionCanceledException") {
+    return [];
+  }
+  return (error as { CancellationReasons?: Array<{ Code?: string }> }).CancellationReasons ?? [];
+}
+
+// A held reservation line's quantity before and after an order change
+export interface ReservationLineChange {
+  reservation_id: string;
+  order_id: string;
+  store_sku: string;
+  from_quantity: number; // 0 for a line the order did not hold
+  to_quantity: number; // 0 to release the line
+}
+
+/**
+ * Transaction items that move a confirmed order's reservation line to a
+ * new quantity, for committing with the order change itself
+ *
+ * Growing a line reserves the extra units, conditioned on enough free
+ * stock (available - reserved); shrinking it returns units, and shrinking
+ * it to zero releases it. An existing line must still be CONFIRMED at
+ * its old quantity, so a change computed from a stale read fails the
+ * transaction instead of miscounting stock.
+ */
+export function reservationChangeItems(change: ReservationLineChange, now: string): OrderTransactItem[] {
+  const delta = change.to_quantity - change.from_quantity;
+  if (delta === 0) {
+    return [];
+  }
+
+  const key = { reservation_id: change.reservation_id, store_sku: change.store_sku };
+  const stock: OrderTransactItem =
+    delta > 0
+      ? {
+          Update: {
+            TableName: TableNames.INVENTORY,
+            Key: { store_sku: change.store_sku },
+            UpdateExpression:
+              "SET quantity_reserved = if_not_exists(quantity_reserved, :zero) + :qty, updated_at = :now",
+            ConditionExpression: "(quantity_available - if_not_exists(quantity_reserved, :zero)) >= :qty",
+            ExpressionAttributeValues: { ":qty": delta, ":zero": 0, ":now": now },
+          },
+        }
+      : {
+          Update: {
+            TableName: TableNames.INVENTORY,
+            Key: { store_sku: change.store_sku },
+            UpdateExpression: "SET quantity_reserved = quantity_reserved - :qty, updated_at = :now",
+            ConditionExpression: "quantity_reserved >= :qty",
+            ExpressionAttributeValues: { ":qty": -delta, ":now": now },
+          },
+        };
+
+  if (change.from_quantity === 0) {
+    const line: Reservation = {
+      ...key,
+      order_id: change.order_id,
+      quantity: change.to_quantity,
+      status: ReservationStatus.CONFIRMED,
+      created_at: now,
+      expires_at: new Date(new Date(now).getTime() + RESERVATION_TTL_MINUTES * 60 * 1000).toISOString(),
+    };
+    return [
+      stock,
+      {
+        Put: {
+          TableName: TableNames.RESERVATIONS,
+          Item: line,
+          // A line released by an earlier change is taken up again
+          ConditionExpression: "attribute_not_exists(reservation_id) OR #status = :released",
+          ExpressionAttributeNames: { "#status": "status" },
+          ExpressionAttributeValues: { ":released": ReservationStatus.RELEASED },
+        },
+      },
+    ];
+  }
+
+  return [
+    stock,
+    {
+      Update: {
+        TableName: TableNames.RESERVATIONS,
+        Key: key,
+        UpdateExpression:
+          change.to_quantity === 0
+            ? "SET #status = :released, updated_at = :now"
+            : "SET quantity = :to, updated_at = :now",
+        ConditionExpression: "#status = :confirmed AND quantity = :from",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ...(change.to_quantity === 0
+            ? { ":released": ReservationStatus.RELEASED }
+            : { ":to": change.to_quantity }),
+          ":confirmed": ReservationStatus.CONFIRMED,
+          ":from": change.from_quantity,
+          ":now": now,
+        },
+      },
+    },
+  ];
+}
+
+/**
+ * Get all lines of a reservation
+ */
+export async function getReservation(reservationId: string): Promise<Reservation[]> {
+  const client = getDocumentClient();
+
+  const result = await client.send(
+    new QueryCommand({
+      TableName: TableNames.RESERVATIONS,
+      KeyConditionExpression: "reservation_id = :rid",
+      ExpressionAttributeValues: { ":rid": reservationId },
+      ConsistentRead: true,
+    })
+  );
+
+  return (result.Items as Reservation[]) ?? [];
+}
+
+/**
+ * Get all reservation lines for an order
+ */
+export async function getReservationsByOrder(orderId: string): Promise<Reservation[]> {
+  const client = getDocumentClient();
+
+  const result = await client.send(
+    new QueryCommand({
+      TableName: TableNames.RESERVATIONS,
+      IndexName: IndexNames.RESERVATION_ORDER,
+      KeyConditionExpression: "order_id = :oid",
+      ExpressionAttributeValues: { ":oid": orderId },
+    })
+  );
+
+  return (result.Items as Reservation[]) ?? [];
+}
+
+/**
+ * List PENDING reservation lines that expired at or before asOf
+ */
+export async function listExpiredReservations(
+  asOf: string,
+  limit = 100
+): Promise<Reservation[]> {
+  const client = getDocumentClient();
+  const lines: Reservation[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result: QueryCommandOutput = await client.send(
+      new QueryCommand({
+        TableName: TableNames.RESERVATIONS,
+        IndexName: IndexNames.RESERVATION_EXPIRY,
+        KeyConditionExpression: "#status = :pending AND expires_at <= :asOf",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ":pending": ReservationStatus.PENDING,
+          ":asOf": asOf,
+        },
+        Limit: limit - lines.length,
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    lines.push(...((result.Items as Reservation[]) ?? []));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey && lines.length < limit);
+
+  return lines;
+}
+
+/**
+ * Log a held line whose inventory counters can't cover it
+ * Releasing or committing it would take the counters negative.
+ */
+function logCounterDrift(error: unknown, line: Pick<Reservation, "reservation_id" | "store_sku" | "quantity">): void {
+  if (isConditionCancellationAt(error, 1)) {
+    console.error("Inventory counters drifted from reservation line:", line.reservation_id, line.store_sku, line.quantity);
+  }
+}
+
+/**
+ * Release one reservation line back to available stock
+ *
+ * The status change and the quantity_reserved decrement happen in one
+ * transaction, conditioned on the line still being in one of
+ * `fromStatuses`, so a line is never released twice. Returns false if
+ * the line was no longer releasable; a failed quantity_reserved check
+ * means the counter drifted from the line and is logged and rethrown.
+ */
+export async function releaseReservationLine(
+  line: Pick<Reservation, "reservation_id" | "store_sku" | "quantity">,
+  fromStatuses: ReservationStatus[] = [ReservationStatus.PENDING, ReservationStatus.CONFIRMED]
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const statusValues = Object.fromEntries(fromStatuses.map((status, i) => [`:from${i}`, status]));
+
+  try {
+    await executeTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TableNames.RESERVATIONS,
+            Key: { reservation_id: line.reservation_id, store_sku: line.store_sku },
+            UpdateExpression: "SET #status = :released, updated_at = :now",
+            ConditionExpression: `#status IN (${Object.keys(statusValues).join(", ")})`,
+            ExpressionAttributeNames: { "#status": "status" },
+            ExpressionAttributeValues: {
+              ":released": ReservationStatus.RELEASED,
+              ":now": now,
+              ...statusValues,
+            },
+          },
+        },
+        {
+          Update: {
+            TableName: TableNames.INVENTORY,
+            Key: { store_sku: line.store_sku },
+            UpdateExpression: "SET quantity_reserved = quantity_reserved - :qty, updated_at = :now",
+            ConditionExpression: "quantity_reserved >= :qty",
+            ExpressionAttributeValues: {
+              ":qty": line.quantity,
+              ":now": now,
+            },
+          },
+        },
+      ],
+    });
+    return true;
+  } catch (error) {
+    // The line's status condition (item 0): no longer held
+    if (isConditionCancellationAt(error, 0)) {
+      return false;
+    }
+    logCounterDrift(error, line);
+    throw error;
+  }
+}
+
+/**
+ * Commit one reservation line when its order ships
+ *
+ * Moves the line to COMMITTED and removes its units from both
+ * quantity_available and quantity_reserved in one transaction,
+ * conditioned on the line still being held. Returns false if the line
+ * was already committed or released; failed stock checks mean the
+ * counters drifted from the line and are logged and rethrown.
+ */
+export async function commitReservationLine(
+  line: Pick<Reservation, "reservation_id" | "store_sku" | "quantity">
+): Promise<boolean> {
+  const now = new Date().toISOString();
+
+  try {
+    await executeTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TableNames.RESERVATIONS,
+            Key: { reservation_id: line.reservation_id, store_sku: line.store_sku },
+            UpdateExpression: "SET #status = :committed, updated_at = :now",
+            ConditionExpression: "#status IN (:pending, :confirmed)",
+            ExpressionAttributeNames: { "#status": "status" },
+            ExpressionAttributeValues: {
+              ":committed": ReservationStatus.COMMITTED,
+              ":pending": ReservationStatus.PENDING,
+              ":confirmed": ReservationStatus.CONFIRMED,
+              ":now": now,
+            },
+          },
+        },
+        {
+          Update: {
+            TableName: TableNames.INVENTORY,
+            Key: { store_sku: line.store_sku },
+            UpdateExpression:
+              "SET quantity_available = quantity_available - :qty, quantity_reserved = quantity_reserved - :qty, updated_at = :now",
+            ConditionExpression: "quantity_available >= :qty AND quantity_reserved >= :qty",
+            ExpressionAttributeValues: {
+              ":qty": line.quantity,
+              ":now": now,
+            },
+          },
+        },
+      ],
+    });
+    return true;
+  } catch (error) {
+    // The line's status condition (item 0): no longer held
+    if (isConditionCancellationAt(error, 0)) {
+      return false;
+    }
+    logCounterDrift(error, line);
+    throw error;
+  }
+}
+
+/**
+ * Commit every held reservation line of an order
+ * Returns the number of lines committed by this call.
+ */
+export async function commitOrderReservations(orderId: string): Promise<number> {
+  const lines = await getReservationsByOrder(orderId);
+  let committed = 0;
+
+  for (const line of lines) {
+    if (
+      line.status !== ReservationStatus.COMMITTED &&
+      line.status !== ReservationStatus.RELEASED &&
+      (await commitReservationLine(line))
+    ) {
+      committed++;
+    }
+  }
+
+  return committed;
+}
+
+/**
+ * Release every held reservation line of an order
+ * Returns the number of lines released by this call.
+ */
+export async function releaseOrderReservations(orderId: string): Promise<number> {
+  const lines = await getReservationsByOrder(orderId);
+  let released = 0;
+
+  for (const line of lines) {
+    if (
+      line.status !== ReservationStatus.COMMITTED &&
+      line.status !== ReservationStatus.RELEASED &&
+      (await releaseReservationLine(line))
+    ) {
+      released++;
+    }
+  }
+
+  return released;
+}
+
+/**
+ * Release every still-held line of a reservation
+ * Returns the number of lines released by this call.
+ */
+export async function releaseReservation(
+  reservationId: string,
+  fromStatuses: ReservationStatus[] = [ReservationStatus.PENDING, ReservationStatus.CONFIRMED]
+): Promise<number> {
+  const lines = await getReservation(reservationId);
+  let released = 0;
+
+  for (const line of lines) {
+    if (fromStatuses.includes(line.status) && (await releaseReservationLine(line, fromStatuses))) {
+      released++;
+    }
+  }
+
+  return released;
+}
+
+/**
+ * Confirm a reservation so the expiry sweeper no longer releases it
+ * Returns false if any line was already released (e.g. it expired).
+ */
+export async function confirmReservation(reservationId: string): Promise<boolean> {
+  const client = getDocumentClient();
+  const now = new Date().toISOString();
+  const lines = await getReservation(reservationId);
+
+  if (lines.length === 0) {
+    return false;
+  }
+
+  for (const line of lines) {
+    if (line.status === ReservationStatus.CONFIRMED) {
+      continue;
+    }
+    if (line.status !== ReservationStatus.PENDING) {
+      return false;
+    }
+
+    try {
+      await client.send(
+        new UpdateCommand({
+          TableName: TableNames.RESERVATIONS,
+          Key: { reservation_id: line.reservation_id, store_sku: line.store_sku },
+          UpdateExpression: "SET #status = :confirmed, updated_at = :now",
+          ConditionExpression: "#status = :pending",
+          ExpressionAttributeNames: { "#status": "status" },
+          ExpressionAttributeValues: {
+            ":confirmed": ReservationStatus.CONFIRMED,
+            ":pending": ReservationStatus.PENDING,
+            ":now": now,
+          },
+        })
+      );
+    } catch (error) {
+      if (error instanceof Error && error.name === "ConditionalCheckFailedException") {
+        return false; // Released by the sweeper in the meantime
+      }
+      throw error;
+    }
+  }
+
+  return true;
+}
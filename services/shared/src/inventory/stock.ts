@@ -0,0 +1,290 @@
+import { GetCommand, QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, executeTransaction, TableNames, IndexNames } from "../dynamodb/client";
+import {
+  AdjustmentReason,
+  InventoryAdjustment,
+  InventoryItem,
+  InventoryItemSchema,
+  InventoryUpdateRequest,
+} from "../types/inventory";
+import { LegacyAmount } from "../types/money";
+import { toMoney } from "../utils/money";
+import { generateAdjustmentId } from "../utils/idempotency";
+import { PaginationScope, decodePaginationToken, encodePaginationToken } from "../utils/pagination";
+import { validate, ValidationError } from "../utils/validation";
+import { isConditionCancellation } from "./reservations";
+
+// Result of a quantity adjustment
+export type InventoryAdjustmentResult =
+  | { status: "ADJUSTED"; item: InventoryItem; adjustment: InventoryAdjustment }
+  | { status: "NOT_FOUND" }
+  | { status: "CONFLICT"; current: InventoryItem | null }
+  | { status: "INVALID"; errors: ValidationError[] };
+
+// Result of a bulk-import upsert (adjustment is set when the count changed)
+export type InventoryUpsertResult =
+  | { status: "CREATED" | "UPDATED"; item: InventoryItem; adjustment?: InventoryAdjustment }
+  | { status: "CONFLICT" }
+  | { status: "INVALID"; errors: ValidationError[] };
+
+// Catalog and count fields set by a bulk import
+export type InventoryUpsert = Omit<InventoryItem, "store_sku" | "quantity_reserved" | "updated_at">;
+
+/**
+ * Build the inventory table key for a store and SKU
+ */
+export function toStoreSku(storeId: string, sku: string): string {
+  return `${storeId}#${sku}`;
+}
+
+/**
+ * Read unit_cost as Money (older items store it as a float)
+ */
+export function normalizeInventoryItem(item: Record<string, unknown>): InventoryItem {
+  return {
+    ...item,
+    unit_cost: toMoney(item.unit_cost as LegacyAmount | undefined),
+  } as InventoryItem;
+}
+
+/**
+ * Get stock for a store and SKU
+ */
+export async function getInventoryItem(
+  storeId: string,
+  sku: string
+): Promise<InventoryItem | null> {
+  const client = getDocumentClient();
+
+  const result = await client.send(
+    new GetCommand({
+      TableName: TableNames.INVENTORY,
+      Key: { store_sku: toStoreSku(storeId, sku) },
+      ConsistentRead: true,
+    })
+  );
+
+  return result.Item ? normalizeInventoryItem(result.Item) : null;
+}
+
+/**
+ * List a store's inventory (using GSI), ordered by SKU
+ */
+export async function listStoreInventory(
+  storeId: string,
+  limit: number = 50,
+  nextToken?: string
+): Promise<{ items: InventoryItem[]; nextToken?: string }> {
+  const client = getDocumentClient();
+  const scope: PaginationScope = { query: "inventory-by-store", partition: storeId };
+
+  const result = await client.send(
+    new QueryCommand({
+      TableName: TableNames.INVENTORY,
+      IndexName: IndexNames.STORE_INVENTORY,
+      KeyConditionExpression: "store_id = :sid",
+      ExpressionAttributeValues: {
+        ":sid": storeId,
+      },
+      Limit: limit,
+      ExclusiveStartKey: await decodePaginationToken(nextToken, scope),
+    })
+  );
+
+  return {
+    items: (result.Items ?? []).map(normalizeInventoryItem),
+    nextToken: await encodePaginationToken(result.LastEvaluatedKey, scope),
+  };
+}
+
+/**
+ * Apply a reason-coded quantity adjustment
+ *
+ * The caller passes the updated_at it last read; the write is conditioned
+ * on it, so an adjustment based on a stale read (including one raced by a
+ * reservation) is rejected as a CONFLICT instead of overwriting. The
+ * adjusted item must still satisfy InventoryItemSchema and cover the
+ * reserved quantity. The adjustment is recorded in the ledger in the same
+ * transaction.
+ */
+export async function adjustInventory(
+  request: InventoryUpdateRequest
+): Promise<InventoryAdjustmentResult> {
+  const current = await getInventoryItem(request.store_id, request.sku);
+  if (!current) {
+    return { status: "NOT_FOUND" };
+  }
+  if (current.updated_at !== request.expected_updated_at) {
+    return { status: "CONFLICT", current };
+  }
+
+  const now = new Date().toISOString();
+  const validation = validate(InventoryItemSchema, {
+    ...current,
+    quantity_available: current.quantity_available + request.quantity_delta,
+    updated_at: now,
+  });
+  if (!validation.success) {
+    return { status: "INVALID", errors: validation.errors! };
+  }
+
+  const item = validation.data!;
+  if (item.quantity_available < current.quantity_reserved) {
+    return {
+      status: "INVALID",
+      errors: [
+        {
+          field: "quantity_delta",
+          message: `Adjustment would leave ${item.quantity_available} on hand with ${current.quantity_reserved} reserved`,
+          code: "below_reserved",
+        },
+      ],
+    };
+  }
+
+  const adjustment = ledgerEntry(item, request.reason, current.quantity_available, now, request.note);
+
+  try {
+    await executeTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TableNames.INVENTORY,
+            Key: { store_sku: current.store_sku },
+            UpdateExpression: "SET quantity_available = :qty, updated_at = :now",
+            ConditionExpression: "updated_at = :expected",
+            ExpressionAttributeValues: {
+              ":qty": item.quantity_available,
+              ":now": now,
+              ":expected": request.expected_updated_at,
+            },
+          },
+        },
+        {
+          Put: {
+            TableName: TableNames.INVENTORY_ADJUSTMENTS,
+            Item: adjustment,
+          },
+        },
+      ],
+    });
+  } catch (error) {
+    if (isConditionCancellation(error)) {
+      return { status: "CONFLICT", current: await getInventoryItem(request.store_id, request.sku) };
+    }
+    throw error;
+  }
+
+  return { status: "ADJUSTED", item, adjustment };
+}
+
+/**
+ * Create or update an item from a bulk import
+ *
+ * Without expectedUpdatedAt the item must not exist yet; with it, the
+ * write is conditioned on the stored updated_at. quantity_reserved is
+ * never overwritten, and an update may not drop quantity_available below it.
+ * A change to quantity_available (including a new item's opening count)
+ * is recorded in the ledger as a COUNT_CORRECTION, in the same transaction.
+ */
+export async function upsertInventoryItem(
+  upsert: InventoryUpsert,
+  expectedUpdatedAt?: string
+): Promise<InventoryUpsertResult> {
+  const now = new Date().toISOString();
+  const storeSku = toStoreSku(upsert.store_id, upsert.sku);
+
+  const validation = validate(InventoryItemSchema, {
+    ...upsert,
+    store_sku: storeSku,
+    quantity_reserved: 0,
+    updated_at: now,
+  });
+  if (!validation.success) {
+    return { status: "INVALID", errors: validation.errors! };
+  }
+
+  // The ledger needs the count being replaced; the write below is
+  // conditioned on this read still being current
+  let current: InventoryItem | null = null;
+  if (expectedUpdatedAt) {
+    current = await getInventoryItem(upsert.store_id, upsert.sku);
+    if (!current || current.updated_at !== expectedUpdatedAt) {
+      return { status: "CONFLICT" };
+    }
+  }
+
+  const item: InventoryItem = current ? { ...current, ...upsert, updated_at: now } : validation.data!;
+  const quantityBefore = current?.quantity_available ?? 0;
+  const adjustment =
+    item.quantity_available !== quantityBefore
+      ? ledgerEntry(item, AdjustmentReason.COUNT_CORRECTION, quantityBefore, now, "Inventory import")
+      : undefined;
+
+  try {
+    await executeTransaction({
+      TransactItems: [
+        {
+          Update: {
+            TableName: TableNames.INVENTORY,
+            Key: { store_sku: storeSku },
+            UpdateExpression:
+              "SET store_id = :store, sku = :sku, product_name = :name, quantity_available = :qty, " +
+              "quantity_reserved = if_not_exists(quantity_reserved, :zero), reorder_level = :reorder, " +
+              "unit_cost = :cost, updated_at = :now",
+            ConditionExpression: expectedUpdatedAt
+              ? "updated_at = :expected AND quantity_reserved <= :qty"
+              : "attribute_not_exists(store_sku)",
+            ExpressionAttributeValues: {
+              ":store": upsert.store_id,
+              ":sku": upsert.sku,
+              ":name": upsert.product_name,
+              ":qty": upsert.quantity_available,
+              ":zero": 0,
+              ":reorder": upsert.reorder_level,
+              ":cost": upsert.unit_cost,
+              ":now": now,
+              ...(expectedUpdatedAt ? { ":expected": expectedUpdatedAt } : {}),
+            },
+          },
+        },
+        ...(adjustment
+          ? [{ Put: { TableName: TableNames.INVENTORY_ADJUSTMENTS, Item: adjustment } }]
+          : []),
+      ],
+    });
+  } catch (error) {
+    if (isConditionCancellation(error)) {
+      return { status: "CONFLICT" };
+    }
+    throw error;
+  }
+
+  return { status: expectedUpdatedAt ? "UPDATED" : "CREATED", item, adjustment };
+}
+
+/**
+ * Ledger record for a change to an item's quantity_available
+ */
+function ledgerEntry(
+  item: InventoryItem,
+  reason: AdjustmentReason,
+  quantityBefore: number,
+  now: string,
+  note?: string
+): InventoryAdjustment {
+  const adjustmentId = generateAdjustmentId();
+  return {
+    store_sku: item.store_sku,
+    adjustment_ts_id: `${now}#${adjustmentId}`,
+    adjustment_id: adjustmentId,
+    store_id: item.store_id,
+    sku: item.sku,
+    reason,
+    quantity_delta: item.quantity_available - quantityBefore,
+    quantity_before: quantityBefore,
+    quantity_after: item.quantity_available,
+    note,
+    adjusted_at: now,
+  };
+}
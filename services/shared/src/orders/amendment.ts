@@ -0,0 +1,377 @@
+import { TableNames } from "../dynamodb/client";
+import { OrderTransactItem, orderKey, updateOrder } from "../dynamodb/order-repository";
+import { getReservationsByOrder, reservationChangeItems } from "../inventory/reservations";
+import { getInventoryItem, toStoreSku } from "../inventory/stock";
+import { getPaymentProvider, paymentIdempotencyKey } from "../payments/provider";
+import { DynamoSagaStateStore } from "../saga/store";
+import {
+  AMENDABLE_ORDER_STATUSES,
+  AmendOrderRequest,
+  AmendedLine,
+  OrderAmendment,
+  OrderAmendmentDiff,
+} from "../types/amendment";
+import { ReservationStatus } from "../types/inventory";
+import { Money } from "../types/money";
+import { CreateOrderItem, OrderById, OrderItem, OrderStatus, PaymentState, ShippingAddress } from "../types/order";
+import { PaymentOperation, PaymentOutcome } from "../types/payment";
+import { generateAmendmentId } from "../utils/idempotency";
+import { moneyEquals } from "../utils/money";
+import { ValidationError } from "../utils/validation";
+import { isActiveLine } from "./line-cancellation";
+import { OrderQuote, OrderQuoteResult, quoteOrder } from "./quote";
+
+// A SKU short of free stock for an amendment
+export interface AmendmentShortfall {
+  sku: string;
+  requested: number; // Extra units the amendment needs
+  available: number;
+}
+
+export type AmendOrderResult =
+  | { status: "AMENDED"; order: OrderById; amendment: OrderAmendment }
+  | { status: "INVALID"; errors: ValidationError[] } // The request does not fit the order
+  | { status: "REJECTED"; reason: string } // The order can no longer be amended
+  | { status: "QUOTE_FAILED"; result: Exclude<OrderQuoteResult, { status: "QUOTED" }> }
+  | { status: "INSUFFICIENT_INVENTORY"; failed_items: AmendmentShortfall[] }
+  | { status: "PAYMENT_DECLINED"; decline_code: string }
+  | { status: "CONFLICT" }; // Order or stock changed since it was read
+
+/**
+ * Apply an amendment's adds, removals and quantity changes to the order's
+ * lines
+ *
+ * Existing lines keep their place and drop their prices (the catalog
+ * re-prices them); added lines follow in request order. A SKU may appear
+ * in only one of add, remove and change, and the order must keep at
+ * least one line. Cancelled lines are left out: they can be neither
+ * amended nor added back.
+ */
+export function applyAmendment(
+  items: OrderItem[],
+  request: AmendOrderRequest
+): { status: "OK"; items: CreateOrderItem[] } | { status: "INVALID"; errors: ValidationError[] } {
+  const errors: ValidationError[] = [];
+  const active = items.filter(isActiveLine);
+  const onOrder = new Set(active.map((item) => item.sku));
+  const cancelled = new Set(items.filter((item) => !isActiveLine(item)).map((item) => item.sku));
+  const seen = new Set<string>();
+
+  const claim = (field: string, sku: string, mustBeOnOrder: boolean): boolean => {
+    if (seen.has(sku)) {
+      errors.push({ field, message: `${sku} is listed more than once`, code: "duplicate_sku" });
+      return false;
+    }
+    seen.add(sku);
+    if (cancelled.has(sku)) {
+      errors.push({ field, message: `${sku} was cancelled from the order`, code: "line_cancelled" });
+      return false;
+    }
+    if (mustBeOnOrder && !onOrder.has(sku)) {
+      errors.push({ field, message: `${sku} is not on the order`, code: "unknown_sku" });
+      return false;
+    }
+    if (!mustBeOnOrder && onOrder.has(sku)) {
+      errors.push({ field, message: `${sku} is already on the order; change its quantity instead`, code: "already_on_order" });
+      return false;
+    }
+    return true;
+  };
+
+  const removed = new Set(
+    (request.remove ?? []).filter((sku, index) => claim(`remove.${index}`, sku, true))
+  );
+  const changed = new Map(
+    (request.change ?? [])
+      .filter((line, index) => claim(`change.${index}.sku`, line.sku, true))
+      .map((line) => [line.sku, line.quantity])
+  );
+  const added = (request.add ?? []).filter((line, index) => claim(`add.${index}.sku`, line.sku, false));
+
+  const amended: CreateOrderItem[] = [
+    ...active
+      .filter((item) => !removed.has(item.sku))
+      .map((item) => ({ sku: item.sku, quantity: changed.get(item.sku) ?? item.quantity })),
+    ...added,
+  ];
+
+  if (errors.length === 0 && amended.length === 0) {
+    errors.push({
+      field: "remove",
+      message: "An order must keep at least one line; cancel the order instead",
+      code: "no_items_left",
+    });
+  }
+
+  return errors.length > 0 ? { status: "INVALID", errors } : { status: "OK", items: amended };
+}
+
+/**
+ * Describe what an amendment changes, line by line
+ * Lines whose quantity and price are unchanged, and cancelled lines, are
+ * left out.
+ */
+export function diffAmendment(
+  order: OrderById,
+  quote: OrderQuote,
+  shippingAddress: ShippingAddress
+): OrderAmendmentDiff {
+  const state = (item: OrderItem) => ({
+    quantity: item.quantity,
+    unit_price: item.unit_price,
+    total_price: item.total_price,
+  });
+
+  const lines: AmendedLine[] = [];
+  for (const before of order.items.filter(isActiveLine)) {
+    const after = quote.items.find((item) => item.sku === before.sku);
+    if (after && after.quantity === before.quantity && moneyEquals(after.unit_price, before.unit_price)) {
+      continue;
+    }
+    lines.push({
+      sku: before.sku,
+      name: after?.name ?? before.name,
+      before: state(before),
+      ...(after && { after: state(after) }),
+    });
+  }
+  for (const after of quote.items) {
+    if (!order.items.some((item) => item.sku === after.sku)) {
+      lines.push({ sku: after.sku, name: after.name, after: state(after) });
+    }
+  }
+
+  const a = order.shipping_address;
+  const b = shippingAddress;
+  const addressChanged = a.street !== b.street || a.city !== b.city || a.state !== b.state || a.zip !== b.zip;
+
+  return {
+    items: lines,
+    ...(addressChanged && { shipping_address: { before: a, after: b } }),
+    subtotal: { before: order.subtotal, after: quote.subtotal },
+    tax: { before: order.tax, after: quote.tax },
+    total: { before: order.total, after: quote.total },
+  };
+}
+
+/**
+ * Reservation changes that move a confirmed order's held stock from its
+ * old lines to its new ones
+ */
+async function planReservationChanges(order: OrderById, items: OrderItem[]) {
+  const held = (await getReservationsByOrder(order.order_id)).filter(
+    (line) => line.status === ReservationStatus.CONFIRMED
+  );
+  const reservationId = held[0]?.reservation_id;
+  if (!reservationId) {
+    throw new Error(`Order ${order.order_id} is confirmed but holds no reservation`);
+  }
+
+  const quantity = (lines: Array<Pick<OrderItem, "sku" | "quantity">>, sku: string) =>
+    lines.find((line) => line.sku === sku)?.quantity ?? 0;
+  const active = order.items.filter(isActiveLine);
+  const skus = [...new Set([...active, ...items].map((item) => item.sku))];
+
+  return skus
+    .map((sku) => {
+      const storeSku = toStoreSku(order.store_id, sku);
+      const line = held.find((l) => l.store_sku === storeSku);
+      const from = quantity(active, sku);
+      if ((line?.quantity ?? 0) !== from) {
+        throw new Error(`Reservation of order ${order.order_id} does not match its ${sku} line`);
+      }
+      return {
+        sku,
+        reservation_id: line?.reservation_id ?? reservationId,
+        order_id: order.order_id,
+        store_sku: storeSku,
+        from_quantity: from,
+        to_quantity: quantity(items, sku),
+      };
+    })
+    .filter((change) => change.to_quantity !== change.from_quantity);
+}
+
+/**
+ * Move the authorization to a new amount, for the amendment or its revert
+ */
+async function adjustAuthorization(order: OrderById, amount: Money, reference: string) {
+  return getPaymentProvider().adjustAuthorization({
+    idempotency_key: paymentIdempotencyKey(order.order_id, PaymentOperation.ADJUST, reference),
+    order_id: order.order_id,
+    authorization_id: order.payment_authorization_id!,
+    amount,
+  });
+}
+
+/**
+ * Amend a PENDING or CONFIRMED order's lines and/or shipping address
+ *
+ * The amended order is re-priced, re-checked for compliance and re-taxed
+ * as of now, with the order's own volume replaced rather than counted
+ * twice against the daily limit. A PENDING order is only amended before
+ * processing starts: the write is conditioned on its saga not existing.
+ * A CONFIRMED order already holds stock and funds, so its reservation
+ * lines move by the difference in the same transaction as the order, and
+ * the authorization is adjusted to the new total: raised before the
+ * write (and put back if the write fails), lowered after it, so the hold
+ * never falls below what the order will capture.
+ *
+ * The amendment is appended to the order's amendments with a before and
+ * after diff; the stream publishes it as Order Amended.
+ */
+export async function amendOrder(
+  order: OrderById,
+  request: AmendOrderRequest,
+  actor: string
+): Promise<AmendOrderResult> {
+  if (!AMENDABLE_ORDER_STATUSES.includes(order.status)) {
+    return { status: "REJECTED", reason: `Order cannot be amended once ${order.status}` };
+  }
+
+  const confirmed = order.status === OrderStatus.CONFIRMED;
+  if (confirmed && (order.payment_state !== PaymentState.AUTHORIZED || !order.payment_authorization_id)) {
+    return { status: "REJECTED", reason: `Payment must be AUTHORIZED, not ${order.payment_state}` };
+  }
+  if (!confirmed && (await new DynamoSagaStateStore().load(order.order_id))) {
+    return { status: "REJECTED", reason: "Order is being processed; amend it once it is confirmed" };
+  }
+
+  const applied = applyAmendment(order.items, request);
+  if (applied.status === "INVALID") {
+    return applied;
+  }
+
+  const now = new Date().toISOString();
+  const shippingAddress = request.shipping_address ?? order.shipping_address;
+  const quoted = await quoteOrder({
+    customer_id: order.customer_id,
+    store_id: order.store_id,
+    county_id: order.county_id,
+    items: applied.items,
+    shipping_address: shippingAddress,
+    as_of: now,
+    replaces: order,
+  });
+  if (quoted.status !== "QUOTED") {
+    return { status: "QUOTE_FAILED", result: quoted };
+  }
+
+  const quote = quoted.quote;
+  const items = [...quote.items, ...order.items.filter((item) => !isActiveLine(item))];
+  const diff = diffAmendment(order, quote, shippingAddress);
+  if (diff.items.length === 0 && !diff.shipping_address && moneyEquals(quote.total, order.total)) {
+    return {
+      status: "INVALID",
+      errors: [{ field: "add", message: "Amendment does not change the order", code: "no_change" }],
+    };
+  }
+
+  const amendment: OrderAmendment = {
+    amendment_id: generateAmendmentId(),
+    actor,
+    ...(request.reason && { reason: request.reason }),
+    diff,
+    amended_at: now,
+  };
+
+  // Stock first: it is cheaper to refuse than a payment adjustment
+  const related: OrderTransactItem[] = [];
+  if (confirmed) {
+    const changes = await planReservationChanges(order, quote.items);
+
+    const shortfalls: AmendmentShortfall[] = [];
+    for (const change of changes.filter((c) => c.to_quantity > c.from_quantity)) {
+      const stock = await getInventoryItem(order.store_id, change.sku);
+      const available = stock ? stock.quantity_available - (stock.quantity_reserved ?? 0) : 0;
+      const requested = change.to_quantity - change.from_quantity;
+      if (available < requested) {
+        shortfalls.push({ sku: change.sku, requested, available });
+      }
+    }
+    if (shortfalls.length > 0) {
+      return { status: "INSUFFICIENT_INVENTORY", failed_items: shortfalls };
+    }
+
+    related.push(...changes.flatMap((change) => reservationChangeItems(change, now)));
+  } else {
+    related.push({
+      ConditionCheck: {
+        TableName: TableNames.SAGAS,
+        Key: { saga_id: order.order_id },
+        ConditionExpression: "attribute_not_exists(saga_id)",
+      },
+    });
+  }
+
+  const raisesHold = confirmed && quote.total.amount > order.total.amount;
+  if (raisesHold) {
+    const result = await adjustAuthorization(order, quote.total, amendment.amendment_id);
+    if (result.outcome !== PaymentOutcome.APPROVED) {
+      return { status: "PAYMENT_DECLINED", decline_code: result.decline_code ?? "declined" };
+    }
+  }
+
+  const written = await updateOrder(
+    orderKey(order),
+    {
+      UpdateExpression:
+        "SET #items = :items, subtotal = :subtotal, tax = :tax, #total = :total, tax_breakdown = :taxBreakdown, " +
+        "total_volume_ml = :volume, shipping_address = :address, " +
+        "amendments = list_append(if_not_exists(amendments, :empty), :amendment), updated_at = :now",
+      ConditionExpression: "#status = :status AND updated_at = :expected",
+      ExpressionAttributeNames: { "#items": "items", "#total": "total", "#status": "status" },
+      ExpressionAttributeValues: {
+        ":items": items,
+        ":subtotal": quote.subtotal,
+        ":tax": quote.tax,
+        ":total": quote.total,
+        ":taxBreakdown": quote.tax_breakdown,
+        ":volume": quote.total_volume_ml,
+        ":address": shippingAddress,
+        ":empty": [],
+        ":amendment": [amendment],
+        ":now": now,
+        ":status": order.status,
+        ":expected": order.updated_at,
+      },
+    },
+    related
+  );
+
+  if (!written) {
+    if (raisesHold) {
+      await adjustAuthorization(order, order.total, `${amendment.amendment_id}:revert`);
+    }
+    return { status: "CONFLICT" };
+  }
+
+  // A failed decrease only leaves the hold higher than the total; capture takes the total
+  if (confirmed && quote.total.amount < order.total.amount) {
+    try {
+      const result = await adjustAuthorization(order, quote.total, amendment.amendment_id);
+      if (result.outcome !== PaymentOutcome.APPROVED) {
+        console.warn("Authorization not lowered for amendment:", amendment.amendment_id, result.decline_code);
+      }
+    } catch (error) {
+      console.warn("Authorization not lowered for amendment:", amendment.amendment_id, error);
+    }
+  }
+
+  return {
+    status: "AMENDED",
+    order: {
+      ...order,
+      items,
+      subtotal: quote.subtotal,
+      tax: quote.tax,
+      total: quote.total,
+      tax_breakdown: quote.tax_breakdown,
+      total_volume_ml: quote.total_volume_ml,
+      shipping_address: shippingAddress,
+      amendments: [...(order.amendments ?? []), amendment],
+      updated_at: now,
+    },
+    amendment,
+  };
+}
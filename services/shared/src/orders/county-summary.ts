@@ -0,0 +1,153 @@
+import { queryOrdersByCounty } from "../dynamodb/operations";
+import { Money } from "../types/money";
+import { Order, OrderStatus } from "../types/order";
+import { CountyOrderSummary, SkuSales } from "../types/reporting";
+import {
+  DEFAULT_CURRENCY,
+  addMoney,
+  money,
+  roundMinorUnits,
+  subtractMoney,
+  zeroMoney,
+} from "../utils/money";
+import { isActiveLine } from "./line-cancellation";
+
+// Statuses whose orders count towards revenue
+const REVENUE_STATUSES: OrderStatus[] = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.PACKED,
+  OrderStatus.SHIPPED,
+  OrderStatus.DELIVERED,
+];
+
+// Most index pages (up to 1 MB each) one summary may read, so a busy
+// county's window fails fast instead of running into the API timeout
+export const MAX_SUMMARY_PAGES = 50;
+
+/**
+ * Thrown when a summary window holds more orders than one request can read
+ */
+export class SummaryTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SummaryTooLargeError";
+  }
+}
+
+// Running totals of a summary, added to one page of orders at a time
+interface SummaryTotals {
+  orderCount: number;
+  countsByStatus: Record<OrderStatus, number>;
+  revenue?: Money; // Takes the first revenue order's currency
+  revenueOrders: number;
+  skus: Map<string, SkuSales>;
+}
+
+function emptyTotals(): SummaryTotals {
+  return {
+    orderCount: 0,
+    countsByStatus: Object.fromEntries(Object.values(OrderStatus).map((status) => [status, 0])) as Record<
+      OrderStatus,
+      number
+    >,
+    revenueOrders: 0,
+    skus: new Map(),
+  };
+}
+
+function addOrders(totals: SummaryTotals, orders: Order[]): void {
+  for (const order of orders) {
+    totals.orderCount += 1;
+    totals.countsByStatus[order.status] += 1;
+    if (!REVENUE_STATUSES.includes(order.status)) {
+      continue;
+    }
+
+    const net = order.refunded_total ? subtractMoney(order.total, order.refunded_total) : order.total;
+    totals.revenue = totals.revenue ? addMoney(totals.revenue, net) : net;
+    totals.revenueOrders += 1;
+
+    for (const item of order.items.filter(isActiveLine)) {
+      const sales = totals.skus.get(item.sku) ?? {
+        sku: item.sku,
+        name: item.name,
+        quantity: 0,
+        revenue: zeroMoney(item.total_price.currency),
+      };
+      sales.quantity += item.quantity;
+      sales.revenue = addMoney(sales.revenue, item.total_price);
+      totals.skus.set(item.sku, sales);
+    }
+  }
+}
+
+function finishSummary(
+  totals: SummaryTotals,
+  top: number
+): Pick<CountyOrderSummary, "order_count" | "counts_by_status" | "revenue" | "average_order_value" | "top_skus"> {
+  const revenue = totals.revenue ?? zeroMoney(DEFAULT_CURRENCY);
+  const topSkus = [...totals.skus.values()]
+    .sort((a, b) => b.quantity - a.quantity || b.revenue.amount - a.revenue.amount || a.sku.localeCompare(b.sku))
+    .slice(0, top);
+
+  return {
+    order_count: totals.orderCount,
+    counts_by_status: totals.countsByStatus,
+    revenue,
+    average_order_value: totals.revenueOrders
+      ? money(roundMinorUnits(revenue.amount / totals.revenueOrders), revenue.currency)
+      : zeroMoney(revenue.currency),
+    top_skus: topSkus,
+  };
+}
+
+/**
+ * Summarize a set of orders: counts by status, revenue, average order
+ * value and the top SKUs by units sold
+ */
+export function summarizeOrders(
+  orders: Order[],
+  top: number
+): Pick<CountyOrderSummary, "order_count" | "counts_by_status" | "revenue" | "average_order_value" | "top_skus"> {
+  const totals = emptyTotals();
+  addOrders(totals, orders);
+  return finishSummary(totals, top);
+}
+
+/**
+ * Summarize the orders placed in a county between from and to (inclusive)
+ * Pages through the county index to the end of the window, adding each
+ * page to running totals, so every order in it is counted but only one
+ * page is held at a time. Throws SummaryTooLargeError if the window runs
+ * past MAX_SUMMARY_PAGES.
+ */
+export async function getCountySummary(
+  countyId: string,
+  from: string,
+  to: string,
+  top: number
+): Promise<CountyOrderSummary> {
+  const totals = emptyTotals();
+  let lastKey: Record<string, unknown> | undefined;
+  let pages = 0;
+
+  do {
+    if (++pages > MAX_SUMMARY_PAGES) {
+      throw new SummaryTooLargeError(
+        `County ${countyId} has too many orders between ${from} and ${to} to summarize at once; narrow the window`
+      );
+    }
+    const page = await queryOrdersByCounty(countyId, from, to, lastKey);
+    addOrders(totals, page.orders);
+    lastKey = page.lastKey;
+  } while (lastKey);
+
+  return {
+    county_id: countyId,
+    from,
+    to,
+    ...finishSummary(totals, top),
+    generated_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,148 @@
+import { ZodType, ZodTypeDef } from "zod";
+import {
+  DeliverOrderRequest,
+  DeliverOrderRequestSchema,
+  FulfillmentRequest,
+  FulfillmentRequestSchema,
+  FulfillmentStep,
+  OrderFulfillment,
+  ShipOrderRequest,
+  ShipOrderRequestSchema,
+} from "../types/fulfillment";
+import { OrderById, OrderStatus } from "../types/order";
+import { LEGAL_DRINKING_AGE } from "../types/verification";
+import { ValidationError } from "../utils/validation";
+import { calculateAge } from "../verification/verifier";
+import { OrderTransitionResult, transitionOrder } from "./state-machine";
+
+// Status each fulfillment step moves the order to
+export const FULFILLMENT_STEP_STATUS: Record<FulfillmentStep, OrderStatus> = {
+  [FulfillmentStep.PICK]: OrderStatus.PROCESSING,
+  [FulfillmentStep.PACK]: OrderStatus.PACKED,
+  [FulfillmentStep.SHIP]: OrderStatus.SHIPPED,
+  [FulfillmentStep.DELIVER]: OrderStatus.DELIVERED,
+};
+
+// A fulfillment step with its validated request
+export type FulfillmentStepRequest =
+  | { step: typeof FulfillmentStep.PICK | typeof FulfillmentStep.PACK; request: FulfillmentRequest }
+  | { step: typeof FulfillmentStep.SHIP; request: ShipOrderRequest }
+  | { step: typeof FulfillmentStep.DELIVER; request: DeliverOrderRequest };
+
+// Request body schema for each step; parses into the step's request
+export const FULFILLMENT_REQUEST_SCHEMAS: Record<
+  FulfillmentStep,
+  ZodType<FulfillmentStepRequest, ZodTypeDef, unknown>
+> = {
+  [FulfillmentStep.PICK]: FulfillmentRequestSchema.transform((request) => ({
+    step: FulfillmentStep.PICK,
+    request,
+  })),
+  [FulfillmentStep.PACK]: FulfillmentRequestSchema.transform((request) => ({
+    step: FulfillmentStep.PACK,
+    request,
+  })),
+  [FulfillmentStep.SHIP]: ShipOrderRequestSchema.transform((request) => ({
+    step: FulfillmentStep.SHIP,
+    request,
+  })),
+  [FulfillmentStep.DELIVER]: DeliverOrderRequestSchema.transform((request) => ({
+    step: FulfillmentStep.DELIVER,
+    request,
+  })),
+};
+
+export type FulfillOrderResult =
+  | OrderTransitionResult
+  | { status: "INVALID"; errors: ValidationError[] };
+
+/**
+ * Check the ID a recipient showed at delivery
+ * Alcohol may only be handed to someone of legal drinking age holding an
+ * unexpired government ID.
+ */
+export function checkRecipientId(
+  idCheck: DeliverOrderRequest["id_check"],
+  asOf: string
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const age = calculateAge(idCheck.date_of_birth, asOf);
+
+  if (age < LEGAL_DRINKING_AGE) {
+    errors.push({
+      field: "id_check.date_of_birth",
+      message: `Recipient is ${age}; alcohol can only be delivered to someone ${LEGAL_DRINKING_AGE} or older`,
+      code: "recipient_under_age",
+    });
+  }
+  if (idCheck.expiration_date < asOf.slice(0, 10)) {
+    errors.push({
+      field: "id_check.expiration_date",
+      message: `ID expired on ${idCheck.expiration_date}`,
+      code: "id_expired",
+    });
+  }
+  return errors;
+}
+
+/**
+ * Add a step's milestone to the order's fulfillment record
+ */
+export function recordFulfillmentStep(
+  fulfillment: OrderFulfillment,
+  { step, request }: FulfillmentStepRequest,
+  now: string
+): OrderFulfillment {
+  switch (step) {
+    case FulfillmentStep.PICK:
+      return { ...fulfillment, picked_at: now, picked_by: request.staff_id };
+    case FulfillmentStep.PACK:
+      return { ...fulfillment, packed_at: now, packed_by: request.staff_id };
+    case FulfillmentStep.SHIP:
+      return {
+        ...fulfillment,
+        shipped_at: now,
+        shipped_by: request.staff_id,
+        carrier: request.carrier,
+        tracking_number: request.tracking_number,
+      };
+    case FulfillmentStep.DELIVER:
+      return {
+        ...fulfillment,
+        delivered_at: now,
+        delivered_by: request.staff_id,
+        proof_of_delivery: request.proof_of_delivery,
+        id_check: {
+          id_type: request.id_check.id_type,
+          recipient_age: calculateAge(request.id_check.date_of_birth, now),
+          checked_at: now,
+        },
+      };
+  }
+}
+
+/**
+ * Record a store fulfillment step and move the order to its status
+ *
+ * The milestone is written with the status through the order state
+ * machine, so it is conditioned on the order still being in the previous
+ * step and lands in the status history under the staff member's name.
+ */
+export async function fulfillOrder(
+  order: OrderById,
+  stepRequest: FulfillmentStepRequest
+): Promise<FulfillOrderResult> {
+  const now = new Date().toISOString();
+
+  if (stepRequest.step === FulfillmentStep.DELIVER) {
+    const errors = checkRecipientId(stepRequest.request.id_check, now);
+    if (errors.length > 0) {
+      return { status: "INVALID", errors };
+    }
+  }
+
+  return transitionOrder(order, FULFILLMENT_STEP_STATUS[stepRequest.step], {
+    actor: `staff:${stepRequest.request.staff_id}`,
+    fulfillment: recordFulfillmentStep(order.fulfillment ?? {}, stepRequest, now),
+  });
+}
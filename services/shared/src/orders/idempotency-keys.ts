@@ -0,0 +1,190 @@
+import { DeleteCommand, GetCommand, PutCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import {
+  IDEMPOTENCY_KEY_TTL_HOURS,
+  IDEMPOTENCY_LOCK_SECONDS,
+  IdempotencyClaim,
+  IdempotencyKeyStatus,
+  IdempotencyRecord,
+  IdempotentResponse,
+} from "../types/idempotency";
+import { calculateTTL } from "../utils/idempotency";
+
+function isConditionalCheckFailure(error: unknown): boolean {
+  return error instanceof Error && error.name === "ConditionalCheckFailedException";
+}
+
+function lockExpiry(now: Date): string {
+  return new Date(now.getTime() + IDEMPOTENCY_LOCK_SECONDS * 1000).toISOString();
+}
+
+/**
+ * Claim a customer's idempotency key for a request
+ *
+ * The first request with a key stores its fingerprint and holds the key
+ * while it runs. A later request with the same key gets the stored
+ * response back once the first finishes, waits while it is still running,
+ * and is refused if its fingerprint differs. A request whose lock has
+ * lapsed (it crashed or timed out) is taken over by the next retry, which
+ * carries on with the same order_id and order_ts.
+ */
+export async function claimIdempotencyKey(
+  customerId: string,
+  idempotencyKey: string,
+  requestHash: string,
+  ids: Pick<IdempotencyRecord, "order_id" | "order_ts">,
+  now: Date = new Date()
+): Promise<IdempotencyClaim> {
+  const client = getDocumentClient();
+  const nowIso = now.toISOString();
+
+  const record: IdempotencyRecord = {
+    customer_id: customerId,
+    idempotency_key: idempotencyKey,
+    request_hash: requestHash,
+    status: IdempotencyKeyStatus.IN_PROGRESS,
+    order_id: ids.order_id,
+    order_ts: ids.order_ts,
+    locked_until: lockExpiry(now),
+    created_at: nowIso,
+    updated_at: nowIso,
+    ttl: calculateTTL(IDEMPOTENCY_KEY_TTL_HOURS * 60),
+  };
+
+  try {
+    await client.send(
+      new PutCommand({
+        TableName: TableNames.IDEMPOTENCY_KEYS,
+        Item: record,
+        // TTL deletion is lazy, so an expired record may still be present
+        ConditionExpression: "attribute_not_exists(customer_id) OR #ttl < :nowSeconds",
+        ExpressionAttributeNames: { "#ttl": "ttl" },
+        ExpressionAttributeValues: { ":nowSeconds": Math.floor(now.getTime() / 1000) },
+      })
+    );
+    return { status: "CLAIMED", record, resumed: false };
+  } catch (error) {
+    if (!isConditionalCheckFailure(error)) {
+      throw error;
+    }
+  }
+
+  const result = await client.send(
+    new GetCommand({
+      TableName: TableNames.IDEMPOTENCY_KEYS,
+      Key: { customer_id: customerId, idempotency_key: idempotencyKey },
+      ConsistentRead: true,
+    })
+  );
+  const existing = result.Item as IdempotencyRecord | undefined;
+
+  // Released between our write and read; the client's next retry claims it
+  if (!existing) {
+    return { status: "IN_PROGRESS" };
+  }
+  if (existing.request_hash !== requestHash) {
+    return { status: "MISMATCH" };
+  }
+  if (existing.status === IdempotencyKeyStatus.COMPLETED && existing.response) {
+    return { status: "REPLAY", response: existing.response };
+  }
+  if (existing.locked_until > nowIso) {
+    return { status: "IN_PROGRESS" };
+  }
+
+  // The holder's lock lapsed: take the key over, unless another retry already did
+  const lockedUntil = lockExpiry(now);
+  try {
+    await client.send(
+      new UpdateCommand({
+        TableName: TableNames.IDEMPOTENCY_KEYS,
+        Key: { customer_id: customerId, idempotency_key: idempotencyKey },
+        UpdateExpression: "SET locked_until = :lockedUntil, updated_at = :now",
+        ConditionExpression: "#status = :inProgress AND locked_until = :seen",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ":lockedUntil": lockedUntil,
+          ":now": nowIso,
+          ":inProgress": IdempotencyKeyStatus.IN_PROGRESS,
+          ":seen": existing.locked_until,
+        },
+      })
+    );
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return { status: "IN_PROGRESS" };
+    }
+    throw error;
+  }
+
+  return {
+    status: "CLAIMED",
+    record: { ...existing, locked_until: lockedUntil, updated_at: nowIso },
+    resumed: true,
+  };
+}
+
+/**
+ * Store the response for a claimed key so retries replay it
+ * Returns false if the lock lapsed and another retry took the key over;
+ * that retry carries the same order IDs, so its response will match.
+ */
+export async function completeIdempotencyKey(
+  record: IdempotencyRecord,
+  response: IdempotentResponse
+): Promise<boolean> {
+  const client = getDocumentClient();
+
+  try {
+    await client.send(
+      new UpdateCommand({
+        TableName: TableNames.IDEMPOTENCY_KEYS,
+        Key: { customer_id: record.customer_id, idempotency_key: record.idempotency_key },
+        UpdateExpression: "SET #status = :completed, #response = :response, updated_at = :now",
+        ConditionExpression: "#status = :inProgress AND locked_until = :lockedUntil",
+        ExpressionAttributeNames: { "#status": "status", "#response": "response" },
+        ExpressionAttributeValues: {
+          ":completed": IdempotencyKeyStatus.COMPLETED,
+          ":response": response,
+          ":now": new Date().toISOString(),
+          ":inProgress": IdempotencyKeyStatus.IN_PROGRESS,
+          ":lockedUntil": record.locked_until,
+        },
+      })
+    );
+    return true;
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Give back a claimed key when the request was refused, so the client can
+ * retry with it, with the same or a corrected body
+ */
+export async function releaseIdempotencyKey(record: IdempotencyRecord): Promise<void> {
+  const client = getDocumentClient();
+
+  try {
+    await client.send(
+      new DeleteCommand({
+        TableName: TableNames.IDEMPOTENCY_KEYS,
+        Key: { customer_id: record.customer_id, idempotency_key: record.idempotency_key },
+        ConditionExpression: "#status = :inProgress AND locked_until = :lockedUntil",
+        ExpressionAttributeNames: { "#status": "status" },
+        ExpressionAttributeValues: {
+          ":inProgress": IdempotencyKeyStatus.IN_PROGRESS,
+          ":lockedUntil": record.locked_until,
+        },
+      })
+    );
+  } catch (error) {
+    if (isConditionalCheckFailure(error)) {
+      return; // Taken over by a retry after our lock lapsed
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,316 @@
+import { getProduct } from "../catalog/catalog";
+import { sumDeposits } from "../catalog/pricing";
+import { getOrderById } from "../dynamodb/operations";
+import { orderKey, updateOrder } from "../dynamodb/order-repository";
+import { getReservationsByOrder, reservationChangeItems } from "../inventory/reservations";
+import { toStoreSku } from "../inventory/stock";
+import { PaymentTimeoutError, getPaymentProvider, paymentIdempotencyKey } from "../payments/provider";
+import { orderLineTax } from "../tax/calculator";
+import { ReservationStatus } from "../types/inventory";
+import {
+  CancelLineRequest,
+  LINE_CANCELLABLE_ORDER_STATUSES,
+  LineCancellation,
+  LinePaymentAction,
+  LinePaymentAdjustment,
+} from "../types/line-cancellation";
+import { Money } from "../types/money";
+import { OrderById, OrderItem, OrderLineStatus, PaymentState } from "../types/order";
+import { PaymentOperation, PaymentOutcome, PaymentResult, RefundStatus } from "../types/payment";
+import { TaxBreakdown } from "../types/tax";
+import { generateLineCancellationId } from "../utils/idempotency";
+import { addMoney, subtractMoney, sumMoney } from "../utils/money";
+import { ValidationError } from "../utils/validation";
+
+// An order's amounts once a line is cancelled, and what the line took off
+export interface LineCancellationTotals {
+  subtotal: Money;
+  tax: Money;
+  total: Money;
+  tax_breakdown?: TaxBreakdown;
+  cancelled: { subtotal: Money; tax: Money; amount: Money };
+}
+
+export type CancelLineResult =
+  | { status: "CANCELLED"; order: OrderById; line: OrderItem; created: boolean }
+  | { status: "NOT_FOUND" } // The SKU is not on the order
+  | { status: "INVALID"; errors: ValidationError[] }
+  | { status: "REJECTED"; reason: string } // The order's lines can no longer be cancelled
+  | { status: "CONFLICT" }; // Order or reservation changed since it was read
+
+/**
+ * Whether a line still counts towards the order (lines written before
+ * line cancellation existed have no status)
+ */
+export function isActiveLine(item: Pick<OrderItem, "status">): boolean {
+  return item.status !== OrderLineStatus.CANCELLED;
+}
+
+/**
+ * Recompute an order's amounts without one of its active lines
+ *
+ * Sales tax and excise are computed line by line, so dropping the line's
+ * entry from the tax breakdown re-taxes the rest exactly as they were
+ * taxed at checkout. Legacy orders without a breakdown lose the line's
+ * prorated share of the tax. The line's bottle deposit leaves the total
+ * with it. Returns undefined if the SKU is not an active line.
+ */
+export function calculateLineCancellation(order: OrderById, sku: string): LineCancellationTotals | undefined {
+  const currency = order.total.currency;
+  const item = order.items.find((i) => i.sku === sku && isActiveLine(i));
+  if (!item) {
+    return undefined;
+  }
+
+  const remaining = order.items.filter((i) => i !== item && isActiveLine(i));
+  const subtotal = sumMoney(remaining.map((i) => i.total_price), currency);
+
+  let tax: Money;
+  let taxBreakdown: TaxBreakdown | undefined;
+  if (order.tax_breakdown) {
+    const lines = order.tax_breakdown.lines.filter((line) => line.sku !== sku);
+    tax = sumMoney(lines.map((line) => line.total_tax), currency);
+    taxBreakdown = { ...order.tax_breakdown, lines, total_tax: tax };
+  } else {
+    tax = subtractMoney(order.tax, orderLineTax(order, item));
+  }
+
+  const total = addMoney(addMoney(subtotal, tax), sumDeposits(remaining, currency));
+  return {
+    subtotal,
+    tax,
+    total,
+    ...(taxBreakdown && { tax_breakdown: taxBreakdown }),
+    cancelled: {
+      subtotal: subtractMoney(order.subtotal, subtotal),
+      tax: subtractMoney(order.tax, tax),
+      amount: subtractMoney(order.total, total),
+    },
+  };
+}
+
+/**
+ * How the cancelled line's money goes back: lower the held authorization
+ * to the new total
+ * Payment is captured on shipping, after lines stop being cancellable, so
+ * a captured order is refunded through its refunds instead. Returns why
+ * the line can't be cancelled for any other payment state.
+ */
+function planLinePayment(order: OrderById, totals: LineCancellationTotals): LinePaymentAdjustment | string {
+  if (order.payment_state === PaymentState.AUTHORIZED && order.payment_authorization_id) {
+    return { action: LinePaymentAction.REDUCE_AUTHORIZATION, amount: totals.total, status: RefundStatus.PENDING };
+  }
+
+  return `Payment must be AUTHORIZED, not ${order.payment_state}`;
+}
+
+/**
+ * Send a cancelled line's payment follow-up to the provider and record
+ * the answer on the line
+ * Safe to call again: the provider replays by idempotency key and an
+ * already settled follow-up is left alone. A timeout leaves it PENDING
+ * for the next call to resume.
+ */
+async function submitLinePayment(order: OrderById, sku: string): Promise<OrderById> {
+  const index = order.items.findIndex((item) => item.sku === sku);
+  const cancellation = order.items[index]?.cancellation;
+  if (!cancellation || cancellation.payment.status !== RefundStatus.PENDING) {
+    return order;
+  }
+
+  const { payment } = cancellation;
+  let result: PaymentResult;
+  try {
+    result = await getPaymentProvider().adjustAuthorization({
+      idempotency_key: paymentIdempotencyKey(order.order_id, PaymentOperation.ADJUST, cancellation.cancellation_id),
+      order_id: order.order_id,
+      authorization_id: order.payment_authorization_id!,
+      amount: payment.amount,
+    });
+  } catch (error) {
+    if (error instanceof PaymentTimeoutError) {
+      console.warn("Payment follow-up of line cancellation left pending:", cancellation.cancellation_id);
+      return order;
+    }
+    throw error;
+  }
+
+  const now = new Date().toISOString();
+  const approved = result.outcome === PaymentOutcome.APPROVED;
+  const settled: LinePaymentAdjustment = {
+    ...payment,
+    status: approved ? RefundStatus.COMPLETED : RefundStatus.FAILED,
+    ...(approved
+      ? { transaction_id: result.transaction_id }
+      : { decline_code: result.decline_code ?? "declined" }),
+    completed_at: now,
+  };
+  if (!approved) {
+    console.warn("Payment follow-up of line cancellation declined:", cancellation.cancellation_id, settled.decline_code);
+  }
+
+  const path = `#items[${index}].cancellation.payment`;
+  const recorded = await updateOrder(orderKey(order), {
+    UpdateExpression: `SET ${path} = :payment, updated_at = :now`,
+    ConditionExpression: `#items[${index}].sku = :sku AND ${path}.#status = :pending`,
+    ExpressionAttributeNames: { "#items": "items", "#status": "status" },
+    ExpressionAttributeValues: {
+      ":payment": settled,
+      ":now": now,
+      ":sku": sku,
+      ":pending": RefundStatus.PENDING,
+    },
+  });
+
+  // A concurrent call settled it first
+  if (!recorded) {
+    return (await getOrderById(order.order_id)) ?? order;
+  }
+
+  return {
+    ...order,
+    items: order.items.map((item, i) =>
+      i === index ? { ...item, cancellation: { ...cancellation, payment: settled } } : item
+    ),
+    updated_at: now,
+  };
+}
+
+/**
+ * Cancel one line of a confirmed order that has not shipped
+ *
+ * The line stays on the order, marked CANCELLED with the reason, and no
+ * longer counts towards the subtotal, tax or total. Its reservation line
+ * is released in the same transaction as the order write, which is
+ * conditioned on the order being unchanged since it was read. The money
+ * follows once the write lands: the held authorization is lowered to the
+ * new total. The follow-up is recorded PENDING first, so cancelling the same line again resumes it
+ * rather than repeating it.
+ */
+export async function cancelOrderLine(
+  order: OrderById,
+  sku: string,
+  request: CancelLineRequest,
+  actor: string
+): Promise<CancelLineResult> {
+  const item = order.items.find((i) => i.sku === sku);
+  if (!item) {
+    return { status: "NOT_FOUND" };
+  }
+
+  if (!isActiveLine(item)) {
+    const resumed = await submitLinePayment(order, sku);
+    return { status: "CANCELLED", order: resumed, line: resumed.items.find((i) => i.sku === sku)!, created: false };
+  }
+
+  if (!LINE_CANCELLABLE_ORDER_STATUSES.includes(order.status)) {
+    return { status: "REJECTED", reason: `Lines cannot be cancelled once the order is ${order.status}` };
+  }
+
+  if (order.items.filter(isActiveLine).length === 1) {
+    return {
+      status: "INVALID",
+      errors: [
+        {
+          field: "sku",
+          message: "Cancelling the last line would empty the order; cancel the order instead",
+          code: "last_line",
+        },
+      ],
+    };
+  }
+
+  const totals = calculateLineCancellation(order, sku);
+  if (!totals) {
+    return { status: "NOT_FOUND" };
+  }
+  const payment = planLinePayment(order, totals);
+  if (typeof payment === "string") {
+    return { status: "REJECTED", reason: payment };
+  }
+
+  const storeSku = toStoreSku(order.store_id, sku);
+  const held = (await getReservationsByOrder(order.order_id)).find(
+    (line) => line.store_sku === storeSku && line.status === ReservationStatus.CONFIRMED
+  );
+  // Amended or swept since the order was read
+  if (!held || held.quantity !== item.quantity) {
+    return { status: "CONFLICT" };
+  }
+
+  const now = new Date().toISOString();
+  const cancellation: LineCancellation = {
+    cancellation_id: generateLineCancellationId(),
+    reason_code: request.reason_code,
+    ...(request.note && { note: request.note }),
+    actor,
+    subtotal: totals.cancelled.subtotal,
+    tax: totals.cancelled.tax,
+    amount: totals.cancelled.amount,
+    payment,
+    cancelled_at: now,
+  };
+  const items = order.items.map((i) =>
+    i === item ? { ...i, status: OrderLineStatus.CANCELLED, cancellation } : i
+  );
+
+  // Volume only drops for SKUs still in the catalog; over-counting errs on the safe side
+  let volume = order.total_volume_ml;
+  if (volume !== undefined) {
+    const product = await getProduct(sku);
+    if (product) {
+      volume = Math.max(0, volume - product.volume_ml * item.quantity);
+    }
+  }
+
+  const written = await updateOrder(
+    orderKey(order),
+    {
+      UpdateExpression:
+        "SET #items = :items, subtotal = :subtotal, tax = :tax, #total = :total, updated_at = :now" +
+        (totals.tax_breakdown ? ", tax_breakdown = :taxBreakdown" : "") +
+        (volume !== undefined ? ", total_volume_ml = :volume" : ""),
+      ConditionExpression: "#status = :status AND updated_at = :expected",
+      ExpressionAttributeNames: { "#items": "items", "#total": "total", "#status": "status" },
+      ExpressionAttributeValues: {
+        ":items": items,
+        ":subtotal": totals.subtotal,
+        ":tax": totals.tax,
+        ":total": totals.total,
+        ...(totals.tax_breakdown && { ":taxBreakdown": totals.tax_breakdown }),
+        ...(volume !== undefined && { ":volume": volume }),
+        ":now": now,
+        ":status": order.status,
+        ":expected": order.updated_at,
+      },
+    },
+    reservationChangeItems(
+      {
+        reservation_id: held.reservation_id,
+        order_id: order.order_id,
+        store_sku: storeSku,
+        from_quantity: item.quantity,
+        to_quantity: 0,
+      },
+      now
+    )
+  );
+
+  if (!written) {
+    return { status: "CONFLICT" };
+  }
+
+  const cancelled: OrderById = {
+    ...order,
+    items,
+    subtotal: totals.subtotal,
+    tax: totals.tax,
+    total: totals.total,
+    ...(totals.tax_breakdown && { tax_breakdown: totals.tax_breakdown }),
+    ...(volume !== undefined && { total_volume_ml: volume }),
+    updated_at: now,
+  };
+  const settled = await submitLinePayment(cancelled, sku);
+
+  return { status: "CANCELLED", order: settled, line: settled.items.find((i) => i.sku === sku)!, created: true };
+}
@@ -0,0 +1,48 @@
+import { listOrdersByStatus } from "../dynamodb/operations";
+import { PickList, PickListLine } from "../types/fulfillment";
+import { Order, OrderStatus } from "../types/order";
+import { isActiveLine } from "./line-cancellation";
+
+/**
+ * Roll up the items of a set of orders into pick list lines, one per SKU
+ * Lines are sorted by SKU; each keeps the orders it is picked for in the
+ * order given. Cancelled lines are not picked.
+ */
+export function rollUpPickList(orders: Order[]): PickListLine[] {
+  const lines = new Map<string, PickListLine>();
+
+  for (const order of orders) {
+    for (const item of order.items.filter(isActiveLine)) {
+      const line = lines.get(item.sku) ?? { sku: item.sku, name: item.name, quantity: 0, orders: [] };
+      line.quantity += item.quantity;
+      line.orders.push({ order_id: order.order_id, quantity: item.quantity });
+      lines.set(item.sku, line);
+    }
+  }
+
+  return [...lines.values()].sort((a, b) => a.sku.localeCompare(b.sku));
+}
+
+/**
+ * Build a store's pick list from all of its CONFIRMED orders
+ * Pages through the status index to the end, so every confirmed order is
+ * on the list, oldest first.
+ */
+export async function getPickList(storeId: string): Promise<PickList> {
+  const orders: Order[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const page = await listOrdersByStatus(OrderStatus.CONFIRMED, storeId, 100, nextToken);
+    orders.push(...page.orders);
+    nextToken = page.nextToken;
+  } while (nextToken);
+
+  return {
+    store_id: storeId,
+    order_count: orders.length,
+    order_ids: orders.map((order) => order.order_id),
+    lines: rollUpPickList(orders),
+    generated_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,109 @@
+import { createOrder, getOrderByCustomer } from "../dynamodb/operations";
+import { sendOrderMessage } from "../sqs/client";
+import { IdempotencyRecord } from "../types/idempotency";
+import { CreateOrderRequest, Order, OrderStatus, PaymentState } from "../types/order";
+import { OrderQuoteResult, quoteOrder } from "./quote";
+
+export type PlaceOrderResult =
+  | { status: "PLACED"; order: Order; created: boolean } // created is false when an earlier attempt wrote it
+  | { status: "QUOTE_FAILED"; result: Exclude<OrderQuoteResult, { status: "QUOTED" }> };
+
+/**
+ * Queue an order written by an earlier attempt, which may have crashed
+ * before queueing it (processing skips orders already past PENDING)
+ */
+async function enqueueIfPending(order: Order): Promise<void> {
+  if (order.status !== OrderStatus.PENDING) {
+    return;
+  }
+  await sendOrderMessage({
+    order_id: order.order_id,
+    customer_id: order.customer_id,
+    order_ts_id: order.order_ts_id,
+    action: "PROCESS_ORDER",
+    timestamp: order.order_ts,
+  });
+}
+
+/**
+ * Find the order a lapsed attempt at a claimed key already wrote, and make
+ * sure it was queued
+ * Call before re-checking anything: the written order would now count
+ * against its own daily volume limit and hold its own stock.
+ */
+export async function findPlacedOrder(record: IdempotencyRecord): Promise<Order | null> {
+  const existing = await getOrderByCustomer(record.customer_id, `${record.order_ts}#${record.order_id}`);
+  if (existing) {
+    await enqueueIfPending(existing);
+  }
+  return existing;
+}
+
+/**
+ * Price, check and write a new order for a claimed idempotency key, then
+ * queue it for processing
+ * The order takes the order_id and order_ts the key was claimed with.
+ */
+export async function placeOrder(
+  request: CreateOrderRequest,
+  record: IdempotencyRecord,
+  reorderedFrom?: string
+): Promise<PlaceOrderResult> {
+  const { order_id: orderId, order_ts: orderTs } = record;
+  const orderTsId = `${orderTs}#${orderId}`;
+
+  const quoted = await quoteOrder({
+    customer_id: request.customer_id,
+    store_id: request.store_id,
+    county_id: request.county_id,
+    items: request.items,
+    shipping_address: request.shipping_address,
+    as_of: orderTs,
+  });
+  if (quoted.status !== "QUOTED") {
+    return { status: "QUOTE_FAILED", result: quoted };
+  }
+
+  const quote = quoted.quote;
+
+  // Create order object
+  const order: Order = {
+    customer_id: request.customer_id,
+    order_ts_id: orderTsId,
+    order_id: orderId,
+    order_ts: orderTs,
+    store_id: request.store_id,
+    county_id: request.county_id,
+    status: OrderStatus.PENDING,
+    payment_state: PaymentState.PENDING,
+    ...(reorderedFrom && { reordered_from: reorderedFrom }),
+    items: quote.items,
+    subtotal: quote.subtotal,
+    tax: quote.tax,
+    total: quote.total,
+    tax_breakdown: quote.tax_breakdown,
+    total_volume_ml: quote.total_volume_ml,
+    shipping_address: request.shipping_address,
+    payment_method: request.payment_method,
+    idempotency_key: record.idempotency_key,
+    created_at: orderTs,
+    updated_at: orderTs,
+  };
+
+  // Create order with idempotency check
+  const result = await createOrder(order, `customer:${order.customer_id}`);
+
+  if (result.created) {
+    await sendOrderMessage({
+      order_id: orderId,
+      customer_id: request.customer_id,
+      order_ts_id: orderTsId,
+      action: "PROCESS_ORDER",
+      timestamp: orderTs,
+    });
+  } else {
+    await enqueueIfPending(result.order);
+  }
+
+  return { status: "PLACED", order: result.order, created: result.created };
+}
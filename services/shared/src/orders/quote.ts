@@ -0,0 +1,141 @@
+import { getProductsBySku } from "../catalog/catalog";
+import { priceOrderItems, sumDeposits } from "../catalog/pricing";
+import { calculateOrderVolume, evaluateCompliance } from "../compliance/evaluator";
+import { getLocalDayBounds } from "../compliance/local-time";
+import { getCountyComplianceRules, getCustomerOrderedVolume } from "../compliance/rules";
+import { buildTaxableLines, getTaxCalculator } from "../tax/calculator";
+import { ComplianceViolation } from "../types/compliance";
+import { Money } from "../types/money";
+import { CreateOrderItem, OrderById, OrderItem, ShippingAddress } from "../types/order";
+import { PricingError } from "../types/product";
+import { TaxBreakdown } from "../types/tax";
+import { addMoney, sumMoney } from "../utils/money";
+
+// What to price and check
+export interface OrderQuoteRequest {
+  customer_id: string;
+  store_id: string;
+  county_id: string;
+  items: CreateOrderItem[];
+  shipping_address: ShippingAddress;
+  as_of: string; // ISO timestamp: sale hours, daily volume window and tax rates
+  // Order being amended; its stored volume is replaced rather than added to
+  replaces?: Pick<OrderById, "order_ts" | "total_volume_ml">;
+}
+
+// A priced, compliant and taxed set of lines
+export interface OrderQuote {
+  items: OrderItem[];
+  subtotal: Money;
+  tax: Money;
+  total: Money;
+  tax_breakdown: TaxBreakdown;
+  total_volume_ml: number;
+}
+
+export type OrderQuoteResult =
+  | { status: "QUOTED"; quote: OrderQuote }
+  | { status: "PRICING_FAILED"; errors: PricingError[] }
+  | { status: "NON_COMPLIANT"; violations: ComplianceViolation[] }
+  | { status: "TAX_FAILED"; error: string };
+
+/**
+ * Price, check and tax a set of order lines
+ *
+ * Every line is re-priced from the catalog (client prices are never
+ * trusted), then checked against the county's wet/dry, product and
+ * daily volume rules, then taxed from the rate tables in effect at
+ * as_of. Bottle deposits go on the total untaxed. Stops at the first
+ * stage that refuses the order.
+ */
+export async function quoteOrder(request: OrderQuoteRequest): Promise<OrderQuoteResult> {
+  const catalog = await getProductsBySku(request.items.map((item) => item.sku));
+  const pricing = priceOrderItems(request.items, request.store_id, catalog);
+  if (!pricing.success) {
+    return { status: "PRICING_FAILED", errors: pricing.errors! };
+  }
+
+  const items = pricing.items!;
+  const lines = buildTaxableLines(items, catalog);
+
+  const rules = await getCountyComplianceRules(request.county_id);
+  let priorVolumeToday = 0;
+  if (rules?.max_volume_ml_per_day !== undefined) {
+    const day = getLocalDayBounds(request.as_of, rules.time_zone);
+    priorVolumeToday = await getCustomerOrderedVolume(request.customer_id, day.start, day.end);
+
+    const replaced = request.replaces;
+    if (replaced && replaced.order_ts >= day.start && replaced.order_ts < day.end) {
+      priorVolumeToday = Math.max(0, priorVolumeToday - (replaced.total_volume_ml ?? 0));
+    }
+  }
+
+  const compliance = evaluateCompliance(rules, {
+    county_id: request.county_id,
+    shipping_state: request.shipping_address.state,
+    order_ts: request.as_of,
+    lines,
+    prior_volume_ml_today: priorVolumeToday,
+  });
+  if (!compliance.success) {
+    return { status: "NON_COMPLIANT", violations: compliance.violations! };
+  }
+
+  const taxResult = await getTaxCalculator().calculate({
+    state: request.shipping_address.state,
+    county_id: request.county_id,
+    as_of: request.as_of,
+    lines,
+  });
+  if (!taxResult.success) {
+    return { status: "TAX_FAILED", error: taxResult.error! };
+  }
+
+  const taxBreakdown = taxResult.breakdown!;
+  const subtotal = sumMoney(items.map((item) => item.total_price));
+  const tax = taxBreakdown.total_tax;
+  const deposits = sumDeposits(items, subtotal.currency);
+
+  return {
+    status: "QUOTED",
+    quote: {
+      items,
+      subtotal,
+      tax,
+      total: addMoney(addMoney(subtotal, tax), deposits),
+      tax_breakdown: taxBreakdown,
+      total_volume_ml: calculateOrderVolume(lines),
+    },
+  };
+}
+
+/**
+ * Response body for a refused quote (sent with 422)
+ */
+export function formatQuoteRefusal(
+  result: Exclude<OrderQuoteResult, { status: "QUOTED" }>,
+  order: Pick<OrderQuoteRequest, "county_id" | "shipping_address">
+): Record<string, unknown> {
+  switch (result.status) {
+    case "PRICING_FAILED":
+      return {
+        error: "Order pricing failed",
+        message: "One or more items could not be priced from the catalog",
+        details: result.errors,
+      };
+    case "NON_COMPLIANT":
+      return {
+        error: "Order violates compliance rules",
+        message: `Order breaks ${result.violations.map((v) => v.rule).join(", ")}`,
+        county_id: order.county_id,
+        violations: result.violations,
+      };
+    case "TAX_FAILED":
+      return {
+        error: "Unsupported tax jurisdiction",
+        message: result.error,
+        state: order.shipping_address.state,
+        county_id: order.county_id,
+      };
+  }
+}
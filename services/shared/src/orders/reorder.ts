@@ -0,0 +1,109 @@
+import { getProductsBySku } from "../catalog/catalog";
+import { resolveUnitPrice } from "../catalog/pricing";
+import { freeStock } from "../inventory/reorder";
+import { getInventoryItem } from "../inventory/stock";
+import { OrderById, OrderItem } from "../types/order";
+import { Product } from "../types/product";
+import { ReorderLine, ReorderLineStatus, ReorderPreview } from "../types/reorder";
+import { moneyEquals } from "../utils/money";
+import { isActiveLine } from "./line-cancellation";
+import { OrderQuoteResult, quoteOrder } from "./quote";
+
+export type PrepareReorderResult =
+  | { status: "PREVIEW"; preview: ReorderPreview }
+  | { status: "NOTHING_AVAILABLE"; lines: ReorderLine[] } // No line of the past order can be supplied
+  | { status: "QUOTE_FAILED"; result: Exclude<OrderQuoteResult, { status: "QUOTED" }> };
+
+/**
+ * Carry one of a past order's lines over to the store's current catalog
+ * and stock
+ */
+async function carryOverLine(
+  order: OrderById,
+  line: OrderItem,
+  product: Product | undefined
+): Promise<ReorderLine> {
+  const previous = {
+    sku: line.sku,
+    name: line.name,
+    previous_quantity: line.quantity,
+    previous_unit_price: line.unit_price,
+  };
+
+  if (!product || !product.active) {
+    return { ...previous, status: ReorderLineStatus.UNAVAILABLE, quantity: 0 };
+  }
+
+  const unitPrice = resolveUnitPrice(product, order.store_id);
+  const stock = await getInventoryItem(order.store_id, line.sku);
+  const available = stock ? Math.max(0, freeStock(stock)) : 0;
+
+  const current = { ...previous, name: product.name, unit_price: unitPrice };
+
+  if (available === 0) {
+    return { ...current, status: ReorderLineStatus.OUT_OF_STOCK, quantity: 0, available };
+  }
+  if (available < line.quantity) {
+    return { ...current, status: ReorderLineStatus.REDUCED, quantity: available, available };
+  }
+
+  return {
+    ...current,
+    status: moneyEquals(unitPrice, line.unit_price) ? ReorderLineStatus.UNCHANGED : ReorderLineStatus.PRICE_CHANGED,
+    quantity: line.quantity,
+  };
+}
+
+/**
+ * Build the order that repeating a past order would place today
+ *
+ * The past order's active lines are carried over to the same store and
+ * shipping address at the current catalog price. Lines no longer sold are
+ * left out, as are lines the store has no free stock of; a line the store
+ * is short of takes what it has. The rest is then checked and taxed like
+ * a new order, as of now. Stock is only read, not held: it is reserved
+ * once the order is placed and processed.
+ */
+export async function prepareReorder(
+  order: OrderById,
+  asOf: string
+): Promise<PrepareReorderResult> {
+  const active = order.items.filter(isActiveLine);
+  const catalog = await getProductsBySku(active.map((item) => item.sku));
+
+  const lines: ReorderLine[] = [];
+  for (const item of active) {
+    lines.push(await carryOverLine(order, item, catalog.get(item.sku)));
+  }
+
+  const items = lines
+    .filter((line) => line.quantity > 0)
+    .map((line) => ({ sku: line.sku, quantity: line.quantity }));
+  if (items.length === 0) {
+    return { status: "NOTHING_AVAILABLE", lines };
+  }
+
+  const quoted = await quoteOrder({
+    customer_id: order.customer_id,
+    store_id: order.store_id,
+    county_id: order.county_id,
+    items,
+    shipping_address: order.shipping_address,
+    as_of: asOf,
+  });
+  if (quoted.status !== "QUOTED") {
+    return { status: "QUOTE_FAILED", result: quoted };
+  }
+
+  return {
+    status: "PREVIEW",
+    preview: {
+      reordered_from: order.order_id,
+      store_id: order.store_id,
+      county_id: order.county_id,
+      lines,
+      ...quoted.quote,
+      shipping_address: order.shipping_address,
+    },
+  };
+}
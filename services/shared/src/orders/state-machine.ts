@@ -0,0 +1,216 @@
+import { orderKey, updateOrder } from "../dynamodb/order-repository";
+import { sendOrderMessage } from "../sqs/client";
+import { OrderFulfillment } from "../types/fulfillment";
+import { OrderById, OrderStatus, OrderStatusChange, PaymentState } from "../types/order";
+import { buildStatusChange, statusChangePut } from "./status-history";
+
+/**
+ * Order state machine
+ *
+ * Every status change goes through transitionOrder, which checks it
+ * against the declared transitions and their guards, then writes the new
+ * status (and any payment state the transition records) and appends the
+ * change to the order's status history in one transaction.
+ */
+
+// A requested status change
+export interface StatusChangeRequest {
+  actor: string; // kind:id of whoever made the change
+  reason?: string; // Stored as status_reason and in the history
+  fulfillment?: OrderFulfillment; // Fulfillment record written with the new status
+}
+
+// Declared transition between statuses
+export interface OrderTransition {
+  from: readonly OrderStatus[];
+  to: OrderStatus;
+  // Why the change is refused, if it is
+  guard?: (order: OrderById, change: StatusChangeRequest) => string | undefined;
+  // Payment state recorded alongside the new status
+  paymentState?: (order: OrderById) => PaymentState;
+  // Run once the change is written
+  onEnter?: (order: OrderById) => Promise<void>;
+}
+
+// Outcome of a requested status change
+export type OrderTransitionResult =
+  | { status: "TRANSITIONED"; order: OrderById; change: OrderStatusChange }
+  | { status: "REJECTED"; reason: string } // Not an allowed transition, or a guard refused it
+  | { status: "CONFLICT" }; // Order changed since it was read
+
+// Payment state recorded on cancellation, for payments that must be reversed
+const PAYMENT_REVERSALS: Partial<Record<PaymentState, PaymentState>> = {
+  [PaymentState.AUTHORIZED]: PaymentState.VOID_PENDING,
+  [PaymentState.CAPTURED]: PaymentState.REFUND_PENDING,
+  [PaymentState.PARTIALLY_REFUNDED]: PaymentState.REFUND_PENDING,
+};
+
+function requireReason(_order: OrderById, change: StatusChangeRequest): string | undefined {
+  return change.reason ? undefined : "A reason is required";
+}
+
+function requirePaymentState(...states: PaymentState[]): NonNullable<OrderTransition["guard"]> {
+  return (order) =>
+    states.includes(order.payment_state)
+      ? undefined
+      : `Payment must be ${states.join(" or ")}, not ${order.payment_state}`;
+}
+
+function requireFulfillment(...fields: Array<keyof OrderFulfillment>): NonNullable<OrderTransition["guard"]> {
+  return (_order, change) => {
+    const missing = fields.filter((field) => change.fulfillment?.[field] === undefined);
+    return missing.length > 0 ? `Fulfillment must record ${missing.join(", ")}` : undefined;
+  };
+}
+
+function allOf(...guards: Array<NonNullable<OrderTransition["guard"]>>): OrderTransition["guard"] {
+  return (order, change) => guards.map((guard) => guard(order, change)).find((refusal) => refusal);
+}
+
+/**
+ * Queue the cancellation follow-ups (inventory release, payment reversal)
+ * for the order processor. Safe to repeat: the cancellation saga resumes.
+ */
+export async function queueCancellationFollowUps(order: OrderById): Promise<void> {
+  await sendOrderMessage({
+    order_id: order.order_id,
+    customer_id: order.customer_id,
+    order_ts_id: `${order.order_ts}#${order.order_id}`,
+    action: "CANCEL_ORDER",
+    timestamp: new Date().toISOString(),
+  });
+}
+
+export const ORDER_TRANSITIONS: readonly OrderTransition[] = [
+  // Order saga outcomes
+  { from: [OrderStatus.PENDING], to: OrderStatus.CONFIRMED },
+  { from: [OrderStatus.PENDING], to: OrderStatus.FAILED, guard: requireReason },
+  { from: [OrderStatus.PENDING], to: OrderStatus.VERIFICATION_FAILED, guard: requireReason },
+  { from: [OrderStatus.PENDING], to: OrderStatus.ON_HOLD, guard: requireReason },
+
+  // Store fulfillment; the authorization is captured on shipment, and
+  // alcohol is only handed over after an ID check
+  {
+    from: [OrderStatus.CONFIRMED],
+    to: OrderStatus.PROCESSING,
+    guard: allOf(requirePaymentState(PaymentState.AUTHORIZED), requireFulfillment("picked_at")),
+  },
+  {
+    from: [OrderStatus.PROCESSING],
+    to: OrderStatus.PACKED,
+    guard: requireFulfillment("packed_at"),
+  },
+  {
+    from: [OrderStatus.PACKED],
+    to: OrderStatus.SHIPPED,
+    guard: allOf(
+      requirePaymentState(PaymentState.AUTHORIZED),
+      requireFulfillment("shipped_at", "carrier", "tracking_number")
+    ),
+  },
+  {
+    from: [OrderStatus.SHIPPED],
+    to: OrderStatus.DELIVERED,
+    guard: requireFulfillment("delivered_at", "proof_of_delivery", "id_check"),
+  },
+
+  // Cancellation; inventory and payment are released by queued follow-ups
+  {
+    from: [OrderStatus.PENDING, OrderStatus.CONFIRMED, OrderStatus.ON_HOLD],
+    to: OrderStatus.CANCELLED,
+    paymentState: (order) => PAYMENT_REVERSALS[order.payment_state] ?? order.payment_state,
+    onEnter: queueCancellationFollowUps,
+  },
+];
+
+/**
+ * Find the declared transition between two statuses
+ */
+export function findTransition(from: OrderStatus, to: OrderStatus): OrderTransition | undefined {
+  return ORDER_TRANSITIONS.find((t) => t.to === to && t.from.includes(from));
+}
+
+/**
+ * Statuses an order can move to from the given one
+ */
+export function nextStatuses(from: OrderStatus): OrderStatus[] {
+  return ORDER_TRANSITIONS.filter((t) => t.from.includes(from)).map((t) => t.to);
+}
+
+/**
+ * Move an order to a new status
+ *
+ * The write is conditioned on the status last read. Guards and payment
+ * effects see the order as read too, so for transitions that declare
+ * them it is also conditioned on the payment state. status_reason is set
+ * to the change's reason, or cleared without one.
+ *
+ * onEnter runs after the write; if it throws, the change stands and the
+ * error propagates for the caller to retry the side effect.
+ */
+export async function transitionOrder(
+  order: OrderById,
+  to: OrderStatus,
+  change: StatusChangeRequest
+): Promise<OrderTransitionResult> {
+  const transition = findTransition(order.status, to);
+  if (!transition) {
+    return { status: "REJECTED", reason: `Order cannot move from ${order.status} to ${to}` };
+  }
+
+  const refusal = transition.guard?.(order, change);
+  if (refusal) {
+    return { status: "REJECTED", reason: refusal };
+  }
+
+  const now = new Date().toISOString();
+  const paymentState = transition.paymentState?.(order);
+  const checkPaymentState = transition.guard !== undefined || transition.paymentState !== undefined;
+  const entry = buildStatusChange(order.order_id, order.status, to, change.actor, now, change.reason);
+
+  const set = [
+    "#status = :newStatus",
+    "updated_at = :now",
+    ...(paymentState ? ["payment_state = :paymentState"] : []),
+    ...(change.reason ? ["status_reason = :reason"] : []),
+    ...(change.fulfillment ? ["fulfillment = :fulfillment"] : []),
+  ];
+
+  const updated = await updateOrder(
+    orderKey(order),
+    {
+      UpdateExpression: `SET ${set.join(", ")}${change.reason ? "" : " REMOVE status_reason"}`,
+      ConditionExpression: checkPaymentState
+        ? "#status = :currentStatus AND payment_state = :currentPaymentState"
+        : "#status = :currentStatus",
+      ExpressionAttributeNames: {
+        "#status": "status",
+      },
+      ExpressionAttributeValues: {
+        ":newStatus": to,
+        ":now": now,
+        ":currentStatus": order.status,
+        ...(paymentState && { ":paymentState": paymentState }),
+        ...(change.reason && { ":reason": change.reason }),
+        ...(change.fulfillment && { ":fulfillment": change.fulfillment }),
+        ...(checkPaymentState && { ":currentPaymentState": order.payment_state }),
+      },
+    },
+    [statusChangePut(entry)]
+  );
+  if (!updated) {
+    return { status: "CONFLICT" };
+  }
+
+  const transitioned: OrderById = {
+    ...order,
+    status: to,
+    status_reason: change.reason,
+    payment_state: paymentState ?? order.payment_state,
+    fulfillment: change.fulfillment ?? order.fulfillment,
+    updated_at: now,
+  };
+
+  await transition.onEnter?.(transitioned);
+  return { status: "TRANSITIONED", order: transitioned, change: entry };
+}
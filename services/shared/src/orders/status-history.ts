@@ -0,0 +1,68 @@
+import { QueryCommand, QueryCommandOutput } from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import { OrderTransactItem } from "../dynamodb/order-repository";
+import { OrderStatus, OrderStatusChange } from "../types/order";
+import { generateStatusChangeId } from "../utils/idempotency";
+
+/**
+ * Build a status history entry for an order
+ */
+export function buildStatusChange(
+  orderId: string,
+  fromStatus: OrderStatus | null,
+  toStatus: OrderStatus,
+  actor: string,
+  changedAt: string,
+  reason?: string
+): OrderStatusChange {
+  const changeId = generateStatusChangeId();
+  return {
+    order_id: orderId,
+    changed_ts_id: `${changedAt}#${changeId}`,
+    change_id: changeId,
+    from_status: fromStatus,
+    to_status: toStatus,
+    actor,
+    ...(reason && { reason }),
+    changed_at: changedAt,
+  };
+}
+
+/**
+ * Transaction item appending an entry to the status history
+ */
+export function statusChangePut(change: OrderStatusChange): OrderTransactItem {
+  return {
+    Put: {
+      TableName: TableNames.ORDER_STATUS_HISTORY,
+      Item: change,
+    },
+  };
+}
+
+/**
+ * List an order's status history, oldest first
+ */
+export async function listOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+  const client = getDocumentClient();
+  const changes: OrderStatusChange[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const result: QueryCommandOutput = await client.send(
+      new QueryCommand({
+        TableName: TableNames.ORDER_STATUS_HISTORY,
+        KeyConditionExpression: "order_id = :oid",
+        ExpressionAttributeValues: {
+          ":oid": orderId,
+        },
+        ExclusiveStartKey: exclusiveStartKey,
+      })
+    );
+
+    changes.push(...((result.Items ?? []) as OrderStatusChange[]));
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return changes;
+}
@@ -0,0 +1,277 @@
+import { createHash } from "crypto";
+import {
+  PaymentAdjustmentRequest,
+  PaymentAuthorizationRequest,
+  PaymentCaptureRequest,
+  PaymentOperation,
+  PaymentOutcome,
+  PaymentRefundRequest,
+  PaymentResult,
+  PaymentVoidRequest,
+} from "../types/payment";
+
+/**
+ * Thrown when the provider did not answer in time
+ *
+ * The call may still have succeeded on the provider's side, so callers
+ * retry with the same idempotency key rather than treating it as declined.
+ */
+export class PaymentTimeoutError extends Error {
+  constructor(idempotencyKey: string) {
+    super(`Payment provider timed out for ${idempotencyKey}`);
+    this.name = "PaymentTimeoutError";
+  }
+}
+
+/**
+ * Pluggable payment provider
+ *
+ * Every call carries an idempotency key; a provider must return the
+ * original result for a repeated key instead of moving money again.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(request: PaymentAuthorizationRequest): Promise<PaymentResult>;
+  capture(request: PaymentCaptureRequest): Promise<PaymentResult>;
+  void(request: PaymentVoidRequest): Promise<PaymentResult>;
+  refund(request: PaymentRefundRequest): Promise<PaymentResult>;
+  adjustAuthorization(request: PaymentAdjustmentRequest): Promise<PaymentResult>;
+}
+
+/**
+ * Idempotency key for a payment operation on an order
+ * Derived from the order ID so SQS or stream redelivery reuses it;
+ * operations that can happen more than once (refunds, adjustments) add a
+ * reference.
+ */
+export function paymentIdempotencyKey(
+  orderId: string,
+  operation: PaymentOperation,
+  reference?: string
+): string {
+  return reference ? `${orderId}:${operation}:${reference}` : `${orderId}:${operation}`;
+}
+
+// Test payment methods understood by the local provider
+export const LocalTestPaymentMethods = {
+  APPROVED: "pm_card_visa",
+  DECLINED: "pm_card_declined",
+  INSUFFICIENT_FUNDS: "pm_card_insufficient_funds",
+  TIMEOUT: "pm_card_timeout", // Times out once, then answers
+  CHALLENGE: "pm_card_3ds",
+} as const;
+
+export interface LocalPaymentProviderOptions {
+  declines?: Record<string, string>; // Payment method -> decline code
+  timeouts?: Record<string, number>; // Payment method -> calls that time out before answering
+  challenges?: string[]; // Payment methods that require a challenge
+}
+
+const DEFAULT_LOCAL_OPTIONS: Required<LocalPaymentProviderOptions> = {
+  declines: {
+    [LocalTestPaymentMethods.DECLINED]: "card_declined",
+    [LocalTestPaymentMethods.INSUFFICIENT_FUNDS]: "insufficient_funds",
+  },
+  timeouts: { [LocalTestPaymentMethods.TIMEOUT]: 1 },
+  challenges: [LocalTestPaymentMethods.CHALLENGE],
+};
+
+/**
+ * Deterministic local payment provider
+ *
+ * Stands in for a card processor in development and tests. Outcomes
+ * depend only on the payment method, and transaction IDs are derived
+ * from the idempotency key, so a repeated call returns the same ID even
+ * on another instance. A timeout is raised after the call was recorded,
+ * like a response lost on the way back; the retry replays the result.
+ */
+export class LocalPaymentProvider implements PaymentProvider {
+  readonly name = "local";
+
+  private readonly options: Required<LocalPaymentProviderOptions>;
+  private readonly results = new Map<string, PaymentResult>();
+  private readonly attempts = new Map<string, number>();
+  private readonly captured = new Set<string>();
+  private readonly voided = new Set<string>();
+
+  constructor(options: LocalPaymentProviderOptions = {}) {
+    this.options = { ...DEFAULT_LOCAL_OPTIONS, ...options };
+  }
+
+  async authorize(request: PaymentAuthorizationRequest): Promise<PaymentResult> {
+    return this.once(request.idempotency_key, request.payment_method, () => {
+      if (request.amount.amount <= 0) {
+        return this.declined("invalid_amount");
+      }
+
+      const declineCode = this.options.declines[request.payment_method];
+      if (declineCode) {
+        return this.declined(declineCode);
+      }
+
+      const transactionId = this.transactionId("auth", request.idempotency_key);
+      if (this.options.challenges.includes(request.payment_method)) {
+        return {
+          outcome: PaymentOutcome.CHALLENGE_REQUIRED,
+          challenge_url: `https://payments.local/challenge/${transactionId}`,
+          provider: this.name,
+        };
+      }
+      return { outcome: PaymentOutcome.APPROVED, transaction_id: transactionId, provider: this.name };
+    });
+  }
+
+  async capture(request: PaymentCaptureRequest): Promise<PaymentResult> {
+    return this.once(request.idempotency_key, undefined, () => {
+      if (!request.authorization_id.startsWith("auth_")) {
+        return this.declined("authorization_not_found");
+      }
+      if (this.voided.has(request.authorization_id)) {
+        return this.declined("authorization_voided");
+      }
+      if (this.captured.has(request.authorization_id)) {
+        return this.declined("already_captured");
+      }
+
+      this.captured.add(request.authorization_id);
+      return {
+        outcome: PaymentOutcome.APPROVED,
+        transaction_id: this.transactionId("cap", request.idempotency_key),
+        provider: this.name,
+      };
+    });
+  }
+
+  async void(request: PaymentVoidRequest): Promise<PaymentResult> {
+    return this.once(request.idempotency_key, undefined, () => {
+      if (!request.authorization_id.startsWith("auth_")) {
+        return this.declined("authorization_not_found");
+      }
+      if (this.captured.has(request.authorization_id)) {
+        return this.declined("already_captured");
+      }
+
+      this.voided.add(request.authorization_id);
+      return {
+        outcome: PaymentOutcome.APPROVED,
+        transaction_id: this.transactionId("void", request.idempotency_key),
+        provider: this.name,
+      };
+    });
+  }
+
+  async refund(request: PaymentRefundRequest): Promise<PaymentResult> {
+    return this.once(request.idempotency_key, undefined, () => {
+      if (!request.capture_id.startsWith("cap_")) {
+        return this.declined("capture_not_found");
+      }
+      if (request.amount.amount <= 0) {
+        return this.declined("invalid_amount");
+      }
+
+      return {
+        outcome: PaymentOutcome.APPROVED,
+        transaction_id: this.transactionId("ref", request.idempotency_key),
+        provider: this.name,
+      };
+    });
+  }
+
+  async adjustAuthorization(request: PaymentAdjustmentRequest): Promise<PaymentResult> {
+    return this.once(request.idempotency_key, undefined, () => {
+      if (!request.authorization_id.startsWith("auth_")) {
+        return this.declined("authorization_not_found");
+      }
+      if (this.voided.has(request.authorization_id)) {
+        return this.declined("authorization_voided");
+      }
+      if (this.captured.has(request.authorization_id)) {
+        return this.declined("already_captured");
+      }
+      if (request.amount.amount <= 0) {
+        return this.declined("invalid_amount");
+      }
+
+      // The authorization keeps its ID; only the amount held changes
+      return {
+        outcome: PaymentOutcome.APPROVED,
+        transaction_id: request.authorization_id,
+        provider: this.name,
+      };
+    });
+  }
+
+  /**
+   * Run an operation at most once per idempotency key, then replay its result
+   */
+  private once(
+    idempotencyKey: string,
+    paymentMethod: string | undefined,
+    operation: () => PaymentResult
+  ): PaymentResult {
+    let result = this.results.get(idempotencyKey);
+    if (!result) {
+      result = operation();
+      this.results.set(idempotencyKey, result);
+    }
+
+    const attempt = (this.attempts.get(idempotencyKey) ?? 0) + 1;
+    this.attempts.set(idempotencyKey, attempt);
+    if (paymentMethod && attempt <= (this.options.timeouts[paymentMethod] ?? 0)) {
+      throw new PaymentTimeoutError(idempotencyKey);
+    }
+    return result;
+  }
+
+  private declined(code: string): PaymentResult {
+    return { outcome: PaymentOutcome.DECLINED, decline_code: code, provider: this.name };
+  }
+
+  private transactionId(prefix: string, idempotencyKey: string): string {
+    return `${prefix}_${createHash("sha256").update(idempotencyKey).digest("hex").slice(0, 24)}`;
+  }
+}
+
+// Payment processors, by the name PAYMENT_PROVIDER selects
+const providerFactories = new Map<string, () => PaymentProvider>();
+
+// Active payment provider (swappable for a real processor or tests)
+let paymentProvider: PaymentProvider | null = null;
+
+/**
+ * Make a payment processor selectable by name through PAYMENT_PROVIDER
+ * Called by a processor integration when its module loads.
+ */
+export function registerPaymentProvider(name: string, factory: () => PaymentProvider): void {
+  providerFactories.set(name, factory);
+}
+
+/**
+ * Get the active payment provider
+ * Built from the processor PAYMENT_PROVIDER names (set by the stack). There
+ * is no fallback: with no processor configured this throws rather than
+ * taking orders that are never charged. Tests and local runs install
+ * LocalPaymentProvider with setPaymentProvider.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!paymentProvider) {
+    const name = process.env.PAYMENT_PROVIDER;
+    if (!name) {
+      throw new Error("No payment provider configured: set PAYMENT_PROVIDER");
+    }
+    const factory = providerFactories.get(name);
+    if (!factory) {
+      throw new Error(`Payment provider ${name} is not registered`);
+    }
+    paymentProvider = factory();
+  }
+  return paymentProvider;
+}
+
+/**
+ * Replace the active payment provider
+ * null goes back to the configured processor on the next call.
+ */
+export function setPaymentProvider(provider: PaymentProvider | null): void {
+  paymentProvider = provider;
+}
@@ -0,0 +1,276 @@
+import { getOrderById } from "../dynamodb/operations";
+import { orderKey, updateOrder } from "../dynamodb/order-repository";
+import { isActiveLine } from "../orders/line-cancellation";
+import { orderLineTax } from "../tax/calculator";
+import { Money } from "../types/money";
+import { OrderById, PaymentState } from "../types/order";
+import {
+  OrderRefund,
+  PaymentOperation,
+  PaymentOutcome,
+  PaymentResult,
+  RefundLine,
+  RefundRequest,
+  RefundStatus,
+} from "../types/payment";
+import { addMoney, applyRate, multiplyMoney, subtractMoney, sumMoney } from "../utils/money";
+import { ValidationError } from "../utils/validation";
+import { getPaymentProvider, paymentIdempotencyKey } from "./provider";
+
+// Payment states an order can be refunded from
+export const REFUNDABLE_PAYMENT_STATES: PaymentState[] = [
+  PaymentState.CAPTURED,
+  PaymentState.PARTIALLY_REFUNDED,
+];
+
+// Amounts and lines of a refund, before it is recorded
+export type RefundCalculation =
+  | { status: "OK"; lines: RefundLine[]; subtotal: Money; tax: Money; deposit?: Money; amount: Money }
+  | { status: "INVALID"; errors: ValidationError[] };
+
+// Failed refunds moved no money; pending ones might have
+function countsAgainstCapture(refund: OrderRefund): boolean {
+  return refund.status !== RefundStatus.FAILED;
+}
+
+/**
+ * Calculate a full or line-item refund against what is still refundable
+ *
+ * Each line refunds its unit price times the quantity plus the same share
+ * of the tax charged on that line, and the bottle deposit on those units
+ * if the line has one. The refund that returns the last outstanding
+ * units refunds exactly what remains of the order total, so
+ * rounding never leaves a cent behind or refunds one too many. Omitting
+ * lines refunds everything not yet refunded. Cancelled lines left the
+ * total when they were cancelled, so they are never refundable.
+ */
+export function calculateRefund(
+  order: OrderById,
+  requestedLines?: RefundRequest["lines"]
+): RefundCalculation {
+  const previous = (order.refunds ?? []).filter(countsAgainstCapture);
+  const refundedQuantity = (sku: string) =>
+    previous.flatMap((r) => r.lines).filter((l) => l.sku === sku).reduce((n, l) => n + l.quantity, 0);
+  const refundedTax = (sku: string) =>
+    sumMoney(
+      previous.flatMap((r) => r.lines).filter((l) => l.sku === sku).map((l) => l.tax),
+      order.total.currency
+    );
+
+  const items = order.items.filter(isActiveLine);
+  const requested = requestedLines ?? items.map((item) => ({
+    sku: item.sku,
+    quantity: item.quantity - refundedQuantity(item.sku),
+  })).filter((line) => line.quantity > 0);
+
+  const errors: ValidationError[] = [];
+  const lines: RefundLine[] = [];
+  requested.forEach((line, index) => {
+    const item = order.items.find((i) => i.sku === line.sku);
+    if (lines.some((l) => l.sku === line.sku)) {
+      errors.push({ field: `lines.${index}.sku`, message: `${line.sku} is listed twice`, code: "duplicate_sku" });
+      return;
+    }
+    if (!item) {
+      errors.push({ field: `lines.${index}.sku`, message: `${line.sku} is not on the order`, code: "unknown_sku" });
+      return;
+    }
+    if (!isActiveLine(item)) {
+      errors.push({
+        field: `lines.${index}.sku`,
+        message: `${line.sku} was cancelled and is no longer part of the order total`,
+        code: "line_cancelled",
+      });
+      return;
+    }
+
+    const remaining = item.quantity - refundedQuantity(item.sku);
+    if (line.quantity > remaining) {
+      errors.push({
+        field: `lines.${index}.quantity`,
+        message: `Only ${remaining} of ${line.sku} can still be refunded`,
+        code: "exceeds_refundable",
+      });
+      return;
+    }
+
+    const tax =
+      line.quantity === remaining
+        ? subtractMoney(orderLineTax(order, item), refundedTax(item.sku))
+        : applyRate(orderLineTax(order, item), line.quantity / item.quantity);
+    lines.push({
+      sku: item.sku,
+      quantity: line.quantity,
+      amount: multiplyMoney(item.unit_price, line.quantity),
+      tax,
+      ...(item.deposit && { deposit: multiplyMoney(item.deposit, line.quantity) }),
+    });
+  });
+
+  if (errors.length > 0) {
+    return { status: "INVALID", errors };
+  }
+  if (lines.length === 0) {
+    return {
+      status: "INVALID",
+      errors: [{ field: "lines", message: "Nothing left to refund", code: "nothing_to_refund" }],
+    };
+  }
+
+  const alreadyRefunded = sumMoney(previous.map((r) => r.amount), order.total.currency);
+  const refundable = subtractMoney(order.total, alreadyRefunded);
+  const subtotal = sumMoney(lines.map((l) => l.amount), order.total.currency);
+  let tax = sumMoney(lines.map((l) => l.tax), order.total.currency);
+  const deposit = sumMoney(lines.filter((l) => l.deposit).map((l) => l.deposit!), order.total.currency);
+
+  // Last units out: true up to the remaining total
+  const finalRefund = items.every((item) => {
+    const line = lines.find((l) => l.sku === item.sku);
+    return refundedQuantity(item.sku) + (line?.quantity ?? 0) === item.quantity;
+  });
+  if (finalRefund) {
+    const adjustment = subtractMoney(subtractMoney(subtractMoney(refundable, subtotal), tax), deposit);
+    const last = lines[lines.length - 1];
+    last.tax = addMoney(last.tax, adjustment);
+    tax = addMoney(tax, adjustment);
+  }
+
+  const amount = addMoney(addMoney(subtotal, tax), deposit);
+  if (amount.amount > refundable.amount) {
+    return {
+      status: "INVALID",
+      errors: [
+        {
+          field: "lines",
+          message: `Refund of ${amount.amount} exceeds the ${refundable.amount} still refundable`,
+          code: "exceeds_captured",
+        },
+      ],
+    };
+  }
+
+  return { status: "OK", lines, subtotal, tax, ...(deposit.amount > 0 && { deposit }), amount };
+}
+
+/**
+ * Apply the same update to both order tables
+ * Conditioned on the updated_at last read, so concurrent refunds can't
+ * both pass the refundable check. Returns false if the order changed.
+ */
+async function updateOrderRefunds(
+  order: OrderById,
+  updateExpression: string,
+  values: Record<string, unknown>,
+  names?: Record<string, string>
+): Promise<boolean> {
+  return updateOrder(orderKey(order), {
+    UpdateExpression: updateExpression,
+    ConditionExpression: "updated_at = :expected",
+    ...(names && { ExpressionAttributeNames: names }),
+    ExpressionAttributeValues: { ...values, ":expected": order.updated_at },
+  });
+}
+
+/**
+ * Record a refund as PENDING before the provider is called
+ * A crash after the provider call leaves the entry PENDING; retrying with
+ * the same idempotency key resumes it. Returns false if the order changed.
+ */
+export async function recordPendingRefund(order: OrderById, refund: OrderRefund): Promise<boolean> {
+  return updateOrderRefunds(
+    order,
+    "SET refunds = list_append(if_not_exists(refunds, :empty), :refund), updated_at = :now",
+    { ":empty": [], ":refund": [refund], ":now": refund.requested_at }
+  );
+}
+
+/**
+ * Record the provider's answer for a pending refund
+ *
+ * Approved refunds are COMPLETED and added to refunded_total; the payment
+ * becomes REFUNDED once the whole total is refunded, PARTIALLY_REFUNDED
+ * before that. Declined refunds are FAILED. Retries on concurrent updates
+ * and returns the updated order.
+ */
+export async function settleRefund(
+  orderId: string,
+  refundId: string,
+  result: PaymentResult,
+  maxAttempts: number = 3
+): Promise<OrderById> {
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const order = await getOrderById(orderId);
+    const refunds = order?.refunds ?? [];
+    const index = refunds.findIndex((r) => r.refund_id === refundId);
+    if (!order || index < 0) {
+      throw new Error(`Refund ${refundId} not found on order ${orderId}`);
+    }
+
+    const refund = refunds[index];
+    if (refund.status !== RefundStatus.PENDING) {
+      return order;
+    }
+
+    const now = new Date().toISOString();
+    const entry = `refunds[${index}]`;
+    let updated: boolean;
+    if (result.outcome === PaymentOutcome.APPROVED) {
+      const refundedTotal = sumMoney(
+        [...refunds.filter((r) => r.status === RefundStatus.COMPLETED), refund].map((r) => r.amount),
+        order.total.currency
+      );
+      updated = await updateOrderRefunds(
+        order,
+        `SET ${entry}.#status = :status, ${entry}.provider_refund_id = :providerId, ` +
+          `${entry}.completed_at = :now, refunded_total = :refunded, payment_state = :state, updated_at = :now`,
+        {
+          ":status": RefundStatus.COMPLETED,
+          ":providerId": result.transaction_id,
+          ":refunded": refundedTotal,
+          ":state":
+            refundedTotal.amount >= order.total.amount
+              ? PaymentState.REFUNDED
+              : PaymentState.PARTIALLY_REFUNDED,
+          ":now": now,
+        },
+        { "#status": "status" }
+      );
+    } else {
+      updated = await updateOrderRefunds(
+        order,
+        `SET ${entry}.#status = :status, ${entry}.decline_code = :code, ${entry}.completed_at = :now, updated_at = :now`,
+        { ":status": RefundStatus.FAILED, ":code": result.decline_code ?? "declined", ":now": now },
+        { "#status": "status" }
+      );
+    }
+
+    if (updated) {
+      return (await getOrderById(orderId))!;
+    }
+  }
+
+  throw new Error(`Refund ${refundId} on order ${orderId} was updated concurrently`);
+}
+
+/**
+ * Send a pending refund to the payment provider and record the answer
+ * Safe to call again for the same refund: the provider replays by
+ * idempotency key and settling an already settled refund is a no-op.
+ */
+export async function submitRefund(
+  order: OrderById,
+  refund: OrderRefund
+): Promise<{ order: OrderById; refund: OrderRefund }> {
+  const result = await getPaymentProvider().refund({
+    idempotency_key: paymentIdempotencyKey(order.order_id, PaymentOperation.REFUND, refund.refund_id),
+    order_id: order.order_id,
+    capture_id: order.payment_capture_id!,
+    amount: refund.amount,
+  });
+
+  const updated = await settleRefund(order.order_id, refund.refund_id, result);
+  return {
+    order: updated,
+    refund: updated.refunds!.find((r) => r.refund_id === refund.refund_id)!,
+  };
+}
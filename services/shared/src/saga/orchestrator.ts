@@ -0,0 +1,177 @@
+import {
+  SagaRunResult,
+  SagaState,
+  SagaStatus,
+  SagaStepOutput,
+  SagaStepResult,
+  SagaStepStatus,
+} from "../types/saga";
+import { DynamoSagaStateStore, SagaStateStore } from "./store";
+
+/**
+ * A saga step and its compensation
+ *
+ * Steps must be idempotent: a step that crashed after doing its work but
+ * before its state was saved is executed again on redelivery.
+ * Compensations must be idempotent for the same reason.
+ */
+export interface SagaStep<TContext> {
+  name: string;
+  execute(context: TContext, outputs: Record<string, SagaStepOutput>): Promise<SagaStepResult>;
+  compensate?(context: TContext, output: SagaStepOutput): Promise<void>;
+}
+
+/**
+ * Runs declared steps in order, persisting state after each one
+ *
+ * When a step fails, every completed step is compensated in reverse
+ * order. Transient failures (RETRY results, thrown errors, failed
+ * compensations) leave the saga resumable: running it again continues
+ * from the first unfinished step or compensation.
+ */
+export class SagaOrchestrator<TContext> {
+  constructor(
+    private readonly sagaType: string,
+    private readonly steps: SagaStep<TContext>[],
+    private readonly store: SagaStateStore = new DynamoSagaStateStore()
+  ) {
+    const names = new Set(steps.map((step) => step.name));
+    if (names.size !== steps.length) {
+      throw new Error(`Duplicate step names in saga ${sagaType}`);
+    }
+  }
+
+  async run(sagaId: string, context: TContext): Promise<SagaRunResult> {
+    let state = (await this.store.load(sagaId)) ?? this.initialState(sagaId);
+
+    if (state.status === SagaStatus.COMPLETED) {
+      return { status: "COMPLETED", state };
+    }
+
+    if (state.status === SagaStatus.RUNNING) {
+      for (const step of this.steps) {
+        // Steps added after the saga started are picked up as pending
+        const stepState = (state.steps[step.name] ??= { status: SagaStepStatus.PENDING, attempts: 0 });
+        if (stepState.status === SagaStepStatus.COMPLETED) {
+          continue;
+        }
+
+        let result: SagaStepResult;
+        try {
+          result = await step.execute(context, this.collectOutputs(state));
+        } catch (error) {
+          result = { status: "RETRY", reason: String(error) };
+        }
+
+        const now = new Date().toISOString();
+        stepState.attempts += 1;
+
+        if (result.status === "COMPLETED") {
+          stepState.status = SagaStepStatus.COMPLETED;
+          stepState.output = result.output;
+          stepState.completed_at = now;
+          delete stepState.error;
+          state = await this.save(state);
+          continue;
+        }
+
+        if (result.status === "RETRY") {
+          stepState.error = result.reason;
+          state = await this.save(state);
+          return { status: "RETRY", state, failed_step: step.name, reason: result.reason };
+        }
+
+        stepState.status = SagaStepStatus.FAILED;
+        stepState.output = result.output;
+        stepState.error = result.reason;
+        state.status = SagaStatus.COMPENSATING;
+        state.failed_step = step.name;
+        state.failure_reason = result.reason;
+        state = await this.save(state);
+        break;
+      }
+
+      if (state.status === SagaStatus.RUNNING) {
+        state.status = SagaStatus.COMPLETED;
+        state = await this.save(state);
+        return { status: "COMPLETED", state };
+      }
+    }
+
+    if (state.status === SagaStatus.COMPENSATING) {
+      for (const step of [...this.steps].reverse()) {
+        const stepState = state.steps[step.name];
+        if (stepState?.status !== SagaStepStatus.COMPLETED) {
+          continue;
+        }
+
+        try {
+          await step.compensate?.(context, stepState.output ?? {});
+        } catch (error) {
+          console.error(`Compensation failed for ${state.saga_type}/${step.name}:`, error);
+          stepState.error = String(error);
+          state = await this.save(state);
+          return { status: "RETRY", state, failed_step: step.name, reason: String(error) };
+        }
+
+        stepState.status = SagaStepStatus.COMPENSATED;
+        stepState.compensated_at = new Date().toISOString();
+        state = await this.save(state);
+      }
+
+      state.status = SagaStatus.COMPENSATED;
+      state = await this.save(state);
+    }
+
+    const failedStep = state.failed_step!;
+    return {
+      status: "FAILED",
+      state,
+      failed_step: failedStep,
+      reason: state.failure_reason,
+      output: state.steps[failedStep]?.output,
+    };
+  }
+
+  /**
+   * Fresh state with every declared step pending
+   */
+  private initialState(sagaId: string): SagaState {
+    const now = new Date().toISOString();
+    return {
+      saga_id: sagaId,
+      saga_type: this.sagaType,
+      status: SagaStatus.RUNNING,
+      steps: Object.fromEntries(
+        this.steps.map((step) => [step.name, { status: SagaStepStatus.PENDING, attempts: 0 }])
+      ),
+      version: 0,
+      created_at: now,
+      updated_at: now,
+    };
+  }
+
+  /**
+   * Outputs of completed steps, keyed by step name
+   */
+  private collectOutputs(state: SagaState): Record<string, SagaStepOutput> {
+    return Object.fromEntries(
+      Object.entries(state.steps)
+        .filter(([, step]) => step.status === SagaStepStatus.COMPLETED)
+        .map(([name, step]) => [name, step.output ?? {}])
+    );
+  }
+
+  /**
+   * Persist the next version of the state
+   */
+  private async save(state: SagaState): Promise<SagaState> {
+    const next: SagaState = {
+      ...state,
+      version: state.version + 1,
+      updated_at: new Date().toISOString(),
+    };
+    await this.store.save(next);
+    return next;
+  }
+}
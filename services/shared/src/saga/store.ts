@@ -0,0 +1,90 @@
+import { GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+import { ConditionalCheckFailedException } from "@aws-sdk/client-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import { SagaState } from "../types/saga";
+
+/**
+ * Thrown when another worker saved the saga first
+ */
+export class SagaConcurrencyError extends Error {
+  constructor(sagaId: string) {
+    super(`Saga ${sagaId} was updated concurrently`);
+    this.name = "SagaConcurrencyError";
+  }
+}
+
+/**
+ * Storage for saga state
+ */
+export interface SagaStateStore {
+  load(sagaId: string): Promise<SagaState | null>;
+  /** Save state whose version was incremented from the loaded version */
+  save(state: SagaState): Promise<void>;
+}
+
+/**
+ * Saga state stored in DynamoDB
+ * PK: saga_id
+ */
+export class DynamoSagaStateStore implements SagaStateStore {
+  async load(sagaId: string): Promise<SagaState | null> {
+    const client = getDocumentClient();
+
+    const result = await client.send(
+      new GetCommand({
+        TableName: TableNames.SAGAS,
+        Key: { saga_id: sagaId },
+        ConsistentRead: true,
+      })
+    );
+
+    return (result.Item as SagaState) ?? null;
+  }
+
+  async save(state: SagaState): Promise<void> {
+    const client = getDocumentClient();
+
+    try {
+      await client.send(
+        new PutCommand({
+          TableName: TableNames.SAGAS,
+          Item: state,
+          ConditionExpression:
+            state.version === 1
+              ? "attribute_not_exists(saga_id)"
+              : "version = :expected",
+          ExpressionAttributeValues:
+            state.version === 1 ? undefined : { ":expected": state.version - 1 },
+        })
+      );
+    } catch (error) {
+      if (
+        error instanceof ConditionalCheckFailedException ||
+        (error instanceof Error && error.name === "ConditionalCheckFailedException")
+      ) {
+        throw new SagaConcurrencyError(state.saga_id);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Saga state kept in memory (tests and local runs)
+ */
+export class InMemorySagaStateStore implements SagaStateStore {
+  private readonly states = new Map<string, SagaState>();
+
+  async load(sagaId: string): Promise<SagaState | null> {
+    const state = this.states.get(sagaId);
+    return state ? structuredClone(state) : null;
+  }
+
+  async save(state: SagaState): Promise<void> {
+    const current = this.states.get(state.saga_id);
+    if ((current?.version ?? 0) !== state.version - 1) {
+      throw new SagaConcurrencyError(state.saga_id);
+    }
+    this.states.set(state.saga_id, structuredClone(state));
+  }
+}
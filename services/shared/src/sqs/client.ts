@@ -32,7 +32,7 @@ export interface OrderProcessingMessage {
   order_id: string;
   customer_id: string;
   order_ts_id: string;
-  action: "PROCESS_ORDER" | "RESERVE_INVENTORY" | "PROCESS_PAYMENT" | "SEND_NOTIFICATION";
+  action: "PROCESS_ORDER" | "CANCEL_ORDER" | "RESERVE_INVENTORY" | "PROCESS_PAYMENT" | "SEND_NOTIFICATION";
   attempt?: number;
   timestamp: string;
 }
@@ -0,0 +1,209 @@
+import { Money, RoundingMode } from "../types/money";
+import { OrderById, OrderItem } from "../types/order";
+import { Product } from "../types/product";
+import {
+  LineItemTax,
+  TaxableLine,
+  TaxComponent,
+  TaxComponentType,
+  TaxRateTable,
+  TaxRequest,
+  TaxResult,
+} from "../types/tax";
+import {
+  applyRate,
+  currencyExponent,
+  DEFAULT_CURRENCY,
+  money,
+  roundMinorUnits,
+  sumMoney,
+  zeroMoney,
+} from "../utils/money";
+import { DynamoTaxRateSource, TaxRateSource } from "./rates";
+
+const ML_PER_GALLON = 3785.411784;
+
+/**
+ * Pluggable tax calculator
+ */
+export interface TaxCalculator {
+  calculate(request: TaxRequest): Promise<TaxResult>;
+}
+
+/**
+ * Build taxable lines from priced order items and their catalog products
+ */
+export function buildTaxableLines(
+  items: OrderItem[],
+  catalog: Map<string, Product>
+): TaxableLine[] {
+  return items.map((item) => {
+    const product = catalog.get(item.sku);
+    if (!product) {
+      throw new Error(`Missing catalog product for SKU ${item.sku}`);
+    }
+    return {
+      sku: item.sku,
+      category: product.category,
+      quantity: item.quantity,
+      volume_ml: product.volume_ml,
+      abv: product.abv,
+      total_price: item.total_price,
+    };
+  });
+}
+
+/**
+ * Tax charged on an order line
+ * Legacy orders without a breakdown prorate the order's tax by line subtotal.
+ */
+export function orderLineTax(order: Pick<OrderById, "tax_breakdown" | "subtotal" | "tax">, item: OrderItem): Money {
+  const line = order.tax_breakdown?.lines.find((l) => l.sku === item.sku);
+  if (line) {
+    return line.total_tax;
+  }
+  if (order.subtotal.amount <= 0) {
+    return zeroMoney(order.tax.currency);
+  }
+  return applyRate(order.tax, item.total_price.amount / order.subtotal.amount);
+}
+
+/**
+ * Tax calculator backed by effective-dated rate tables
+ *
+ * Sales taxes (state, county, local option) apply to the line price.
+ * Excise is computed per category from the line's volume and proof and
+ * is not itself part of the sales tax base.
+ */
+export class RateTableTaxCalculator implements TaxCalculator {
+  constructor(private readonly rates: TaxRateSource = new DynamoTaxRateSource()) {}
+
+  async calculate(request: TaxRequest): Promise<TaxResult> {
+    const table = await this.rates.getRateTable(
+      request.state,
+      request.county_id,
+      request.as_of
+    );
+
+    if (!table) {
+      return {
+        success: false,
+        error: `No tax rates in effect for ${request.state}/${request.county_id}`,
+      };
+    }
+
+    const roundingMode = table.rounding_mode ?? RoundingMode.HALF_UP;
+    const lines = request.lines.map((line) => calculateLineTax(table, line, roundingMode));
+    const currency = request.lines[0]?.total_price.currency ?? DEFAULT_CURRENCY;
+    const totalTax = sumMoney(lines.map((line) => line.total_tax), currency);
+
+    return {
+      success: true,
+      breakdown: {
+        jurisdiction_id: table.jurisdiction_id,
+        rate_table_version: table.version,
+        rate_table_effective_from: table.effective_from,
+        rounding_mode: roundingMode,
+        lines,
+        total_tax: totalTax,
+        calculated_at: new Date().toISOString(),
+      },
+    };
+  }
+}
+
+/**
+ * Calculate all tax components for a single line
+ *
+ * Component amounts are computed in fractional minor units and the line
+ * total is rounded once using the jurisdiction's rounding mode; any
+ * rounding residue is absorbed by the largest component so the
+ * components always sum exactly to the line total.
+ */
+function calculateLineTax(
+  table: TaxRateTable,
+  line: TaxableLine,
+  roundingMode: RoundingMode
+): LineItemTax {
+  const { currency } = line.total_price;
+  const minorPerMajor = 10 ** currencyExponent(currency);
+  const raw: Array<{ type: TaxComponentType; name: string; rate: number; basis: number; amount: number }> = [];
+
+  const addComponent = (
+    type: TaxComponentType,
+    name: string,
+    rate: number,
+    basis: number,
+    scale = 1
+  ) => {
+    if (rate > 0) {
+      raw.push({ type, name, rate, basis, amount: basis * rate * scale });
+    }
+  };
+
+  const price = line.total_price.amount;
+  addComponent(TaxComponentType.STATE_SALES, `${table.state} sales tax`, table.state_sales_rate, price);
+  addComponent(TaxComponentType.COUNTY_SALES, `${table.county_id} sales tax`, table.county_sales_rate, price);
+
+  for (const local of table.local_option_rates) {
+    if (!local.categories || local.categories.includes(line.category)) {
+      addComponent(TaxComponentType.LOCAL_OPTION, local.name, local.rate, price);
+    }
+  }
+
+  const excise = table.excise[line.category];
+  if (excise) {
+    const gallons = (line.volume_ml * line.quantity) / ML_PER_GALLON;
+    const proofGallons = gallons * ((line.abv * 2) / 100);
+
+    // Per-gallon rates are quoted in major units
+    addComponent(TaxComponentType.EXCISE, `${line.category} excise (per gallon)`, excise.per_gallon ?? 0, gallons, minorPerMajor);
+    addComponent(TaxComponentType.EXCISE, `${line.category} excise (per proof gallon)`, excise.per_proof_gallon ?? 0, proofGallons, minorPerMajor);
+    addComponent(TaxComponentType.EXCISE, `${line.category} excise (ad valorem)`, excise.percent_of_price ?? 0, price);
+  }
+
+  const totalTax = roundMinorUnits(raw.reduce((sum, c) => sum + c.amount, 0), roundingMode);
+  const rounded = raw.map((c) => roundMinorUnits(c.amount, roundingMode));
+
+  if (raw.length > 0) {
+    const residue = totalTax - rounded.reduce((sum, amount) => sum + amount, 0);
+    const largest = rounded.indexOf(Math.max(...rounded));
+    rounded[largest] += residue;
+  }
+
+  const components: TaxComponent[] = raw.map((c, i) => ({
+    type: c.type,
+    name: c.name,
+    rate: c.rate,
+    basis: c.basis,
+    amount: money(rounded[i], currency),
+  }));
+
+  return {
+    sku: line.sku,
+    category: line.category,
+    taxable_amount: line.total_price,
+    components,
+    total_tax: money(totalTax, currency),
+  };
+}
+
+// Active calculator (swappable for other engines or tests)
+let taxCalculator: TaxCalculator | null = null;
+
+/**
+ * Get the active tax calculator
+ */
+export function getTaxCalculator(): TaxCalculator {
+  if (!taxCalculator) {
+    taxCalculator = new RateTableTaxCalculator();
+  }
+  return taxCalculator;
+}
+
+/**
+ * Replace the active tax calculator
+ */
+export function setTaxCalculator(calculator: TaxCalculator | null): void {
+  taxCalculator = calculator;
+}
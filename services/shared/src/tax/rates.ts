@@ -0,0 +1,113 @@
+import { QueryCommand } from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import { TaxRateTable } from "../types/tax";
+
+/**
+ * Source of effective-dated tax rate tables
+ */
+export interface TaxRateSource {
+  getRateTable(
+    state: string,
+    countyId: string,
+    asOf: string
+  ): Promise<TaxRateTable | null>;
+}
+
+/**
+ * Build the jurisdiction key for a rate table
+ * Format: {state}#{county_id}
+ */
+export function buildJurisdictionId(state: string, countyId: string): string {
+  return `${state.toUpperCase()}#${countyId}`;
+}
+
+// Versions are zero-padded in the sort key so they order as numbers
+const VERSION_DIGITS = 6;
+export const MAX_RATE_TABLE_VERSION = 10 ** VERSION_DIGITS - 1;
+
+/**
+ * Build the sort key for a rate table
+ * Format: {effective_from}#{version, zero-padded}, so tables published for
+ * the same instant are kept apart and the higher version sorts last.
+ */
+export function rateTableSortKey(effectiveFrom: string, version: number): string {
+  if (!Number.isInteger(version) || version < 0 || version > MAX_RATE_TABLE_VERSION) {
+    throw new Error(`Rate table version must be an integer from 0 to ${MAX_RATE_TABLE_VERSION}`);
+  }
+  return `${effectiveFrom}#${String(version).padStart(VERSION_DIGITS, "0")}`;
+}
+
+/**
+ * Check whether a rate table is in effect at a point in time
+ */
+export function isRateTableEffective(table: TaxRateTable, asOf: string): boolean {
+  return (
+    table.effective_from <= asOf &&
+    (table.effective_to === undefined || asOf < table.effective_to)
+  );
+}
+
+/**
+ * Pick the rate table in effect at asOf from a jurisdiction's tables
+ * The latest table that started on or before asOf wins, the higher
+ * version breaking a tie; if that table has already ended there is none.
+ * Every source resolves tables this way.
+ */
+export function selectRateTable(tables: TaxRateTable[], asOf: string): TaxRateTable | null {
+  const [latest] = tables
+    .filter((table) => table.effective_from <= asOf)
+    .map((table) => ({ table, key: rateTableSortKey(table.effective_from, table.version) }))
+    .sort((a, b) => b.key.localeCompare(a.key));
+
+  return latest && isRateTableEffective(latest.table, asOf) ? latest.table : null;
+}
+
+/**
+ * Rate tables stored in DynamoDB
+ * PK: jurisdiction_id, SK: effective_version
+ */
+export class DynamoTaxRateSource implements TaxRateSource {
+  async getRateTable(
+    state: string,
+    countyId: string,
+    asOf: string
+  ): Promise<TaxRateTable | null> {
+    const client = getDocumentClient();
+
+    // Latest table (highest version) that started on or before asOf
+    const result = await client.send(
+      new QueryCommand({
+        TableName: TableNames.TAX_RATES,
+        KeyConditionExpression: "jurisdiction_id = :jid AND effective_version <= :latest",
+        ExpressionAttributeValues: {
+          ":jid": buildJurisdictionId(state, countyId),
+          ":latest": rateTableSortKey(asOf, MAX_RATE_TABLE_VERSION),
+        },
+        ScanIndexForward: false,
+        Limit: 1,
+      })
+    );
+
+    return selectRateTable((result.Items as TaxRateTable[]) ?? [], asOf);
+  }
+}
+
+/**
+ * Rate tables held in memory (local development and tests)
+ */
+export class InMemoryTaxRateSource implements TaxRateSource {
+  constructor(private readonly tables: TaxRateTable[]) {}
+
+  async getRateTable(
+    state: string,
+    countyId: string,
+    asOf: string
+  ): Promise<TaxRateTable | null> {
+    const jurisdictionId = buildJurisdictionId(state, countyId);
+
+    return selectRateTable(
+      this.tables.filter((t) => t.jurisdiction_id === jurisdictionId),
+      asOf
+    );
+  }
+}
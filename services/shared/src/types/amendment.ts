@@ -0,0 +1,72 @@
+import { z } from "zod";
+import { Money } from "./money";
+import { CreateOrderItemSchema, OrderStatus, ShippingAddress, ShippingAddressSchema } from "./order";
+
+// Statuses an order can be amended in (nothing has been picked yet)
+export const AMENDABLE_ORDER_STATUSES: OrderStatus[] = [OrderStatus.PENDING, OrderStatus.CONFIRMED];
+
+// Amend order request: add, remove or re-quantity lines and/or change the
+// shipping address. Changes and removals name lines already on the order;
+// additions must not.
+export const AmendOrderRequestSchema = z
+  .object({
+    add: z.array(CreateOrderItemSchema).min(1).optional(),
+    remove: z.array(z.string().min(1)).min(1).optional(),
+    change: z
+      .array(
+        z.object({
+          sku: z.string().min(1),
+          quantity: z.number().int().positive(),
+        })
+      )
+      .min(1)
+      .optional(),
+    shipping_address: ShippingAddressSchema.optional(),
+    reason: z.string().min(1).max(500).optional(),
+  })
+  .refine((request) => request.add || request.remove || request.change || request.shipping_address, {
+    message: "Nothing to amend: give add, remove, change or shipping_address",
+    path: ["add"],
+  });
+
+export type AmendOrderRequest = z.infer<typeof AmendOrderRequestSchema>;
+
+// A value before and after an amendment
+export interface AmendedValue<T> {
+  before: T;
+  after: T;
+}
+
+// A line as it stood on one side of an amendment
+export interface AmendedLineState {
+  quantity: number;
+  unit_price: Money;
+  total_price: Money;
+}
+
+// A line the amendment added (no before), removed (no after), re-quantified
+// or re-priced from the catalog
+export interface AmendedLine {
+  sku: string;
+  name: string;
+  before?: AmendedLineState;
+  after?: AmendedLineState;
+}
+
+// What an amendment changed
+export interface OrderAmendmentDiff {
+  items: AmendedLine[]; // Only lines that changed
+  shipping_address?: AmendedValue<ShippingAddress>;
+  subtotal: AmendedValue<Money>;
+  tax: AmendedValue<Money>;
+  total: AmendedValue<Money>;
+}
+
+// Amendment entry recorded on the order
+export interface OrderAmendment {
+  amendment_id: string;
+  actor: string; // kind:id of whoever amended the order
+  reason?: string;
+  diff: OrderAmendmentDiff;
+  amended_at: string;
+}
@@ -0,0 +1,45 @@
+// Who a signed-in caller is to the order API
+export const CallerRole = {
+  CUSTOMER: "customer",
+  STORE_STAFF: "store_staff", // Scoped to their stores
+  CUSTOMER_SERVICE: "customer_service", // Scoped to their stores and counties
+} as const;
+
+export type CallerRole = (typeof CallerRole)[keyof typeof CallerRole];
+
+// What a caller may do to an order
+export const OrderAction = {
+  VIEW: "VIEW",
+  CANCEL: "CANCEL",
+  AMEND: "AMEND",
+  CANCEL_LINE: "CANCEL_LINE",
+  REORDER: "REORDER",
+  REFUND: "REFUND",
+  FULFILL: "FULFILL",
+} as const;
+
+export type OrderAction = (typeof OrderAction)[keyof typeof OrderAction];
+
+/**
+ * Claims read from a verified access token
+ * role defaults to customer; staff tokens carry their store and county scope.
+ */
+export interface AccessTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nbf?: number;
+  iat?: number;
+  role?: string;
+  store_ids?: string[];
+  county_ids?: string[];
+}
+
+// The authenticated caller, as handed from the authorizer to handlers
+export interface Caller {
+  subject: string;
+  role: CallerRole;
+  store_ids: string[];
+  county_ids: string[];
+}
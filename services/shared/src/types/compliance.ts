@@ -0,0 +1,87 @@
+import { ProductCategory } from "./product";
+
+// Local option status of a county
+export const CountyWetStatus = {
+  WET: "WET", // All categories may be sold (subject to the rules below)
+  MOIST: "MOIST", // Only the allowed categories may be sold
+  DRY: "DRY", // No alcohol sales
+} as const;
+
+export type CountyWetStatus = (typeof CountyWetStatus)[keyof typeof CountyWetStatus];
+
+// Window during which sales are allowed, in the county's local time
+export interface SaleWindow {
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  open: string; // HH:MM, inclusive
+  close: string; // HH:MM, exclusive
+}
+
+/**
+ * Compliance rules for a county
+ *
+ * Every county we sell into must have a rules row; orders for counties
+ * without one are rejected. Optional limits are not enforced when omitted.
+ */
+export interface CountyComplianceRules {
+  county_id: string;
+  state: string;
+  wet_status: CountyWetStatus;
+  time_zone: string; // IANA zone used for sale days/hours, e.g. America/Chicago
+  allowed_categories?: ProductCategory[];
+  max_abv?: number; // Percent alcohol by volume
+  max_volume_ml_per_order?: number;
+  max_volume_ml_per_day?: number; // Per customer, across orders on the same local day
+  sale_windows?: SaleWindow[]; // Sales allowed only inside one of these windows
+  blackout_dates?: string[]; // YYYY-MM-DD local dates with no sales (holidays)
+  allowed_ship_to_states?: string[]; // Destination states we may ship to from this county
+  version: number;
+  updated_at: string;
+}
+
+// Compliance rule identifiers (returned to clients on rejection)
+export const ComplianceRule = {
+  COUNTY_NOT_SUPPORTED: "COUNTY_NOT_SUPPORTED",
+  DRY_COUNTY: "DRY_COUNTY",
+  CATEGORY_NOT_ALLOWED: "CATEGORY_NOT_ALLOWED",
+  MAX_ABV: "MAX_ABV",
+  ORDER_VOLUME_LIMIT: "ORDER_VOLUME_LIMIT",
+  DAILY_VOLUME_LIMIT: "DAILY_VOLUME_LIMIT",
+  SALE_HOURS: "SALE_HOURS",
+  HOLIDAY_BLACKOUT: "HOLIDAY_BLACKOUT",
+  SHIPPING_STATE_RESTRICTED: "SHIPPING_STATE_RESTRICTED",
+} as const;
+
+export type ComplianceRule = (typeof ComplianceRule)[keyof typeof ComplianceRule];
+
+// A single broken rule
+export interface ComplianceViolation {
+  rule: ComplianceRule;
+  message: string;
+  sku?: string;
+  limit?: number | string | string[];
+  actual?: number | string;
+}
+
+// A line to be checked
+export interface ComplianceLine {
+  sku: string;
+  category: ProductCategory;
+  quantity: number;
+  volume_ml: number;
+  abv: number;
+}
+
+// Compliance check request
+export interface ComplianceRequest {
+  county_id: string;
+  shipping_state: string;
+  order_ts: string; // ISO timestamp
+  lines: ComplianceLine[];
+  prior_volume_ml_today?: number; // Volume already ordered by the customer today
+}
+
+// Compliance check result
+export interface ComplianceResult {
+  success: boolean;
+  violations?: ComplianceViolation[];
+}
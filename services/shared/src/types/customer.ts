@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+// Customer profile schema
+export const CustomerProfileSchema = z.object({
+  customer_id: z.string().min(1),
+  name: z.string().min(1).optional(),
+  email: z.string().email().optional(),
+  date_of_birth: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // YYYY-MM-DD
+  created_at: z.string(),
+  updated_at: z.string(),
+});
+
+export type CustomerProfile = z.infer<typeof CustomerProfileSchema>;
@@ -1,9 +1,15 @@
+import { OrderAmendmentDiff } from "./amendment";
+import { LineCancellationReason, LinePaymentAction } from "./line-cancellation";
+import { Money } from "./money";
 import { OrderStatus, PaymentState, OrderItem } from "./order";
+import { ReorderSuggestion } from "./inventory";
+import { DeliveryIdCheck, ProofOfDeliveryType } from "./fulfillment";
 
 /**
  * Base event interface for all order events
  */
 export interface BaseOrderEvent {
+  event_id: string; // Same for every delivery of the same change; consumers drop repeats
   event_type: string;
   order_id: string;
   customer_id: string;
@@ -18,7 +24,7 @@ export interface OrderCreatedEvent extends BaseOrderEvent {
   store_id: string;
   county_id: string;
   status: OrderStatus;
-  total: number;
+  total: Money;
   item_count: number;
 }
 
@@ -31,7 +37,7 @@ export interface OrderStatusChangedEvent extends BaseOrderEvent {
   county_id: string;
   old_status: OrderStatus;
   new_status: OrderStatus;
-  total: number;
+  total: Money;
 }
 
 /**
@@ -41,7 +47,7 @@ export interface OrderConfirmedEvent extends BaseOrderEvent {
   event_type: "ORDER_CONFIRMED";
   store_id: string;
   county_id: string;
-  total: number;
+  total: Money;
   items: OrderItem[];
   shipping_address: {
     street: string;
@@ -58,7 +64,56 @@ export interface OrderCancelledEvent extends BaseOrderEvent {
   event_type: "ORDER_CANCELLED";
   store_id: string;
   county_id: string;
-  total: number;
+  total: Money;
+}
+
+/**
+ * Event emitted when a PENDING or CONFIRMED order's lines or shipping
+ * address are amended
+ */
+export interface OrderAmendedEvent extends BaseOrderEvent {
+  event_type: "ORDER_AMENDED";
+  store_id: string;
+  county_id: string;
+  status: OrderStatus;
+  amendment_id: string;
+  amended_by: string;
+  reason?: string;
+  diff: OrderAmendmentDiff;
+}
+
+/**
+ * Event emitted when a single line of a confirmed order is cancelled
+ */
+export interface OrderLineCancelledEvent extends BaseOrderEvent {
+  event_type: "ORDER_LINE_CANCELLED";
+  store_id: string;
+  county_id: string;
+  sku: string;
+  quantity: number;
+  reason_code: LineCancellationReason;
+  cancelled_by: string;
+  amount: Money; // Taken off the order total
+  payment_action: LinePaymentAction;
+  total: Money; // New order total
+}
+
+/**
+ * Event emitted when store staff have picked an order
+ */
+export interface OrderPickedEvent extends BaseOrderEvent {
+  event_type: "ORDER_PICKED";
+  store_id: string;
+  picked_by?: string;
+}
+
+/**
+ * Event emitted when store staff have packed an order
+ */
+export interface OrderPackedEvent extends BaseOrderEvent {
+  event_type: "ORDER_PACKED";
+  store_id: string;
+  packed_by?: string;
 }
 
 /**
@@ -67,6 +122,8 @@ export interface OrderCancelledEvent extends BaseOrderEvent {
 export interface OrderShippedEvent extends BaseOrderEvent {
   event_type: "ORDER_SHIPPED";
   store_id: string;
+  carrier?: string;
+  tracking_number?: string;
   shipping_address: {
     street: string;
     city: string;
@@ -75,6 +132,17 @@ export interface OrderShippedEvent extends BaseOrderEvent {
   };
 }
 
+/**
+ * Event emitted when order is delivered
+ */
+export interface OrderDeliveredEvent extends BaseOrderEvent {
+  event_type: "ORDER_DELIVERED";
+  store_id: string;
+  delivered_by?: string;
+  proof_of_delivery_type?: ProofOfDeliveryType;
+  id_check?: DeliveryIdCheck;
+}
+
 /**
  * Event emitted when payment state changes
  */
@@ -82,7 +150,7 @@ export interface PaymentStateChangedEvent extends BaseOrderEvent {
   event_type: "PAYMENT_STATE_CHANGED";
   old_state: PaymentState;
   new_state: PaymentState;
-  total: number;
+  total: Money;
 }
 
 /**
@@ -100,14 +168,56 @@ export type OrderEvent =
   | OrderStatusChangedEvent
   | OrderConfirmedEvent
   | OrderCancelledEvent
+  | OrderAmendedEvent
+  | OrderLineCancelledEvent
+  | OrderPickedEvent
+  | OrderPackedEvent
   | OrderShippedEvent
+  | OrderDeliveredEvent
   | PaymentStateChangedEvent
   | OrderDeletedEvent;
 
+/**
+ * Event emitted when a SKU's free stock (available - reserved) drops
+ * below its reorder level
+ */
+export interface InventoryLowEvent {
+  event_id: string; // One per claimed alert
+  event_type: "INVENTORY_LOW";
+  store_id: string;
+  sku: string;
+  product_name: string;
+  quantity_available: number;
+  quantity_reserved: number;
+  quantity_free: number;
+  reorder_level: number;
+  suggested_quantity: number;
+  timestamp: string;
+}
+
+/**
+ * Event emitted by the daily reorder report (one or more per store)
+ */
+export interface InventoryReorderReportEvent {
+  event_id: string; // Same for a rerun that reports the same suggestions
+  event_type: "INVENTORY_REORDER_REPORT";
+  store_id: string;
+  report_date: string; // YYYY-MM-DD
+  part: number; // 1-based; large reports are split across events
+  total_parts: number;
+  suggestions: ReorderSuggestion[];
+  timestamp: string;
+}
+
+/**
+ * Union type of all inventory events
+ */
+export type InventoryEvent = InventoryLowEvent | InventoryReorderReportEvent;
+
 /**
  * EventBridge event wrapper
  */
-export interface EventBridgeEvent<T extends OrderEvent> {
+export interface EventBridgeEvent<T extends OrderEvent | InventoryEvent> {
   version: string;
   id: string;
   "detail-type": string;
@@ -127,10 +237,16 @@ export const EventDetailTypes = {
   ORDER_STATUS_CHANGED: "Order Status Changed",
   ORDER_CONFIRMED: "Order Confirmed",
   ORDER_CANCELLED: "Order Cancelled",
+  ORDER_AMENDED: "Order Amended",
+  ORDER_LINE_CANCELLED: "Order Line Cancelled",
+  ORDER_PICKED: "Order Picked",
+  ORDER_PACKED: "Order Packed",
   ORDER_SHIPPED: "Order Shipped",
   ORDER_DELIVERED: "Order Delivered",
   PAYMENT_STATE_CHANGED: "Payment State Changed",
   ORDER_DELETED: "Order Deleted",
+  INVENTORY_LOW: "Inventory Low",
+  INVENTORY_REORDER_REPORT: "Inventory Reorder Report",
 } as const;
 
 export type EventDetailType = (typeof EventDetailTypes)[keyof typeof EventDetailTypes];
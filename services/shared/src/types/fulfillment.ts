@@ -0,0 +1,104 @@
+import { z } from "zod";
+
+// Store fulfillment steps, in order
+export const FulfillmentStep = {
+  PICK: "pick",
+  PACK: "pack",
+  SHIP: "ship",
+  DELIVER: "deliver",
+} as const;
+
+export type FulfillmentStep = (typeof FulfillmentStep)[keyof typeof FulfillmentStep];
+
+// How delivery was proven
+export const ProofOfDeliveryType = {
+  SIGNATURE: "SIGNATURE",
+  PHOTO: "PHOTO",
+} as const;
+
+export type ProofOfDeliveryType = (typeof ProofOfDeliveryType)[keyof typeof ProofOfDeliveryType];
+
+// Government ID the recipient showed at the door
+export const IdDocumentType = {
+  DRIVERS_LICENSE: "DRIVERS_LICENSE",
+  STATE_ID: "STATE_ID",
+  PASSPORT: "PASSPORT",
+  MILITARY_ID: "MILITARY_ID",
+} as const;
+
+export type IdDocumentType = (typeof IdDocumentType)[keyof typeof IdDocumentType];
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected YYYY-MM-DD");
+
+// Pick and pack requests only identify the staff member
+export const FulfillmentRequestSchema = z.object({
+  staff_id: z.string().min(1),
+});
+
+export const ShipOrderRequestSchema = FulfillmentRequestSchema.extend({
+  carrier: z.string().min(1).max(64),
+  tracking_number: z.string().min(1).max(64),
+});
+
+export const DeliverOrderRequestSchema = FulfillmentRequestSchema.extend({
+  proof_of_delivery: z.object({
+    type: z.nativeEnum(ProofOfDeliveryType),
+    reference: z.string().min(1), // Stored signature or photo
+    recipient_name: z.string().min(1),
+  }),
+  id_check: z.object({
+    id_type: z.nativeEnum(IdDocumentType),
+    date_of_birth: DateSchema,
+    expiration_date: DateSchema,
+  }),
+});
+
+export type FulfillmentRequest = z.infer<typeof FulfillmentRequestSchema>;
+export type ShipOrderRequest = z.infer<typeof ShipOrderRequestSchema>;
+export type DeliverOrderRequest = z.infer<typeof DeliverOrderRequestSchema>;
+
+export type ProofOfDelivery = DeliverOrderRequest["proof_of_delivery"];
+
+/**
+ * ID check recorded at delivery
+ * The date of birth itself is not stored; the computed age is enough to
+ * show the recipient was of legal drinking age.
+ */
+export interface DeliveryIdCheck {
+  id_type: IdDocumentType;
+  recipient_age: number;
+  checked_at: string;
+}
+
+// Fulfillment progress recorded on the order, one milestone per step
+export interface OrderFulfillment {
+  picked_at?: string;
+  picked_by?: string;
+  packed_at?: string;
+  packed_by?: string;
+  shipped_at?: string;
+  shipped_by?: string;
+  carrier?: string;
+  tracking_number?: string;
+  delivered_at?: string;
+  delivered_by?: string;
+  proof_of_delivery?: ProofOfDelivery;
+  id_check?: DeliveryIdCheck;
+}
+
+// One SKU on a store's pick list, with the orders it is picked for
+export interface PickListLine {
+  sku: string;
+  name: string;
+  quantity: number;
+  orders: Array<{ order_id: string; quantity: number }>;
+}
+
+// SKUs and quantities to pick across a store's confirmed orders
+export interface PickList {
+  store_id: string;
+  order_count: number;
+  order_ids: string[]; // Oldest first, as they should be picked
+  lines: PickListLine[];
+  generated_at: string;
+}
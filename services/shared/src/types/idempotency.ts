@@ -0,0 +1,49 @@
+// How long a customer's idempotency key is remembered
+export const IDEMPOTENCY_KEY_TTL_HOURS = 24;
+
+// How long a request holds its key before a retry may take it over
+// (longer than the API handlers' timeout, so a live request is never overtaken)
+export const IDEMPOTENCY_LOCK_SECONDS = 30;
+
+// Idempotency key state
+export const IdempotencyKeyStatus = {
+  IN_PROGRESS: "IN_PROGRESS", // A request holds the key and is still running
+  COMPLETED: "COMPLETED", // The request finished; its response is replayed
+} as const;
+
+export type IdempotencyKeyStatus = (typeof IdempotencyKeyStatus)[keyof typeof IdempotencyKeyStatus];
+
+// Response cached for replay
+export interface IdempotentResponse {
+  status_code: number;
+  body: string; // Exactly as first sent
+}
+
+/**
+ * Idempotency key record (one per customer and key)
+ * PK: customer_id, SK: idempotency_key
+ *
+ * order_id and order_ts are assigned by the first attempt and reused by any
+ * retry that takes over the key, so an attempt that crashed after writing
+ * the order is caught by the order's own uniqueness condition.
+ */
+export interface IdempotencyRecord {
+  customer_id: string;
+  idempotency_key: string;
+  request_hash: string;
+  status: IdempotencyKeyStatus;
+  order_id: string;
+  order_ts: string;
+  locked_until: string; // ISO timestamp; only meaningful while IN_PROGRESS
+  response?: IdempotentResponse;
+  created_at: string;
+  updated_at: string;
+  ttl: number; // Epoch seconds
+}
+
+// Outcome of claiming a key
+export type IdempotencyClaim =
+  | { status: "CLAIMED"; record: IdempotencyRecord; resumed: boolean } // resumed: taken over from a lapsed attempt
+  | { status: "REPLAY"; response: IdempotentResponse }
+  | { status: "IN_PROGRESS" }
+  | { status: "MISMATCH" };
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { Money, MoneySchema } from "./money";
 
 // Inventory item schema
 export const InventoryItemSchema = z.object({
@@ -9,28 +10,111 @@ export const InventoryItemSchema = z.object({
   quantity_available: z.number().int().min(0),
   quantity_reserved: z.number().int().min(0),
   reorder_level: z.number().int().min(0),
-  unit_cost: z.number().positive(),
+  unit_cost: MoneySchema.refine((cost) => cost.amount > 0, "unit_cost must be positive"),
   updated_at: z.string(),
 });
 
 export type InventoryItem = z.infer<typeof InventoryItemSchema>;
 
-// Reservation record
+// Inventory adjustment reason codes
+export const AdjustmentReason = {
+  RECEIVING: "RECEIVING", // Stock received from a supplier (adds)
+  SHRINKAGE: "SHRINKAGE", // Theft or unexplained loss (removes)
+  DAMAGE: "DAMAGE", // Broken or spoiled stock (removes)
+  COUNT_CORRECTION: "COUNT_CORRECTION", // Physical count differs from the record (either way)
+} as const;
+
+export type AdjustmentReason = (typeof AdjustmentReason)[keyof typeof AdjustmentReason];
+
+// Reorder suggestion for a SKU whose free stock is below its reorder level
+export interface ReorderSuggestion {
+  store_id: string;
+  sku: string;
+  product_name: string;
+  quantity_free: number; // quantity_available - quantity_reserved
+  reorder_level: number;
+  suggested_quantity: number;
+  unit_cost: Money;
+  estimated_cost: Money;
+}
+
+/**
+ * Low-stock alert record (one per SKU, used to de-duplicate alerts)
+ * PK: store_sku
+ */
+export interface InventoryAlert {
+  store_sku: string;
+  alerted_at: string;
+  quantity_free: number;
+  reorder_level: number;
+  ttl: number; // Epoch seconds; the record expires after the cooldown
+}
+
+// Reservation status
+export const ReservationStatus = {
+  PENDING: "PENDING", // Held while the order is processed; released when it expires
+  CONFIRMED: "CONFIRMED", // Order confirmed; held until fulfillment
+  COMMITTED: "COMMITTED", // Order shipped; units removed from on-hand stock
+  RELEASED: "RELEASED", // Units returned to available stock
+} as const;
+
+export type ReservationStatus = (typeof ReservationStatus)[keyof typeof ReservationStatus];
+
+/**
+ * Reservation record (one row per reserved line)
+ * PK: reservation_id, SK: store_sku
+ */
 export interface Reservation {
   reservation_id: string;
   order_id: string;
   store_sku: string;
   quantity: number;
-  status: "PENDING" | "CONFIRMED" | "RELEASED";
+  status: ReservationStatus;
   created_at: string;
   expires_at: string;
+  updated_at?: string;
 }
 
-// Inventory update request
-export interface InventoryUpdateRequest {
+// Inventory update request (a reason-coded quantity adjustment)
+export const InventoryUpdateRequestSchema = z
+  .object({
+    store_id: z.string().min(1),
+    sku: z.string().min(1),
+    // Positive to add, negative to subtract
+    quantity_delta: z.number().int().refine((delta) => delta !== 0, "quantity_delta must not be zero"),
+    reason: z.nativeEnum(AdjustmentReason),
+    note: z.string().max(500).optional(),
+    expected_updated_at: z.string().min(1), // updated_at of the item as last read
+  })
+  .refine(
+    (req) => req.reason !== AdjustmentReason.RECEIVING || req.quantity_delta > 0,
+    { message: "RECEIVING adjustments must add stock", path: ["quantity_delta"] }
+  )
+  .refine(
+    (req) =>
+      (req.reason !== AdjustmentReason.SHRINKAGE && req.reason !== AdjustmentReason.DAMAGE) ||
+      req.quantity_delta < 0,
+    { message: "SHRINKAGE and DAMAGE adjustments must remove stock", path: ["quantity_delta"] }
+  );
+
+export type InventoryUpdateRequest = z.infer<typeof InventoryUpdateRequestSchema>;
+
+/**
+ * Inventory adjustment record (append-only ledger)
+ * PK: store_sku, SK: adjustment_ts_id (adjusted_at#adjustment_id)
+ */
+export interface InventoryAdjustment {
+  store_sku: string;
+  adjustment_ts_id: string;
+  adjustment_id: string;
   store_id: string;
   sku: string;
-  quantity_delta: number; // Positive to add, negative to subtract
+  reason: AdjustmentReason;
+  quantity_delta: number;
+  quantity_before: number;
+  quantity_after: number;
+  note?: string;
+  adjusted_at: string;
 }
 
 // Reservation request
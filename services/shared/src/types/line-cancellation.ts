@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { Money } from "./money";
+import { OrderStatus } from "./order";
+import { RefundStatus } from "./payment";
+
+// Statuses a line can be cancelled in (stock is still reserved, nothing has shipped)
+export const LINE_CANCELLABLE_ORDER_STATUSES: OrderStatus[] = [
+  OrderStatus.CONFIRMED,
+  OrderStatus.PROCESSING,
+  OrderStatus.PACKED,
+];
+
+// Why a line was cancelled
+export const LineCancellationReason = {
+  OUT_OF_STOCK: "OUT_OF_STOCK",
+  DAMAGED: "DAMAGED",
+  DISCONTINUED: "DISCONTINUED",
+  PRICING_ERROR: "PRICING_ERROR",
+  CUSTOMER_REQUEST: "CUSTOMER_REQUEST",
+} as const;
+
+export type LineCancellationReason = (typeof LineCancellationReason)[keyof typeof LineCancellationReason];
+
+// How a cancelled line's money goes back to the customer
+export const LinePaymentAction = {
+  REDUCE_AUTHORIZATION: "REDUCE_AUTHORIZATION", // Payment still authorized: hold the new total
+} as const;
+
+export type LinePaymentAction = (typeof LinePaymentAction)[keyof typeof LinePaymentAction];
+
+// Cancel line request (the SKU comes from the path)
+export const CancelLineRequestSchema = z.object({
+  reason_code: z.nativeEnum(LineCancellationReason),
+  note: z.string().min(1).max(500).optional(),
+});
+
+export type CancelLineRequest = z.infer<typeof CancelLineRequestSchema>;
+
+// Payment follow-up of a line cancellation, recorded PENDING before the
+// provider is called
+export interface LinePaymentAdjustment {
+  action: LinePaymentAction;
+  amount: Money; // New amount held by the authorization
+  status: RefundStatus;
+  transaction_id?: string;
+  decline_code?: string;
+  completed_at?: string;
+}
+
+// Cancellation recorded on a CANCELLED line
+export interface LineCancellation {
+  cancellation_id: string;
+  reason_code: LineCancellationReason;
+  note?: string;
+  actor: string; // kind:id of whoever cancelled the line
+  subtotal: Money; // What the line took off the order
+  tax: Money;
+  amount: Money; // subtotal + tax + the line's bottle deposit
+  payment: LinePaymentAdjustment;
+  cancelled_at: string;
+}
@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+// Rounding modes for fractional minor units
+export const RoundingMode = {
+  HALF_UP: "HALF_UP", // 0.5 rounds away from zero
+  HALF_EVEN: "HALF_EVEN", // Banker's rounding: 0.5 rounds to the even neighbour
+} as const;
+
+export type RoundingMode = (typeof RoundingMode)[keyof typeof RoundingMode];
+
+// Money schema: integer minor units (e.g. cents) plus ISO 4217 currency
+export const MoneySchema = z.object({
+  amount: z.number().int(),
+  currency: z.string().length(3),
+});
+
+export type Money = z.infer<typeof MoneySchema>;
+
+// Amount as read from storage: legacy (pre-Money) records hold float major units
+export type LegacyAmount = Money | number | string;
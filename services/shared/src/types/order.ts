@@ -1,14 +1,24 @@
 import { z } from "zod";
+import { OrderAmendment } from "./amendment";
+import { OrderFulfillment } from "./fulfillment";
+import { LineCancellation } from "./line-cancellation";
+import { Money, MoneySchema } from "./money";
+import { OrderRefund } from "./payment";
+import { ProductCategory } from "./product";
+import { TaxBreakdown } from "./tax";
 
 // Order status enum
 export const OrderStatus = {
   PENDING: "PENDING",
   CONFIRMED: "CONFIRMED",
-  PROCESSING: "PROCESSING",
+  PROCESSING: "PROCESSING", // Picked; being packed
+  PACKED: "PACKED", // Packed; waiting for the carrier
   SHIPPED: "SHIPPED",
   DELIVERED: "DELIVERED",
   CANCELLED: "CANCELLED",
   FAILED: "FAILED",
+  VERIFICATION_FAILED: "VERIFICATION_FAILED", // Buyer failed age/identity verification
+  ON_HOLD: "ON_HOLD", // Waiting on manual review
 } as const;
 
 export type OrderStatus = (typeof OrderStatus)[keyof typeof OrderStatus];
@@ -19,44 +29,86 @@ export const PaymentState = {
   AUTHORIZED: "AUTHORIZED",
   CAPTURED: "CAPTURED",
   FAILED: "FAILED",
+  VOIDED: "VOIDED",
+  PARTIALLY_REFUNDED: "PARTIALLY_REFUNDED",
   REFUNDED: "REFUNDED",
+  VOID_PENDING: "VOID_PENDING", // Order cancelled; authorization void queued
+  REFUND_PENDING: "REFUND_PENDING", // Order cancelled; refund of the capture queued
+  REVERSAL_FAILED: "REVERSAL_FAILED", // Provider declined the void or refund; needs follow-up
 } as const;
 
 export type PaymentState = (typeof PaymentState)[keyof typeof PaymentState];
 
+// Order line status
+export const OrderLineStatus = {
+  ACTIVE: "ACTIVE",
+  CANCELLED: "CANCELLED", // Kept on the order; no longer counted in its totals
+} as const;
+
+export type OrderLineStatus = (typeof OrderLineStatus)[keyof typeof OrderLineStatus];
+
 // Order item schema (full, with calculated total_price)
 export const OrderItemSchema = z.object({
   sku: z.string().min(1),
   name: z.string().min(1),
   quantity: z.number().int().positive(),
-  unit_price: z.number().positive(),
-  total_price: z.number().positive(),
+  unit_price: MoneySchema,
+  total_price: MoneySchema,
+  deposit: MoneySchema.optional(), // Bottle deposit per unit; in the total, never taxed
+  category: z.nativeEnum(ProductCategory).optional(),
+  status: z.nativeEnum(OrderLineStatus).optional(), // Absent means ACTIVE
 });
 
-export type OrderItem = z.infer<typeof OrderItemSchema>;
+export type OrderItem = z.infer<typeof OrderItemSchema> & {
+  cancellation?: LineCancellation; // Set when the line is CANCELLED
+};
 
-// Order item schema for create request (total_price calculated by handler)
+// Order item schema for create request (name and prices come from the catalog;
+// a client unit_price is only checked for drift)
 export const CreateOrderItemSchema = z.object({
   sku: z.string().min(1),
-  name: z.string().min(1),
+  name: z.string().min(1).optional(),
   quantity: z.number().int().positive(),
-  unit_price: z.number().positive(),
+  unit_price: MoneySchema.optional(),
 });
 
 export type CreateOrderItem = z.infer<typeof CreateOrderItemSchema>;
 
+// Shipping address schema
+export const ShippingAddressSchema = z.object({
+  street: z.string().min(1),
+  city: z.string().min(1),
+  state: z.string().length(2),
+  zip: z.string().min(5).max(10),
+});
+
+export type ShippingAddress = z.infer<typeof ShippingAddressSchema>;
+
 // Create order request schema (idempotency_key comes from header)
 export const CreateOrderRequestSchema = z.object({
   customer_id: z.string().min(1),
   store_id: z.string().min(1),
   county_id: z.string().min(1),
-  items: z.array(CreateOrderItemSchema).min(1),
-  shipping_address: z.object({
-    street: z.string().min(1),
-    city: z.string().min(1),
-    state: z.string().length(2),
-    zip: z.string().min(5).max(10),
-  }),
+  items: z
+    .array(CreateOrderItemSchema)
+    .min(1)
+    .superRefine((items, ctx) => {
+      // One line per SKU: quantity limits and stock are checked per line
+      const seen = new Set<string>();
+      items.forEach((item, index) => {
+        if (seen.has(item.sku)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, "sku"],
+            message: `${item.sku} is listed more than once`,
+            params: { code: "duplicate_sku" },
+          });
+        }
+        seen.add(item.sku);
+      });
+    }),
+  shipping_address: ShippingAddressSchema,
+  payment_method: z.string().min(1), // Payment provider token
 });
 
 export type CreateOrderRequest = z.infer<typeof CreateOrderRequestSchema>;
@@ -77,13 +129,24 @@ export interface Order {
 
   // Status
   status: OrderStatus;
+  status_reason?: string; // Why the order is failed or on hold
   payment_state: PaymentState;
+  payment_method?: string; // Provider token (absent on legacy orders)
+  payment_authorization_id?: string;
+  payment_capture_id?: string;
+  refunds?: OrderRefund[];
+  refunded_total?: Money; // Sum of completed refunds
+  fulfillment?: OrderFulfillment; // Store pick, pack, ship and delivery milestones
+  amendments?: OrderAmendment[]; // Changes made after the order was placed, oldest first
+  reordered_from?: string; // order_id of the past order this one repeats
 
   // Order details
   items: OrderItem[];
-  subtotal: number;
-  tax: number;
-  total: number;
+  subtotal: Money;
+  tax: Money;
+  total: Money;
+  tax_breakdown?: TaxBreakdown; // Absent on legacy/backfilled orders
+  total_volume_ml?: number; // Alcohol volume, for per-day compliance limits
 
   // Shipping
   shipping_address: {
@@ -110,13 +173,24 @@ export interface OrderById {
   customer_id: string;
   order_ts: string;
   status: OrderStatus;
+  status_reason?: string;
   payment_state: PaymentState;
+  payment_method?: string;
+  payment_authorization_id?: string;
+  payment_capture_id?: string;
+  refunds?: OrderRefund[];
+  refunded_total?: Money;
+  fulfillment?: OrderFulfillment;
+  amendments?: OrderAmendment[];
+  reordered_from?: string;
   store_id: string;
   county_id: string;
   items: OrderItem[];
-  subtotal: number;
-  tax: number;
-  total: number;
+  subtotal: Money;
+  tax: Money;
+  total: Money;
+  tax_breakdown?: TaxBreakdown;
+  total_volume_ml?: number;
   shipping_address: {
     street: string;
     city: string;
@@ -127,6 +201,21 @@ export interface OrderById {
   updated_at: string;
 }
 
+/**
+ * Order status history entry (append-only)
+ * PK: order_id, SK: changed_ts_id (changed_at#change_id)
+ */
+export interface OrderStatusChange {
+  order_id: string;
+  changed_ts_id: string;
+  change_id: string;
+  from_status: OrderStatus | null; // null when the order was created
+  to_status: OrderStatus;
+  actor: string; // kind:id, e.g. customer:CUST-001 or system:order-processor
+  reason?: string;
+  changed_at: string;
+}
+
 // API response types
 export interface OrderResponse {
   order_id: string;
@@ -134,9 +223,9 @@ export interface OrderResponse {
   status: OrderStatus;
   payment_state: PaymentState;
   items: OrderItem[];
-  subtotal: number;
-  tax: number;
-  total: number;
+  subtotal: Money;
+  tax: Money;
+  total: Money;
   created_at: string;
 }
 
@@ -144,3 +233,23 @@ export interface OrderListResponse {
   orders: OrderResponse[];
   next_token?: string;
 }
+
+// Query string for listing a store's orders (status is comma-separated)
+export const ListStoreOrdersQuerySchema = z
+  .object({
+    status: z
+      .string()
+      .transform((value) => value.split(",").map((status) => status.trim()))
+      .pipe(z.array(z.nativeEnum(OrderStatus)).min(1))
+      .optional(),
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    next_token: z.string().min(1).optional(),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must not be later than to",
+    path: ["from"],
+  });
+
+export type ListStoreOrdersQuery = z.infer<typeof ListStoreOrdersQuerySchema>;
@@ -0,0 +1,123 @@
+import { z } from "zod";
+import { Money } from "./money";
+
+// Payment provider operations (each carries its own idempotency key)
+export const PaymentOperation = {
+  AUTHORIZE: "authorize",
+  CAPTURE: "capture",
+  VOID: "void",
+  REFUND: "refund",
+  ADJUST: "adjust", // Change the amount held by an authorization
+} as const;
+
+export type PaymentOperation = (typeof PaymentOperation)[keyof typeof PaymentOperation];
+
+// Outcome of a payment provider call
+export const PaymentOutcome = {
+  APPROVED: "APPROVED",
+  DECLINED: "DECLINED",
+  CHALLENGE_REQUIRED: "CHALLENGE_REQUIRED", // Cardholder must complete a 3DS-style challenge
+} as const;
+
+export type PaymentOutcome = (typeof PaymentOutcome)[keyof typeof PaymentOutcome];
+
+// Authorize (hold) funds on a payment method
+export interface PaymentAuthorizationRequest {
+  idempotency_key: string;
+  order_id: string;
+  customer_id: string;
+  payment_method: string; // Provider token, never a raw card number
+  amount: Money;
+}
+
+// Capture a previous authorization
+export interface PaymentCaptureRequest {
+  idempotency_key: string;
+  order_id: string;
+  authorization_id: string;
+  amount: Money;
+}
+
+// Release a previous authorization without capturing it
+export interface PaymentVoidRequest {
+  idempotency_key: string;
+  order_id: string;
+  authorization_id: string;
+}
+
+// Change the amount an uncaptured authorization holds (up or down)
+export interface PaymentAdjustmentRequest {
+  idempotency_key: string;
+  order_id: string;
+  authorization_id: string;
+  amount: Money; // New amount to hold, not the difference
+}
+
+// Refund part or all of a capture
+export interface PaymentRefundRequest {
+  idempotency_key: string;
+  order_id: string;
+  capture_id: string;
+  amount: Money;
+}
+
+// Payment provider result
+export interface PaymentResult {
+  outcome: PaymentOutcome;
+  transaction_id?: string; // Authorization, capture, void or refund ID when approved
+  decline_code?: string;
+  challenge_url?: string;
+  provider: string; // Name of the provider that handled the call
+}
+
+// Refund status (recorded before the provider is called)
+export const RefundStatus = {
+  PENDING: "PENDING",
+  COMPLETED: "COMPLETED",
+  FAILED: "FAILED",
+} as const;
+
+export type RefundStatus = (typeof RefundStatus)[keyof typeof RefundStatus];
+
+// Refund request (idempotency_key comes from header); omit lines to refund
+// everything not yet refunded
+export const RefundRequestSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        sku: z.string().min(1),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1)
+    .optional(),
+  reason: z.string().min(1).max(500),
+});
+
+export type RefundRequest = z.infer<typeof RefundRequestSchema>;
+
+// Refunded quantity of an order line, with its share of the order's tax
+export interface RefundLine {
+  sku: string;
+  quantity: number;
+  amount: Money; // Pre-tax
+  tax: Money;
+  deposit?: Money; // Bottle deposit returned with the units, if the line has one
+}
+
+// Refund entry recorded on the order
+export interface OrderRefund {
+  refund_id: string;
+  idempotency_key: string;
+  status: RefundStatus;
+  lines: RefundLine[];
+  subtotal: Money;
+  tax: Money;
+  deposit?: Money; // Bottle deposits returned, if any
+  amount: Money; // subtotal + tax + deposit
+  reason: string;
+  provider_refund_id?: string;
+  decline_code?: string;
+  requested_at: string;
+  completed_at?: string;
+}
@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { Money, MoneySchema } from "./money";
+
+// Product category enum (drives tax and excise treatment)
+export const ProductCategory = {
+  BEER: "BEER",
+  WINE: "WINE",
+  SPIRITS: "SPIRITS",
+} as const;
+
+export type ProductCategory = (typeof ProductCategory)[keyof typeof ProductCategory];
+
+// Catalog product schema (source of truth for pricing)
+export const ProductSchema = z.object({
+  sku: z.string().min(1),
+  name: z.string().min(1),
+  category: z.nativeEnum(ProductCategory),
+  volume_ml: z.number().positive(), // Per unit
+  abv: z.number().min(0).max(100), // Alcohol by volume, percent
+  list_price: MoneySchema,
+  store_prices: z.record(z.string(), MoneySchema).optional(), // store_id -> price override
+  deposit: MoneySchema.optional(), // Bottle deposit per unit, where one is charged
+  active: z.boolean(),
+  updated_at: z.string(),
+});
+
+export type Product = z.infer<typeof ProductSchema>;
+
+// Reasons a line item can fail catalog pricing
+export const PricingErrorCode = {
+  SKU_NOT_FOUND: "SKU_NOT_FOUND",
+  SKU_INACTIVE: "SKU_INACTIVE",
+  PRICE_DRIFT: "PRICE_DRIFT",
+} as const;
+
+export type PricingErrorCode = (typeof PricingErrorCode)[keyof typeof PricingErrorCode];
+
+// Pricing error details for a single SKU
+export interface PricingError {
+  sku: string;
+  code: PricingErrorCode;
+  message: string;
+  submitted_price?: Money;
+  catalog_price?: Money;
+}
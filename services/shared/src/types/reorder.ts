@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { Money, MoneySchema } from "./money";
+import { OrderItem, ShippingAddress } from "./order";
+import { TaxBreakdown } from "./tax";
+
+// What happened to a past order's line when it was reordered
+export const ReorderLineStatus = {
+  UNCHANGED: "UNCHANGED",
+  PRICE_CHANGED: "PRICE_CHANGED", // Same quantity at the current catalog price
+  REDUCED: "REDUCED", // The store has fewer free units than were ordered; takes what it has
+  OUT_OF_STOCK: "OUT_OF_STOCK", // Left out: no free units at the store
+  UNAVAILABLE: "UNAVAILABLE", // Left out: no longer in the catalog or no longer sold
+} as const;
+
+export type ReorderLineStatus = (typeof ReorderLineStatus)[keyof typeof ReorderLineStatus];
+
+// Reorder request: preview by default, create the order with confirm
+export const ReorderRequestSchema = z.object({
+  confirm: z.boolean().default(false),
+  // Total shown by the preview; a confirm whose total has since moved is refused
+  expected_total: MoneySchema.optional(),
+  // Payment provider token; defaults to the past order's
+  payment_method: z.string().min(1).optional(),
+});
+
+export type ReorderRequest = z.infer<typeof ReorderRequestSchema>;
+
+// A past order's line and how it carries over
+export interface ReorderLine {
+  sku: string;
+  name: string;
+  status: ReorderLineStatus;
+  previous_quantity: number;
+  previous_unit_price: Money;
+  quantity: number; // Units on the new order (0 when left out)
+  unit_price?: Money; // Current catalog price (absent when UNAVAILABLE)
+  available?: number; // Free units at the store, when short
+}
+
+// The new order a reorder would place
+export interface ReorderPreview {
+  reordered_from: string;
+  store_id: string;
+  county_id: string;
+  lines: ReorderLine[]; // Every line of the past order, in order
+  items: OrderItem[]; // Lines of the new order, priced
+  subtotal: Money;
+  tax: Money;
+  total: Money;
+  tax_breakdown: TaxBreakdown;
+  total_volume_ml: number;
+  shipping_address: ShippingAddress;
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { Money } from "./money";
+import { OrderStatus } from "./order";
+
+// Longest window a county summary may cover
+export const MAX_SUMMARY_WINDOW_DAYS = 31;
+
+// Window a county summary covers when from is not given
+export const DEFAULT_SUMMARY_WINDOW_HOURS = 24;
+
+// Query string for a county summary (window defaults to the last 24 hours)
+export const CountySummaryQuerySchema = z
+  .object({
+    from: z.string().datetime().optional(),
+    to: z.string().datetime().optional(),
+    top: z.coerce.number().int().min(1).max(50).default(10),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "from must not be later than to",
+    path: ["from"],
+  });
+
+export type CountySummaryQuery = z.infer<typeof CountySummaryQuerySchema>;
+
+// Units and revenue of one SKU in a summary window
+export interface SkuSales {
+  sku: string;
+  name: string;
+  quantity: number;
+  revenue: Money;
+}
+
+/**
+ * Orders placed in a county over a window
+ * Revenue counts confirmed orders onward (net of refunds); pending, failed
+ * and cancelled orders only show up in the status counts.
+ */
+export interface CountyOrderSummary {
+  county_id: string;
+  from: string;
+  to: string;
+  order_count: number;
+  counts_by_status: Record<OrderStatus, number>;
+  revenue: Money;
+  average_order_value: Money;
+  top_skus: SkuSales[];
+  generated_at: string;
+}
@@ -0,0 +1,65 @@
+// Overall saga status
+export const SagaStatus = {
+  RUNNING: "RUNNING",
+  COMPLETED: "COMPLETED",
+  COMPENSATING: "COMPENSATING", // A step failed; undoing completed steps
+  COMPENSATED: "COMPENSATED", // All completed steps were undone
+} as const;
+
+export type SagaStatus = (typeof SagaStatus)[keyof typeof SagaStatus];
+
+// Per-step status
+export const SagaStepStatus = {
+  PENDING: "PENDING",
+  COMPLETED: "COMPLETED",
+  FAILED: "FAILED",
+  COMPENSATED: "COMPENSATED",
+} as const;
+
+export type SagaStepStatus = (typeof SagaStepStatus)[keyof typeof SagaStepStatus];
+
+// Output a step saves for later steps and for its own compensation
+export type SagaStepOutput = Record<string, unknown>;
+
+// Saved state of a single step
+export interface SagaStepState {
+  status: SagaStepStatus;
+  attempts: number;
+  output?: SagaStepOutput;
+  error?: string;
+  completed_at?: string;
+  compensated_at?: string;
+}
+
+/**
+ * Persisted saga state, one row per saga (keyed by the order it runs for)
+ *
+ * Saved after every step and every compensation so a redelivered
+ * message resumes where the previous attempt stopped.
+ */
+export interface SagaState {
+  saga_id: string;
+  saga_type: string;
+  status: SagaStatus;
+  steps: Record<string, SagaStepState>;
+  failed_step?: string;
+  failure_reason?: string;
+  version: number; // Optimistic concurrency
+  created_at: string;
+  updated_at: string;
+}
+
+// Result of executing a step
+export type SagaStepResult =
+  | { status: "COMPLETED"; output?: SagaStepOutput }
+  | { status: "FAILED"; reason: string; output?: SagaStepOutput } // Business failure: compensate
+  | { status: "RETRY"; reason: string }; // Transient failure: try again later
+
+// Result of running a saga
+export interface SagaRunResult {
+  status: "COMPLETED" | "FAILED" | "RETRY";
+  state: SagaState;
+  failed_step?: string;
+  reason?: string;
+  output?: SagaStepOutput; // Output of the failed step, if any
+}
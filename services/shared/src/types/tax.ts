@@ -0,0 +1,102 @@
+import { Money, RoundingMode } from "./money";
+import { ProductCategory } from "./product";
+
+// Excise rates for a product category; any combination may apply
+export interface ExciseRate {
+  per_gallon?: number; // Dollars per wine gallon
+  per_proof_gallon?: number; // Dollars per proof gallon
+  percent_of_price?: number; // Ad valorem rate, e.g. 0.14
+}
+
+// Local option tax (city, district or special-purpose levy)
+export interface LocalOptionRate {
+  name: string;
+  rate: number;
+  categories?: ProductCategory[]; // Applies to all categories when omitted
+}
+
+/**
+ * Effective-dated tax rate table for a jurisdiction (state + county)
+ *
+ * Rows are immutable: a rate change is published as a new row with a
+ * later effective_from and a higher version, so historical orders can
+ * always be reconciled against the table that priced them.
+ */
+export interface TaxRateTable {
+  jurisdiction_id: string; // Composite: state#county_id
+  effective_version: string; // Sort key: effective_from#version (see rateTableSortKey)
+  effective_from: string; // ISO timestamp
+  effective_to?: string; // Exclusive upper bound, open-ended when omitted
+  version: number;
+  state: string;
+  county_id: string;
+  state_sales_rate: number;
+  county_sales_rate: number;
+  local_option_rates: LocalOptionRate[];
+  excise: Partial<Record<ProductCategory, ExciseRate>>;
+  rounding_mode?: RoundingMode; // Defaults to HALF_UP
+}
+
+// Tax component types
+export const TaxComponentType = {
+  STATE_SALES: "STATE_SALES",
+  COUNTY_SALES: "COUNTY_SALES",
+  LOCAL_OPTION: "LOCAL_OPTION",
+  EXCISE: "EXCISE",
+} as const;
+
+export type TaxComponentType = (typeof TaxComponentType)[keyof typeof TaxComponentType];
+
+// A single tax applied to a line
+export interface TaxComponent {
+  type: TaxComponentType;
+  name: string;
+  rate: number;
+  basis: number; // Minor units, gallons or proof gallons the rate was applied to
+  amount: Money;
+}
+
+// Per-line tax breakdown
+export interface LineItemTax {
+  sku: string;
+  category: ProductCategory;
+  taxable_amount: Money;
+  components: TaxComponent[];
+  total_tax: Money;
+}
+
+// Tax breakdown stored on the order for finance reconciliation
+export interface TaxBreakdown {
+  jurisdiction_id: string;
+  rate_table_version: number;
+  rate_table_effective_from: string;
+  rounding_mode: RoundingMode;
+  lines: LineItemTax[];
+  total_tax: Money;
+  calculated_at: string;
+}
+
+// A line to be taxed
+export interface TaxableLine {
+  sku: string;
+  category: ProductCategory;
+  quantity: number;
+  volume_ml: number;
+  abv: number;
+  total_price: Money;
+}
+
+// Tax calculation request
+export interface TaxRequest {
+  state: string;
+  county_id: string;
+  as_of: string; // ISO timestamp used to select the rate table
+  lines: TaxableLine[];
+}
+
+// Tax calculation result
+export interface TaxResult {
+  success: boolean;
+  breakdown?: TaxBreakdown;
+  error?: string;
+}
@@ -0,0 +1,49 @@
+// Minimum legal drinking age (21 in every US state)
+export const LEGAL_DRINKING_AGE = 21;
+
+// Age verification outcome
+export const VerificationOutcome = {
+  VERIFIED: "VERIFIED",
+  FAILED: "FAILED", // Buyer is under age or identity did not match
+  NEEDS_REVIEW: "NEEDS_REVIEW", // Not enough information to decide automatically
+} as const;
+
+export type VerificationOutcome = (typeof VerificationOutcome)[keyof typeof VerificationOutcome];
+
+// Age verification request
+export interface AgeVerificationRequest {
+  customer_id: string;
+  date_of_birth?: string; // YYYY-MM-DD from the customer profile
+  shipping_state: string;
+  minimum_age: number;
+  as_of: string; // ISO timestamp the age is evaluated at
+}
+
+// Age verification result
+export interface AgeVerificationResult {
+  outcome: VerificationOutcome;
+  reason?: string;
+  verifier: string; // Name of the verifier that made the decision
+  reference?: string; // Provider reference for third-party checks
+}
+
+/**
+ * Age verification audit record
+ *
+ * One row per verification attempt, kept for compliance audits. The date
+ * of birth itself is not copied here; the computed age is enough to show
+ * why a decision was made.
+ */
+export interface AgeVerificationRecord {
+  order_id: string;
+  verified_at: string; // ISO timestamp (sort key)
+  verification_id: string;
+  customer_id: string;
+  outcome: VerificationOutcome;
+  reason?: string;
+  verifier: string;
+  reference?: string;
+  minimum_age: number;
+  customer_age?: number;
+  shipping_state: string;
+}
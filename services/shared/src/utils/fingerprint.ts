@@ -0,0 +1,59 @@
+import { createHash } from "crypto";
+
+/**
+ * Serialize a value to canonical JSON
+ *
+ * Equal data always serializes to the same string, however it was built:
+ * object keys are sorted at every depth, strings are Unicode NFC
+ * normalized, -0 is written as 0, and undefined object members are
+ * dropped (as JSON.stringify does). Values JSON cannot represent
+ * faithfully (NaN, Infinity, bigint, functions, symbols) are rejected
+ * rather than silently turned into null.
+ */
+export function canonicalJson(value: unknown): string {
+  return serialize(value, "$");
+}
+
+/**
+ * SHA-256 fingerprint (hex) of a value's canonical JSON
+ * Used for request hashes, notification IDs and event IDs.
+ */
+export function fingerprint(value: unknown): string {
+  return createHash("sha256").update(canonicalJson(value), "utf8").digest("hex");
+}
+
+function serialize(value: unknown, path: string): string {
+  if (value === null) {
+    return "null";
+  }
+
+  // Dates and other values that define their own JSON form
+  if (typeof value === "object" && typeof (value as { toJSON?: unknown }).toJSON === "function") {
+    return serialize((value as { toJSON: () => unknown }).toJSON(), path);
+  }
+
+  switch (typeof value) {
+    case "boolean":
+      return value ? "true" : "false";
+    case "number":
+      if (!Number.isFinite(value)) {
+        throw new TypeError(`Cannot fingerprint non-finite number at ${path}`);
+      }
+      return JSON.stringify(Object.is(value, -0) ? 0 : value);
+    case "string":
+      return JSON.stringify(value.normalize("NFC"));
+    case "object":
+      if (Array.isArray(value)) {
+        // Array holes and undefined entries become null, as in JSON.stringify
+        return `[${Array.from(value, (item, i) => serialize(item ?? null, `${path}[${i}]`)).join(",")}]`;
+      }
+      return `{${Object.keys(value as object)
+        .map((key) => [key.normalize("NFC"), (value as Record<string, unknown>)[key]] as const)
+        .filter(([, member]) => member !== undefined)
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .map(([key, member]) => `${JSON.stringify(key)}:${serialize(member, `${path}.${key}`)}`)
+        .join(",")}}`;
+    default:
+      throw new TypeError(`Cannot fingerprint ${typeof value} at ${path}`);
+  }
+}
@@ -29,33 +29,28 @@ export function parseOrderSortKey(sortKey: string): {
 }
 
 /**
- * Validate idempotency key format
- * Should be a non-empty string, typically UUID or similar
+ * Saga ID for an order's cancellation follow-ups
+ * Kept apart from the order processing saga, which is keyed by order_id.
  */
-export function isValidIdempotencyKey(key: string): boolean {
-  return typeof key === "string" && key.length >= 8 && key.length <= 128;
+export function cancellationSagaId(orderId: string): string {
+  return `${orderId}#cancel`;
 }
 
 /**
- * Create a hash for idempotency based on request data
- * Used to detect duplicate requests with same idempotency key but different data
+ * Validate idempotency key format
+ * Should be a non-empty string, typically UUID or similar
  */
-export function hashRequestData(data: unknown): string {
-  const json = JSON.stringify(data, Object.keys(data as object).sort());
-  let hash = 0;
-  for (let i = 0; i < json.length; i++) {
-    const char = json.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32bit integer
-  }
-  return Math.abs(hash).toString(16);
+export function isValidIdempotencyKey(key: string): boolean {
+  return typeof key === "string" && key.length >= 8 && key.length <= 128;
 }
 
 /**
- * Generate a reservation ID
+ * Reservation ID for an order's stock hold
+ * Derived from the order ID, so a retried reservation reads, and its
+ * conditional writes collide with, whatever an earlier attempt wrote.
  */
-export function generateReservationId(): string {
-  return `RES-${ulid()}`;
+export function orderReservationId(orderId: string): string {
+  return `RES-${orderId}`;
 }
 
 /**
@@ -65,3 +60,45 @@ export function generateReservationId(): string {
 export function calculateTTL(minutes: number): number {
   return Math.floor(Date.now() / 1000) + minutes * 60;
 }
+
+/**
+ * Generate an age verification ID
+ */
+export function generateVerificationId(): string {
+  return `VER-${ulid()}`;
+}
+
+/**
+ * Generate an inventory adjustment ID
+ */
+export function generateAdjustmentId(): string {
+  return `ADJ-${ulid()}`;
+}
+
+/**
+ * Generate a refund ID
+ */
+export function generateRefundId(): string {
+  return `REF-${ulid()}`;
+}
+
+/**
+ * Generate an order status change ID
+ */
+export function generateStatusChangeId(): string {
+  return `STC-${ulid()}`;
+}
+
+/**
+ * Generate an order amendment ID
+ */
+export function generateAmendmentId(): string {
+  return `AMD-${ulid()}`;
+}
+
+/**
+ * Generate an order line cancellation ID
+ */
+export function generateLineCancellationId(): string {
+  return `LCN-${ulid()}`;
+}
@@ -0,0 +1,196 @@
+import { LegacyAmount, Money, RoundingMode } from "../types/money";
+
+export const DEFAULT_CURRENCY = "USD";
+
+// Minor unit exponent per currency (defaults to 2)
+const CURRENCY_EXPONENTS: Record<string, number> = {
+  USD: 2,
+};
+
+// Significant digits kept when cleaning float noise (e.g. 1080.0000000000001)
+const FLOAT_PRECISION = 12;
+
+/**
+ * Get the minor unit exponent for a currency
+ */
+export function currencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[currency] ?? 2;
+}
+
+/**
+ * Create a Money value from integer minor units
+ */
+export function money(amount: number, currency: string = DEFAULT_CURRENCY): Money {
+  if (!Number.isInteger(amount)) {
+    throw new Error(`Money amount must be an integer number of minor units, got ${amount}`);
+  }
+  return { amount, currency };
+}
+
+/**
+ * Zero in the given currency
+ */
+export function zeroMoney(currency: string = DEFAULT_CURRENCY): Money {
+  return money(0, currency);
+}
+
+/**
+ * Round a fractional minor-unit value to an integer
+ */
+export function roundMinorUnits(
+  value: number,
+  mode: RoundingMode = RoundingMode.HALF_UP
+): number {
+  // Strip binary float noise before deciding which way to round
+  const cleaned = Number(value.toPrecision(FLOAT_PRECISION));
+  const sign = cleaned < 0 ? -1 : 1;
+  const abs = Math.abs(cleaned);
+  const floor = Math.floor(abs);
+  const fraction = abs - floor;
+
+  let rounded: number;
+  if (Math.abs(fraction - 0.5) < 1e-9) {
+    rounded = mode === RoundingMode.HALF_EVEN && floor % 2 === 0 ? floor : floor + 1;
+  } else {
+    rounded = Math.round(abs);
+  }
+
+  return sign * rounded || 0;
+}
+
+/**
+ * Convert a major-unit number (e.g. dollars) to Money
+ */
+export function fromMajorUnits(
+  value: number,
+  currency: string = DEFAULT_CURRENCY,
+  mode: RoundingMode = RoundingMode.HALF_UP
+): Money {
+  return money(roundMinorUnits(value * 10 ** currencyExponent(currency), mode), currency);
+}
+
+/**
+ * Parse a decimal string (e.g. SQL NUMERIC "12.34") to Money without float math
+ */
+export function fromDecimalString(
+  value: string,
+  currency: string = DEFAULT_CURRENCY
+): Money {
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ""] = match;
+  const exponent = currencyExponent(currency);
+  const padded = fraction.padEnd(exponent, "0");
+  let minor = parseInt(whole + padded.slice(0, exponent), 10);
+
+  // Round any extra precision half-up
+  if (padded.length > exponent && parseInt(padded[exponent], 10) >= 5) {
+    minor += 1;
+  }
+
+  return money(sign === "-" ? -minor : minor, currency);
+}
+
+/**
+ * Convert Money to a major-unit number (for display, SQL and analytics only)
+ */
+export function toMajorUnits(value: Money): number {
+  return value.amount / 10 ** currencyExponent(value.currency);
+}
+
+/**
+ * Format Money as a fixed-point decimal string, e.g. "12.34"
+ */
+export function toDecimalString(value: Money): string {
+  const exponent = currencyExponent(value.currency);
+  const sign = value.amount < 0 ? "-" : "";
+  const digits = Math.abs(value.amount).toString().padStart(exponent + 1, "0");
+  if (exponent === 0) {
+    return `${sign}${digits}`;
+  }
+  return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+}
+
+/**
+ * Read-compat: normalize a stored amount to Money
+ * Legacy records (backfilled from SQL or written before Money existed)
+ * hold float or string major units.
+ */
+export function toMoney(
+  value: LegacyAmount | null | undefined,
+  currency: string = DEFAULT_CURRENCY
+): Money {
+  if (value === null || value === undefined) {
+    return zeroMoney(currency);
+  }
+  if (typeof value === "number") {
+    return fromMajorUnits(value, currency);
+  }
+  if (typeof value === "string") {
+    return fromDecimalString(value, currency);
+  }
+  return money(value.amount, value.currency);
+}
+
+/**
+ * Check that two amounts share a currency
+ */
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} vs ${b.currency}`);
+  }
+}
+
+/**
+ * Add Money values
+ */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+/**
+ * Subtract Money values (a - b)
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+/**
+ * Multiply Money by an integer quantity
+ */
+export function multiplyMoney(value: Money, quantity: number): Money {
+  if (!Number.isInteger(quantity)) {
+    throw new Error(`Quantity must be an integer, got ${quantity}`);
+  }
+  return money(value.amount * quantity, value.currency);
+}
+
+/**
+ * Apply a rate (e.g. a tax rate) to Money, rounding to minor units
+ */
+export function applyRate(
+  value: Money,
+  rate: number,
+  mode: RoundingMode = RoundingMode.HALF_UP
+): Money {
+  return money(roundMinorUnits(value.amount * rate, mode), value.currency);
+}
+
+/**
+ * Sum a list of Money values
+ */
+export function sumMoney(values: Money[], currency: string = DEFAULT_CURRENCY): Money {
+  return values.reduce((sum, value) => addMoney(sum, value), zeroMoney(currency));
+}
+
+/**
+ * Compare Money values for equality
+ */
+export function moneyEquals(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.amount === b.amount;
+}
@@ -0,0 +1,161 @@
+import { GetSecretValueCommand, SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+// Token format version; bump when the payload changes
+export const PAGINATION_TOKEN_VERSION = 1;
+
+// How long a next token stays valid
+export const PAGINATION_TOKEN_TTL_SECONDS = 60 * 60;
+
+// Why a next token was refused
+export const PaginationTokenFault = {
+  MALFORMED: "MALFORMED",
+  BAD_SIGNATURE: "BAD_SIGNATURE",
+  UNSUPPORTED_VERSION: "UNSUPPORTED_VERSION",
+  EXPIRED: "EXPIRED",
+  WRONG_QUERY: "WRONG_QUERY", // Issued for another partition or other filters
+} as const;
+
+export type PaginationTokenFault = (typeof PaginationTokenFault)[keyof typeof PaginationTokenFault];
+
+/**
+ * Thrown when a client sends a next token we did not issue for this query,
+ * or one that has expired
+ */
+export class PaginationTokenError extends Error {
+  constructor(public readonly fault: PaginationTokenFault, message: string) {
+    super(message);
+    this.name = "PaginationTokenError";
+  }
+}
+
+/**
+ * The query a token continues
+ * A token only decodes for the same list, partition and filters it was
+ * issued for, so a client cannot swap in another customer's partition.
+ */
+export interface PaginationScope {
+  query: string; // Which list, e.g. orders-by-customer
+  partition: string; // Partition key value the query reads
+  filters?: Record<string, unknown>;
+}
+
+interface PaginationTokenPayload {
+  v: number;
+  k: Record<string, unknown>; // DynamoDB LastEvaluatedKey
+  s: string; // Digest of the scope
+  exp: number; // Epoch seconds
+}
+
+// Signing key, fetched once per container
+let signingKeyPromise: Promise<string> | null = null;
+
+async function fetchSigningKey(): Promise<string> {
+  const secretArn = process.env.PAGINATION_TOKEN_SECRET_ARN;
+  if (!secretArn) {
+    throw new Error("PAGINATION_TOKEN_SECRET_ARN is not set");
+  }
+
+  const client = new SecretsManagerClient({ region: process.env.AWS_REGION ?? "us-east-1" });
+  const result = await client.send(new GetSecretValueCommand({ SecretId: secretArn }));
+  if (!result.SecretString) {
+    throw new Error("Pagination token secret is empty");
+  }
+  return result.SecretString;
+}
+
+function signingKey(): Promise<string> {
+  if (!signingKeyPromise) {
+    // Forget a failed fetch so the next request tries again
+    signingKeyPromise = fetchSigningKey().catch((error) => {
+      signingKeyPromise = null;
+      throw error;
+    });
+  }
+  return signingKeyPromise;
+}
+
+function scopeDigest(scope: PaginationScope): string {
+  return createHash("sha256")
+    .update(JSON.stringify([scope.query, scope.partition, scope.filters ?? {}]))
+    .digest("base64url");
+}
+
+async function sign(payload: string): Promise<Buffer> {
+  return createHmac("sha256", await signingKey()).update(payload).digest();
+}
+
+/**
+ * Turn a LastEvaluatedKey into an opaque, signed next token
+ * Format: base64url(payload).base64url(HMAC-SHA256(payload))
+ */
+export async function encodePaginationToken(
+  lastKey: Record<string, unknown> | undefined,
+  scope: PaginationScope,
+  now: number = Date.now()
+): Promise<string | undefined> {
+  if (!lastKey) {
+    return undefined;
+  }
+
+  const payload: PaginationTokenPayload = {
+    v: PAGINATION_TOKEN_VERSION,
+    k: lastKey,
+    s: scopeDigest(scope),
+    exp: Math.floor(now / 1000) + PAGINATION_TOKEN_TTL_SECONDS,
+  };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+  return `${encoded}.${(await sign(encoded)).toString("base64url")}`;
+}
+
+/**
+ * Check a next token and return the ExclusiveStartKey it carries
+ * Throws PaginationTokenError if it was altered, issued for another
+ * query, or has expired.
+ */
+export async function decodePaginationToken(
+  token: string | undefined,
+  scope: PaginationScope,
+  now: number = Date.now()
+): Promise<Record<string, unknown> | undefined> {
+  if (!token) {
+    return undefined;
+  }
+
+  const [encoded, signature, ...rest] = token.split(".");
+  if (!encoded || !signature || rest.length > 0) {
+    throw new PaginationTokenError(PaginationTokenFault.MALFORMED, "next_token is malformed");
+  }
+
+  const expected = await sign(encoded);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new PaginationTokenError(PaginationTokenFault.BAD_SIGNATURE, "next_token signature is invalid");
+  }
+
+  let payload: PaginationTokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+  } catch {
+    throw new PaginationTokenError(PaginationTokenFault.MALFORMED, "next_token is malformed");
+  }
+
+  if (payload.v !== PAGINATION_TOKEN_VERSION) {
+    throw new PaginationTokenError(
+      PaginationTokenFault.UNSUPPORTED_VERSION,
+      `next_token version ${payload.v} is not supported`
+    );
+  }
+  if (payload.exp < Math.floor(now / 1000)) {
+    throw new PaginationTokenError(PaginationTokenFault.EXPIRED, "next_token has expired; start from the first page");
+  }
+  if (payload.s !== scopeDigest(scope)) {
+    throw new PaginationTokenError(
+      PaginationTokenFault.WRONG_QUERY,
+      "next_token belongs to a different query; start from the first page"
+    );
+  }
+
+  return payload.k;
+}
@@ -1,4 +1,4 @@
-import { z, ZodError, ZodSchema } from "zod";
+import { z, ZodError, ZodSchema, ZodType, ZodTypeDef } from "zod";
 
 /**
  * Validation result type
@@ -20,9 +20,10 @@ export interface ValidationError {
 
 /**
  * Validate data against a Zod schema
+ * The schema may transform its input, so only its output type is fixed.
  */
 export function validate<T>(
-  schema: ZodSchema<T>,
+  schema: ZodType<T, ZodTypeDef, unknown>,
   data: unknown
 ): ValidationResult<T> {
   try {
@@ -33,7 +34,8 @@ export function validate<T>(
       const errors: ValidationError[] = error.errors.map((e) => ({
         field: e.path.join("."),
         message: e.message,
-        code: e.code,
+        // Refinements name their own code, e.g. duplicate_sku
+        code: e.code === "custom" && e.params?.code ? String(e.params.code) : e.code,
       }));
       return { success: false, errors };
     }
@@ -91,7 +93,7 @@ export function formatValidationErrors(errors: ValidationError[]): {
  * API Gateway event body parser with validation
  */
 export function parseAndValidateBody<T>(
-  schema: ZodSchema<T>,
+  schema: ZodType<T, ZodTypeDef, unknown>,
   body: string | null | undefined
 ): ValidationResult<T> {
   if (!body) {
@@ -118,7 +120,7 @@ export function parseAndValidateBody<T>(
  * Validate query string parameters
  */
 export function parseQueryParams<T>(
-  schema: ZodSchema<T>,
+  schema: ZodType<T, ZodTypeDef, unknown>,
   params: Record<string, string | undefined> | null
 ): ValidationResult<T> {
   if (!params) {
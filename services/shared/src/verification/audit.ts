@@ -0,0 +1,21 @@
+import { PutCommand } from "@aws-sdk/lib-dynamodb";
+import { getDocumentClient, TableNames } from "../dynamodb/client";
+import { AgeVerificationRecord } from "../types/verification";
+
+/**
+ * Record an age verification attempt for compliance audits
+ * Records are append-only; each attempt gets its own row.
+ */
+export async function recordAgeVerification(
+  record: AgeVerificationRecord
+): Promise<void> {
+  const client = getDocumentClient();
+
+  await client.send(
+    new PutCommand({
+      TableName: TableNames.AGE_VERIFICATIONS,
+      Item: record,
+      ConditionExpression: "attribute_not_exists(order_id)",
+    })
+  );
+}
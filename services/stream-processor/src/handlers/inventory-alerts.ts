@@ -0,0 +1,110 @@
+import {
+  DynamoDBStreamEvent,
+  DynamoDBRecord,
+  DynamoDBBatchResponse,
+  DynamoDBBatchItemFailure,
+} from "aws-lambda";
+import { unmarshall } from "@aws-sdk/util-dynamodb";
+import { AttributeValue } from "@aws-sdk/client-dynamodb";
+import {
+  EventDetailTypes,
+  InventoryItem,
+  InventoryLowEvent,
+  claimLowStockAlert,
+  fingerprint,
+  freeStock,
+  isLowStock,
+  normalizeInventoryItem,
+  releaseLowStockAlert,
+  suggestReorder,
+} from "@acme-liquors/shared";
+import { publishEvents } from "../publish";
+
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
+const EVENT_SOURCE = "acme.inventory";
+
+/**
+ * Process inventory table streams and publish low-stock alerts
+ *
+ * A SKU alerts when its free stock (available - reserved) drops below
+ * its reorder level. Alerts are de-duplicated per SKU: only the crossing
+ * raises one, and a claim in the alerts table suppresses repeats within
+ * the cooldown (including redelivered records).
+ */
+export async function handler(
+  event: DynamoDBStreamEvent
+): Promise<DynamoDBBatchResponse> {
+  const batchItemFailures: DynamoDBBatchItemFailure[] = [];
+
+  for (const record of event.Records) {
+    try {
+      await processRecord(record);
+    } catch (error) {
+      console.error("Error processing inventory record:", record.eventID, error);
+      if (record.eventID) {
+        batchItemFailures.push({ itemIdentifier: record.eventID });
+      }
+    }
+  }
+
+  return { batchItemFailures };
+}
+
+async function processRecord(record: DynamoDBRecord): Promise<void> {
+  const newImage = readImage(record.dynamodb?.NewImage);
+  const oldImage = readImage(record.dynamodb?.OldImage);
+
+  // Only a drop below the reorder level alerts, not every write while low
+  if (!newImage || !isLowStock(newImage) || (oldImage && isLowStock(oldImage))) {
+    return;
+  }
+
+  const alert = await claimLowStockAlert(newImage);
+  if (!alert) {
+    console.log("Low-stock alert suppressed (cooldown):", newImage.store_sku);
+    return;
+  }
+
+  const timestamp = new Date().toISOString();
+  const detail: InventoryLowEvent = {
+    event_id: fingerprint({
+      detail_type: EventDetailTypes.INVENTORY_LOW,
+      store_sku: alert.store_sku,
+      alerted_at: alert.alerted_at,
+    }),
+    event_type: "INVENTORY_LOW",
+    store_id: newImage.store_id,
+    sku: newImage.sku,
+    product_name: newImage.product_name,
+    quantity_available: newImage.quantity_available,
+    quantity_reserved: newImage.quantity_reserved,
+    quantity_free: freeStock(newImage),
+    reorder_level: newImage.reorder_level,
+    suggested_quantity: suggestReorder(newImage)!.suggested_quantity,
+    timestamp,
+  };
+
+  try {
+    await publishEvents([
+      {
+        EventBusName: EVENT_BUS_NAME,
+        Source: EVENT_SOURCE,
+        DetailType: EventDetailTypes.INVENTORY_LOW,
+        Time: new Date(timestamp),
+        Detail: JSON.stringify(detail),
+      },
+    ]);
+  } catch (error) {
+    // Let the retried record claim the alert again
+    await releaseLowStockAlert(alert);
+    throw error;
+  }
+
+  console.log("Low-stock alert published:", newImage.store_sku, detail.quantity_free);
+}
+
+function readImage(image: unknown): InventoryItem | null {
+  return image
+    ? normalizeInventoryItem(unmarshall(image as Record<string, AttributeValue>))
+    : null;
+}
@@ -0,0 +1,86 @@
+import { PutEventsRequestEntry } from "@aws-sdk/client-eventbridge";
+import {
+  EventDetailTypes,
+  InventoryReorderReportEvent,
+  ReorderSuggestion,
+  fingerprint,
+  scanInventory,
+  suggestReorder,
+} from "@acme-liquors/shared";
+import { publishEvents } from "../publish";
+
+const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
+const EVENT_SOURCE = "acme.inventory";
+
+// Keeps each event well under EventBridge's 256 KB entry limit
+const SUGGESTIONS_PER_EVENT = 50;
+
+interface ReorderReportResponse {
+  stores: number;
+  suggestions: number;
+}
+
+/**
+ * Publish the daily per-store reorder suggestion report (scheduled)
+ *
+ * Scans inventory for SKUs whose free stock is below their reorder level
+ * and publishes one Inventory Reorder Report event per store (split into
+ * parts for large stores), sorted by SKU.
+ */
+export async function handler(): Promise<ReorderReportResponse> {
+  const timestamp = new Date().toISOString();
+  const reportDate = timestamp.slice(0, 10);
+  const byStore = new Map<string, ReorderSuggestion[]>();
+
+  for await (const page of scanInventory()) {
+    for (const item of page) {
+      const suggestion = suggestReorder(item);
+      if (suggestion) {
+        byStore.set(item.store_id, [...(byStore.get(item.store_id) ?? []), suggestion]);
+      }
+    }
+  }
+
+  const entries: PutEventsRequestEntry[] = [];
+  let total = 0;
+
+  for (const [storeId, suggestions] of byStore) {
+    suggestions.sort((a, b) => a.sku.localeCompare(b.sku));
+    total += suggestions.length;
+
+    const totalParts = Math.ceil(suggestions.length / SUGGESTIONS_PER_EVENT);
+    for (let part = 0; part < totalParts; part++) {
+      const partSuggestions = suggestions.slice(part * SUGGESTIONS_PER_EVENT, (part + 1) * SUGGESTIONS_PER_EVENT);
+      const detail: InventoryReorderReportEvent = {
+        // A rerun reporting the same suggestions republishes the same event
+        event_id: fingerprint({
+          detail_type: EventDetailTypes.INVENTORY_REORDER_REPORT,
+          store_id: storeId,
+          report_date: reportDate,
+          part: part + 1,
+          suggestions: partSuggestions,
+        }),
+        event_type: "INVENTORY_REORDER_REPORT",
+        store_id: storeId,
+        report_date: reportDate,
+        part: part + 1,
+        total_parts: totalParts,
+        suggestions: partSuggestions,
+        timestamp,
+      };
+
+      entries.push({
+        EventBusName: EVENT_BUS_NAME,
+        Source: EVENT_SOURCE,
+        DetailType: EventDetailTypes.INVENTORY_REORDER_REPORT,
+        Time: new Date(timestamp),
+        Detail: JSON.stringify(detail),
+      });
+    }
+  }
+
+  await publishEvents(entries);
+
+  console.log(`Reorder report ${reportDate}: ${total} suggestions across ${byStore.size} stores`);
+  return { stores: byStore.size, suggestions: total };
+}
@@ -4,16 +4,14 @@ import {
   DynamoDBBatchResponse,
   DynamoDBBatchItemFailure,
 } from "aws-lambda";
-import {
-  EventBridgeClient,
-  PutEventsCommand,
-  PutEventsRequestEntry,
-} from "@aws-sdk/client-eventbridge";
+import { PutEventsRequestEntry } from "@aws-sdk/client-eventbridge";
 import { unmarshall } from "@aws-sdk/util-dynamodb";
 import { AttributeValue } from "@aws-sdk/client-dynamodb";
-import { Order, OrderStatus } from "@acme-liquors/shared";
+import { Order, OrderStatus, fingerprint, isActiveLine, normalizeOrderAmounts } from "@acme-liquors/shared";
+import { applyInventoryLifecycle } from "../inventory-lifecycle";
+import { applyPaymentLifecycle } from "../payment-lifecycle";
+import { publishEvents } from "../publish";
 
-const eventBridgeClient = new EventBridgeClient({});
 const EVENT_BUS_NAME = process.env.EVENT_BUS_NAME!;
 const EVENT_SOURCE = "acme.orders";
 
@@ -21,7 +19,10 @@ const EVENT_SOURCE = "acme.orders";
  * Process DynamoDB Streams and publish domain events to EventBridge
  *
  * This handler transforms low-level DynamoDB change events into
- * business-meaningful domain events for downstream consumers.
+ * business-meaningful domain events for downstream consumers, and applies
+ * the inventory and payment side effects of status changes (commit stock
+ * and capture payment on ship, release stock on cancel/fail) before the
+ * record's events are published.
  */
 export async function handler(
   event: DynamoDBStreamEvent
@@ -31,7 +32,13 @@ export async function handler(
 
   for (const record of event.Records) {
     try {
-      const domainEvents = transformToDomainEvents(record);
+      const images = readImages(record);
+      if (record.eventName === "MODIFY") {
+        await applyInventoryLifecycle(images.oldImage, images.newImage);
+        await applyPaymentLifecycle(images.oldImage, images.newImage);
+      }
+
+      const domainEvents = transformToDomainEvents(record, images);
       eventsToPublish.push(...domainEvents);
     } catch (error) {
       console.error("Error processing record:", record.eventID, error);
@@ -59,10 +66,33 @@ export async function handler(
   return { batchItemFailures };
 }
 
+interface OrderImages {
+  oldImage: Order | null;
+  newImage: Order | null;
+}
+
+/**
+ * Read the old and new order images from a DynamoDB Stream record
+ */
+function readImages(record: DynamoDBRecord): OrderImages {
+  const newImage = record.dynamodb?.NewImage
+    ? normalizeOrderAmounts<Order>(unmarshall(record.dynamodb.NewImage as Record<string, AttributeValue>))
+    : null;
+
+  const oldImage = record.dynamodb?.OldImage
+    ? normalizeOrderAmounts<Order>(unmarshall(record.dynamodb.OldImage as Record<string, AttributeValue>))
+    : null;
+
+  return { oldImage, newImage };
+}
+
 /**
  * Transform a DynamoDB Stream record into domain events
  */
-function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[] {
+function transformToDomainEvents(
+  record: DynamoDBRecord,
+  { oldImage, newImage }: OrderImages
+): PutEventsRequestEntry[] {
   const events: PutEventsRequestEntry[] = [];
   const eventName = record.eventName;
   const timestamp = new Date().toISOString();
@@ -71,13 +101,10 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
     return events;
   }
 
-  const newImage = record.dynamodb.NewImage
-    ? (unmarshall(record.dynamodb.NewImage as Record<string, AttributeValue>) as Order)
-    : null;
-
-  const oldImage = record.dynamodb.OldImage
-    ? (unmarshall(record.dynamodb.OldImage as Record<string, AttributeValue>) as Order)
-    : null;
+  // A redelivered stream record has the same sequence number, so its events keep their IDs
+  const orderId = (newImage ?? oldImage)?.order_id;
+  const eventId = (detailType: string) =>
+    fingerprint({ detail_type: detailType, order_id: orderId, sequence_number: record.dynamodb?.SequenceNumber });
 
   switch (eventName) {
     case "INSERT":
@@ -88,6 +115,7 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
           DetailType: "Order Created",
           Time: new Date(timestamp),
           Detail: JSON.stringify({
+            event_id: eventId("Order Created"),
             event_type: "ORDER_CREATED",
             order_id: newImage.order_id,
             customer_id: newImage.customer_id,
@@ -112,6 +140,7 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
             DetailType: "Order Status Changed",
             Time: new Date(timestamp),
             Detail: JSON.stringify({
+              event_id: eventId("Order Status Changed"),
               event_type: "ORDER_STATUS_CHANGED",
               order_id: newImage.order_id,
               customer_id: newImage.customer_id,
@@ -132,6 +161,7 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
               DetailType: "Order Confirmed",
               Time: new Date(timestamp),
               Detail: JSON.stringify({
+                event_id: eventId("Order Confirmed"),
                 event_type: "ORDER_CONFIRMED",
                 order_id: newImage.order_id,
                 customer_id: newImage.customer_id,
@@ -152,6 +182,7 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
               DetailType: "Order Cancelled",
               Time: new Date(timestamp),
               Detail: JSON.stringify({
+                event_id: eventId("Order Cancelled"),
                 event_type: "ORDER_CANCELLED",
                 order_id: newImage.order_id,
                 customer_id: newImage.customer_id,
@@ -163,6 +194,42 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
             });
           }
 
+          if (newImage.status === OrderStatus.PROCESSING) {
+            events.push({
+              EventBusName: EVENT_BUS_NAME,
+              Source: EVENT_SOURCE,
+              DetailType: "Order Picked",
+              Time: new Date(timestamp),
+              Detail: JSON.stringify({
+                event_id: eventId("Order Picked"),
+                event_type: "ORDER_PICKED",
+                order_id: newImage.order_id,
+                customer_id: newImage.customer_id,
+                store_id: newImage.store_id,
+                picked_by: newImage.fulfillment?.picked_by,
+                timestamp,
+              }),
+            });
+          }
+
+          if (newImage.status === OrderStatus.PACKED) {
+            events.push({
+              EventBusName: EVENT_BUS_NAME,
+              Source: EVENT_SOURCE,
+              DetailType: "Order Packed",
+              Time: new Date(timestamp),
+              Detail: JSON.stringify({
+                event_id: eventId("Order Packed"),
+                event_type: "ORDER_PACKED",
+                order_id: newImage.order_id,
+                customer_id: newImage.customer_id,
+                store_id: newImage.store_id,
+                packed_by: newImage.fulfillment?.packed_by,
+                timestamp,
+              }),
+            });
+          }
+
           if (newImage.status === OrderStatus.SHIPPED) {
             events.push({
               EventBusName: EVENT_BUS_NAME,
@@ -170,31 +237,114 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
               DetailType: "Order Shipped",
               Time: new Date(timestamp),
               Detail: JSON.stringify({
+                event_id: eventId("Order Shipped"),
                 event_type: "ORDER_SHIPPED",
                 order_id: newImage.order_id,
                 customer_id: newImage.customer_id,
                 store_id: newImage.store_id,
+                carrier: newImage.fulfillment?.carrier,
+                tracking_number: newImage.fulfillment?.tracking_number,
                 shipping_address: newImage.shipping_address,
                 timestamp,
               }),
             });
           }
+
+          if (newImage.status === OrderStatus.DELIVERED) {
+            events.push({
+              EventBusName: EVENT_BUS_NAME,
+              Source: EVENT_SOURCE,
+              DetailType: "Order Delivered",
+              Time: new Date(timestamp),
+              Detail: JSON.stringify({
+                event_id: eventId("Order Delivered"),
+                event_type: "ORDER_DELIVERED",
+                order_id: newImage.order_id,
+                customer_id: newImage.customer_id,
+                store_id: newImage.store_id,
+                delivered_by: newImage.fulfillment?.delivered_by,
+                proof_of_delivery_type: newImage.fulfillment?.proof_of_delivery?.type,
+                id_check: newImage.fulfillment?.id_check,
+                timestamp,
+              }),
+            });
+          }
+        }
+
+        // Each amendment is appended to the order in its own write
+        const amendment = newImage.amendments?.[newImage.amendments.length - 1];
+        if (amendment && (newImage.amendments?.length ?? 0) > (oldImage.amendments?.length ?? 0)) {
+          events.push({
+            EventBusName: EVENT_BUS_NAME,
+            Source: EVENT_SOURCE,
+            DetailType: "Order Amended",
+            Time: new Date(timestamp),
+            Detail: JSON.stringify({
+              event_id: eventId("Order Amended"),
+              event_type: "ORDER_AMENDED",
+              order_id: newImage.order_id,
+              customer_id: newImage.customer_id,
+              store_id: newImage.store_id,
+              county_id: newImage.county_id,
+              status: newImage.status,
+              amendment_id: amendment.amendment_id,
+              amended_by: amendment.actor,
+              reason: amendment.reason,
+              diff: amendment.diff,
+              timestamp,
+            }),
+          });
         }
 
-        // Check for payment state change
-        if (newImage.payment_state !== oldImage.payment_state) {
+        // Lines this write cancelled
+        for (const line of newImage.items ?? []) {
+          const before = oldImage.items?.find((item) => item.sku === line.sku);
+          if (!line.cancellation || isActiveLine(line) || !before || !isActiveLine(before)) {
+            continue;
+          }
+          events.push({
+            EventBusName: EVENT_BUS_NAME,
+            Source: EVENT_SOURCE,
+            DetailType: "Order Line Cancelled",
+            Time: new Date(timestamp),
+            Detail: JSON.stringify({
+              event_id: eventId(`Order Line Cancelled#${line.sku}`),
+              event_type: "ORDER_LINE_CANCELLED",
+              order_id: newImage.order_id,
+              customer_id: newImage.customer_id,
+              store_id: newImage.store_id,
+              county_id: newImage.county_id,
+              sku: line.sku,
+              quantity: line.quantity,
+              reason_code: line.cancellation.reason_code,
+              cancelled_by: line.cancellation.actor,
+              amount: line.cancellation.amount,
+              payment_action: line.cancellation.payment.action,
+              total: newImage.total,
+              timestamp,
+            }),
+          });
+        }
+
+        // Check for payment state change (each completed refund counts as one)
+        if (
+          newImage.payment_state !== oldImage.payment_state ||
+          newImage.refunded_total?.amount !== oldImage.refunded_total?.amount
+        ) {
           events.push({
             EventBusName: EVENT_BUS_NAME,
             Source: EVENT_SOURCE,
             DetailType: "Payment State Changed",
             Time: new Date(timestamp),
             Detail: JSON.stringify({
+              event_id: eventId("Payment State Changed"),
               event_type: "PAYMENT_STATE_CHANGED",
               order_id: newImage.order_id,
               customer_id: newImage.customer_id,
               old_state: oldImage.payment_state,
               new_state: newImage.payment_state,
               total: newImage.total,
+              refunded_total: newImage.refunded_total,
               timestamp,
             }),
           });
@@ -212,6 +362,7 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
           DetailType: "Order Deleted",
           Time: new Date(timestamp),
           Detail: JSON.stringify({
+            event_id: eventId("Order Deleted"),
             event_type: "ORDER_DELETED",
             order_id: oldImage.order_id,
             customer_id: oldImage.customer_id,
@@ -224,28 +375,3 @@ function transformToDomainEvents(record: DynamoDBRecord): PutEventsRequestEntry[
 
   return events;
 }
-
-/**
- * Publish events to EventBridge in batches
- */
-async function publishEvents(events: PutEventsRequestEntry[]): Promise<void> {
-  // EventBridge accepts max 10 events per request
-  const batchSize = 10;
-
-  for (let i = 0; i < events.length; i += batchSize) {
-    const batch = events.slice(i, i + batchSize);
-
-    console.log(`Publishing ${batch.length} events to EventBridge`);
-
-    const result = await eventBridgeClient.send(
-      new PutEventsCommand({
-        Entries: batch,
-      })
-    );
-
-    if (result.FailedEntryCount && result.FailedEntryCount > 0) {
-      console.error("Some events failed to publish:", result.Entries);
-      throw new Error(`Failed to publish ${result.FailedEntryCount} events`);
-    }
-  }
-}
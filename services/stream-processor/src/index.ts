@@ -1,2 +1,4 @@
-// Export handler
+// Export handlers
 export { handler as streamHandler } from "./handlers/stream-handler";
+export { handler as inventoryAlertsHandler } from "./handlers/inventory-alerts";
+export { handler as reorderReportHandler } from "./handlers/reorder-report";
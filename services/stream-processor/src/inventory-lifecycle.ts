@@ -0,0 +1,40 @@
+import {
+  Order,
+  OrderStatus,
+  commitOrderReservations,
+  releaseOrderReservations,
+} from "@acme-liquors/shared";
+
+
+/**
+ * Apply the inventory side effects of an order status change
+ *
+ * - Entering SHIPPED commits the order's reservation (reduces available and reserved)
+ * - Entering FAILED releases it (reduces reserved)
+ *
+ * Cancellations release theirs in the order processor's cancellation
+ * saga, which tracks the release alongside the payment reversal.
+ *
+ * Each reservation line changes status in the same transaction as the
+ * stock update, conditioned on its current status, so a redelivered
+ * stream record is a no-op.
+ */
+export async function applyInventoryLifecycle(
+  oldImage: Order | null,
+  newImage: Order | null
+): Promise<void> {
+  if (!oldImage || !newImage || oldImage.status === newImage.status) {
+    return;
+  }
+
+  if (newImage.status === OrderStatus.SHIPPED) {
+    const committed = await commitOrderReservations(newImage.order_id);
+    console.log("Committed reservation lines for order:", newImage.order_id, committed);
+    return;
+  }
+
+  if (newImage.status === OrderStatus.FAILED) {
+    const released = await releaseOrderReservations(newImage.order_id);
+    console.log("Released reservation lines for order:", newImage.order_id, released);
+  }
+}
@@ -0,0 +1,56 @@
+import {
+  Order,
+  OrderStatus,
+  PaymentOperation,
+  PaymentOutcome,
+  PaymentState,
+  getPaymentProvider,
+  paymentIdempotencyKey,
+  updatePaymentState,
+} from "@acme-liquors/shared";
+
+/**
+ * Apply the payment side effects of an order status change
+ *
+ * Entering SHIPPED captures the authorization taken when the order was
+ * confirmed. The capture's idempotency key is derived from the order ID,
+ * so a redelivered stream record replays the provider's original result
+ * instead of charging again. A declined capture marks the payment FAILED;
+ * a provider timeout throws so the record is retried.
+ */
+export async function applyPaymentLifecycle(
+  oldImage: Order | null,
+  newImage: Order | null
+): Promise<void> {
+  if (!oldImage || !newImage || oldImage.status === newImage.status) {
+    return;
+  }
+  if (newImage.status !== OrderStatus.SHIPPED || newImage.payment_state !== PaymentState.AUTHORIZED) {
+    return;
+  }
+  if (!newImage.payment_authorization_id) {
+    console.error("Shipped order has no payment authorization:", newImage.order_id);
+    return;
+  }
+
+  const result = await getPaymentProvider().capture({
+    idempotency_key: paymentIdempotencyKey(newImage.order_id, PaymentOperation.CAPTURE),
+    order_id: newImage.order_id,
+    authorization_id: newImage.payment_authorization_id,
+    amount: newImage.total,
+  });
+
+  const captured = result.outcome === PaymentOutcome.APPROVED;
+  if (!captured) {
+    console.error("Payment capture declined:", newImage.order_id, result.decline_code);
+  }
+
+  await updatePaymentState(
+    newImage.customer_id,
+    newImage.order_ts_id,
+    newImage.order_id,
+    captured ? PaymentState.CAPTURED : PaymentState.FAILED,
+    PaymentState.AUTHORIZED,
+    { payment_capture_id: result.transaction_id }
+  );
+}
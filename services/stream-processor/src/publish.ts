@@ -0,0 +1,32 @@
+import {
+  EventBridgeClient,
+  PutEventsCommand,
+  PutEventsRequestEntry,
+} from "@aws-sdk/client-eventbridge";
+
+const eventBridgeClient = new EventBridgeClient({});
+
+/**
+ * Publish events to EventBridge in batches
+ */
+export async function publishEvents(events: PutEventsRequestEntry[]): Promise<void> {
+  // EventBridge accepts max 10 events per request
+  const batchSize = 10;
+
+  for (let i = 0; i < events.length; i += batchSize) {
+    const batch = events.slice(i, i + batchSize);
+
+    console.log(`Publishing ${batch.length} events to EventBridge`);
+
+    const result = await eventBridgeClient.send(
+      new PutEventsCommand({
+        Entries: batch,
+      })
+    );
+
+    if (result.FailedEntryCount && result.FailedEntryCount > 0) {
+      console.error("Some events failed to publish:", result.Entries);
+      throw new Error(`Failed to publish ${result.FailedEntryCount} events`);
+    }
+  }
+}
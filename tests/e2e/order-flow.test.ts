@@ -12,24 +12,37 @@ import { handler as createOrderHandler } from '../../services/order-api/src/hand
 import { handler as getOrderHandler } from '../../services/order-api/src/handlers/get-order';
 import { handler as cancelOrderHandler } from '../../services/order-api/src/handlers/cancel-order';
 import { handler as reserveInventoryHandler } from '../../services/order-processor/src/handlers/reserve-inventory';
-import { handler as processPaymentHandler } from '../../services/order-processor/src/handlers/process-payment';
+import { handler as authorizePaymentHandler } from '../../services/order-processor/src/handlers/authorize-payment';
 import { handler as sendNotificationsHandler } from '../../services/order-processor/src/handlers/send-notifications';
 import {
   createMockApiEvent,
+  createMockCaller,
   createMockCreateOrderRequest,
   parseApiResponse,
   wait,
 } from '../utils/test-helpers';
-import { ddbMock, resetDynamoMocks, createDynamoOrderById } from '../utils/dynamodb-mock';
+import {
+  ddbMock,
+  resetDynamoMocks,
+  mockOrderPricing,
+  createCatalogProduct,
+  createDynamoOrderById,
+  mockReservations,
+} from '../utils/dynamodb-mock';
 import { sqsMock, resetSqsMocks } from '../utils/sqs-mock';
 import {
   GetCommand,
-  PutCommand,
-  UpdateCommand,
   TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { SendMessageCommand } from '@aws-sdk/client-sqs';
-import { OrderStatus, PaymentState } from '@acme-liquors/shared';
+import {
+  LocalTestPaymentMethods,
+  Money,
+  OrderStatus,
+  PaymentState,
+  money,
+  toDecimalString,
+} from '@acme-liquors/shared';
 
 // Mock SNS
 jest.mock('@aws-sdk/client-sns', () => ({
@@ -50,46 +63,55 @@ describe('Complete Order Flow E2E', () => {
       // Step 1: Create Order
       console.log('Step 1: Creating order...');
 
-      ddbMock.on(PutCommand).resolves({});
+      mockOrderPricing([
+        createCatalogProduct({ sku: 'WINE-001', name: 'Test Wine', list_price: money(2500) }),
+        createCatalogProduct({ sku: 'BEER-001', name: 'Test Beer', category: 'BEER', volume_ml: 355, abv: 5, list_price: money(800) }),
+      ]);
+      ddbMock.on(TransactWriteCommand).resolves({});
       sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
-      const createEvent = createMockApiEvent({
-        httpMethod: 'POST',
-        path: '/orders',
-        headers: { 'X-Idempotency-Key': 'e2e-test-key' },
-        body: JSON.stringify({
-          customer_id: 'CUST-E2E-001',
-          store_id: 'STORE-001',
-          county_id: 'COUNTY-001',
-          items: [
-            { sku: 'WINE-001', name: 'Test Wine', quantity: 2, unit_price: 25.00 },
-            { sku: 'BEER-001', name: 'Test Beer', quantity: 6, unit_price: 8.00 },
-          ],
-          shipping_address: {
-            street: '123 E2E Test St',
-            city: 'Test City',
-            state: 'TX',
-            zip: '12345',
-          },
-        }),
-      });
+      const createEvent = createMockApiEvent(
+        {
+          httpMethod: 'POST',
+          path: '/orders',
+          headers: { 'X-Idempotency-Key': 'e2e-test-key' },
+          body: JSON.stringify({
+            customer_id: 'CUST-E2E-001',
+            store_id: 'STORE-001',
+            county_id: 'COUNTY-001',
+            items: [
+              { sku: 'WINE-001', name: 'Test Wine', quantity: 2, unit_price: money(2500) },
+              { sku: 'BEER-001', name: 'Test Beer', quantity: 6, unit_price: money(800) },
+            ],
+            shipping_address: {
+              street: '123 E2E Test St',
+              city: 'Test City',
+              state: 'TX',
+              zip: '12345',
+            },
+            payment_method: LocalTestPaymentMethods.APPROVED,
+          }),
+        },
+        createMockCaller({ subject: 'CUST-E2E-001' })
+      );
 
       const createResult = await createOrderHandler(createEvent);
       const { body: order } = parseApiResponse<{
         order_id: string;
         status: string;
-        total: number;
+        total: Money;
       }>(createResult);
 
       expect(createResult.statusCode).toBe(201);
       expect(order.status).toBe('PENDING');
-      expect(order.total).toBeCloseTo(104.76, 2); // (2*25 + 6*8) * 1.08
+      expect(order.total).toEqual(money(10584)); // (2*25 + 6*8) * 1.08
 
-      console.log(`Order created: ${order.order_id}, Total: $${order.total}`);
+      console.log(`Order created: ${order.order_id}, Total: $${toDecimalString(order.total)}`);
 
       // Step 2: Reserve Inventory
       console.log('Step 2: Reserving inventory...');
 
+      mockReservations();
       ddbMock.on(GetCommand).resolves({
         Item: {
           store_sku: 'STORE-001#WINE-001',
@@ -104,33 +126,30 @@ describe('Complete Order Flow E2E', () => {
         customer_id: 'CUST-E2E-001',
         store_id: 'STORE-001',
         items: [
-          { sku: 'WINE-001', name: 'Test Wine', quantity: 2, unit_price: 25, total_price: 50 },
-          { sku: 'BEER-001', name: 'Test Beer', quantity: 6, unit_price: 8, total_price: 48 },
+          { sku: 'WINE-001', name: 'Test Wine', quantity: 2, unit_price: money(2500), total_price: money(5000) },
+          { sku: 'BEER-001', name: 'Test Beer', quantity: 6, unit_price: money(800), total_price: money(4800) },
         ],
       });
 
       expect(inventoryResult.success).toBe(true);
       console.log(`Inventory reserved: ${inventoryResult.reservation_id}`);
 
-      // Step 3: Process Payment
-      console.log('Step 3: Processing payment...');
+      // Step 3: Authorize Payment (captured when the order ships)
+      console.log('Step 3: Authorizing payment...');
 
-      ddbMock.on(UpdateCommand).resolves({});
+      ddbMock.on(TransactWriteCommand).resolves({});
 
-      // Retry until payment succeeds (95% rate)
-      let paymentResult;
-      for (let i = 0; i < 5; i++) {
-        paymentResult = await processPaymentHandler({
-          order_id: order.order_id,
-          customer_id: 'CUST-E2E-001',
-          amount: order.total,
-        });
-        if (paymentResult.success) break;
-      }
+      const paymentResult = await authorizePaymentHandler({
+        order_id: order.order_id,
+        customer_id: 'CUST-E2E-001',
+        order_ts_id: `2026-10-19T12:00:00.000Z#${order.order_id}`,
+        payment_method: LocalTestPaymentMethods.APPROVED,
+        amount: order.total,
+      });
 
-      expect(paymentResult!.success).toBe(true);
-      expect(paymentResult!.payment_state).toBe(PaymentState.CAPTURED);
-      console.log(`Payment processed: ${paymentResult!.transaction_id}`);
+      expect(paymentResult.success).toBe(true);
+      expect(paymentResult.payment_state).toBe(PaymentState.AUTHORIZED);
+      console.log(`Payment authorized: ${paymentResult.authorization_id}`);
 
       // Step 4: Send Confirmation Notification
       console.log('Step 4: Sending notification...');
@@ -152,7 +171,8 @@ describe('Complete Order Flow E2E', () => {
   describe('Failure Scenarios', () => {
     it('should handle inventory shortage', async () => {
       // Create order
-      ddbMock.on(PutCommand).resolves({});
+      mockOrderPricing();
+      ddbMock.on(TransactWriteCommand).resolves({});
       sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
       const createEvent = createMockApiEvent({
@@ -165,6 +185,7 @@ describe('Complete Order Flow E2E', () => {
       await createOrderHandler(createEvent);
 
       // Inventory check fails - not enough stock
+      mockReservations();
       ddbMock.on(GetCommand).resolves({
         Item: {
           store_sku: 'STORE-001#SKU-001',
@@ -178,7 +199,7 @@ describe('Complete Order Flow E2E', () => {
         customer_id: 'CUST-001',
         store_id: 'STORE-001',
         items: [
-          { sku: 'SKU-001', name: 'Test', quantity: 10, unit_price: 10, total_price: 100 },
+          { sku: 'SKU-001', name: 'Test', quantity: 10, unit_price: money(1000), total_price: money(10000) },
         ],
       });
 
@@ -189,14 +210,18 @@ describe('Complete Order Flow E2E', () => {
     });
 
     it('should handle payment failure and notify customer', async () => {
-      // Force payment failure by using zero amount
-      const paymentResult = await processPaymentHandler({
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      const paymentResult = await authorizePaymentHandler({
         order_id: 'ORD-PAY-FAIL',
         customer_id: 'CUST-001',
-        amount: 0,
+        order_ts_id: '2026-10-19T12:00:00.000Z#ORD-PAY-FAIL',
+        payment_method: LocalTestPaymentMethods.DECLINED,
+        amount: money(5000),
       });
 
       expect(paymentResult.success).toBe(false);
+      expect(paymentResult.decline_code).toBe('card_declined');
 
       // Send failure notification
       const notificationResult = await sendNotificationsHandler({
@@ -220,7 +245,8 @@ describe('Complete Order Flow E2E', () => {
         status: OrderStatus.PENDING,
       });
       ddbMock.on(GetCommand).resolves({ Item: mockOrder });
-      ddbMock.on(UpdateCommand).resolves({});
+      ddbMock.on(TransactWriteCommand).resolves({});
+      sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
       // Cancel order
       const cancelEvent = createMockApiEvent({
@@ -247,21 +273,25 @@ describe('Complete Order Flow E2E', () => {
 
   describe('Concurrent Order Processing', () => {
     it('should handle multiple orders concurrently', async () => {
-      ddbMock.on(PutCommand).resolves({});
+      mockOrderPricing();
+      ddbMock.on(TransactWriteCommand).resolves({});
       sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
       // Create 5 orders concurrently
       const orderPromises = Array.from({ length: 5 }, (_, i) =>
         createOrderHandler(
-          createMockApiEvent({
-            httpMethod: 'POST',
-            path: '/orders',
-            headers: { 'X-Idempotency-Key': `concurrent-${i}` },
-            body: JSON.stringify({
-              ...createMockCreateOrderRequest(),
-              customer_id: `CUST-CONCURRENT-${i}`,
-            }),
-          })
+          createMockApiEvent(
+            {
+              httpMethod: 'POST',
+              path: '/orders',
+              headers: { 'X-Idempotency-Key': `concurrent-${i}` },
+              body: JSON.stringify({
+                ...createMockCreateOrderRequest(),
+                customer_id: `CUST-CONCURRENT-${i}`,
+              }),
+            },
+            createMockCaller({ subject: `CUST-CONCURRENT-${i}` })
+          )
         )
       );
 
@@ -292,7 +322,8 @@ describe('Performance Benchmarks', () => {
   });
 
   it('should create order within performance threshold', async () => {
-    ddbMock.on(PutCommand).resolves({});
+    mockOrderPricing();
+    ddbMock.on(TransactWriteCommand).resolves({});
     sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
     const event = createMockApiEvent({
@@ -312,7 +343,8 @@ describe('Performance Benchmarks', () => {
   });
 
   it('should handle batch of orders efficiently', async () => {
-    ddbMock.on(PutCommand).resolves({});
+    mockOrderPricing();
+    ddbMock.on(TransactWriteCommand).resolves({});
     sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
     const batchSize = 10;
@@ -20,18 +20,23 @@ import {
 import {
   ddbMock,
   resetDynamoMocks,
+  mockOrderPricing,
+  mockIdempotencyKey,
   createDynamoOrder,
   createDynamoOrderById,
+  createIdempotencyRecord,
 } from '../utils/dynamodb-mock';
 import { sqsMock, resetSqsMocks } from '../utils/sqs-mock';
 import {
+  DeleteCommand,
   GetCommand,
   PutCommand,
   QueryCommand,
+  TransactWriteCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { SendMessageCommand } from '@aws-sdk/client-sqs';
-import { OrderStatus } from '@acme-liquors/shared';
+import { CreateOrderRequestSchema, OrderStatus, fingerprint } from '@acme-liquors/shared';
 
 describe('Order API Integration', () => {
   beforeEach(() => {
@@ -42,7 +47,8 @@ describe('Order API Integration', () => {
   describe('Create and Retrieve Order Flow', () => {
     it('should create an order and retrieve it by ID', async () => {
       // Set up mocks
-      ddbMock.on(PutCommand).resolves({});
+      mockOrderPricing();
+      ddbMock.on(TransactWriteCommand).resolves({});
       sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
       // Create order
@@ -85,7 +91,8 @@ describe('Order API Integration', () => {
 
     it('should list customer orders after creation', async () => {
       // Create multiple orders
-      ddbMock.on(PutCommand).resolves({});
+      mockOrderPricing();
+      ddbMock.on(TransactWriteCommand).resolves({});
       sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
       const orderIds: string[] = [];
@@ -132,7 +139,8 @@ describe('Order API Integration', () => {
         status: OrderStatus.PENDING,
       });
       ddbMock.on(GetCommand).resolves({ Item: mockOrder });
-      ddbMock.on(UpdateCommand).resolves({});
+      ddbMock.on(TransactWriteCommand).resolves({});
+      sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
       // Cancel order
       const cancelEvent = createMockApiEvent({
@@ -150,9 +158,19 @@ describe('Order API Integration', () => {
       expect(statusCode).toBe(200);
       expect(body.status).toBe('CANCELLED');
 
-      // Verify UpdateCommand was called with correct parameters
-      const updateCalls = ddbMock.commandCalls(UpdateCommand);
-      expect(updateCalls.length).toBeGreaterThan(0);
+      // Verify both order tables were updated, and the change recorded, in one transaction
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [orders, ordersById, history] = transaction.args[0].input.TransactItems!;
+      expect(orders.Update!.TableName).toBe('test-orders');
+      expect(ordersById.Update!.TableName).toBe('test-orders-by-id');
+      expect(history.Put).toMatchObject({
+        TableName: 'test-order-status-history',
+        Item: { order_id: orderId, from_status: 'PENDING', to_status: 'CANCELLED', actor: 'customer:CUST-001' },
+      });
+
+      // Follow-ups (inventory release, payment reversal) are queued
+      const sendCalls = sqsMock.commandCalls(SendMessageCommand);
+      expect(JSON.parse(sendCalls[0].args[0].input.MessageBody!).action).toBe('CANCEL_ORDER');
     });
 
     it('should not cancel a shipped order', async () => {
@@ -187,7 +205,8 @@ describe('Order API Integration', () => {
       const idempotencyKey = 'duplicate-key-123';
 
       // First request - creates order
-      ddbMock.on(PutCommand).resolves({});
+      mockOrderPricing();
+      ddbMock.on(TransactWriteCommand).resolves({});
       sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
 
       const event1 = createMockApiEvent({
@@ -202,9 +221,11 @@ describe('Order API Integration', () => {
 
       // Second request with same key - should detect duplicate
       // Mock conditional check failure and return existing order
-      const conditionalError = new Error('ConditionalCheckFailedException');
-      conditionalError.name = 'ConditionalCheckFailedException';
-      ddbMock.on(PutCommand).rejects(conditionalError);
+      const conditionalError = Object.assign(new Error('Transaction cancelled'), {
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }],
+      });
+      ddbMock.on(TransactWriteCommand).rejects(conditionalError);
 
       const existingOrder = createDynamoOrder();
       ddbMock.on(GetCommand).resolves({ Item: existingOrder });
@@ -223,6 +244,110 @@ describe('Order API Integration', () => {
       expect(statusCode).toBe(200);
       expect(body.message).toContain('already exists');
     });
+
+    const createEvent = (body: object = createMockCreateOrderRequest()) =>
+      createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-idempotency-key' },
+        body: JSON.stringify(body),
+      });
+    const requestHash = fingerprint(CreateOrderRequestSchema.parse(createMockCreateOrderRequest()));
+
+    it('should claim the key and store the response for replay', async () => {
+      mockOrderPricing();
+      ddbMock.on(TransactWriteCommand).resolves({});
+      sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
+
+      const result = await createOrderHandler(createEvent());
+      const { body } = parseApiResponse<{ order_id: string }>(result);
+
+      expect(result.statusCode).toBe(201);
+      const [claim] = ddbMock.commandCalls(PutCommand, { TableName: 'test-idempotency-keys' });
+      expect(claim.args[0].input.Item).toMatchObject({
+        customer_id: 'CUST-001',
+        idempotency_key: 'test-idempotency-key',
+        request_hash: requestHash,
+        status: 'IN_PROGRESS',
+        order_id: body.order_id,
+      });
+      const [completed] = ddbMock.commandCalls(UpdateCommand, { TableName: 'test-idempotency-keys' });
+      expect(completed.args[0].input.ExpressionAttributeValues).toMatchObject({
+        ':completed': 'COMPLETED',
+        ':response': { status_code: 201, body: result.body },
+      });
+    });
+
+    it('should replay the stored response without creating another order', async () => {
+      const original = JSON.stringify({ order_id: 'ORD-FIRST-ATTEMPT', status: 'PENDING' });
+      mockIdempotencyKey(createIdempotencyRecord({
+        request_hash: requestHash,
+        status: 'COMPLETED',
+        response: { status_code: 201, body: original },
+      }));
+
+      const result = await createOrderHandler(createEvent());
+
+      expect(result.statusCode).toBe(201);
+      expect(result.body).toBe(original);
+      expect(result.headers).toMatchObject({ 'Idempotent-Replayed': 'true' });
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+      expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+    });
+
+    it('should return 422 when the key was used for a different request', async () => {
+      mockIdempotencyKey(createIdempotencyRecord({ request_hash: requestHash, status: 'COMPLETED' }));
+
+      const result = await createOrderHandler(createEvent({ ...createMockCreateOrderRequest(), store_id: 'STORE-002' }));
+      const { statusCode, body } = parseApiResponse<{ error: string }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.error).toBe('Idempotency key reused');
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 409 while the first request is still running', async () => {
+      mockIdempotencyKey(createIdempotencyRecord({ request_hash: requestHash }));
+
+      const result = await createOrderHandler(createEvent());
+
+      expect(result.statusCode).toBe(409);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should finish the first attempt\'s order when its lock has lapsed', async () => {
+      const record = createIdempotencyRecord({
+        request_hash: requestHash,
+        locked_until: new Date(Date.now() - 1000).toISOString(),
+      });
+      mockIdempotencyKey(record);
+      const existingOrder = createDynamoOrder({
+        order_id: record.order_id,
+        order_ts: record.order_ts,
+        order_ts_id: `${record.order_ts}#${record.order_id}`,
+      });
+      ddbMock.on(GetCommand, { TableName: 'test-orders' }).resolves({ Item: existingOrder });
+      sqsMock.on(SendMessageCommand).resolves({ MessageId: 'test-msg' });
+
+      const result = await createOrderHandler(createEvent());
+      const { statusCode, body } = parseApiResponse<{ order_id: string }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.order_id).toBe('ORD-FIRST-ATTEMPT');
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+      // The crashed attempt may not have queued it; a still-PENDING order is queued again
+      expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(1);
+      expect(ddbMock.commandCalls(UpdateCommand, { TableName: 'test-idempotency-keys' })).toHaveLength(2);
+    });
+
+    it('should give the key back when the order is refused', async () => {
+      mockOrderPricing([]);
+
+      const result = await createOrderHandler(createEvent());
+
+      expect(result.statusCode).toBe(422);
+      expect(ddbMock.commandCalls(DeleteCommand, { TableName: 'test-idempotency-keys' })).toHaveLength(1);
+    });
   });
 
   describe('Error Handling', () => {
@@ -243,7 +368,8 @@ describe('Order API Integration', () => {
     });
 
     it('should handle SQS errors during order creation', async () => {
-      ddbMock.on(PutCommand).resolves({});
+      mockOrderPricing();
+      ddbMock.on(TransactWriteCommand).resolves({});
       sqsMock.on(SendMessageCommand).rejects(new Error('SQS Error'));
 
       const event = createMockApiEvent({
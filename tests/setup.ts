@@ -1,18 +1,45 @@
 // Jest setup file
-import { mockClient } from 'aws-sdk-client-mock';
+import { mockPaginationTokenSecret } from './utils/secrets-mock';
 
 // Set test environment variables
 process.env.AWS_REGION = 'us-east-1';
 process.env.ORDERS_TABLE_NAME = 'test-orders';
 process.env.ORDERS_BY_ID_TABLE_NAME = 'test-orders-by-id';
+process.env.ORDER_STATUS_HISTORY_TABLE_NAME = 'test-order-status-history';
 process.env.INVENTORY_TABLE_NAME = 'test-inventory';
+process.env.PRODUCTS_TABLE_NAME = 'test-products';
+process.env.TAX_RATES_TABLE_NAME = 'test-tax-rates';
+process.env.COMPLIANCE_RULES_TABLE_NAME = 'test-compliance-rules';
+process.env.CUSTOMERS_TABLE_NAME = 'test-customers';
+process.env.SAGAS_TABLE_NAME = 'test-order-sagas';
+process.env.AGE_VERIFICATIONS_TABLE_NAME = 'test-age-verifications';
+process.env.IDEMPOTENCY_KEYS_TABLE_NAME = 'test-idempotency-keys';
+process.env.RESERVATIONS_TABLE_NAME = 'test-reservations';
+process.env.INVENTORY_ADJUSTMENTS_TABLE_NAME = 'test-inventory-adjustments';
+process.env.INVENTORY_ALERTS_TABLE_NAME = 'test-inventory-alerts';
 process.env.ORDER_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/123456789/test-queue';
 process.env.NOTIFICATION_TOPIC_ARN = 'arn:aws:sns:us-east-1:123456789:test-topic';
 process.env.EVENT_BUS_NAME = 'test-event-bus';
+process.env.PAGINATION_TOKEN_SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:123456789:secret:test-pagination-token-key';
+process.env.AUTH_ISSUER = 'https://auth.test.local/';
+process.env.AUTH_AUDIENCE = 'acme-order-api';
 
 // Increase timeout for async operations
 jest.setTimeout(30000);
 
+// List endpoints sign next tokens with a key read from Secrets Manager
+beforeEach(() => {
+  mockPaginationTokenSecret();
+});
+
+// Deployed functions need a real processor and verifier; tests use the local fakes.
+// Imported here, not at the top: shared reads the table names above when it loads
+beforeEach(async () => {
+  const { LocalAgeVerifier, LocalPaymentProvider, setAgeVerifier, setPaymentProvider } = await import('@acme-liquors/shared');
+  setPaymentProvider(new LocalPaymentProvider());
+  setAgeVerifier(new LocalAgeVerifier());
+});
+
 // Clean up after each test
 afterEach(() => {
   jest.clearAllMocks();
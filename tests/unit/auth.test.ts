@@ -0,0 +1,124 @@
+import { APIGatewayTokenAuthorizerEvent } from 'aws-lambda';
+import { handler as authorizerHandler } from '../../services/order-api/src/handlers/authorizer';
+import {
+  AuthenticationError,
+  CallerRole,
+  LocalSigningKey,
+  OrderAction,
+  checkOrderAccess,
+  setSigningKeySource,
+  verifyAccessToken,
+} from '@acme-liquors/shared';
+import { createMockCaller } from '../utils/test-helpers';
+
+describe('Authentication', () => {
+  const signingKey = new LocalSigningKey('test-key');
+  const now = Date.now();
+  const nowSeconds = Math.floor(now / 1000);
+
+  const token = (claims: Record<string, unknown> = {}, key: LocalSigningKey = signingKey) =>
+    key.sign({
+      iss: 'https://auth.test.local/',
+      aud: 'acme-order-api',
+      sub: 'CUST-001',
+      iat: nowSeconds,
+      exp: nowSeconds + 300,
+      ...claims,
+    });
+
+  beforeAll(() => setSigningKeySource(signingKey));
+  afterAll(() => setSigningKeySource(null));
+
+  describe('verifyAccessToken', () => {
+    it('should return the claims of a token signed by a trusted key', async () => {
+      const claims = await verifyAccessToken(token({ role: 'store_staff', store_ids: ['STORE-001'] }), now);
+
+      expect(claims).toMatchObject({ sub: 'CUST-001', role: 'store_staff', store_ids: ['STORE-001'] });
+    });
+
+    it('should refuse tokens that cannot be trusted', async () => {
+      const [header, payload] = token().split('.');
+      const unsigned = `${Buffer.from(JSON.stringify({ alg: 'none', kid: 'test-key' })).toString('base64url')}.${payload}.x`;
+
+      const refused = [
+        token({}, new LocalSigningKey('test-key')), // Same key ID, different key
+        `${header}.${Buffer.from(JSON.stringify({ sub: 'CUST-002' })).toString('base64url')}.${token().split('.')[2]}`,
+        unsigned,
+        token({ iss: 'https://evil.example/' }),
+        token({ aud: 'another-api' }),
+        token({ exp: nowSeconds - 120 }),
+      ];
+
+      for (const candidate of refused) {
+        await expect(verifyAccessToken(candidate, now)).rejects.toBeInstanceOf(AuthenticationError);
+      }
+    });
+
+    it('should refuse a token whose header is not a JSON object', async () => {
+      const [, payload, signature] = token().split('.');
+
+      // bnVsbA is base64url for "null"
+      await expect(verifyAccessToken(`bnVsbA.${payload}.${signature}`, now)).rejects.toThrow(
+        new AuthenticationError('Token is malformed')
+      );
+    });
+  });
+
+  describe('authorizer', () => {
+    const authorizerEvent = (authorizationToken: string): APIGatewayTokenAuthorizerEvent => ({
+      type: 'TOKEN',
+      authorizationToken,
+      methodArn: 'arn:aws:execute-api:us-east-1:123456789:api-id/prod/DELETE/orders/ORD-1',
+    });
+
+    it('should allow the whole API and pass the caller on', async () => {
+      const result = await authorizerHandler(
+        authorizerEvent(`Bearer ${token({ sub: 'CS-7', role: 'customer_service', county_ids: ['COUNTY-001', 'COUNTY-002'] })}`)
+      );
+
+      expect(result.principalId).toBe('CS-7');
+      expect(result.policyDocument.Statement[0]).toMatchObject({
+        Effect: 'Allow',
+        Resource: 'arn:aws:execute-api:us-east-1:123456789:api-id/prod/*',
+      });
+      expect(result.context).toEqual({
+        subject: 'CS-7',
+        role: 'customer_service',
+        store_ids: '',
+        county_ids: 'COUNTY-001,COUNTY-002',
+      });
+    });
+
+    it('should answer Unauthorized for a bad token or an unknown role', async () => {
+      await expect(authorizerHandler(authorizerEvent('Bearer not-a-jwt'))).rejects.toThrow('Unauthorized');
+      await expect(authorizerHandler(authorizerEvent(`Bearer ${token({ role: 'admin' })}`))).rejects.toThrow(
+        'Unauthorized'
+      );
+    });
+  });
+
+  describe('checkOrderAccess', () => {
+    const order = { customer_id: 'CUST-001', store_id: 'STORE-001', county_id: 'COUNTY-001' };
+
+    it('should let customers act only on their own orders', () => {
+      expect(checkOrderAccess(createMockCaller(), order, OrderAction.CANCEL)).toBeUndefined();
+      expect(checkOrderAccess(createMockCaller({ subject: 'CUST-002' }), order, OrderAction.VIEW)).toBe(
+        'Order belongs to another customer'
+      );
+      expect(checkOrderAccess(createMockCaller(), order, OrderAction.REFUND)).toBeDefined();
+    });
+
+    it('should scope staff and agents to their stores and counties and roles', () => {
+      const staff = createMockCaller({ subject: 'EMP-1', role: CallerRole.STORE_STAFF, store_ids: ['STORE-001'] });
+      const agent = createMockCaller({ subject: 'CS-7', role: CallerRole.CUSTOMER_SERVICE, county_ids: ['COUNTY-002'] });
+
+      expect(checkOrderAccess(staff, order, OrderAction.FULFILL)).toBeUndefined();
+      expect(checkOrderAccess(staff, order, OrderAction.CANCEL)).toBe('A store_staff cannot cancel orders');
+      expect(checkOrderAccess(staff, { ...order, store_id: 'STORE-002' }, OrderAction.VIEW)).toBeDefined();
+      expect(checkOrderAccess(agent, order, OrderAction.REFUND)).toBe(
+        'Order is outside the stores and counties assigned to CS-7'
+      );
+      expect(checkOrderAccess(agent, { ...order, county_id: 'COUNTY-002' }, OrderAction.REFUND)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  evaluateCompliance,
+  getLocalDayBounds,
+  ComplianceRequest,
+} from '@acme-liquors/shared';
+import { createComplianceRules } from '../utils/dynamodb-mock';
+
+// Wednesday 2025-06-04 14:00 in Chicago (CDT, UTC-5)
+const WEEKDAY_AFTERNOON = '2025-06-04T19:00:00.000Z';
+// Sunday 2025-06-08 10:00 in Chicago
+const SUNDAY_MORNING = '2025-06-08T15:00:00.000Z';
+
+function createRequest(overrides: Partial<ComplianceRequest> = {}): ComplianceRequest {
+  return {
+    county_id: 'COUNTY-001',
+    shipping_state: 'TX',
+    order_ts: WEEKDAY_AFTERNOON,
+    lines: [{ sku: 'WINE-001', category: 'WINE', quantity: 2, volume_ml: 750, abv: 13.5 }],
+    ...overrides,
+  };
+}
+
+describe('Compliance Rules', () => {
+  it('should allow an order in a wet county with no limits', () => {
+    expect(evaluateCompliance(createComplianceRules(), createRequest())).toEqual({ success: true });
+  });
+
+  it('should reject every order in a dry county', () => {
+    const result = evaluateCompliance(createComplianceRules({ wet_status: 'DRY' }), createRequest());
+
+    expect(result.success).toBe(false);
+    expect(result.violations!.map((v) => v.rule)).toEqual(['DRY_COUNTY']);
+  });
+
+  it('should enforce sale windows in the county time zone', () => {
+    // Mon-Sat 07:00-24:00, Sunday noon onwards
+    const rules = createComplianceRules({
+      sale_windows: [
+        { days: [1, 2, 3, 4, 5, 6], open: '07:00', close: '24:00' },
+        { days: [0], open: '12:00', close: '24:00' },
+      ],
+    });
+
+    expect(evaluateCompliance(rules, createRequest()).success).toBe(true);
+    expect(
+      evaluateCompliance(rules, createRequest({ order_ts: SUNDAY_MORNING })).violations
+    ).toEqual([expect.objectContaining({ rule: 'SALE_HOURS' })]);
+  });
+
+  it('should block sales on holiday blackout dates', () => {
+    const rules = createComplianceRules({ blackout_dates: ['2025-06-04'] });
+
+    expect(evaluateCompliance(rules, createRequest()).violations).toEqual([
+      expect.objectContaining({ rule: 'HOLIDAY_BLACKOUT', actual: '2025-06-04' }),
+    ]);
+  });
+
+  it('should restrict shipping destinations by state', () => {
+    const rules = createComplianceRules({ allowed_ship_to_states: ['TX', 'OK'] });
+
+    expect(evaluateCompliance(rules, createRequest({ shipping_state: 'ok' })).success).toBe(true);
+    expect(
+      evaluateCompliance(rules, createRequest({ shipping_state: 'AR' })).violations
+    ).toEqual([expect.objectContaining({ rule: 'SHIPPING_STATE_RESTRICTED', actual: 'AR' })]);
+  });
+
+  it('should enforce per-order and per-day volume limits', () => {
+    const rules = createComplianceRules({ max_volume_ml_per_order: 1000, max_volume_ml_per_day: 2000 });
+
+    const result = evaluateCompliance(rules, createRequest({ prior_volume_ml_today: 750 }));
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({ rule: 'ORDER_VOLUME_LIMIT', limit: 1000, actual: 1500 }),
+      expect.objectContaining({ rule: 'DAILY_VOLUME_LIMIT', limit: 2000, actual: 2250 }),
+    ]);
+  });
+
+  it('should compute local day bounds across the UTC date line', () => {
+    // 2025-06-05 02:00 UTC is still 2025-06-04 in Chicago
+    expect(getLocalDayBounds('2025-06-05T02:00:00.000Z', 'America/Chicago')).toEqual({
+      start: '2025-06-04T05:00:00.000Z',
+      end: '2025-06-05T05:00:00.000Z',
+    });
+  });
+
+  it('should compute local day bounds on the days the clocks change', () => {
+    // Chicago springs forward at 02:00 on 2026-03-08 (CST to CDT) and falls back on 2026-11-01
+    expect(getLocalDayBounds('2026-03-08T20:00:00.000Z', 'America/Chicago')).toEqual({
+      start: '2026-03-08T06:00:00.000Z',
+      end: '2026-03-09T05:00:00.000Z',
+    });
+    expect(getLocalDayBounds('2026-11-01T20:00:00.000Z', 'America/Chicago')).toEqual({
+      start: '2026-11-01T05:00:00.000Z',
+      end: '2026-11-02T06:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { canonicalJson, fingerprint } from '@acme-liquors/shared';
+
+describe('Canonical fingerprint', () => {
+  const request = {
+    customer_id: 'CUST-001',
+    items: [{ sku: 'SKU-001', quantity: 2 }],
+    shipping_address: { street: '123 Test St', state: 'TX' },
+  };
+
+  it('should sort keys at every depth', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ z: 1, y: 2 }], c: 'x' } })).toBe(
+      '{"a":{"c":"x","d":[{"y":2,"z":1}]},"b":1}'
+    );
+    expect(fingerprint({ b: 1, a: { d: 2, c: 3 } })).toBe(fingerprint({ a: { c: 3, d: 2 }, b: 1 }));
+  });
+
+  it('should tell apart requests that differ only in nested fields', () => {
+    const moreItems = { ...request, items: [{ sku: 'SKU-001', quantity: 3 }] };
+    const otherAddress = { ...request, shipping_address: { street: '9 Other Rd', state: 'TX' } };
+
+    expect(fingerprint(moreItems)).not.toBe(fingerprint(request));
+    expect(fingerprint(otherAddress)).not.toBe(fingerprint(request));
+  });
+
+  it('should normalize numbers and strings', () => {
+    expect(canonicalJson({ n: -0, m: 1.0, e: 1e21 })).toBe('{"e":1e+21,"m":1,"n":0}');
+    // "é" precomposed and as e + combining acute accent
+    expect(fingerprint({ city: 'Caf\u00e9' })).toBe(fingerprint({ city: 'Cafe\u0301' }));
+  });
+
+  it('should drop undefined members and keep array order', () => {
+    expect(canonicalJson({ a: undefined, b: [2, undefined, 1] })).toBe('{"b":[2,null,1]}');
+    expect(fingerprint([1, 2])).not.toBe(fingerprint([2, 1]));
+  });
+
+  it('should serialize dates as ISO timestamps', () => {
+    expect(canonicalJson({ at: new Date('2026-01-01T00:00:00Z') })).toBe('{"at":"2026-01-01T00:00:00.000Z"}');
+  });
+
+  it('should reject values JSON cannot represent', () => {
+    expect(() => canonicalJson({ total: NaN })).toThrow('non-finite number at $.total');
+    expect(() => canonicalJson({ items: [Infinity] })).toThrow('$.items[0]');
+    expect(() => canonicalJson({ id: BigInt(1) })).toThrow('Cannot fingerprint bigint');
+  });
+
+  it('should be a SHA-256 hex digest', () => {
+    expect(fingerprint(request)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,316 @@
+import { handler as getInventoryHandler } from '../../services/inventory-api/src/handlers/get-inventory';
+import { handler as listInventoryHandler } from '../../services/inventory-api/src/handlers/list-inventory';
+import { handler as adjustInventoryHandler } from '../../services/inventory-api/src/handlers/adjust-inventory';
+import { handler as importInventoryHandler } from '../../services/inventory-api/src/handlers/import-inventory';
+import { parseCsv } from '../../services/inventory-api/src/csv';
+import { createMockApiEvent, createMockCaller, parseApiResponse } from '../utils/test-helpers';
+import {
+  ddbMock,
+  resetDynamoMocks,
+  mockInventory,
+  mockQuery,
+  createInventoryItem,
+  mockTransactWriteConditionalFailure,
+} from '../utils/dynamodb-mock';
+import { TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { CallerRole, money } from '@acme-liquors/shared';
+
+const staff = createMockCaller({ subject: 'STAFF-1', role: CallerRole.STORE_STAFF, store_ids: ['STORE-001'] });
+const staffEvent = (overrides: Partial<APIGatewayProxyEvent>) => createMockApiEvent(overrides, staff);
+
+describe('Inventory API Handlers', () => {
+  beforeEach(() => {
+    resetDynamoMocks();
+  });
+
+  describe('access', () => {
+    it('should return 401 without a verified caller', async () => {
+      const response = await getInventoryHandler(
+        createMockApiEvent({ pathParameters: { store_id: 'STORE-001', sku: 'SKU-001' } }, null)
+      );
+
+      expect(response.statusCode).toBe(401);
+    });
+
+    it('should refuse customers and staff of other stores', async () => {
+      mockInventory();
+      const event = { httpMethod: 'POST', pathParameters: { store_id: 'STORE-001', sku: 'SKU-001' }, body: '{}' };
+
+      const customer = await adjustInventoryHandler(createMockApiEvent(event));
+      const otherStore = await adjustInventoryHandler(
+        createMockApiEvent(event, { ...staff, store_ids: ['STORE-002'] })
+      );
+
+      expect(customer.statusCode).toBe(403);
+      expect(otherStore.statusCode).toBe(403);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('GET /inventory/{store_id}/{sku} (get-inventory)', () => {
+    it('should return stock with unit_cost as Money', async () => {
+      mockInventory([createInventoryItem({ unit_cost: 12.5 as never })]);
+
+      const response = await getInventoryHandler(
+        staffEvent({ pathParameters: { store_id: 'STORE-001', sku: 'SKU-001' } })
+      );
+      const { body } = parseApiResponse<{ quantity_available: number; unit_cost: unknown }>(response);
+
+      expect(response.statusCode).toBe(200);
+      expect(body.quantity_available).toBe(100);
+      expect(body.unit_cost).toEqual(money(1250));
+    });
+
+    it('should return 404 for an unknown SKU', async () => {
+      mockInventory([]);
+
+      const response = await getInventoryHandler(
+        staffEvent({ pathParameters: { store_id: 'STORE-001', sku: 'SKU-404' } })
+      );
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /inventory/{store_id} (list-inventory)', () => {
+    it('should list a page of store inventory', async () => {
+      mockQuery([createInventoryItem()], { store_sku: 'STORE-001#SKU-001', store_id: 'STORE-001', sku: 'SKU-001' });
+
+      const response = await listInventoryHandler(
+        staffEvent({
+          pathParameters: { store_id: 'STORE-001' },
+          queryStringParameters: { limit: '1' },
+        })
+      );
+      const { body } = parseApiResponse<{ items: unknown[]; next_token?: string }>(response);
+
+      expect(response.statusCode).toBe(200);
+      expect(body.items).toHaveLength(1);
+      expect(body.next_token).toBeDefined();
+    });
+
+    it('should reject an out-of-range limit', async () => {
+      const response = await listInventoryHandler(
+        staffEvent({
+          pathParameters: { store_id: 'STORE-001' },
+          queryStringParameters: { limit: '500' },
+        })
+      );
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /inventory/{store_id}/{sku}/adjustments (adjust-inventory)', () => {
+    const adjust = (body: object) =>
+      adjustInventoryHandler(
+        staffEvent({
+          httpMethod: 'POST',
+          pathParameters: { store_id: 'STORE-001', sku: 'SKU-001' },
+          body: JSON.stringify(body),
+        })
+      );
+
+    it('should apply the adjustment and record it in the ledger', async () => {
+      mockInventory();
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      const response = await adjust({
+        quantity_delta: -3,
+        reason: 'DAMAGE',
+        note: 'Dropped case',
+        expected_updated_at: '2026-10-01T12:00:00.000Z',
+      });
+      const { body } = parseApiResponse<{ item: { quantity_available: number } }>(response);
+
+      expect(response.statusCode).toBe(200);
+      expect(body.item.quantity_available).toBe(97);
+
+      const [update, ledger] = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+      expect(update.Update).toMatchObject({
+        ConditionExpression: 'updated_at = :expected',
+        ExpressionAttributeValues: expect.objectContaining({
+          ':qty': 97,
+          ':expected': '2026-10-01T12:00:00.000Z',
+        }),
+      });
+      expect(ledger.Put!.TableName).toBe('test-inventory-adjustments');
+      expect(ledger.Put!.Item).toMatchObject({
+        reason: 'DAMAGE',
+        quantity_before: 100,
+        quantity_after: 97,
+      });
+    });
+
+    it('should return 409 when the item changed since it was read', async () => {
+      mockInventory([createInventoryItem({ updated_at: '2026-10-02T08:00:00.000Z' })]);
+
+      const response = await adjust({
+        quantity_delta: 24,
+        reason: 'RECEIVING',
+        expected_updated_at: '2026-10-01T12:00:00.000Z',
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 409 when a concurrent write wins the race', async () => {
+      mockInventory();
+      ddbMock.on(TransactWriteCommand).rejects(
+        Object.assign(new Error('Transaction cancelled'), {
+          name: 'TransactionCanceledException',
+          CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }],
+        })
+      );
+
+      const response = await adjust({
+        quantity_delta: 24,
+        reason: 'RECEIVING',
+        expected_updated_at: '2026-10-01T12:00:00.000Z',
+      });
+
+      expect(response.statusCode).toBe(409);
+    });
+
+    it('should reject a reason that contradicts the direction', async () => {
+      const response = await adjust({
+        quantity_delta: 5,
+        reason: 'SHRINKAGE',
+        expected_updated_at: '2026-10-01T12:00:00.000Z',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should refuse to drop on-hand stock below the reserved quantity', async () => {
+      mockInventory();
+
+      const response = await adjust({
+        quantity_delta: -95,
+        reason: 'COUNT_CORRECTION',
+        expected_updated_at: '2026-10-01T12:00:00.000Z',
+      });
+
+      expect(response.statusCode).toBe(422);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('POST /inventory/{store_id}/import (import-inventory)', () => {
+    const importCsv = (csv: string) =>
+      importInventoryHandler(
+        staffEvent({
+          httpMethod: 'POST',
+          pathParameters: { store_id: 'STORE-001' },
+          body: csv,
+        })
+      );
+
+    it('should create, update and report conflicting or invalid rows', async () => {
+      mockInventory([
+        createInventoryItem({ store_sku: 'STORE-001#SKU-002', sku: 'SKU-002', quantity_available: 100 }),
+        createInventoryItem({ store_sku: 'STORE-001#SKU-003', sku: 'SKU-003' }), // Changed since the export
+      ]);
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      const response = await importCsv(
+        [
+          'sku,product_name,quantity_available,reorder_level,unit_cost,updated_at',
+          'SKU-001,"Cabernet, Reserve 750ml",48,12,18.50,',
+          'SKU-002,Pale Ale 6pk,120,24,7.25,2026-10-01T12:00:00.000Z',
+          'SKU-003,Rye Whiskey,10,2,22.00,2026-09-01T00:00:00.000Z',
+          'SKU-004,Bad Row,-1,2,5.00,',
+          'SKU-005,Bad Cost,1,2,abc,',
+        ].join('\r\n')
+      );
+      const { body } = parseApiResponse<{
+        created: number;
+        updated: number;
+        conflicts: Array<{ row: number; sku: string }>;
+        errors: Array<{ row: number; sku: string }>;
+      }>(response);
+
+      expect(response.statusCode).toBe(200);
+      expect(body.created).toBe(1);
+      expect(body.updated).toBe(1);
+      expect(body.conflicts).toEqual([{ row: 4, sku: 'SKU-003' }]);
+      expect(body.errors.map((e) => e.row)).toEqual([5, 6]);
+
+      const [created, updated] = ddbMock
+        .commandCalls(TransactWriteCommand)
+        .map((call) => call.args[0].input.TransactItems!);
+      expect(created[0].Update!.ConditionExpression).toBe('attribute_not_exists(store_sku)');
+      expect(created[0].Update!.ExpressionAttributeValues).toMatchObject({
+        ':name': 'Cabernet, Reserve 750ml',
+        ':cost': money(1850),
+      });
+      expect(updated[0].Update!.ConditionExpression).toBe('updated_at = :expected AND quantity_reserved <= :qty');
+    });
+
+    it('should record quantity changes in the ledger as count corrections', async () => {
+      mockInventory([
+        createInventoryItem({ store_sku: 'STORE-001#SKU-002', sku: 'SKU-002', quantity_available: 100 }),
+        createInventoryItem({ store_sku: 'STORE-001#SKU-003', sku: 'SKU-003', quantity_available: 10 }),
+      ]);
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      await importCsv(
+        [
+          'sku,product_name,quantity_available,reorder_level,unit_cost,updated_at',
+          'SKU-001,Cabernet,48,12,18.50,',
+          'SKU-002,Pale Ale 6pk,120,24,7.25,2026-10-01T12:00:00.000Z',
+          'SKU-003,Rye Whiskey,10,2,24.00,2026-10-01T12:00:00.000Z', // Re-priced, same count
+        ].join('\n')
+      );
+
+      const [created, counted, repriced] = ddbMock
+        .commandCalls(TransactWriteCommand)
+        .map((call) => call.args[0].input.TransactItems!);
+      expect(created[1].Put).toMatchObject({
+        TableName: 'test-inventory-adjustments',
+        Item: { sku: 'SKU-001', reason: 'COUNT_CORRECTION', quantity_before: 0, quantity_after: 48, quantity_delta: 48 },
+      });
+      expect(counted[1].Put).toMatchObject({
+        TableName: 'test-inventory-adjustments',
+        Item: {
+          store_sku: 'STORE-001#SKU-002',
+          reason: 'COUNT_CORRECTION',
+          quantity_before: 100,
+          quantity_after: 120,
+          quantity_delta: 20,
+        },
+      });
+      expect(repriced).toHaveLength(1);
+    });
+
+    it('should report a conflict when the item changes between the read and the write', async () => {
+      mockInventory([createInventoryItem({ store_sku: 'STORE-001#SKU-002', sku: 'SKU-002' })]);
+      mockTransactWriteConditionalFailure();
+
+      const response = await importCsv(
+        [
+          'sku,product_name,quantity_available,reorder_level,unit_cost,updated_at',
+          'SKU-002,Pale Ale 6pk,120,24,7.25,2026-10-01T12:00:00.000Z',
+        ].join('\n')
+      );
+
+      expect(parseApiResponse<{ conflicts: unknown[] }>(response).body.conflicts).toEqual([{ row: 2, sku: 'SKU-002' }]);
+    });
+
+    it('should reject a file missing required columns', async () => {
+      const response = await importCsv('sku,quantity_available\nSKU-001,5');
+
+      expect(response.statusCode).toBe(400);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should parse quoted fields with embedded quotes and newlines', () => {
+      expect(parseCsv('a,b\n"say ""hi""","line1\nline2"\n\n')).toEqual([
+        ['a', 'b'],
+        ['say "hi"', 'line1\nline2'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  Order,
+  money,
+  fromMajorUnits,
+  fromDecimalString,
+  toDecimalString,
+  toMoney,
+  addMoney,
+  multiplyMoney,
+  applyRate,
+  sumMoney,
+  roundMinorUnits,
+  normalizeOrderAmounts,
+} from '@acme-liquors/shared';
+import { createMockOrder } from '../utils/test-helpers';
+
+describe('Money', () => {
+  it('should reject fractional minor units', () => {
+    expect(() => money(10.5)).toThrow('integer');
+  });
+
+  it('should convert float major units without drift', () => {
+    expect(fromMajorUnits(0.1 + 0.2)).toEqual(money(30));
+    expect(fromMajorUnits(10.8)).toEqual(money(1080));
+    expect(fromMajorUnits(1.005)).toEqual(money(101));
+  });
+
+  it('should parse and format decimal strings exactly', () => {
+    expect(fromDecimalString('105.84')).toEqual(money(10584));
+    expect(fromDecimalString('-0.5')).toEqual(money(-50));
+    expect(fromDecimalString('12.345')).toEqual(money(1235));
+    expect(toDecimalString(money(10584))).toBe('105.84');
+    expect(toDecimalString(money(5))).toBe('0.05');
+    expect(toDecimalString(money(-50))).toBe('-0.50');
+  });
+
+  it('should round half values by mode', () => {
+    expect(roundMinorUnits(2.5, 'HALF_UP')).toBe(3);
+    expect(roundMinorUnits(2.5, 'HALF_EVEN')).toBe(2);
+    expect(roundMinorUnits(3.5, 'HALF_EVEN')).toBe(4);
+    expect(roundMinorUnits(-2.5, 'HALF_UP')).toBe(-3);
+  });
+
+  it('should do arithmetic in minor units', () => {
+    expect(sumMoney([money(1999), money(1), money(1080)])).toEqual(money(3080));
+    expect(multiplyMoney(money(1999), 3)).toEqual(money(5997));
+    expect(applyRate(money(4500), 0.08)).toEqual(money(360));
+    expect(() => addMoney(money(100), money(100, 'EUR'))).toThrow('Currency mismatch');
+  });
+
+  it('should read legacy float amounts as Money', () => {
+    expect(toMoney(43.18)).toEqual(money(4318));
+    expect(toMoney('43.18')).toEqual(money(4318));
+    expect(toMoney(money(4318))).toEqual(money(4318));
+    expect(toMoney(undefined)).toEqual(money(0));
+  });
+
+  it('should normalize orders stored with float amounts', () => {
+    const legacy = {
+      ...createMockOrder(),
+      items: [{ sku: 'SKU-001', name: 'Test Wine', quantity: 2, unit_price: 19.99, total_price: 39.98 }],
+      subtotal: 39.98,
+      tax: 3.2,
+      total: 43.18,
+    };
+
+    const order = normalizeOrderAmounts<Order>(legacy);
+
+    expect(order.items[0].unit_price).toEqual(money(1999));
+    expect(order.items[0].total_price).toEqual(money(3998));
+    expect(order.subtotal).toEqual(money(3998));
+    expect(order.tax).toEqual(money(320));
+    expect(order.total).toEqual(money(4318));
+  });
+});
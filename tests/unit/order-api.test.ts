@@ -1,9 +1,19 @@
 import { handler as createOrderHandler } from '../../services/order-api/src/handlers/create-order';
 import { handler as getOrderHandler } from '../../services/order-api/src/handlers/get-order';
+import { handler as getOrderHistoryHandler } from '../../services/order-api/src/handlers/get-order-history';
 import { handler as listOrdersHandler } from '../../services/order-api/src/handlers/list-orders';
 import { handler as cancelOrderHandler } from '../../services/order-api/src/handlers/cancel-order';
+import { handler as amendOrderHandler } from '../../services/order-api/src/handlers/amend-order';
+import { handler as cancelLineHandler } from '../../services/order-api/src/handlers/cancel-line';
+import { handler as reorderOrderHandler } from '../../services/order-api/src/handlers/reorder-order';
+import { handler as refundOrderHandler } from '../../services/order-api/src/handlers/refund-order';
+import { handler as fulfillOrderHandler } from '../../services/order-api/src/handlers/fulfill-order';
+import { handler as listStoreOrdersHandler } from '../../services/order-api/src/handlers/list-store-orders';
+import { handler as getPickListHandler } from '../../services/order-api/src/handlers/get-pick-list';
+import { handler as getCountySummaryHandler } from '../../services/order-api/src/handlers/get-county-summary';
 import {
   createMockApiEvent,
+  createMockCaller,
   createMockCreateOrderRequest,
   parseApiResponse,
 } from '../utils/test-helpers';
@@ -11,15 +21,44 @@ import {
   ddbMock,
   resetDynamoMocks,
   mockGetItem,
-  mockPutItem,
+  mockGetItemForKey,
   mockQuery,
-  mockUpdateItem,
-  mockUpdateItemConditionalFailure,
+  mockTransactWrite,
+  mockTransactWriteConditionalFailure,
+  mockCatalog,
+  mockTaxRates,
+  mockOrderPricing,
+  mockComplianceRules,
+  mockInventory,
+  mockReservations,
+  createCatalogProduct,
+  createTaxRateTable,
+  createComplianceRules,
+  createInventoryItem,
+  createReservation,
   createDynamoOrder,
   createDynamoOrderById,
+  createCapturedOrderById,
 } from '../utils/dynamodb-mock';
 import { sqsMock, resetSqsMocks, mockSendMessage } from '../utils/sqs-mock';
-import { OrderStatus } from '@acme-liquors/shared';
+import { DeleteCommand, GetCommand, PutCommand, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { SendMessageCommand } from '@aws-sdk/client-sqs';
+import {
+  CallerRole,
+  CountyOrderSummary,
+  LocalPaymentProvider,
+  MAX_SUMMARY_PAGES,
+  Money,
+  OrderAmendment,
+  OrderById,
+  OrderItem,
+  OrderRefund,
+  OrderStatus,
+  ReorderLine,
+  ReorderPreview,
+  money,
+  setPaymentProvider,
+} from '@acme-liquors/shared';
 
 describe('Order API Handlers', () => {
   beforeEach(() => {
@@ -29,7 +68,8 @@ describe('Order API Handlers', () => {
 
   describe('POST /orders (create-order)', () => {
     it('should create a new order successfully', async () => {
-      mockPutItem();
+      mockOrderPricing();
+      mockTransactWrite();
       mockSendMessage();
 
       const event = createMockApiEvent({
@@ -48,6 +88,13 @@ describe('Order API Handlers', () => {
       expect(statusCode).toBe(201);
       expect(body.order_id).toBeDefined();
       expect(body.status).toBe('PENDING');
+
+      // The initial status starts the order's history, in the same transaction
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      expect(transaction.args[0].input.TransactItems![2].Put).toMatchObject({
+        TableName: 'test-order-status-history',
+        Item: { order_id: body.order_id, from_status: null, to_status: 'PENDING', actor: 'customer:CUST-001' },
+      });
     });
 
     it('should return 400 when X-Idempotency-Key header is missing', async () => {
@@ -65,6 +112,21 @@ describe('Order API Handlers', () => {
       expect(body.error).toContain('Idempotency-Key');
     });
 
+    it('should return 400 when X-Idempotency-Key is too short', async () => {
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'abc' },
+        body: JSON.stringify(createMockCreateOrderRequest()),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{ error: string }>(result);
+
+      expect(statusCode).toBe(400);
+      expect(body.error).toBe('Invalid X-Idempotency-Key header');
+    });
+
     it('should return 400 when request body is invalid', async () => {
       const event = createMockApiEvent({
         httpMethod: 'POST',
@@ -81,6 +143,25 @@ describe('Order API Handlers', () => {
       expect(statusCode).toBe(400);
     });
 
+    it('should return 400 when a SKU is listed twice', async () => {
+      const request = createMockCreateOrderRequest();
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-idempotency-key' },
+        body: JSON.stringify({ ...request, items: [...request.items, { ...request.items[0], quantity: 1 }] }),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{ details: Array<{ field: string; code: string }> }>(result);
+
+      expect(statusCode).toBe(400);
+      expect(body.details).toContainEqual(
+        expect.objectContaining({ field: `items.${request.items.length}.sku`, code: 'duplicate_sku' })
+      );
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
     it('should return 400 when body is missing', async () => {
       const event = createMockApiEvent({
         httpMethod: 'POST',
@@ -98,7 +179,11 @@ describe('Order API Handlers', () => {
     });
 
     it('should calculate totals correctly', async () => {
-      mockPutItem();
+      mockOrderPricing([
+        createCatalogProduct({ sku: 'SKU-001', name: 'Item 1', list_price: money(1000) }),
+        createCatalogProduct({ sku: 'SKU-002', name: 'Item 2', list_price: money(2500) }),
+      ]);
+      mockTransactWrite();
       mockSendMessage();
 
       const request = {
@@ -106,8 +191,8 @@ describe('Order API Handlers', () => {
         store_id: 'STORE-001',
         county_id: 'COUNTY-001',
         items: [
-          { sku: 'SKU-001', name: 'Item 1', quantity: 2, unit_price: 10.00 },
-          { sku: 'SKU-002', name: 'Item 2', quantity: 1, unit_price: 25.00 },
+          { sku: 'SKU-001', quantity: 2 },
+          { sku: 'SKU-002', quantity: 1 },
         ],
         shipping_address: {
           street: '123 Test St',
@@ -115,6 +200,7 @@ describe('Order API Handlers', () => {
           state: 'TX',
           zip: '12345',
         },
+        payment_method: 'pm_card_visa',
       };
 
       const event = createMockApiEvent({
@@ -126,15 +212,252 @@ describe('Order API Handlers', () => {
 
       const result = await createOrderHandler(event);
       const { statusCode, body } = parseApiResponse<{
-        subtotal: number;
-        tax: number;
-        total: number;
+        subtotal: Money;
+        tax: Money;
+        total: Money;
+      }>(result);
+
+      expect(statusCode).toBe(201);
+      expect(body.subtotal).toEqual(money(4500)); // 2*10 + 1*25
+      expect(body.tax).toEqual(money(360)); // 45 * 0.08
+      expect(body.total).toEqual(money(4860)); // 45 + 3.60
+    });
+
+    it('should price items from the catalog with store overrides', async () => {
+      mockOrderPricing([
+        createCatalogProduct({
+          sku: 'SKU-001',
+          name: 'Catalog Bourbon',
+          list_price: money(4000),
+          store_prices: { 'STORE-001': money(3500) },
+        }),
+      ]);
+      mockTransactWrite();
+      mockSendMessage();
+
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-key' },
+        body: JSON.stringify({
+          ...createMockCreateOrderRequest(),
+          items: [{ sku: 'SKU-001', quantity: 2 }],
+        }),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{
+        items: Array<{ name: string; unit_price: Money; total_price: Money }>;
+        subtotal: Money;
+      }>(result);
+
+      expect(statusCode).toBe(201);
+      expect(body.items[0].name).toBe('Catalog Bourbon');
+      expect(body.items[0].unit_price).toEqual(money(3500));
+      expect(body.subtotal).toEqual(money(7000));
+    });
+
+    it('should return 422 when a client price drifts from the catalog', async () => {
+      mockCatalog([createCatalogProduct({ sku: 'SKU-001', list_price: money(4500) })]);
+
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-key' },
+        body: JSON.stringify({
+          ...createMockCreateOrderRequest(),
+          items: [{ sku: 'SKU-001', quantity: 1, unit_price: money(1) }],
+        }),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{
+        details: Array<{ sku: string; code: string; catalog_price: Money }>;
+      }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.details).toEqual([
+        expect.objectContaining({ sku: 'SKU-001', code: 'PRICE_DRIFT', catalog_price: money(4500) }),
+      ]);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 422 listing unknown and inactive SKUs', async () => {
+      mockCatalog([createCatalogProduct({ sku: 'SKU-OLD', active: false })]);
+
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-key' },
+        body: JSON.stringify({
+          ...createMockCreateOrderRequest(),
+          items: [
+            { sku: 'SKU-MISSING', quantity: 1 },
+            { sku: 'SKU-OLD', quantity: 1 },
+          ],
+        }),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{
+        details: Array<{ sku: string; code: string }>;
+      }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.details.map((d) => [d.sku, d.code])).toEqual([
+        ['SKU-MISSING', 'SKU_NOT_FOUND'],
+        ['SKU-OLD', 'SKU_INACTIVE'],
+      ]);
+    });
+
+    it('should store a per-line tax breakdown from the county rate table', async () => {
+      mockOrderPricing(
+        [createCatalogProduct({ sku: 'SKU-001', category: 'SPIRITS', abv: 40, list_price: money(3000) })],
+        [createTaxRateTable({ excise: { SPIRITS: { percent_of_price: 0.1 } } })]
+      );
+      mockTransactWrite();
+      mockSendMessage();
+
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-key' },
+        body: JSON.stringify({
+          ...createMockCreateOrderRequest(),
+          items: [{ sku: 'SKU-001', quantity: 1 }],
+        }),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{
+        tax: Money;
+        tax_breakdown: {
+          jurisdiction_id: string;
+          rate_table_version: number;
+          lines: Array<{ sku: string; category: string; components: Array<{ type: string }> }>;
+        };
       }>(result);
 
       expect(statusCode).toBe(201);
-      expect(body.subtotal).toBe(45.00); // 2*10 + 1*25
-      expect(body.tax).toBeCloseTo(3.60, 2); // 45 * 0.08
-      expect(body.total).toBeCloseTo(48.60, 2); // 45 + 3.60
+      expect(body.tax).toEqual(money(540)); // 30 * (0.0625 + 0.0175 + 0.10)
+      expect(body.tax_breakdown.jurisdiction_id).toBe('TX#COUNTY-001');
+      expect(body.tax_breakdown.rate_table_version).toBe(1);
+      expect(body.tax_breakdown.lines[0].category).toBe('SPIRITS');
+      expect(body.tax_breakdown.lines[0].components.map((c) => c.type)).toEqual([
+        'STATE_SALES',
+        'COUNTY_SALES',
+        'EXCISE',
+      ]);
+
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [orders, ordersById] = transaction.args[0].input.TransactItems!;
+      expect(orders.Put!.Item!.tax_breakdown).toBeDefined();
+      expect(ordersById.Put!.Item!.tax_breakdown).toEqual(orders.Put!.Item!.tax_breakdown);
+    });
+
+    it('should return 422 naming each broken compliance rule', async () => {
+      mockOrderPricing(
+        [
+          createCatalogProduct({ sku: 'WINE-001' }),
+          createCatalogProduct({ sku: 'VODKA-001', category: 'SPIRITS', abv: 40 }),
+        ],
+        undefined,
+        [
+          createComplianceRules({
+            wet_status: 'MOIST',
+            allowed_categories: ['BEER', 'WINE'],
+            max_abv: 17,
+          }),
+        ]
+      );
+
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-key' },
+        body: JSON.stringify({
+          ...createMockCreateOrderRequest(),
+          items: [
+            { sku: 'WINE-001', quantity: 1 },
+            { sku: 'VODKA-001', quantity: 1 },
+          ],
+        }),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{
+        error: string;
+        violations: Array<{ rule: string; sku?: string }>;
+      }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.error).toBe('Order violates compliance rules');
+      expect(body.violations.map((v) => [v.rule, v.sku])).toEqual([
+        ['CATEGORY_NOT_ALLOWED', 'VODKA-001'],
+        ['MAX_ABV', 'VODKA-001'],
+      ]);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 422 for a county without compliance rules', async () => {
+      mockOrderPricing(undefined, undefined, []);
+
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-key' },
+        body: JSON.stringify(createMockCreateOrderRequest()),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{ violations: Array<{ rule: string }> }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.violations[0].rule).toBe('COUNTY_NOT_SUPPORTED');
+    });
+
+    it('should count earlier orders today against the daily volume limit', async () => {
+      mockOrderPricing(undefined, undefined, [
+        createComplianceRules({ max_volume_ml_per_day: 3000 }),
+      ]);
+      mockQuery([{ total_volume_ml: 1500 }, { total_volume_ml: 750 }]);
+
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-key' },
+        body: JSON.stringify(createMockCreateOrderRequest()), // 2 x 750ml
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{
+        violations: Array<{ rule: string; limit: number; actual: number }>;
+      }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.violations).toEqual([
+        expect.objectContaining({ rule: 'DAILY_VOLUME_LIMIT', limit: 3000, actual: 3750 }),
+      ]);
+    });
+
+    it('should return 422 when no tax rates exist for the county', async () => {
+      mockCatalog();
+      mockComplianceRules([createComplianceRules({ county_id: 'COUNTY-NEW' })]);
+      mockTaxRates([]);
+
+      const event = createMockApiEvent({
+        httpMethod: 'POST',
+        path: '/orders',
+        headers: { 'X-Idempotency-Key': 'test-key' },
+        body: JSON.stringify({ ...createMockCreateOrderRequest(), county_id: 'COUNTY-NEW' }),
+      });
+
+      const result = await createOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{ error: string; county_id: string }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.error).toBe('Unsupported tax jurisdiction');
+      expect(body.county_id).toBe('COUNTY-NEW');
     });
   });
 
@@ -186,6 +509,71 @@ describe('Order API Handlers', () => {
     });
   });
 
+  describe('GET /orders/{order_id}/history (get-order-history)', () => {
+    it('should return the status history oldest first', async () => {
+      mockGetItem(createDynamoOrderById({ order_id: 'ORD-12345', status: OrderStatus.CANCELLED }));
+      mockQuery([
+        {
+          order_id: 'ORD-12345',
+          changed_ts_id: '2026-10-01T12:00:00.000Z#STC-1',
+          change_id: 'STC-1',
+          from_status: null,
+          to_status: 'PENDING',
+          actor: 'customer:CUST-001',
+          changed_at: '2026-10-01T12:00:00.000Z',
+        },
+        {
+          order_id: 'ORD-12345',
+          changed_ts_id: '2026-10-01T12:05:00.000Z#STC-2',
+          change_id: 'STC-2',
+          from_status: 'PENDING',
+          to_status: 'CANCELLED',
+          actor: 'customer:CUST-001',
+          changed_at: '2026-10-01T12:05:00.000Z',
+        },
+      ]);
+
+      const event = createMockApiEvent({
+        httpMethod: 'GET',
+        path: '/orders/ORD-12345/history',
+        pathParameters: { order_id: 'ORD-12345' },
+      });
+
+      const result = await getOrderHistoryHandler(event);
+      const { statusCode, body } = parseApiResponse<{
+        status: string;
+        history: Array<{ from_status: string | null; to_status: string; actor: string }>;
+      }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.status).toBe('CANCELLED');
+      expect(body.history).toEqual([
+        { from_status: null, to_status: 'PENDING', actor: 'customer:CUST-001', changed_at: '2026-10-01T12:00:00.000Z' },
+        {
+          from_status: 'PENDING',
+          to_status: 'CANCELLED',
+          actor: 'customer:CUST-001',
+          changed_at: '2026-10-01T12:05:00.000Z',
+        },
+      ]);
+    });
+
+    it('should return 404 when order not found', async () => {
+      mockGetItem(null);
+
+      const event = createMockApiEvent({
+        httpMethod: 'GET',
+        path: '/orders/ORD-NOTFOUND/history',
+        pathParameters: { order_id: 'ORD-NOTFOUND' },
+      });
+
+      const result = await getOrderHistoryHandler(event);
+      const { statusCode } = parseApiResponse<unknown>(result);
+
+      expect(statusCode).toBe(404);
+    });
+  });
+
   describe('GET /orders (list-orders)', () => {
     it('should list orders by customer', async () => {
       const mockOrders = [
@@ -250,16 +638,90 @@ describe('Order API Handlers', () => {
       expect(statusCode).toBe(200);
       expect(body.next_token).toBeDefined();
     });
+
+    it('should return 400 for a raw or another customer\'s next_token', async () => {
+      mockQuery([createDynamoOrder()], { customer_id: 'CUST-002', order_ts_id: 'next' });
+      const otherCustomer = parseApiResponse<{ next_token: string }>(
+        await listOrdersHandler(
+          createMockApiEvent(
+            { httpMethod: 'GET', path: '/orders', queryStringParameters: { customer_id: 'CUST-002' } },
+            createMockCaller({ subject: 'CUST-002' })
+          )
+        )
+      ).body.next_token;
+
+      for (const next_token of [JSON.stringify({ customer_id: 'CUST-002', order_ts_id: 'next' }), otherCustomer]) {
+        const event = createMockApiEvent({
+          httpMethod: 'GET',
+          path: '/orders',
+          queryStringParameters: { customer_id: 'CUST-001', next_token },
+        });
+
+        const result = await listOrdersHandler(event);
+        const { statusCode, body } = parseApiResponse<{ error: string }>(result);
+
+        expect(statusCode).toBe(400);
+        expect(body.error).toBe('Invalid next_token');
+      }
+      expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(1);
+    });
   });
 
   describe('DELETE /orders/{order_id} (cancel-order)', () => {
+    it('should return 401 without a verified caller', async () => {
+      const event = createMockApiEvent(
+        { httpMethod: 'DELETE', path: '/orders/ORD-12345', pathParameters: { order_id: 'ORD-12345' } },
+        null
+      );
+
+      const result = await cancelOrderHandler(event);
+
+      expect(result.statusCode).toBe(401);
+      expect(ddbMock.commandCalls(GetCommand)).toHaveLength(0);
+    });
+
+    it('should return 403 when cancelling another customer\'s order', async () => {
+      mockGetItem(createDynamoOrderById({ order_id: 'ORD-12345', customer_id: 'CUST-002' }));
+
+      const event = createMockApiEvent({
+        httpMethod: 'DELETE',
+        path: '/orders/ORD-12345',
+        pathParameters: { order_id: 'ORD-12345' },
+      });
+
+      const result = await cancelOrderHandler(event);
+      const { statusCode, body } = parseApiResponse<{ error: string }>(result);
+
+      expect(statusCode).toBe(403);
+      expect(body.error).toBe('Forbidden');
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should record a customer-service agent as the actor', async () => {
+      mockGetItem(createDynamoOrderById({ order_id: 'ORD-12345', status: OrderStatus.PENDING }));
+      mockTransactWrite();
+      mockSendMessage();
+
+      const event = createMockApiEvent(
+        { httpMethod: 'DELETE', path: '/orders/ORD-12345', pathParameters: { order_id: 'ORD-12345' } },
+        createMockCaller({ subject: 'CS-7', role: CallerRole.CUSTOMER_SERVICE, county_ids: ['COUNTY-001'] })
+      );
+
+      const result = await cancelOrderHandler(event);
+
+      expect(result.statusCode).toBe(200);
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      expect(transaction.args[0].input.TransactItems![2].Put!.Item).toMatchObject({ actor: 'agent:CS-7' });
+    });
+
     it('should cancel a pending order', async () => {
       const mockOrder = createDynamoOrderById({
         order_id: 'ORD-12345',
         status: OrderStatus.PENDING,
       });
       mockGetItem(mockOrder);
-      mockUpdateItem();
+      mockTransactWrite();
+      mockSendMessage();
 
       const event = createMockApiEvent({
         httpMethod: 'DELETE',
@@ -268,10 +730,91 @@ describe('Order API Handlers', () => {
       });
 
       const result = await cancelOrderHandler(event);
-      const { statusCode, body } = parseApiResponse<{ status: string }>(result);
+      const { statusCode, body } = parseApiResponse<{
+        status: string;
+        payment_state: string;
+        follow_ups: { status: string };
+      }>(result);
 
       expect(statusCode).toBe(200);
       expect(body.status).toBe('CANCELLED');
+      expect(body.payment_state).toBe('PENDING');
+      expect(body.follow_ups.status).toBe('QUEUED');
+      const [message] = sqsMock.commandCalls(SendMessageCommand);
+      expect(JSON.parse(message.args[0].input.MessageBody!)).toMatchObject({
+        order_id: 'ORD-12345',
+        action: 'CANCEL_ORDER',
+      });
+    });
+
+    it('should queue a void for an authorized payment', async () => {
+      mockGetItem(
+        createDynamoOrderById({
+          order_id: 'ORD-12345',
+          status: OrderStatus.CONFIRMED,
+          payment_state: 'AUTHORIZED',
+          payment_authorization_id: 'auth_0123456789abcdef',
+        })
+      );
+      mockTransactWrite();
+      mockSendMessage();
+
+      const result = await cancelOrderHandler(
+        createMockApiEvent({ httpMethod: 'DELETE', pathParameters: { order_id: 'ORD-12345' } })
+      );
+      const { statusCode, body } = parseApiResponse<{ payment_state: string }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.payment_state).toBe('VOID_PENDING');
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      expect(transaction.args[0].input.TransactItems![1].Update).toMatchObject({
+        TableName: 'test-orders-by-id',
+        ConditionExpression: '#status = :currentStatus AND payment_state = :currentPaymentState',
+        ExpressionAttributeValues: expect.objectContaining({
+          ':paymentState': 'VOID_PENDING',
+          ':currentPaymentState': 'AUTHORIZED',
+        }),
+      });
+    });
+
+    it('should report progress and re-queue unfinished follow-ups for a cancelled order', async () => {
+      mockGetItemForKey(
+        { order_id: 'ORD-12345' },
+        createDynamoOrderById({ order_id: 'ORD-12345', status: OrderStatus.CANCELLED, payment_state: 'REFUND_PENDING' })
+      );
+      mockGetItemForKey(
+        { saga_id: 'ORD-12345#cancel' },
+        {
+          saga_id: 'ORD-12345#cancel',
+          saga_type: 'order-cancellation',
+          status: 'RUNNING',
+          steps: {
+            'release-inventory': { status: 'COMPLETED', attempts: 1 },
+            'reverse-payment': { status: 'PENDING', attempts: 2, error: 'Payment provider timed out' },
+          },
+          version: 3,
+          created_at: '2026-10-19T12:00:00.000Z',
+          updated_at: '2026-10-19T12:01:00.000Z',
+        }
+      );
+      mockSendMessage();
+
+      const result = await cancelOrderHandler(
+        createMockApiEvent({ httpMethod: 'DELETE', pathParameters: { order_id: 'ORD-12345' } })
+      );
+      const { statusCode, body } = parseApiResponse<{
+        payment_state: string;
+        follow_ups: { status: string; steps: Record<string, string> };
+      }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.payment_state).toBe('REFUND_PENDING');
+      expect(body.follow_ups).toEqual({
+        status: 'IN_PROGRESS',
+        steps: { 'release-inventory': 'COMPLETED', 'reverse-payment': 'PENDING' },
+      });
+      expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(1);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
     });
 
     it('should return 404 when order not found', async () => {
@@ -315,7 +858,7 @@ describe('Order API Handlers', () => {
         status: OrderStatus.PENDING,
       });
       mockGetItem(mockOrder);
-      mockUpdateItemConditionalFailure();
+      mockTransactWriteConditionalFailure();
 
       const event = createMockApiEvent({
         httpMethod: 'DELETE',
@@ -329,4 +872,1107 @@ describe('Order API Handlers', () => {
       expect(statusCode).toBe(409);
     });
   });
+
+  describe('PATCH /orders/{order_id} (amend-order)', () => {
+    const wine = createCatalogProduct({ sku: 'SKU-001', list_price: money(1000) });
+    const beer = createCatalogProduct({ sku: 'SKU-002', name: 'Test Beer', category: 'BEER', list_price: money(1500) });
+    const amendEvent = (body: object, caller = createMockCaller()) =>
+      createMockApiEvent(
+        {
+          httpMethod: 'PATCH',
+          path: '/orders/ORD-AMEND',
+          pathParameters: { order_id: 'ORD-AMEND' },
+          body: JSON.stringify(body),
+        },
+        caller
+      );
+    const confirmedOrder = () =>
+      createDynamoOrderById({
+        order_id: 'ORD-AMEND',
+        status: OrderStatus.CONFIRMED,
+        payment_state: 'AUTHORIZED',
+        payment_method: 'pm_card_visa',
+        payment_authorization_id: 'auth_0123456789abcdef',
+      });
+    const mockAmendable = (order: OrderById, saga?: object) => {
+      ddbMock.on(GetCommand, { TableName: 'test-orders-by-id' }).resolves({ Item: order });
+      ddbMock.on(GetCommand, { TableName: 'test-order-sagas' }).resolves({ Item: saga });
+      mockOrderPricing([wine, beer]);
+      mockInventory([
+        createInventoryItem(),
+        createInventoryItem({ store_sku: 'STORE-001#SKU-002', sku: 'SKU-002', quantity_available: 3, quantity_reserved: 0 }),
+      ]);
+      mockReservations([
+        createReservation({ order_id: 'ORD-AMEND', quantity: 1, status: 'CONFIRMED' }),
+      ]);
+    };
+
+    let payments: LocalPaymentProvider;
+    beforeEach(() => {
+      payments = new LocalPaymentProvider();
+      setPaymentProvider(payments);
+    });
+    afterEach(() => setPaymentProvider(null));
+
+    it('should refuse store staff', async () => {
+      mockAmendable(confirmedOrder());
+
+      const result = await amendOrderHandler(
+        amendEvent(
+          { change: [{ sku: 'SKU-001', quantity: 2 }] },
+          createMockCaller({ subject: 'STAFF-1', role: CallerRole.STORE_STAFF, store_ids: ['STORE-001'] })
+        )
+      );
+
+      expect(result.statusCode).toBe(403);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 400 for an empty amendment', async () => {
+      const result = await amendOrderHandler(amendEvent({ reason: 'nothing' }));
+
+      expect(result.statusCode).toBe(400);
+    });
+
+    it('should re-price a pending order before processing starts and record the diff', async () => {
+      const order = createDynamoOrderById({ order_id: 'ORD-AMEND' });
+      mockAmendable(order);
+      mockTransactWrite();
+
+      const result = await amendOrderHandler(
+        amendEvent({
+          add: [{ sku: 'SKU-002', quantity: 2 }],
+          shipping_address: { street: '9 New Rd', city: 'Test City', state: 'TX', zip: '12345' },
+          reason: 'Forgot the beer',
+        })
+      );
+      const { statusCode, body } = parseApiResponse<{ total: Money; amendment: OrderAmendment }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.total).toEqual(money(4320)); // (10.00 + 2 x 15.00) + 8% tax
+      expect(body.amendment).toMatchObject({
+        actor: 'customer:CUST-001',
+        reason: 'Forgot the beer',
+        diff: {
+          items: [{ sku: 'SKU-002', after: { quantity: 2, total_price: money(3000) } }],
+          shipping_address: { before: order.shipping_address, after: { street: '9 New Rd' } },
+          total: { before: money(1080), after: money(4320) },
+        },
+      });
+
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const items = transaction.args[0].input.TransactItems!;
+      expect(items[1].Update).toMatchObject({
+        TableName: 'test-orders-by-id',
+        ConditionExpression: '#status = :status AND updated_at = :expected',
+        ExpressionAttributeValues: expect.objectContaining({ ':amendment': [body.amendment] }),
+      });
+      // Processing will reserve and authorize the amended order, so nothing else moves
+      expect(items[2].ConditionCheck).toMatchObject({
+        TableName: 'test-order-sagas',
+        Key: { saga_id: 'ORD-AMEND' },
+        ConditionExpression: 'attribute_not_exists(saga_id)',
+      });
+      expect(items).toHaveLength(3);
+    });
+
+    it('should refuse a pending order whose processing has started', async () => {
+      mockAmendable(createDynamoOrderById({ order_id: 'ORD-AMEND' }), { saga_id: 'ORD-AMEND', status: 'RUNNING' });
+
+      const result = await amendOrderHandler(amendEvent({ change: [{ sku: 'SKU-001', quantity: 2 }] }));
+      const { statusCode, body } = parseApiResponse<{ error: string; message: string }>(result);
+
+      expect(statusCode).toBe(409);
+      expect(body.message).toMatch(/being processed/);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should refuse an order that has been picked', async () => {
+      mockAmendable({ ...confirmedOrder(), status: OrderStatus.PROCESSING });
+
+      const result = await amendOrderHandler(amendEvent({ change: [{ sku: 'SKU-001', quantity: 2 }] }));
+
+      expect(result.statusCode).toBe(409);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should move a confirmed order\'s reservation and raise its authorization by the difference', async () => {
+      mockAmendable(confirmedOrder());
+      mockTransactWrite();
+      const adjust = jest.spyOn(payments, 'adjustAuthorization');
+
+      const result = await amendOrderHandler(
+        amendEvent({ change: [{ sku: 'SKU-001', quantity: 3 }], add: [{ sku: 'SKU-002', quantity: 1 }] })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(adjust).toHaveBeenCalledTimes(1);
+      expect(adjust.mock.calls[0][0]).toMatchObject({
+        authorization_id: 'auth_0123456789abcdef',
+        amount: money(4860), // (3 x 10.00 + 15.00) + 8% tax
+        idempotency_key: expect.stringMatching(/^ORD-AMEND:adjust:AMD-/),
+      });
+
+      const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+      expect(items.slice(2)).toEqual([
+        {
+          Update: expect.objectContaining({
+            TableName: 'test-inventory',
+            Key: { store_sku: 'STORE-001#SKU-001' },
+            ExpressionAttributeValues: expect.objectContaining({ ':qty': 2 }),
+          }),
+        },
+        {
+          Update: expect.objectContaining({
+            TableName: 'test-reservations',
+            Key: { reservation_id: 'RES-001', store_sku: 'STORE-001#SKU-001' },
+            ExpressionAttributeValues: expect.objectContaining({ ':from': 1, ':to': 3 }),
+          }),
+        },
+        {
+          Update: expect.objectContaining({
+            TableName: 'test-inventory',
+            Key: { store_sku: 'STORE-001#SKU-002' },
+            ExpressionAttributeValues: expect.objectContaining({ ':qty': 1 }),
+          }),
+        },
+        {
+          Put: expect.objectContaining({
+            TableName: 'test-reservations',
+            Item: expect.objectContaining({ reservation_id: 'RES-001', quantity: 1, status: 'CONFIRMED' }),
+          }),
+        },
+      ]);
+    });
+
+    it('should lower the authorization only after the amendment is written', async () => {
+      const order = {
+        ...confirmedOrder(),
+        items: [
+          { sku: 'SKU-001', name: 'Test Wine', quantity: 1, unit_price: money(1000), total_price: money(1000) },
+          { sku: 'SKU-002', name: 'Test Beer', quantity: 2, unit_price: money(1500), total_price: money(3000) },
+        ],
+        subtotal: money(4000),
+        tax: money(320),
+        total: money(4320),
+      };
+      mockAmendable(order);
+      mockReservations([
+        createReservation({ order_id: 'ORD-AMEND', quantity: 1, status: 'CONFIRMED' }),
+        createReservation({ order_id: 'ORD-AMEND', store_sku: 'STORE-001#SKU-002', quantity: 2, status: 'CONFIRMED' }),
+      ]);
+      mockTransactWrite();
+      const writesBeforeAdjust: number[] = [];
+      const adjust = jest.spyOn(payments, 'adjustAuthorization');
+      adjust.mockImplementation(async (request) => {
+        writesBeforeAdjust.push(ddbMock.commandCalls(TransactWriteCommand).length);
+        return { outcome: 'APPROVED', transaction_id: request.authorization_id, provider: 'local' };
+      });
+
+      const result = await amendOrderHandler(amendEvent({ remove: ['SKU-002'] }));
+      const { statusCode, body } = parseApiResponse<{ total: Money; amendment: OrderAmendment }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.total).toEqual(money(1080));
+      expect(body.amendment.diff.items).toEqual([
+        expect.objectContaining({ sku: 'SKU-002', before: expect.objectContaining({ quantity: 2 }) }),
+      ]);
+      expect(body.amendment.diff.items[0].after).toBeUndefined();
+      expect(adjust.mock.calls[0][0].amount).toEqual(money(1080));
+      expect(writesBeforeAdjust).toEqual([1]);
+
+      const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+      expect(items[3].Update).toMatchObject({
+        TableName: 'test-reservations',
+        Key: { reservation_id: 'RES-001', store_sku: 'STORE-001#SKU-002' },
+        UpdateExpression: 'SET #status = :released, updated_at = :now',
+      });
+    });
+
+    it('should refuse an increase the stock cannot cover', async () => {
+      mockAmendable(confirmedOrder());
+      const adjust = jest.spyOn(payments, 'adjustAuthorization');
+
+      const result = await amendOrderHandler(amendEvent({ add: [{ sku: 'SKU-002', quantity: 4 }] }));
+      const { statusCode, body } = parseApiResponse<{ failed_items: unknown[] }>(result);
+
+      expect(statusCode).toBe(409);
+      expect(body.failed_items).toEqual([{ sku: 'SKU-002', requested: 4, available: 3 }]);
+      expect(adjust).not.toHaveBeenCalled();
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 422 when the provider declines the higher authorization', async () => {
+      mockAmendable(confirmedOrder());
+      jest.spyOn(payments, 'adjustAuthorization').mockResolvedValue({
+        outcome: 'DECLINED',
+        decline_code: 'insufficient_funds',
+        provider: 'local',
+      });
+
+      const result = await amendOrderHandler(amendEvent({ change: [{ sku: 'SKU-001', quantity: 2 }] }));
+      const { statusCode, body } = parseApiResponse<{ decline_code: string }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.decline_code).toBe('insufficient_funds');
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should put the authorization back when the order changed meanwhile', async () => {
+      mockAmendable(confirmedOrder());
+      mockTransactWriteConditionalFailure();
+      const adjust = jest.spyOn(payments, 'adjustAuthorization');
+
+      const result = await amendOrderHandler(amendEvent({ change: [{ sku: 'SKU-001', quantity: 2 }] }));
+
+      expect(result.statusCode).toBe(409);
+      expect(adjust.mock.calls.map(([request]) => request.amount)).toEqual([money(2160), money(1080)]);
+      expect(adjust.mock.calls[1][0].idempotency_key).toMatch(/:revert$/);
+    });
+
+    it('should return 422 for an amendment that leaves no lines', async () => {
+      mockAmendable(confirmedOrder());
+
+      const result = await amendOrderHandler(amendEvent({ remove: ['SKU-001'] }));
+      const { statusCode, body } = parseApiResponse<{ details: Array<{ code: string }> }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.details[0].code).toBe('no_items_left');
+    });
+
+    it('should return 422 when the amended order breaks compliance rules', async () => {
+      mockAmendable(confirmedOrder());
+      mockComplianceRules([createComplianceRules({ allowed_ship_to_states: ['TX'] })]);
+
+      const result = await amendOrderHandler(
+        amendEvent({ shipping_address: { street: '1 Main St', city: 'Tulsa', state: 'OK', zip: '74103' } })
+      );
+      const { statusCode, body } = parseApiResponse<{ error: string }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.error).toBe('Order violates compliance rules');
+    });
+
+    it('should not let an amendment bring back a cancelled line', async () => {
+      const order = confirmedOrder();
+      mockAmendable({
+        ...order,
+        items: [
+          ...order.items,
+          { sku: 'SKU-002', name: 'Test Beer', quantity: 1, unit_price: money(1500), total_price: money(1500), status: 'CANCELLED' },
+        ],
+      });
+
+      const result = await amendOrderHandler(amendEvent({ add: [{ sku: 'SKU-002', quantity: 1 }] }));
+      const { statusCode, body } = parseApiResponse<{ details: Array<{ code: string }> }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.details[0].code).toBe('line_cancelled');
+    });
+  });
+
+  describe('POST /orders/{order_id}/items/{sku}/cancel (cancel-line)', () => {
+    const staff = createMockCaller({ subject: 'STAFF-1', role: CallerRole.STORE_STAFF, store_ids: ['STORE-001'] });
+    const cancelEvent = (sku: string, body: object, caller = staff) =>
+      createMockApiEvent(
+        {
+          httpMethod: 'POST',
+          path: `/orders/ORD-REFUND/items/${sku}/cancel`,
+          pathParameters: { order_id: 'ORD-REFUND', sku },
+          body: JSON.stringify(body),
+        },
+        caller
+      );
+    // WINE-001: 3 x 19.99 (tax 4.95), BEER-001: 2 x 8.00 (tax 1.32); total 82.24
+    const packedOrder = (overrides: Partial<OrderById> = {}) =>
+      createCapturedOrderById({
+        status: OrderStatus.PACKED,
+        payment_state: 'AUTHORIZED',
+        payment_capture_id: undefined,
+        ...overrides,
+      });
+    const mockCancellable = (order: OrderById) => {
+      ddbMock.on(GetCommand, { TableName: 'test-orders-by-id' }).resolves({ Item: order });
+      mockGetItemForKey({ sku: 'BEER-001' }, createCatalogProduct({ sku: 'BEER-001', category: 'BEER', volume_ml: 355 }));
+      mockReservations([
+        createReservation({ order_id: 'ORD-REFUND', store_sku: 'STORE-001#WINE-001', quantity: 3, status: 'CONFIRMED' }),
+        createReservation({ order_id: 'ORD-REFUND', store_sku: 'STORE-001#BEER-001', quantity: 2, status: 'CONFIRMED' }),
+      ]);
+    };
+
+    let payments: LocalPaymentProvider;
+    beforeEach(() => {
+      payments = new LocalPaymentProvider();
+      setPaymentProvider(payments);
+    });
+    afterEach(() => setPaymentProvider(null));
+
+    it('should refuse customers', async () => {
+      mockCancellable(packedOrder());
+
+      const result = await cancelLineHandler(cancelEvent('BEER-001', { reason_code: 'OUT_OF_STOCK' }, createMockCaller()));
+
+      expect(result.statusCode).toBe(403);
+    });
+
+    it('should return 400 for an unknown reason code', async () => {
+      const result = await cancelLineHandler(cancelEvent('BEER-001', { reason_code: 'BORED' }));
+
+      expect(result.statusCode).toBe(400);
+    });
+
+    it('should keep the line as CANCELLED, re-total the order, release its stock and lower the authorization', async () => {
+      mockCancellable(packedOrder({ total_volume_ml: 2960 }));
+      mockTransactWrite();
+      const adjust = jest.spyOn(payments, 'adjustAuthorization');
+
+      const result = await cancelLineHandler(
+        cancelEvent('BEER-001', { reason_code: 'OUT_OF_STOCK', note: 'Last case was damaged in the back' })
+      );
+      const { statusCode, body } = parseApiResponse<{ line: OrderItem; items: OrderItem[]; total: Money }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.total).toEqual(money(6492)); // 59.97 + 4.95 tax
+      expect(body.items.map((item) => [item.sku, item.status])).toEqual([
+        ['WINE-001', undefined],
+        ['BEER-001', 'CANCELLED'],
+      ]);
+      expect(body.line.cancellation).toMatchObject({
+        reason_code: 'OUT_OF_STOCK',
+        actor: 'staff:STAFF-1',
+        amount: money(1732),
+        payment: { action: 'REDUCE_AUTHORIZATION', amount: money(6492), status: 'COMPLETED' },
+      });
+      expect(adjust.mock.calls[0][0]).toMatchObject({
+        amount: money(6492),
+        idempotency_key: expect.stringMatching(/^ORD-REFUND:adjust:LCN-/),
+      });
+
+      const [cancel, settle] = ddbMock.commandCalls(TransactWriteCommand);
+      const items = cancel.args[0].input.TransactItems!;
+      expect(items[0].Update).toMatchObject({
+        ConditionExpression: '#status = :status AND updated_at = :expected',
+        ExpressionAttributeValues: expect.objectContaining({
+          ':subtotal': money(5997),
+          ':tax': money(495),
+          ':volume': 2250,
+          ':taxBreakdown': expect.objectContaining({ lines: [expect.objectContaining({ sku: 'WINE-001' })] }),
+        }),
+      });
+      expect(items[2].Update).toMatchObject({
+        TableName: 'test-inventory',
+        Key: { store_sku: 'STORE-001#BEER-001' },
+        UpdateExpression: 'SET quantity_reserved = quantity_reserved - :qty, updated_at = :now',
+        ExpressionAttributeValues: expect.objectContaining({ ':qty': 2 }),
+      });
+      expect(items[3].Update).toMatchObject({
+        TableName: 'test-reservations',
+        UpdateExpression: 'SET #status = :released, updated_at = :now',
+      });
+      expect(settle.args[0].input.TransactItems![0].Update!.UpdateExpression).toBe(
+        'SET #items[1].cancellation.payment = :payment, updated_at = :now'
+      );
+    });
+
+    it('should refuse a line whose payment was already captured', async () => {
+      mockCancellable(packedOrder({ payment_state: 'CAPTURED', payment_capture_id: 'cap_0123456789abcdef' }));
+      const refund = jest.spyOn(payments, 'refund');
+
+      const result = await cancelLineHandler(cancelEvent('WINE-001', { reason_code: 'DAMAGED' }));
+      const { statusCode, body } = parseApiResponse<{ message: string }>(result);
+
+      expect(statusCode).toBe(409);
+      expect(body.message).toMatch(/must be AUTHORIZED/);
+      expect(refund).not.toHaveBeenCalled();
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should resume the payment follow-up when the line is cancelled again', async () => {
+      const order = packedOrder();
+      order.items[1] = {
+        ...order.items[1],
+        status: 'CANCELLED',
+        cancellation: {
+          cancellation_id: 'LCN-1',
+          reason_code: 'OUT_OF_STOCK',
+          actor: 'staff:STAFF-1',
+          subtotal: money(1600),
+          tax: money(132),
+          amount: money(1732),
+          payment: { action: 'REDUCE_AUTHORIZATION', amount: money(6492), status: 'PENDING' },
+          cancelled_at: '2026-10-02T12:00:00.000Z',
+        },
+      };
+      mockCancellable(order);
+      mockTransactWrite();
+      const adjust = jest.spyOn(payments, 'adjustAuthorization');
+
+      const result = await cancelLineHandler(cancelEvent('BEER-001', { reason_code: 'OUT_OF_STOCK' }));
+      const { statusCode, body } = parseApiResponse<{ line: OrderItem; message: string }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.message).toMatch(/already cancelled/);
+      expect(adjust.mock.calls[0][0].idempotency_key).toBe('ORD-REFUND:adjust:LCN-1');
+      expect(body.line.cancellation!.payment.status).toBe('COMPLETED');
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(1);
+    });
+
+    it('should refuse to cancel the last line', async () => {
+      const order = packedOrder();
+      mockCancellable({ ...order, items: [order.items[0]] });
+
+      const result = await cancelLineHandler(cancelEvent('WINE-001', { reason_code: 'OUT_OF_STOCK' }));
+      const { statusCode, body } = parseApiResponse<{ details: Array<{ code: string }> }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.details[0].code).toBe('last_line');
+    });
+
+    it('should refuse an order that has shipped', async () => {
+      mockCancellable(packedOrder({ status: OrderStatus.SHIPPED }));
+
+      const result = await cancelLineHandler(cancelEvent('BEER-001', { reason_code: 'OUT_OF_STOCK' }));
+
+      expect(result.statusCode).toBe(409);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 404 for a SKU that is not on the order', async () => {
+      mockCancellable(packedOrder());
+
+      const result = await cancelLineHandler(cancelEvent('GIN-001', { reason_code: 'OUT_OF_STOCK' }));
+
+      expect(result.statusCode).toBe(404);
+    });
+
+    it('should return 409 when the order changed meanwhile', async () => {
+      mockCancellable(packedOrder());
+      mockTransactWriteConditionalFailure();
+      const adjust = jest.spyOn(payments, 'adjustAuthorization');
+
+      const result = await cancelLineHandler(cancelEvent('BEER-001', { reason_code: 'OUT_OF_STOCK' }));
+
+      expect(result.statusCode).toBe(409);
+      expect(adjust).not.toHaveBeenCalled();
+    });
+
+    it('should return 409 when the reservation no longer matches the line', async () => {
+      mockCancellable(packedOrder());
+      mockReservations([
+        createReservation({ order_id: 'ORD-REFUND', store_sku: 'STORE-001#BEER-001', quantity: 2, status: 'RELEASED' }),
+      ]);
+
+      const result = await cancelLineHandler(cancelEvent('BEER-001', { reason_code: 'OUT_OF_STOCK' }));
+
+      expect(result.statusCode).toBe(409);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('POST /orders/{order_id}/reorder (reorder-order)', () => {
+    const wine = createCatalogProduct({ sku: 'SKU-001', list_price: money(1200) });
+    const beer = createCatalogProduct({ sku: 'SKU-002', name: 'Test Beer', category: 'BEER', list_price: money(1500) });
+    const gin = createCatalogProduct({ sku: 'SKU-003', name: 'Test Gin', category: 'SPIRITS', active: false });
+    const line = (sku: string, quantity: number, unitPrice: number): OrderItem => ({
+      sku,
+      name: sku,
+      quantity,
+      unit_price: money(unitPrice),
+      total_price: money(unitPrice * quantity),
+    });
+    const pastOrder = (overrides: Partial<OrderById> = {}) =>
+      createDynamoOrderById({
+        order_id: 'ORD-PAST',
+        status: OrderStatus.DELIVERED,
+        payment_state: 'CAPTURED',
+        payment_method: 'pm_card_visa',
+        items: [
+          line('SKU-001', 2, 1000),
+          line('SKU-002', 3, 1500),
+          line('SKU-003', 1, 3000),
+          { ...line('SKU-004', 1, 500), status: 'CANCELLED' },
+        ],
+        ...overrides,
+      });
+    const reorderEvent = (body: object | null, headers: Record<string, string> = {}, caller = createMockCaller()) =>
+      createMockApiEvent(
+        {
+          httpMethod: 'POST',
+          path: '/orders/ORD-PAST/reorder',
+          pathParameters: { order_id: 'ORD-PAST' },
+          headers,
+          body: body && JSON.stringify(body),
+        },
+        caller
+      );
+    const mockReorderable = (order: OrderById, rules = [createComplianceRules()]) => {
+      ddbMock.on(GetCommand, { TableName: 'test-orders-by-id' }).resolves({ Item: order });
+      mockOrderPricing([wine, beer, gin], undefined, rules);
+      mockInventory([
+        createInventoryItem(),
+        createInventoryItem({ store_sku: 'STORE-001#SKU-002', sku: 'SKU-002', quantity_available: 5, quantity_reserved: 4 }),
+      ]);
+    };
+
+    it('should preview the past order at current prices and stock without writing', async () => {
+      mockReorderable(pastOrder());
+
+      const result = await reorderOrderHandler(reorderEvent(null));
+      const { statusCode, body } = parseApiResponse<ReorderPreview>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.reordered_from).toBe('ORD-PAST');
+      expect(body.lines).toEqual([
+        expect.objectContaining({ sku: 'SKU-001', status: 'PRICE_CHANGED', quantity: 2, unit_price: money(1200) }),
+        expect.objectContaining({ sku: 'SKU-002', status: 'REDUCED', previous_quantity: 3, quantity: 1, available: 1 }),
+        expect.objectContaining({ sku: 'SKU-003', status: 'UNAVAILABLE', quantity: 0 }),
+      ]);
+      expect(body.items.map((item) => [item.sku, item.quantity])).toEqual([['SKU-001', 2], ['SKU-002', 1]]);
+      expect(body.total).toEqual(money(4212)); // (2 x 12.00 + 15.00) + 8% tax
+      expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should refuse another customer\'s order', async () => {
+      mockReorderable(pastOrder({ customer_id: 'CUST-OTHER' }));
+
+      const result = await reorderOrderHandler(reorderEvent(null));
+
+      expect(result.statusCode).toBe(403);
+    });
+
+    it('should return 422 when nothing on the order can be supplied', async () => {
+      mockReorderable(pastOrder({ items: [line('SKU-003', 1, 3000)] }));
+
+      const result = await reorderOrderHandler(reorderEvent(null));
+      const { statusCode, body } = parseApiResponse<{ error: string; lines: ReorderLine[] }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.error).toBe('Nothing to reorder');
+      expect(body.lines).toEqual([expect.objectContaining({ sku: 'SKU-003', status: 'UNAVAILABLE' })]);
+    });
+
+    it('should return 422 when the county no longer allows the order', async () => {
+      mockReorderable(pastOrder(), [createComplianceRules({ wet_status: 'DRY' })]);
+
+      const result = await reorderOrderHandler(reorderEvent(null));
+      const { statusCode, body } = parseApiResponse<{ error: string }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.error).toBe('Order violates compliance rules');
+    });
+
+    it('should require a new X-Idempotency-Key to confirm', async () => {
+      mockReorderable(pastOrder());
+
+      const result = await reorderOrderHandler(reorderEvent({ confirm: true }));
+
+      expect(result.statusCode).toBe(400);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should place the new order on confirmation', async () => {
+      mockReorderable(pastOrder());
+      mockTransactWrite();
+      mockSendMessage();
+
+      const result = await reorderOrderHandler(
+        reorderEvent({ confirm: true, expected_total: money(4212) }, { 'X-Idempotency-Key': 'reorder-key-1' })
+      );
+      const { statusCode, body } = parseApiResponse<{
+        order_id: string;
+        reordered_from: string;
+        status: string;
+        lines: ReorderLine[];
+        total: Money;
+      }>(result);
+
+      expect(statusCode).toBe(201);
+      expect(body.order_id).not.toBe('ORD-PAST');
+      expect(body.reordered_from).toBe('ORD-PAST');
+      expect(body.status).toBe('PENDING');
+      expect(body.lines).toHaveLength(3);
+      expect(body.total).toEqual(money(4212));
+
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      expect(transaction.args[0].input.TransactItems![0].Put!.Item).toMatchObject({
+        order_id: body.order_id,
+        reordered_from: 'ORD-PAST',
+        payment_method: 'pm_card_visa',
+        idempotency_key: 'reorder-key-1',
+      });
+      expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(1);
+    });
+
+    it('should return 409 with a fresh preview when the total moved since the preview', async () => {
+      mockReorderable(pastOrder());
+
+      const result = await reorderOrderHandler(
+        reorderEvent({ confirm: true, expected_total: money(3780) }, { 'X-Idempotency-Key': 'reorder-key-1' })
+      );
+      const { statusCode, body } = parseApiResponse<{ error: string; preview: ReorderPreview }>(result);
+
+      expect(statusCode).toBe(409);
+      expect(body.preview.total).toEqual(money(4212));
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+      // The key is given back for the confirm that follows
+      expect(ddbMock.commandCalls(DeleteCommand)).toHaveLength(1);
+    });
+  });
+
+  describe('POST /orders/{order_id}/refunds (refund-order)', () => {
+    const agent = createMockCaller({ subject: 'CS-7', role: CallerRole.CUSTOMER_SERVICE, county_ids: ['COUNTY-001'] });
+    const refundEvent = (body: object, key = 'refund-key-1') =>
+      createMockApiEvent(
+        {
+          httpMethod: 'POST',
+          path: '/orders/ORD-REFUND/refunds',
+          pathParameters: { order_id: 'ORD-REFUND' },
+          headers: { 'X-Idempotency-Key': key },
+          body: JSON.stringify(body),
+        },
+        agent
+      );
+
+    it('should record a pending refund, refund through the provider and settle it', async () => {
+      const order = createCapturedOrderById();
+      // Serve the order as each transaction leaves it
+      ddbMock.on(GetCommand).callsFake(() => {
+        const writes = ddbMock.commandCalls(TransactWriteCommand);
+        if (writes.length === 0) {
+          return { Item: order };
+        }
+        const refund = writes[0].args[0].input.TransactItems![1].Update!.ExpressionAttributeValues![':refund'][0];
+        return writes.length === 1
+          ? { Item: { ...order, refunds: [refund] } }
+          : {
+              Item: {
+                ...order,
+                payment_state: 'PARTIALLY_REFUNDED',
+                refunded_total: money(2164),
+                refunds: [{ ...refund, status: 'COMPLETED', provider_refund_id: 'ref_1' }],
+              },
+            };
+      });
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      const result = await refundOrderHandler(
+        refundEvent({ reason: 'Broken bottle', lines: [{ sku: 'WINE-001', quantity: 1 }] })
+      );
+      const { statusCode, body } = parseApiResponse<{
+        payment_state: string;
+        refunded_total: Money;
+        refund: OrderRefund;
+      }>(result);
+
+      expect(statusCode).toBe(201);
+      expect(body.payment_state).toBe('PARTIALLY_REFUNDED');
+      expect(body.refund.status).toBe('COMPLETED');
+
+      const [record, settle] = ddbMock.commandCalls(TransactWriteCommand).map((call) => call.args[0].input.TransactItems!);
+      expect(record[1].Update).toMatchObject({
+        TableName: 'test-orders-by-id',
+        ConditionExpression: 'updated_at = :expected',
+        ExpressionAttributeValues: expect.objectContaining({
+          ':refund': [expect.objectContaining({ status: 'PENDING', amount: money(2164) })],
+          ':expected': order.updated_at,
+        }),
+      });
+      expect(settle[0].Update!.ExpressionAttributeValues).toMatchObject({
+        ':status': 'COMPLETED',
+        ':refunded': money(2164),
+        ':state': 'PARTIALLY_REFUNDED',
+        ':providerId': expect.stringMatching(/^ref_/),
+      });
+    });
+
+    it('should return the original refund when the request is retried', async () => {
+      const completed: OrderRefund = {
+        refund_id: 'REF-1',
+        idempotency_key: 'refund-key-1',
+        status: 'COMPLETED',
+        lines: [],
+        subtotal: money(7597),
+        tax: money(627),
+        amount: money(8224),
+        reason: 'Order lost in transit',
+        requested_at: '2026-10-03T12:00:00.000Z',
+      };
+      mockGetItem(createCapturedOrderById({ payment_state: 'REFUNDED', refunds: [completed] }));
+
+      const result = await refundOrderHandler(refundEvent({ reason: 'Order lost in transit' }));
+      const { statusCode, body } = parseApiResponse<{ refund: OrderRefund }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.refund.refund_id).toBe('REF-1');
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 422 when refunding more than is left', async () => {
+      mockGetItem(createCapturedOrderById());
+
+      const result = await refundOrderHandler(
+        refundEvent({ reason: 'Broken bottle', lines: [{ sku: 'BEER-001', quantity: 3 }] })
+      );
+      const { statusCode, body } = parseApiResponse<{ details: Array<{ code: string }> }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.details[0].code).toBe('exceeds_refundable');
+    });
+
+    it('should return 409 when the payment was never captured', async () => {
+      mockGetItem(createCapturedOrderById({ payment_state: 'AUTHORIZED', payment_capture_id: undefined }));
+
+      const result = await refundOrderHandler(refundEvent({ reason: 'Customer request' }));
+      const { statusCode } = parseApiResponse<unknown>(result);
+
+      expect(statusCode).toBe(409);
+    });
+
+    it('should return 400 without an idempotency key', async () => {
+      const event = refundEvent({ reason: 'Customer request' });
+      event.headers = {};
+
+      const result = await refundOrderHandler(event);
+
+      expect(result.statusCode).toBe(400);
+    });
+  });
+
+  describe('POST /orders/{order_id}/fulfillment/{step} (fulfill-order)', () => {
+    const fulfillEvent = (step: string, body: { staff_id: string } & Record<string, unknown>) =>
+      createMockApiEvent(
+        {
+          httpMethod: 'POST',
+          path: `/orders/ORD-12345/fulfillment/${step}`,
+          pathParameters: { order_id: 'ORD-12345', step },
+          body: JSON.stringify(body),
+        },
+        createMockCaller({ subject: body.staff_id, role: CallerRole.STORE_STAFF, store_ids: ['STORE-001'] })
+      );
+
+    const delivery = (dateOfBirth: string) => ({
+      staff_id: 'EMP-2',
+      proof_of_delivery: { type: 'SIGNATURE', reference: 'sig-123', recipient_name: 'Pat Doe' },
+      id_check: { id_type: 'DRIVERS_LICENSE', date_of_birth: dateOfBirth, expiration_date: '2099-01-01' },
+    });
+
+    it('should ship a packed order with its carrier and tracking number', async () => {
+      mockGetItem(
+        createDynamoOrderById({
+          order_id: 'ORD-12345',
+          status: OrderStatus.PACKED,
+          payment_state: 'AUTHORIZED',
+          fulfillment: { picked_by: 'EMP-1', packed_by: 'EMP-1' },
+        })
+      );
+      mockTransactWrite();
+
+      const result = await fulfillOrderHandler(
+        fulfillEvent('ship', { staff_id: 'EMP-1', carrier: 'UPS', tracking_number: '1Z999AA10123456784' })
+      );
+      const { statusCode, body } = parseApiResponse<{ status: string }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.status).toBe('SHIPPED');
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [orders, , history] = transaction.args[0].input.TransactItems!;
+      expect(orders.Update!.ExpressionAttributeValues).toMatchObject({
+        ':currentStatus': 'PACKED',
+        ':fulfillment': { packed_by: 'EMP-1', carrier: 'UPS', tracking_number: '1Z999AA10123456784' },
+      });
+      expect(history.Put!.Item).toMatchObject({ from_status: 'PACKED', to_status: 'SHIPPED', actor: 'staff:EMP-1' });
+    });
+
+    it('should refuse delivery to an under-age recipient', async () => {
+      mockGetItem(createDynamoOrderById({ order_id: 'ORD-12345', status: OrderStatus.SHIPPED }));
+
+      const result = await fulfillOrderHandler(fulfillEvent('deliver', delivery('2015-06-01')));
+      const { statusCode, body } = parseApiResponse<{ details: Array<{ code: string }> }>(result);
+
+      expect(statusCode).toBe(422);
+      expect(body.details[0].code).toBe('recipient_under_age');
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 403 when staff_id is not the signed-in staff member', async () => {
+      mockGetItem(createDynamoOrderById({ order_id: 'ORD-12345', status: OrderStatus.CONFIRMED }));
+
+      const event = fulfillEvent('pick', { staff_id: 'EMP-1' });
+      event.body = JSON.stringify({ staff_id: 'EMP-9' });
+      const result = await fulfillOrderHandler(event);
+
+      expect(result.statusCode).toBe(403);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 409 when a step is skipped', async () => {
+      mockGetItem(createDynamoOrderById({ order_id: 'ORD-12345', status: OrderStatus.CONFIRMED }));
+
+      const result = await fulfillOrderHandler(fulfillEvent('deliver', delivery('1990-06-01')));
+      const { statusCode, body } = parseApiResponse<{ message: string }>(result);
+
+      expect(statusCode).toBe(409);
+      expect(body.message).toBe('Order cannot move from CONFIRMED to DELIVERED');
+    });
+
+    it('should return the order unchanged when the step already happened', async () => {
+      mockGetItem(createDynamoOrderById({ order_id: 'ORD-12345', status: OrderStatus.PROCESSING }));
+
+      const result = await fulfillOrderHandler(fulfillEvent('pick', { staff_id: 'EMP-1' }));
+
+      expect(result.statusCode).toBe(200);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should return 400 for an unknown step', async () => {
+      const result = await fulfillOrderHandler(fulfillEvent('gift-wrap', { staff_id: 'EMP-1' }));
+
+      expect(result.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /stores/{store_id}/orders (list-store-orders)', () => {
+    const staff = createMockCaller({ subject: 'EMP-1', role: CallerRole.STORE_STAFF, store_ids: ['STORE-001'] });
+
+    it('should query the store index by time window and filter by status', async () => {
+      mockQuery([createDynamoOrder({ order_id: 'ORD-001', status: OrderStatus.CONFIRMED })]);
+
+      const event = createMockApiEvent(
+        {
+          httpMethod: 'GET',
+          path: '/stores/STORE-001/orders',
+          pathParameters: { store_id: 'STORE-001' },
+          queryStringParameters: {
+            status: 'CONFIRMED,PROCESSING',
+            from: '2024-01-01T00:00:00.000Z',
+            to: '2024-01-31T23:59:59.999Z',
+          },
+        },
+        staff
+      );
+
+      const result = await listStoreOrdersHandler(event);
+      const { statusCode, body } = parseApiResponse<{ orders: Array<{ order_id: string }> }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.orders.map((o) => o.order_id)).toEqual(['ORD-001']);
+      const [query] = ddbMock.commandCalls(QueryCommand);
+      expect(query.args[0].input).toMatchObject({
+        IndexName: 'store-order-index',
+        KeyConditionExpression: 'store_id = :sid AND order_ts BETWEEN :from AND :to',
+        FilterExpression: '#status IN (:s0, :s1)',
+        ExpressionAttributeValues: { ':sid': 'STORE-001', ':s0': 'CONFIRMED', ':s1': 'PROCESSING' },
+        Limit: 20,
+      });
+    });
+
+    it('should top up a page thinned by the status filter and continue from its next token', async () => {
+      ddbMock
+        .on(QueryCommand)
+        .resolvesOnce({ Items: [createDynamoOrder({ order_id: 'ORD-001' })], LastEvaluatedKey: { k: '1' } })
+        .resolvesOnce({ Items: [createDynamoOrder({ order_id: 'ORD-002' })], LastEvaluatedKey: { k: '2' } })
+        .resolvesOnce({ Items: [createDynamoOrder({ order_id: 'ORD-003' })] });
+      const request = (next_token?: string) =>
+        createMockApiEvent(
+          {
+            httpMethod: 'GET',
+            path: '/stores/STORE-001/orders',
+            pathParameters: { store_id: 'STORE-001' },
+            queryStringParameters: { status: 'CONFIRMED', limit: '2', ...(next_token && { next_token }) },
+          },
+          staff
+        );
+
+      const first = parseApiResponse<{ orders: unknown[]; next_token?: string }>(
+        await listStoreOrdersHandler(request())
+      );
+      const second = parseApiResponse<{ orders: unknown[]; next_token?: string }>(
+        await listStoreOrdersHandler(request(first.body.next_token))
+      );
+
+      expect(first.statusCode).toBe(200);
+      expect(first.body.orders).toHaveLength(2);
+      expect(first.body.next_token).toBeDefined();
+      expect(second.body.orders).toHaveLength(1);
+      expect(second.body.next_token).toBeUndefined();
+      const queries = ddbMock.commandCalls(QueryCommand);
+      expect(queries.map((q) => q.args[0].input.Limit)).toEqual([2, 1, 2]);
+      expect(queries.map((q) => q.args[0].input.ExclusiveStartKey)).toEqual([undefined, { k: '1' }, { k: '2' }]);
+    });
+
+    it('should return 400 for an unknown status or an inverted time window', async () => {
+      for (const queryStringParameters of [
+        { status: 'CONFIRMED,LOST' },
+        { from: '2024-02-01T00:00:00.000Z', to: '2024-01-01T00:00:00.000Z' },
+      ]) {
+        const event = createMockApiEvent(
+          {
+            httpMethod: 'GET',
+            path: '/stores/STORE-001/orders',
+            pathParameters: { store_id: 'STORE-001' },
+            queryStringParameters,
+          },
+          staff
+        );
+
+        const result = await listStoreOrdersHandler(event);
+
+        expect(result.statusCode).toBe(400);
+      }
+      expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('GET /stores/{store_id}/pick-list (get-pick-list)', () => {
+    const staff = createMockCaller({ subject: 'EMP-1', role: CallerRole.STORE_STAFF, store_ids: ['STORE-001'] });
+
+    it('should roll up SKUs across every confirmed order of the store', async () => {
+      const item = (sku: string, quantity: number) => ({
+        sku,
+        name: `Product ${sku}`,
+        quantity,
+        unit_price: money(10),
+        total_price: money(10),
+      });
+      ddbMock
+        .on(QueryCommand)
+        .resolvesOnce({
+          Items: [createDynamoOrder({ order_id: 'ORD-001', items: [item('SKU-B', 1), item('SKU-A', 2)] })],
+          LastEvaluatedKey: { k: '1' },
+        })
+        .resolvesOnce({ Items: [createDynamoOrder({ order_id: 'ORD-002', items: [item('SKU-A', 3)] })] });
+
+      const event = createMockApiEvent(
+        {
+          httpMethod: 'GET',
+          path: '/stores/STORE-001/pick-list',
+          pathParameters: { store_id: 'STORE-001' },
+        },
+        staff
+      );
+
+      const result = await getPickListHandler(event);
+      const { statusCode, body } = parseApiResponse<{ order_ids: string[]; lines: unknown[] }>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.order_ids).toEqual(['ORD-001', 'ORD-002']);
+      expect(body.lines).toEqual([
+        {
+          sku: 'SKU-A',
+          name: 'Product SKU-A',
+          quantity: 5,
+          orders: [
+            { order_id: 'ORD-001', quantity: 2 },
+            { order_id: 'ORD-002', quantity: 3 },
+          ],
+        },
+        { sku: 'SKU-B', name: 'Product SKU-B', quantity: 1, orders: [{ order_id: 'ORD-001', quantity: 1 }] },
+      ]);
+      const [query] = ddbMock.commandCalls(QueryCommand);
+      expect(query.args[0].input).toMatchObject({
+        IndexName: 'status-order-index',
+        FilterExpression: 'store_id = :sid',
+        ExpressionAttributeValues: { ':status': 'CONFIRMED', ':sid': 'STORE-001' },
+        ScanIndexForward: true,
+      });
+    });
+  });
+
+  describe('GET /counties/{county_id}/summary (get-county-summary)', () => {
+    const agent = createMockCaller({ subject: 'CS-7', role: CallerRole.CUSTOMER_SERVICE, county_ids: ['COUNTY-001'] });
+
+    it('should page through the whole window and summarize it', async () => {
+      const item = (sku: string, quantity: number, unitPrice: number) => ({
+        sku,
+        name: `Product ${sku}`,
+        quantity,
+        unit_price: money(unitPrice),
+        total_price: money(unitPrice * quantity),
+      });
+      ddbMock
+        .on(QueryCommand)
+        .resolvesOnce({
+          Items: [
+            createDynamoOrder({ status: OrderStatus.CONFIRMED, total: money(1080), items: [item('SKU-001', 1, 1000)] }),
+            createDynamoOrder({
+              status: OrderStatus.DELIVERED,
+              total: money(4320),
+              refunded_total: money(1080),
+              items: [item('SKU-002', 2, 1500), item('SKU-001', 1, 1000)],
+            }),
+          ],
+          LastEvaluatedKey: { k: '1' },
+        })
+        .resolvesOnce({
+          Items: [createDynamoOrder({ status: OrderStatus.CANCELLED, total: money(5400), items: [item('SKU-003', 5, 1000)] })],
+        });
+
+      const event = createMockApiEvent(
+        {
+          httpMethod: 'GET',
+          path: '/counties/COUNTY-001/summary',
+          pathParameters: { county_id: 'COUNTY-001' },
+          queryStringParameters: { from: '2024-01-01T00:00:00.000Z', to: '2024-01-08T00:00:00.000Z', top: '2' },
+        },
+        agent
+      );
+
+      const result = await getCountySummaryHandler(event);
+      const { statusCode, body } = parseApiResponse<CountyOrderSummary>(result);
+
+      expect(statusCode).toBe(200);
+      expect(body.order_count).toBe(3);
+      expect(body.counts_by_status).toMatchObject({ CONFIRMED: 1, DELIVERED: 1, CANCELLED: 1, PENDING: 0 });
+      expect(body.revenue).toEqual(money(4320)); // 1080 + (4320 - 1080 refunded)
+      expect(body.average_order_value).toEqual(money(2160));
+      expect(body.top_skus).toEqual([
+        { sku: 'SKU-002', name: 'Product SKU-002', quantity: 2, revenue: money(3000) },
+        { sku: 'SKU-001', name: 'Product SKU-001', quantity: 2, revenue: money(2000) },
+      ]);
+      const queries = ddbMock.commandCalls(QueryCommand);
+      expect(queries).toHaveLength(2);
+      expect(queries[0].args[0].input).toMatchObject({
+        IndexName: 'county-order-index',
+        KeyConditionExpression: 'county_id = :cid AND order_ts BETWEEN :start AND :end',
+      });
+      expect(queries[1].args[0].input.ExclusiveStartKey).toEqual({ k: '1' });
+    });
+
+    it('should return 422 when the window has more pages than one request reads', async () => {
+      ddbMock.on(QueryCommand).resolves({ Items: [createDynamoOrder()], LastEvaluatedKey: { k: 'more' } });
+
+      const event = createMockApiEvent(
+        {
+          httpMethod: 'GET',
+          path: '/counties/COUNTY-001/summary',
+          pathParameters: { county_id: 'COUNTY-001' },
+          queryStringParameters: { from: '2024-01-01T00:00:00.000Z', to: '2024-01-31T00:00:00.000Z' },
+        },
+        agent
+      );
+
+      const result = await getCountySummaryHandler(event);
+
+      expect(result.statusCode).toBe(422);
+      expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(MAX_SUMMARY_PAGES);
+    });
+
+    it('should return 400 when the window is longer than 31 days', async () => {
+      const event = createMockApiEvent(
+        {
+          httpMethod: 'GET',
+          path: '/counties/COUNTY-001/summary',
+          pathParameters: { county_id: 'COUNTY-001' },
+          queryStringParameters: { from: '2024-01-01T00:00:00.000Z', to: '2024-03-01T00:00:00.000Z' },
+        },
+        agent
+      );
+
+      const result = await getCountySummaryHandler(event);
+
+      expect(result.statusCode).toBe(400);
+      expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+    });
+  });
 });
@@ -1,15 +1,52 @@
 import { handler as processOrderHandler } from '../../services/order-processor/src/handlers/process-order';
 import { handler as reserveInventoryHandler } from '../../services/order-processor/src/handlers/reserve-inventory';
-import { handler as processPaymentHandler } from '../../services/order-processor/src/handlers/process-payment';
+import { handler as authorizePaymentHandler } from '../../services/order-processor/src/handlers/authorize-payment';
+import { handler as voidPaymentHandler } from '../../services/order-processor/src/handlers/void-payment';
 import { handler as sendNotificationsHandler } from '../../services/order-processor/src/handlers/send-notifications';
+import { handler as verifyAgeHandler } from '../../services/order-processor/src/handlers/verify-age';
+import { handler as releaseInventoryHandler } from '../../services/order-processor/src/handlers/release-inventory';
+import { handler as sweepReservationsHandler } from '../../services/order-processor/src/handlers/sweep-reservations';
+import { handler as repairOrderDriftHandler } from '../../services/order-processor/src/handlers/repair-order-drift';
+import {
+  CANCELLATION_SAGA_STEPS,
+  createCancellationSaga,
+} from '../../services/order-processor/src/workflow/cancel-saga';
 import { createMockSqsEvent } from '../utils/sqs-mock';
+import { GetCommand, ScanCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
 import {
+  ddbMock,
   resetDynamoMocks,
   mockGetItem,
-  mockUpdateItem,
+  mockTransactWrite,
+  mockTransactWriteConditionalFailure,
+  mockPutItem,
+  mockCustomerProfile,
+  createCustomerProfile,
   createDynamoOrderById,
+  mockReservations,
+  createReservation,
+  createCapturedOrderById,
+  createDynamoOrder,
 } from '../utils/dynamodb-mock';
-import { OrderStatus, PaymentState } from '@acme-liquors/shared';
+import {
+  InMemorySagaStateStore,
+  LocalAgeVerifier,
+  LocalPaymentProvider,
+  LocalTestPaymentMethods,
+  OrderById,
+  OrderStatus,
+  PaymentProvider,
+  PaymentState,
+  PaymentTimeoutError,
+  Reservation,
+  calculateAge,
+  getAgeVerifier,
+  money,
+  registerAgeVerifier,
+  setAgeVerifier,
+  setPaymentProvider,
+  toOrderById,
+} from '@acme-liquors/shared';
 
 // Mock Lambda client for process-order tests
 jest.mock('@aws-sdk/client-lambda', () => ({
@@ -37,12 +74,92 @@ describe('Order Processor Handlers', () => {
     jest.clearAllMocks();
   });
 
+  describe('verify-age', () => {
+    const verify = () =>
+      verifyAgeHandler({ order_id: 'ORD-12345', customer_id: 'CUST-001', shipping_state: 'TX' });
+
+    afterEach(() => {
+      delete process.env.AGE_VERIFIER;
+    });
+
+    it('should verify an adult and record the outcome for audit', async () => {
+      const { ddbMock } = require('../utils/dynamodb-mock');
+      const { PutCommand } = require('@aws-sdk/lib-dynamodb');
+      mockCustomerProfile(createCustomerProfile());
+      mockPutItem();
+
+      const result = await verify();
+
+      expect(result.success).toBe(true);
+      expect(result.outcome).toBe('VERIFIED');
+      expect(result.verification_id).toMatch(/^VER-/);
+
+      const putCalls = ddbMock.commandCalls(PutCommand);
+      expect(putCalls).toHaveLength(1);
+      expect(putCalls[0].args[0].input.TableName).toBe('test-age-verifications');
+      expect(putCalls[0].args[0].input.Item).toEqual(
+        expect.objectContaining({ order_id: 'ORD-12345', outcome: 'VERIFIED', minimum_age: 21 })
+      );
+      expect(putCalls[0].args[0].input.Item.date_of_birth).toBeUndefined();
+    });
+
+    it('should fail an under-age buyer', async () => {
+      const seventeenYearsAgo = `${new Date().getUTCFullYear() - 17}-01-01`;
+      mockCustomerProfile(createCustomerProfile({ date_of_birth: seventeenYearsAgo }));
+      mockPutItem();
+
+      const result = await verify();
+
+      expect(result.success).toBe(false);
+      expect(result.outcome).toBe('FAILED');
+      expect(result.reason).toContain('minimum age of 21');
+    });
+
+    it('should hold for review when no date of birth is on file', async () => {
+      mockCustomerProfile(createCustomerProfile({ date_of_birth: undefined }));
+      mockPutItem();
+
+      const result = await verify();
+
+      expect(result.success).toBe(false);
+      expect(result.outcome).toBe('NEEDS_REVIEW');
+    });
+
+    it('should leave the check retryable when no verifier is configured', async () => {
+      setAgeVerifier(null);
+      mockCustomerProfile(createCustomerProfile());
+      mockPutItem();
+
+      const result = await verify();
+
+      expect(result.success).toBe(false);
+      expect(result.outcome).toBeUndefined();
+      expect(result.error).toContain('No age verifier configured');
+    });
+
+    it('should build the verifier AGE_VERIFIER names', () => {
+      setAgeVerifier(null);
+      const verifier = new LocalAgeVerifier();
+      registerAgeVerifier('test-verifier', () => verifier);
+      process.env.AGE_VERIFIER = 'test-verifier';
+
+      expect(getAgeVerifier()).toBe(verifier);
+    });
+
+    it('should count birthdays exactly', () => {
+      expect(calculateAge('2004-06-15', '2025-06-14T23:59:59.000Z')).toBe(20);
+      expect(calculateAge('2004-06-15', '2025-06-15T00:00:00.000Z')).toBe(21);
+    });
+  });
+
   describe('reserve-inventory', () => {
     it('should reserve inventory successfully when available', async () => {
       // Mock inventory check - item available
       const { ddbMock } = require('../utils/dynamodb-mock');
       const { GetCommand } = require('@aws-sdk/lib-dynamodb');
 
+      mockReservations();
+
       ddbMock.on(GetCommand).resolves({
         Item: {
           store_sku: 'STORE-001#SKU-001',
@@ -60,17 +177,83 @@ describe('Order Processor Handlers', () => {
         customer_id: 'CUST-001',
         store_id: 'STORE-001',
         items: [
-          { sku: 'SKU-001', name: 'Test', quantity: 5, unit_price: 10, total_price: 50 },
+          { sku: 'SKU-001', name: 'Test', quantity: 5, unit_price: money(1000), total_price: money(5000) },
         ],
       });
 
       expect(result.success).toBe(true);
-      expect(result.reservation_id).toBeDefined();
+      expect(result.reservation_id).toBe('RES-ORD-12345');
+
+      // Stock and a PENDING reservation line are written in one transaction
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const items = transaction.args[0].input.TransactItems;
+      expect(items).toHaveLength(2);
+      expect(items[1].Put.TableName).toBe('test-reservations');
+      expect(items[1].Put.Item).toMatchObject({
+        reservation_id: result.reservation_id,
+        order_id: 'ORD-12345',
+        store_sku: 'STORE-001#SKU-001',
+        quantity: 5,
+        status: 'PENDING',
+      });
+    });
+
+    it('should return the existing reservation when retried', async () => {
+      const { ddbMock } = require('../utils/dynamodb-mock');
+      const { TransactWriteCommand } = require('@aws-sdk/lib-dynamodb');
+      const { QueryCommand } = require('@aws-sdk/lib-dynamodb');
+      mockReservations([createReservation({ reservation_id: 'RES-ORD-12345' })]);
+
+      const result = await reserveInventoryHandler({
+        order_id: 'ORD-12345',
+        customer_id: 'CUST-001',
+        store_id: 'STORE-001',
+        items: [
+          { sku: 'SKU-001', name: 'Test', quantity: 5, unit_price: money(1000), total_price: money(5000) },
+        ],
+      });
+
+      expect(result).toEqual({ success: true, reservation_id: 'RES-ORD-12345' });
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+
+      // Read from the table, not the eventually consistent order index
+      const [query] = ddbMock.commandCalls(QueryCommand);
+      expect(query.args[0].input).toMatchObject({ TableName: 'test-reservations', ConsistentRead: true });
+      expect(query.args[0].input.IndexName).toBeUndefined();
+    });
+
+    it('should return the reservation a concurrent attempt wrote first', async () => {
+      const { ddbMock } = require('../utils/dynamodb-mock');
+      const { GetCommand, TransactWriteCommand } = require('@aws-sdk/lib-dynamodb');
+      const lines: Reservation[] = [];
+      mockReservations(lines);
+      ddbMock.on(GetCommand).resolves({
+        Item: { store_sku: 'STORE-001#SKU-001', quantity_available: 100, quantity_reserved: 10 },
+      });
+      ddbMock.on(TransactWriteCommand).callsFake(() => {
+        lines.push(createReservation({ reservation_id: 'RES-ORD-12345' }));
+        throw Object.assign(new Error('Transaction cancelled'), {
+          name: 'TransactionCanceledException',
+          CancellationReasons: [{ Code: 'None' }, { Code: 'ConditionalCheckFailed' }],
+        });
+      });
+
+      const result = await reserveInventoryHandler({
+        order_id: 'ORD-12345',
+        customer_id: 'CUST-001',
+        store_id: 'STORE-001',
+        items: [
+          { sku: 'SKU-001', name: 'Test', quantity: 5, unit_price: money(1000), total_price: money(5000) },
+        ],
+      });
+
+      expect(result).toEqual({ success: true, reservation_id: 'RES-ORD-12345' });
     });
 
     it('should fail when inventory is insufficient', async () => {
       const { ddbMock } = require('../utils/dynamodb-mock');
       const { GetCommand } = require('@aws-sdk/lib-dynamodb');
+      mockReservations();
 
       ddbMock.on(GetCommand).resolves({
         Item: {
@@ -85,7 +268,7 @@ describe('Order Processor Handlers', () => {
         customer_id: 'CUST-001',
         store_id: 'STORE-001',
         items: [
-          { sku: 'SKU-001', name: 'Test', quantity: 10, unit_price: 10, total_price: 100 },
+          { sku: 'SKU-001', name: 'Test', quantity: 10, unit_price: money(1000), total_price: money(10000) },
         ],
       });
 
@@ -95,52 +278,476 @@ describe('Order Processor Handlers', () => {
     });
   });
 
-  describe('process-payment', () => {
-    it('should process payment successfully', async () => {
-      mockUpdateItem();
+  describe('release-inventory', () => {
+    it('should release only lines that are still held', async () => {
+      const { ddbMock } = require('../utils/dynamodb-mock');
+      const { TransactWriteCommand } = require('@aws-sdk/lib-dynamodb');
+      mockReservations([
+        createReservation({ store_sku: 'STORE-001#SKU-001' }),
+        createReservation({ store_sku: 'STORE-001#SKU-002', status: 'RELEASED' }),
+      ]);
+      ddbMock.on(TransactWriteCommand).resolves({});
 
-      // Run multiple times to account for 95% success rate simulation
-      let successCount = 0;
-      for (let i = 0; i < 20; i++) {
-        const result = await processPaymentHandler({
-          order_id: 'ORD-12345',
-          customer_id: 'CUST-001',
-          amount: 100.00,
-        });
-        if (result.success) successCount++;
-      }
+      const result = await releaseInventoryHandler({ order_id: 'ORD-12345', reservation_id: 'RES-001' });
+
+      expect(result).toEqual({ success: true, released_lines: 1 });
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      expect(transaction.args[0].input.TransactItems[1].Update).toMatchObject({
+        TableName: 'test-inventory',
+        Key: { store_sku: 'STORE-001#SKU-001' },
+        ConditionExpression: 'quantity_reserved >= :qty',
+      });
+    });
+
+    it('should fail rather than skip a line whose reserved count no longer covers it', async () => {
+      const { ddbMock } = require('../utils/dynamodb-mock');
+      const { TransactWriteCommand } = require('@aws-sdk/lib-dynamodb');
+      mockReservations([createReservation({ store_sku: 'STORE-001#SKU-001', status: 'CONFIRMED' })]);
+      ddbMock.on(TransactWriteCommand).rejects(
+        Object.assign(new Error('Transaction cancelled'), {
+          name: 'TransactionCanceledException',
+          CancellationReasons: [{ Code: 'None' }, { Code: 'ConditionalCheckFailed' }],
+        })
+      );
+      const logged = jest.spyOn(console, 'error');
+
+      const result = await releaseInventoryHandler({ order_id: 'ORD-12345', reservation_id: 'RES-001' });
 
-      // Should succeed most of the time (95% rate)
-      expect(successCount).toBeGreaterThan(15);
+      expect(result.success).toBe(false);
+      expect(logged).toHaveBeenCalledWith(
+        'Inventory counters drifted from reservation line:',
+        'RES-001',
+        'STORE-001#SKU-001',
+        expect.any(Number)
+      );
     });
+  });
+
+  describe('sweep-reservations', () => {
+    const past = new Date(Date.now() - 60 * 1000).toISOString();
+
+    it('should release expired pending lines', async () => {
+      const { ddbMock } = require('../utils/dynamodb-mock');
+      const { TransactWriteCommand } = require('@aws-sdk/lib-dynamodb');
+      mockReservations([
+        createReservation({ reservation_id: 'RES-OLD', expires_at: past }),
+        createReservation({ reservation_id: 'RES-NEW' }),
+        createReservation({ reservation_id: 'RES-DONE', expires_at: past, status: 'CONFIRMED' }),
+      ]);
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      const result = await sweepReservationsHandler();
+
+      expect(result).toEqual({ expired: 1, released: 1 });
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      expect(transaction.args[0].input.TransactItems[0].Update).toMatchObject({
+        Key: { reservation_id: 'RES-OLD', store_sku: 'STORE-001#SKU-001' },
+        ExpressionAttributeValues: expect.objectContaining({ ':from0': 'PENDING' }),
+      });
+    });
+
+    it('should skip lines confirmed or released since they were listed', async () => {
+      const { ddbMock } = require('../utils/dynamodb-mock');
+      const { TransactWriteCommand } = require('@aws-sdk/lib-dynamodb');
+      mockReservations([createReservation({ expires_at: past })]);
+      const cancelled = Object.assign(new Error('Transaction cancelled'), {
+        name: 'TransactionCanceledException',
+        CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }],
+      });
+      ddbMock.on(TransactWriteCommand).rejects(cancelled);
+
+      const result = await sweepReservationsHandler();
+
+      expect(result).toEqual({ expired: 1, released: 0 });
+    });
+  });
+
+  describe('repair-order-drift', () => {
+    const order = createDynamoOrder({
+      order_id: 'ORD-DRIFT',
+      order_ts: '2026-10-19T12:00:00.000Z',
+      order_ts_id: '2026-10-19T12:00:00.000Z#ORD-DRIFT',
+      updated_at: '2026-10-19T12:00:00.000Z',
+    });
+
+    beforeEach(() => {
+      ddbMock.on(ScanCommand).resolves({ Items: [order] });
+      mockTransactWrite();
+    });
+
+    it('should rebuild a missing OrderById record from the Orders record', async () => {
+      ddbMock.on(GetCommand).resolves({});
+
+      const result = await repairOrderDriftHandler();
+
+      expect(result).toMatchObject({ scanned: 1, created: 1, repaired: 0 });
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [check, put] = transaction.args[0].input.TransactItems!;
+      expect(check.ConditionCheck!.TableName).toBe('test-orders');
+      expect(put.Put!.Item).toEqual(toOrderById(order));
+      expect(put.Put!.Item).not.toHaveProperty('idempotency_key');
+    });
+
+    it('should copy fields from the newer record onto the stale one', async () => {
+      ddbMock.on(GetCommand).resolves({
+        Item: {
+          ...toOrderById(order),
+          payment_state: 'AUTHORIZED',
+          payment_authorization_id: 'auth_0123456789abcdef',
+          updated_at: '2026-10-19T12:05:00.000Z',
+        },
+      });
 
-    it('should fail for zero or negative amounts', async () => {
-      const result = await processPaymentHandler({
+      const result = await repairOrderDriftHandler();
+
+      expect(result).toMatchObject({ scanned: 1, repaired: 1 });
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [check, update] = transaction.args[0].input.TransactItems!;
+      expect(check.ConditionCheck).toMatchObject({
+        TableName: 'test-orders-by-id',
+        ExpressionAttributeValues: { ':expected': '2026-10-19T12:05:00.000Z' },
+      });
+      expect(update.Update).toMatchObject({
+        TableName: 'test-orders',
+        UpdateExpression:
+          'SET #payment_state = :payment_state, #payment_authorization_id = :payment_authorization_id, ' +
+          '#updated_at = :updated_at',
+        ExpressionAttributeValues: {
+          ':payment_state': 'AUTHORIZED',
+          ':payment_authorization_id': 'auth_0123456789abcdef',
+          ':updated_at': '2026-10-19T12:05:00.000Z',
+          ':expected': '2026-10-19T12:00:00.000Z',
+        },
+      });
+    });
+
+    it('should leave orders in sync or updated meanwhile alone', async () => {
+      ddbMock.on(GetCommand).resolves({ Item: { ...toOrderById(order), status: 'CONFIRMED' } });
+      mockTransactWriteConditionalFailure();
+
+      expect(await repairOrderDriftHandler()).toMatchObject({ repaired: 0, changed: 1, errors: 0 });
+
+      ddbMock.on(GetCommand).resolves({ Item: toOrderById(order) });
+      ddbMock.resetHistory();
+
+      expect(await repairOrderDriftHandler()).toMatchObject({ scanned: 1, repaired: 0, changed: 0 });
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('authorize-payment', () => {
+    const authorize = (paymentMethod: string | undefined) =>
+      authorizePaymentHandler({
         order_id: 'ORD-12345',
         customer_id: 'CUST-001',
-        amount: 0,
+        order_ts_id: '2026-10-19T12:00:00.000Z#ORD-12345',
+        payment_method: paymentMethod,
+        amount: money(10000),
+      });
+
+    beforeEach(() => {
+      setPaymentProvider(new LocalPaymentProvider());
+    });
+
+    afterAll(() => {
+      setPaymentProvider(null);
+    });
+
+    it('should authorize and record the authorization on both order tables', async () => {
+      mockTransactWrite();
+
+      const result = await authorize(LocalTestPaymentMethods.APPROVED);
+
+      expect(result.success).toBe(true);
+      expect(result.payment_state).toBe(PaymentState.AUTHORIZED);
+      expect(result.authorization_id).toMatch(/^auth_/);
+
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [orders, ordersById] = transaction.args[0].input.TransactItems!;
+      expect(orders.Update!.TableName).toBe('test-orders');
+      expect(ordersById.Update!.TableName).toBe('test-orders-by-id');
+      expect(orders.Update!.ConditionExpression).toBe('payment_state = :currentState');
+      expect(orders.Update!.ExpressionAttributeValues).toMatchObject({
+        ':newState': 'AUTHORIZED',
+        ':currentState': 'PENDING',
+        ':payment_authorization_id': result.authorization_id,
       });
+    });
+
+    it('should leave a payment no longer PENDING as it is', async () => {
+      mockTransactWriteConditionalFailure();
+
+      const result = await authorize(LocalTestPaymentMethods.APPROVED);
+
+      expect(result.success).toBe(true);
+      expect(result.payment_state).toBe(PaymentState.AUTHORIZED);
+      expect(result.authorization_id).toMatch(/^auth_/);
+    });
+
+    it('should return the same authorization when the message is redelivered', async () => {
+      mockTransactWrite();
+
+      const first = await authorize(LocalTestPaymentMethods.APPROVED);
+      setPaymentProvider(new LocalPaymentProvider()); // e.g. another Lambda instance
+      const second = await authorize(LocalTestPaymentMethods.APPROVED);
+
+      expect(second.authorization_id).toBe(first.authorization_id);
+    });
+
+    it('should fail a declined card', async () => {
+      mockTransactWrite();
+
+      const result = await authorize(LocalTestPaymentMethods.INSUFFICIENT_FUNDS);
+
+      expect(result.success).toBe(false);
+      expect(result.payment_state).toBe(PaymentState.FAILED);
+      expect(result.decline_code).toBe('insufficient_funds');
+    });
+
+    it('should return the challenge without changing payment state', async () => {
+      const result = await authorize(LocalTestPaymentMethods.CHALLENGE);
 
       expect(result.success).toBe(false);
+      expect(result.payment_state).toBe(PaymentState.PENDING);
+      expect(result.challenge_url).toMatch(/^https:\/\/payments\.local\/challenge\//);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
     });
 
-    it('should return transaction ID on success', async () => {
-      mockUpdateItem();
+    it('should leave a timed-out authorization retryable and replay it on retry', async () => {
+      mockTransactWrite();
+
+      const first = await authorize(LocalTestPaymentMethods.TIMEOUT);
+      const retry = await authorize(LocalTestPaymentMethods.TIMEOUT);
+
+      expect(first.success).toBe(false);
+      expect(first.payment_state).toBeUndefined();
+      expect(first.error).toContain('timed out');
+      expect(retry.success).toBe(true);
+      expect(retry.payment_state).toBe(PaymentState.AUTHORIZED);
+    });
+
+    it('should fail an order without a payment method', async () => {
+      mockTransactWrite();
+
+      const result = await authorize(undefined);
 
-      // Keep trying until we get a success (95% rate)
-      let result;
-      for (let i = 0; i < 10; i++) {
-        result = await processPaymentHandler({
+      expect(result.success).toBe(false);
+      expect(result.payment_state).toBe(PaymentState.FAILED);
+    });
+  });
+
+  describe('void-payment', () => {
+    beforeEach(() => {
+      setPaymentProvider(new LocalPaymentProvider());
+    });
+
+    afterAll(() => {
+      setPaymentProvider(null);
+    });
+
+    it('should void the authorization and mark the payment VOIDED', async () => {
+      mockTransactWrite();
+      const authorized = await authorizePaymentHandler({
+        order_id: 'ORD-12345',
+        customer_id: 'CUST-001',
+        order_ts_id: '2026-10-19T12:00:00.000Z#ORD-12345',
+        payment_method: LocalTestPaymentMethods.APPROVED,
+        amount: money(10000),
+      });
+
+      const result = await voidPaymentHandler({
+        order_id: 'ORD-12345',
+        customer_id: 'CUST-001',
+        order_ts_id: '2026-10-19T12:00:00.000Z#ORD-12345',
+        authorization_id: authorized.authorization_id!,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.payment_state).toBe(PaymentState.VOIDED);
+
+      const [, voided] = ddbMock.commandCalls(TransactWriteCommand);
+      const [orders] = voided.args[0].input.TransactItems!;
+      expect(orders.Update!.ConditionExpression).toBe('payment_state = :currentState');
+      expect(orders.Update!.ExpressionAttributeValues).toMatchObject({
+        ':newState': 'VOIDED',
+        ':currentState': 'AUTHORIZED',
+      });
+    });
+
+    it('should treat a payment already voided as a no-op', async () => {
+      mockTransactWriteConditionalFailure();
+
+      const result = await voidPaymentHandler({
+        order_id: 'ORD-12345',
+        customer_id: 'CUST-001',
+        order_ts_id: '2026-10-19T12:00:00.000Z#ORD-12345',
+        authorization_id: 'auth_already_voided',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.payment_state).toBe(PaymentState.VOIDED);
+    });
+  });
+
+  describe('process-order', () => {
+    it('should redeliver the message when failing the order does not land', async () => {
+      const order = createDynamoOrderById({ status: OrderStatus.PENDING });
+      ddbMock.on(GetCommand, { TableName: 'test-orders-by-id' }).resolves({ Item: order });
+      ddbMock.on(GetCommand, { TableName: 'test-order-sagas' }).resolves({
+        Item: {
+          saga_id: order.order_id,
+          saga_type: 'order-processing',
+          status: 'COMPENSATED',
+          steps: { 'verify-age': { status: 'FAILED', attempts: 1, output: { order_status: 'VERIFICATION_FAILED' } } },
+          failed_step: 'verify-age',
+          failure_reason: 'Buyer is under 21',
+          version: 3,
+          created_at: '2026-10-19T12:00:00.000Z',
+          updated_at: '2026-10-19T12:00:00.000Z',
+        },
+      });
+      ddbMock.on(TransactWriteCommand).rejects(new Error('Service unavailable'));
+
+      const result = await processOrderHandler(
+        createMockSqsEvent([{ messageId: 'msg-fail', body: { order_id: order.order_id, customer_id: order.customer_id } }])
+      );
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'msg-fail' }]);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(1);
+    });
+  });
+
+  describe('cancellation saga', () => {
+    const provider = () => new LocalPaymentProvider();
+    const run = (order: OrderById) =>
+      createCancellationSaga(CANCELLATION_SAGA_STEPS, new InMemorySagaStateStore()).run(`${order.order_id}#cancel`, {
+        message: {
+          order_id: order.order_id,
+          customer_id: order.customer_id,
+          order_ts_id: `${order.order_ts}#${order.order_id}`,
+          action: 'CANCEL_ORDER',
+          timestamp: '2026-10-19T12:00:00.000Z',
+        },
+        order,
+      });
+
+    afterAll(() => {
+      setPaymentProvider(null);
+    });
+
+    it('should release the reservation and void an authorized payment', async () => {
+      const local = provider();
+      setPaymentProvider(local);
+      const authorization = await local.authorize({
+        idempotency_key: 'ORD-12345:authorize',
+        order_id: 'ORD-12345',
+        customer_id: 'CUST-001',
+        payment_method: LocalTestPaymentMethods.APPROVED,
+        amount: money(10000),
+      });
+      mockReservations([createReservation({ status: 'CONFIRMED' })]);
+      ddbMock.on(TransactWriteCommand).resolves({});
+      mockTransactWrite();
+
+      const result = await run(
+        createDynamoOrderById({
           order_id: 'ORD-12345',
-          customer_id: 'CUST-001',
-          amount: 50.00,
-        });
-        if (result.success) break;
-      }
+          status: OrderStatus.CANCELLED,
+          payment_state: PaymentState.VOID_PENDING,
+          payment_authorization_id: authorization.transaction_id,
+        })
+      );
+
+      expect(result.status).toBe('COMPLETED');
+      expect(result.state.steps['release-inventory'].output).toEqual({ released_lines: 1 });
+      expect(result.state.steps['reverse-payment'].output).toMatchObject({ payment_state: 'VOIDED' });
+      const [, payment] = ddbMock.commandCalls(TransactWriteCommand);
+      expect(payment.args[0].input.TransactItems![0].Update!.ExpressionAttributeValues).toMatchObject({
+        ':newState': 'VOIDED',
+        ':currentState': 'VOID_PENDING',
+      });
+    });
+
+    it('should refund whatever is left of a captured payment', async () => {
+      setPaymentProvider(provider());
+      mockReservations();
+      const order = createCapturedOrderById({ status: OrderStatus.CANCELLED, payment_state: PaymentState.REFUND_PENDING });
+      ddbMock.on(GetCommand).callsFake(() => {
+        const writes = ddbMock.commandCalls(TransactWriteCommand);
+        const refund = writes[0].args[0].input.TransactItems![1].Update!.ExpressionAttributeValues![':refund'][0];
+        return writes.length === 1
+          ? { Item: { ...order, refunds: [refund] } }
+          : { Item: { ...order, payment_state: 'REFUNDED', refunds: [{ ...refund, status: 'COMPLETED' }] } };
+      });
+      ddbMock.on(TransactWriteCommand).resolves({});
 
-      expect(result!.success).toBe(true);
-      expect(result!.transaction_id).toMatch(/^TXN-/);
-      expect(result!.payment_state).toBe(PaymentState.CAPTURED);
+      const result = await run(order);
+
+      expect(result.status).toBe('COMPLETED');
+      expect(result.state.steps['reverse-payment'].output).toMatchObject({ payment_state: 'REFUNDED' });
+      const [record, settle] = ddbMock.commandCalls(TransactWriteCommand).map((call) => call.args[0].input.TransactItems!);
+      expect(record[1].Update!.ExpressionAttributeValues![':refund'][0]).toMatchObject({
+        idempotency_key: 'ORD-REFUND:cancel',
+        amount: money(8224),
+      });
+      expect(settle[0].Update!.ExpressionAttributeValues).toMatchObject({ ':state': 'REFUNDED' });
+    });
+
+    it('should mark the payment REVERSAL_FAILED when the void is declined', async () => {
+      setPaymentProvider(provider());
+      mockReservations();
+      mockTransactWrite();
+
+      const result = await run(
+        createDynamoOrderById({
+          status: OrderStatus.CANCELLED,
+          payment_state: PaymentState.VOID_PENDING,
+          payment_authorization_id: 'unknown-authorization',
+        })
+      );
+
+      expect(result.status).toBe('FAILED');
+      expect(result.reason).toBe('Void declined (authorization_not_found)');
+      const [payment] = ddbMock.commandCalls(TransactWriteCommand);
+      expect(payment.args[0].input.TransactItems![0].Update!.ExpressionAttributeValues).toMatchObject({
+        ':newState': 'REVERSAL_FAILED',
+      });
+    });
+
+    it('should retry the cancellation message when the provider times out', async () => {
+      const local = provider();
+      const timingOut: PaymentProvider = {
+        name: 'timing-out',
+        authorize: (request) => local.authorize(request),
+        capture: (request) => local.capture(request),
+        void: async (request) => {
+          throw new PaymentTimeoutError(request.idempotency_key);
+        },
+        refund: (request) => local.refund(request),
+        adjustAuthorization: (request) => local.adjustAuthorization(request),
+      };
+      setPaymentProvider(timingOut);
+      const order = createDynamoOrderById({
+        status: OrderStatus.CANCELLED,
+        payment_state: PaymentState.VOID_PENDING,
+        payment_authorization_id: 'auth_0123456789abcdef',
+      });
+      ddbMock.on(GetCommand, { TableName: 'test-orders-by-id' }).resolves({ Item: order });
+      ddbMock.on(GetCommand, { TableName: 'test-order-sagas' }).resolves({});
+      mockReservations();
+      mockPutItem();
+
+      const result = await processOrderHandler(
+        createMockSqsEvent([
+          {
+            messageId: 'msg-cancel',
+            body: { order_id: order.order_id, customer_id: order.customer_id, action: 'CANCEL_ORDER' },
+          },
+        ])
+      );
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'msg-cancel' }]);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
     });
   });
 
@@ -150,7 +757,7 @@ describe('Order Processor Handlers', () => {
         order_id: 'ORD-12345',
         customer_id: 'CUST-001',
         status: OrderStatus.CONFIRMED,
-        total: 100.00,
+        total: money(10000),
       });
 
       expect(result.success).toBe(true);
@@ -168,6 +775,24 @@ describe('Order Processor Handlers', () => {
       expect(result.success).toBe(true);
     });
 
+    it('should give a repeated notification the same notification_id', async () => {
+      const { PublishCommand } = jest.requireMock('@aws-sdk/client-sns');
+      const notify = (status: OrderStatus) =>
+        sendNotificationsHandler({ order_id: 'ORD-12345', customer_id: 'CUST-001', status, total: money(10000) });
+
+      await notify(OrderStatus.CONFIRMED);
+      await notify(OrderStatus.CONFIRMED);
+      await notify(OrderStatus.SHIPPED);
+
+      const ids = (PublishCommand as jest.Mock).mock.calls.map(
+        ([input]) => input.MessageAttributes.notification_id.StringValue
+      );
+      expect(ids[0]).toMatch(/^[0-9a-f]{64}$/);
+      expect(ids[1]).toBe(ids[0]);
+      expect(ids[2]).not.toBe(ids[0]);
+      expect(JSON.parse((PublishCommand as jest.Mock).mock.calls[0][0].Message).notification_id).toBe(ids[0]);
+    });
+
     it('should send notification for cancelled order', async () => {
       const result = await sendNotificationsHandler({
         order_id: 'ORD-12345',
@@ -191,7 +816,7 @@ describe('Shared Utilities', () => {
         county_id: 'COUNTY-001',
         idempotency_key: 'test-key',
         items: [
-          { sku: 'SKU-001', name: 'Test', quantity: 1, unit_price: 10, total_price: 10 },
+          { sku: 'SKU-001', name: 'Test', quantity: 1, unit_price: money(1000), total_price: money(1000) },
         ],
         shipping_address: {
           street: '123 Test St',
@@ -199,6 +824,7 @@ describe('Shared Utilities', () => {
           state: 'TX',
           zip: '12345',
         },
+        payment_method: 'pm_card_visa',
       };
 
       const result = validate(CreateOrderRequestSchema, validRequest);
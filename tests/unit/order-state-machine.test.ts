@@ -0,0 +1,96 @@
+import { TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { SendMessageCommand } from '@aws-sdk/client-sqs';
+import { OrderStatus, PaymentState, nextStatuses, transitionOrder } from '@acme-liquors/shared';
+import {
+  ddbMock,
+  resetDynamoMocks,
+  mockTransactWrite,
+  mockTransactWriteConditionalFailure,
+  createDynamoOrderById,
+} from '../utils/dynamodb-mock';
+import { sqsMock, resetSqsMocks, mockSendMessage } from '../utils/sqs-mock';
+
+describe('Order State Machine', () => {
+  beforeEach(() => {
+    resetDynamoMocks();
+    resetSqsMocks();
+  });
+
+  it('should not allow any transition out of a terminal status', () => {
+    expect(nextStatuses(OrderStatus.DELIVERED)).toEqual([]);
+    expect(nextStatuses(OrderStatus.CANCELLED)).toEqual([]);
+    expect(nextStatuses(OrderStatus.FAILED)).toEqual([]);
+  });
+
+  it('should reject an undeclared transition without writing', async () => {
+    const order = createDynamoOrderById({ status: OrderStatus.DELIVERED });
+
+    const result = await transitionOrder(order, OrderStatus.PENDING, { actor: 'staff:EMP-1' });
+
+    expect(result).toEqual({ status: 'REJECTED', reason: 'Order cannot move from DELIVERED to PENDING' });
+    expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+  });
+
+  it('should reject a transition its guard refuses', async () => {
+    const order = createDynamoOrderById({ status: OrderStatus.CONFIRMED, payment_state: PaymentState.VOIDED });
+
+    const result = await transitionOrder(order, OrderStatus.PROCESSING, { actor: 'staff:EMP-1' });
+
+    expect(result).toMatchObject({ status: 'REJECTED', reason: 'Payment must be AUTHORIZED, not VOIDED' });
+  });
+
+  it('should write the status and its history entry in one transaction', async () => {
+    mockTransactWrite();
+    const order = createDynamoOrderById({ order_id: 'ORD-12345', status: OrderStatus.PENDING });
+
+    const result = await transitionOrder(order, OrderStatus.ON_HOLD, {
+      actor: 'system:order-processor',
+      reason: 'Cardholder challenge required',
+    });
+
+    expect(result).toMatchObject({
+      status: 'TRANSITIONED',
+      order: { status: 'ON_HOLD', status_reason: 'Cardholder challenge required' },
+    });
+    const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+    const [orders, , history] = transaction.args[0].input.TransactItems!;
+    expect(orders.Update!.ConditionExpression).toBe('#status = :currentStatus AND payment_state = :currentPaymentState');
+    expect(history.Put!.Item).toMatchObject({
+      order_id: 'ORD-12345',
+      from_status: 'PENDING',
+      to_status: 'ON_HOLD',
+      actor: 'system:order-processor',
+      reason: 'Cardholder challenge required',
+    });
+  });
+
+  it('should record the payment reversal and queue follow-ups on cancellation', async () => {
+    mockTransactWrite();
+    mockSendMessage();
+    const order = createDynamoOrderById({
+      status: OrderStatus.CONFIRMED,
+      payment_state: PaymentState.AUTHORIZED,
+      status_reason: 'Previously on hold',
+    });
+
+    const result = await transitionOrder(order, OrderStatus.CANCELLED, { actor: 'customer:CUST-001' });
+
+    expect(result).toMatchObject({ status: 'TRANSITIONED', order: { payment_state: 'VOID_PENDING' } });
+    const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+    expect(transaction.args[0].input.TransactItems![0].Update!.UpdateExpression).toBe(
+      'SET #status = :newStatus, updated_at = :now, payment_state = :paymentState REMOVE status_reason'
+    );
+    const [send] = sqsMock.commandCalls(SendMessageCommand);
+    expect(JSON.parse(send.args[0].input.MessageBody!).action).toBe('CANCEL_ORDER');
+  });
+
+  it('should report a conflict and skip side effects when the order changed meanwhile', async () => {
+    mockTransactWriteConditionalFailure();
+    const order = createDynamoOrderById({ status: OrderStatus.PENDING });
+
+    const result = await transitionOrder(order, OrderStatus.CANCELLED, { actor: 'customer:CUST-001' });
+
+    expect(result).toEqual({ status: 'CONFLICT' });
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  PaginationScope,
+  PaginationTokenError,
+  PaginationTokenFault,
+  decodePaginationToken,
+  encodePaginationToken,
+} from '@acme-liquors/shared';
+import { GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { secretsMock } from '../utils/secrets-mock';
+
+describe('Pagination Tokens', () => {
+  const lastKey = { customer_id: 'CUST-001', order_ts_id: '2024-01-15T10:00:00.000Z#ORD-001' };
+  const scope: PaginationScope = { query: 'orders-by-customer', partition: 'CUST-001' };
+  const now = Date.parse('2024-01-15T10:00:00.000Z');
+
+  const faultOf = async (fn: () => Promise<unknown>): Promise<PaginationTokenFault | undefined> => {
+    try {
+      await fn();
+    } catch (error) {
+      if (error instanceof PaginationTokenError) {
+        return error.fault;
+      }
+      throw error;
+    }
+    return undefined;
+  };
+
+  // Runs first: the key is cached for the rest of the file
+  it('should read the signing key from Secrets Manager once', async () => {
+    await encodePaginationToken(lastKey, scope, now);
+    await encodePaginationToken(lastKey, scope, now);
+
+    const calls = secretsMock.commandCalls(GetSecretValueCommand);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].args[0].input.SecretId).toBe(process.env.PAGINATION_TOKEN_SECRET_ARN);
+  });
+
+  it('should round-trip the last evaluated key without exposing it', async () => {
+    const token = (await encodePaginationToken(lastKey, scope, now))!;
+
+    expect(token).not.toContain('CUST-001');
+    expect(await decodePaginationToken(token, scope, now)).toEqual(lastKey);
+  });
+
+  it('should pass through the absence of a key or token', async () => {
+    expect(await encodePaginationToken(undefined, scope)).toBeUndefined();
+    expect(await decodePaginationToken(undefined, scope)).toBeUndefined();
+  });
+
+  it('should refuse a token whose payload was altered', async () => {
+    const [payload, signature] = (await encodePaginationToken(lastKey, scope, now))!.split('.');
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    decoded.k.customer_id = 'CUST-002';
+    const forged = `${Buffer.from(JSON.stringify(decoded)).toString('base64url')}.${signature}`;
+
+    expect(await faultOf(() => decodePaginationToken(forged, scope, now))).toBe(PaginationTokenFault.BAD_SIGNATURE);
+    expect(await faultOf(() => decodePaginationToken('not-a-token', scope, now))).toBe(PaginationTokenFault.MALFORMED);
+  });
+
+  it('should refuse a token issued for another partition or other filters', async () => {
+    const storeScope: PaginationScope = {
+      query: 'orders-by-store',
+      partition: 'STORE-001',
+      filters: { statuses: ['CONFIRMED'] },
+    };
+    const token = (await encodePaginationToken(lastKey, storeScope, now))!;
+
+    expect(await faultOf(() => decodePaginationToken(token, { ...storeScope, partition: 'STORE-002' }, now))).toBe(
+      PaginationTokenFault.WRONG_QUERY
+    );
+    expect(
+      await faultOf(() => decodePaginationToken(token, { ...storeScope, filters: { statuses: ['SHIPPED'] } }, now))
+    ).toBe(PaginationTokenFault.WRONG_QUERY);
+  });
+
+  it('should refuse an expired token', async () => {
+    const token = (await encodePaginationToken(lastKey, scope, now))!;
+
+    expect(await faultOf(() => decodePaginationToken(token, scope, now + 61 * 60 * 1000))).toBe(
+      PaginationTokenFault.EXPIRED
+    );
+  });
+});
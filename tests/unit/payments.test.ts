@@ -0,0 +1,258 @@
+import {
+  LocalPaymentProvider,
+  LocalTestPaymentMethods,
+  OrderRefund,
+  PaymentTimeoutError,
+  calculateLineCancellation,
+  calculateRefund,
+  getPaymentProvider,
+  money,
+  paymentIdempotencyKey,
+  registerPaymentProvider,
+  setPaymentProvider,
+} from '@acme-liquors/shared';
+import { createCapturedOrderById } from '../utils/dynamodb-mock';
+
+function createRefund(overrides: Partial<OrderRefund> = {}): OrderRefund {
+  return {
+    refund_id: 'REF-1',
+    idempotency_key: 'refund-key-1',
+    status: 'COMPLETED',
+    lines: [{ sku: 'WINE-001', quantity: 1, amount: money(1999), tax: money(165) }],
+    subtotal: money(1999),
+    tax: money(165),
+    amount: money(2164),
+    reason: 'Broken bottle',
+    requested_at: '2026-10-03T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Payments', () => {
+  describe('LocalPaymentProvider', () => {
+    const authorization = (paymentMethod: string) => ({
+      idempotency_key: paymentIdempotencyKey('ORD-1', 'authorize'),
+      order_id: 'ORD-1',
+      customer_id: 'CUST-001',
+      payment_method: paymentMethod,
+      amount: money(5000),
+    });
+
+    it('should replay the original result for a repeated idempotency key', async () => {
+      const provider = new LocalPaymentProvider();
+
+      const first = await provider.authorize(authorization(LocalTestPaymentMethods.APPROVED));
+      const second = await provider.authorize(authorization(LocalTestPaymentMethods.APPROVED));
+      const capture = { idempotency_key: 'ORD-1:capture', order_id: 'ORD-1', authorization_id: first.transaction_id!, amount: money(5000) };
+      const captured = await provider.capture(capture);
+      const recaptured = await provider.capture(capture);
+
+      expect(second).toEqual(first);
+      expect(recaptured).toEqual(captured);
+      expect(captured.outcome).toBe('APPROVED');
+    });
+
+    it('should time out once and then answer for the timeout card', async () => {
+      const provider = new LocalPaymentProvider();
+
+      await expect(provider.authorize(authorization(LocalTestPaymentMethods.TIMEOUT))).rejects.toThrow(
+        PaymentTimeoutError
+      );
+      expect((await provider.authorize(authorization(LocalTestPaymentMethods.TIMEOUT))).outcome).toBe('APPROVED');
+    });
+
+    it('should use configured decline cards', async () => {
+      const provider = new LocalPaymentProvider({ declines: { pm_card_expired: 'expired_card' } });
+
+      const result = await provider.authorize(authorization('pm_card_expired'));
+
+      expect(result).toMatchObject({ outcome: 'DECLINED', decline_code: 'expired_card' });
+    });
+  });
+
+  describe('getPaymentProvider', () => {
+    beforeEach(() => setPaymentProvider(null));
+    afterEach(() => {
+      delete process.env.PAYMENT_PROVIDER;
+    });
+
+    it('should refuse to run without a configured processor', () => {
+      expect(() => getPaymentProvider()).toThrow('No payment provider configured');
+
+      process.env.PAYMENT_PROVIDER = 'unknown-processor';
+      expect(() => getPaymentProvider()).toThrow('Payment provider unknown-processor is not registered');
+    });
+
+    it('should build the processor PAYMENT_PROVIDER names', () => {
+      const processor = new LocalPaymentProvider();
+      registerPaymentProvider('test-processor', () => processor);
+      process.env.PAYMENT_PROVIDER = 'test-processor';
+
+      expect(getPaymentProvider()).toBe(processor);
+    });
+  });
+
+  describe('calculateRefund', () => {
+    it('should refund a line item with its share of the line tax', () => {
+      const result = calculateRefund(createCapturedOrderById(), [{ sku: 'WINE-001', quantity: 1 }]);
+
+      expect(result).toEqual({
+        status: 'OK',
+        lines: [{ sku: 'WINE-001', quantity: 1, amount: money(1999), tax: money(165) }],
+        subtotal: money(1999),
+        tax: money(165),
+        amount: money(2164),
+      });
+    });
+
+    it('should refund exactly the remaining total when the last units are refunded', () => {
+      const order = createCapturedOrderById({ refunds: [createRefund()] });
+
+      const result = calculateRefund(order);
+
+      expect(result).toMatchObject({
+        status: 'OK',
+        lines: [
+          { sku: 'WINE-001', quantity: 2, tax: money(330) },
+          { sku: 'BEER-001', quantity: 2, tax: money(132) },
+        ],
+        amount: money(6060), // 82.24 - 21.64
+      });
+    });
+
+    it('should count pending refunds but not failed ones against the capture', () => {
+      const order = createCapturedOrderById({
+        refunds: [
+          createRefund({
+            status: 'PENDING',
+            lines: [{ sku: 'WINE-001', quantity: 3, amount: money(5997), tax: money(495) }],
+            amount: money(6492),
+          }),
+          createRefund({
+            refund_id: 'REF-2',
+            status: 'FAILED',
+            lines: [{ sku: 'BEER-001', quantity: 2, amount: money(1600), tax: money(132) }],
+            amount: money(1732),
+          }),
+        ],
+      });
+
+      expect(calculateRefund(order, [{ sku: 'WINE-001', quantity: 1 }])).toMatchObject({
+        status: 'INVALID',
+        errors: [{ code: 'exceeds_refundable' }],
+      });
+      expect(calculateRefund(order, [{ sku: 'BEER-001', quantity: 2 }])).toMatchObject({
+        status: 'OK',
+        amount: money(1732),
+      });
+    });
+
+    describe('with a bottle deposit', () => {
+      const orderWithDeposit = (refunds: Partial<OrderRefund>[] = []) => {
+        const captured = createCapturedOrderById();
+        return {
+          ...captured,
+          items: captured.items.map((item) => (item.sku === 'BEER-001' ? { ...item, deposit: money(10) } : item)),
+          total: money(8244), // 82.24 + 2 x 0.10 deposit
+          refunds: refunds.map((refund) => createRefund(refund)),
+        };
+      };
+
+      it('should refund the deposit on the returned units of a partial refund', () => {
+        const result = calculateRefund(orderWithDeposit(), [{ sku: 'BEER-001', quantity: 1 }]);
+
+        expect(result).toEqual({
+          status: 'OK',
+          lines: [{ sku: 'BEER-001', quantity: 1, amount: money(800), tax: money(66), deposit: money(10) }],
+          subtotal: money(800),
+          tax: money(66),
+          deposit: money(10),
+          amount: money(876),
+        });
+      });
+
+      it('should refund every deposit not yet refunded in a full refund', () => {
+        expect(calculateRefund(orderWithDeposit())).toMatchObject({
+          status: 'OK',
+          lines: [
+            { sku: 'WINE-001', quantity: 3, tax: money(495) },
+            { sku: 'BEER-001', quantity: 2, tax: money(132), deposit: money(20) },
+          ],
+          deposit: money(20),
+          amount: money(8244),
+        });
+
+        const afterPartial = orderWithDeposit([
+          {
+            lines: [{ sku: 'BEER-001', quantity: 1, amount: money(800), tax: money(66), deposit: money(10) }],
+            subtotal: money(800),
+            tax: money(66),
+            deposit: money(10),
+            amount: money(876),
+          },
+        ]);
+        expect(calculateRefund(afterPartial)).toMatchObject({
+          status: 'OK',
+          lines: [
+            { sku: 'WINE-001', quantity: 3, tax: money(495) },
+            { sku: 'BEER-001', quantity: 1, tax: money(66), deposit: money(10) },
+          ],
+          deposit: money(10),
+          amount: money(7368), // 82.44 - 8.76
+        });
+      });
+    });
+
+    it('should reject SKUs that are not on the order', () => {
+      const result = calculateRefund(createCapturedOrderById(), [{ sku: 'GIN-001', quantity: 1 }]);
+
+      expect(result).toMatchObject({ status: 'INVALID', errors: [{ code: 'unknown_sku' }] });
+    });
+
+    it('should leave cancelled lines out of the refundable total', () => {
+      const captured = createCapturedOrderById();
+      const { subtotal, tax, total, tax_breakdown } = calculateLineCancellation(captured, 'BEER-001')!;
+      const order = {
+        ...captured,
+        subtotal,
+        tax,
+        total,
+        tax_breakdown,
+        items: captured.items.map((item) => (item.sku === 'BEER-001' ? { ...item, status: 'CANCELLED' as const } : item)),
+      };
+
+      expect(calculateRefund(order)).toMatchObject({
+        status: 'OK',
+        lines: [{ sku: 'WINE-001', quantity: 3, tax: money(495) }],
+        amount: money(6492),
+      });
+      expect(calculateRefund(order, [{ sku: 'BEER-001', quantity: 1 }])).toMatchObject({
+        status: 'INVALID',
+        errors: [{ code: 'line_cancelled' }],
+      });
+    });
+  });
+
+  describe('calculateLineCancellation', () => {
+    it('should drop the line and its tax from the totals and the breakdown', () => {
+      const result = calculateLineCancellation(createCapturedOrderById(), 'BEER-001')!;
+
+      expect(result).toMatchObject({
+        subtotal: money(5997),
+        tax: money(495),
+        total: money(6492),
+        cancelled: { subtotal: money(1600), tax: money(132), amount: money(1732) },
+      });
+      expect(result.tax_breakdown!.lines.map((line) => line.sku)).toEqual(['WINE-001']);
+      expect(result.tax_breakdown!.total_tax).toEqual(money(495));
+    });
+
+    it('should prorate the tax of a legacy order without a breakdown', () => {
+      const result = calculateLineCancellation(createCapturedOrderById({ tax_breakdown: undefined }), 'BEER-001')!;
+
+      expect(result.tax_breakdown).toBeUndefined();
+      expect(result.cancelled).toEqual({ subtotal: money(1600), tax: money(132), amount: money(1732) });
+      expect(result.total).toEqual(money(6492));
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  SagaOrchestrator,
+  SagaStep,
+  SagaStepResult,
+  InMemorySagaStateStore,
+} from '@acme-liquors/shared';
+
+interface TestContext {
+  log: string[];
+}
+
+function createStep(
+  name: string,
+  results: SagaStepResult[] = [{ status: 'COMPLETED', output: { id: `${name}-1` } }],
+  compensate = true
+): SagaStep<TestContext> {
+  let call = 0;
+  return {
+    name,
+    async execute(context) {
+      context.log.push(`execute:${name}`);
+      return results[Math.min(call++, results.length - 1)];
+    },
+    compensate: compensate
+      ? async (context, output) => {
+          context.log.push(`compensate:${name}:${output.id}`);
+        }
+      : undefined,
+  };
+}
+
+describe('Saga Orchestrator', () => {
+  it('should run every step and complete', async () => {
+    const context: TestContext = { log: [] };
+    const saga = new SagaOrchestrator('test', [createStep('a'), createStep('b')], new InMemorySagaStateStore());
+
+    const result = await saga.run('SAGA-1', context);
+
+    expect(result.status).toBe('COMPLETED');
+    expect(result.state.steps.b.output).toEqual({ id: 'b-1' });
+    expect(context.log).toEqual(['execute:a', 'execute:b']);
+  });
+
+  it('should compensate completed steps in reverse order when a step fails', async () => {
+    const context: TestContext = { log: [] };
+    const saga = new SagaOrchestrator(
+      'test',
+      [
+        createStep('reserve'),
+        createStep('authorize'),
+        createStep('confirm', [{ status: 'FAILED', reason: 'Order is no longer pending' }]),
+      ],
+      new InMemorySagaStateStore()
+    );
+
+    const result = await saga.run('SAGA-1', context);
+
+    expect(result.status).toBe('FAILED');
+    expect(result.failed_step).toBe('confirm');
+    expect(result.reason).toBe('Order is no longer pending');
+    expect(result.state.status).toBe('COMPENSATED');
+    expect(context.log).toEqual([
+      'execute:reserve',
+      'execute:authorize',
+      'execute:confirm',
+      'compensate:authorize:authorize-1',
+      'compensate:reserve:reserve-1',
+    ]);
+  });
+
+  it('should resume from the failed step on retry without repeating completed steps', async () => {
+    const context: TestContext = { log: [] };
+    const store = new InMemorySagaStateStore();
+    const steps = [
+      createStep('reserve'),
+      createStep('pay', [
+        { status: 'RETRY', reason: 'Provider timeout' },
+        { status: 'COMPLETED', output: { id: 'pay-1' } },
+      ]),
+    ];
+
+    const first = await new SagaOrchestrator('test', steps, store).run('SAGA-1', context);
+    const second = await new SagaOrchestrator('test', steps, store).run('SAGA-1', context);
+
+    expect(first.status).toBe('RETRY');
+    expect(first.state.steps.pay.error).toBe('Provider timeout');
+    expect(second.status).toBe('COMPLETED');
+    expect(second.state.steps.pay.attempts).toBe(2);
+    expect(context.log).toEqual(['execute:reserve', 'execute:pay', 'execute:pay']);
+  });
+
+  it('should retry a failed compensation without undoing steps twice', async () => {
+    const context: TestContext = { log: [] };
+    const store = new InMemorySagaStateStore();
+    let releaseAttempts = 0;
+    const flakyRelease: SagaStep<TestContext> = {
+      ...createStep('reserve'),
+      async compensate(ctx) {
+        if (releaseAttempts++ === 0) {
+          throw new Error('Inventory table throttled');
+        }
+        ctx.log.push('compensate:reserve');
+      },
+    };
+    const steps = [
+      flakyRelease,
+      createStep('authorize'),
+      createStep('pay', [{ status: 'FAILED', reason: 'Payment declined' }]),
+    ];
+
+    const first = await new SagaOrchestrator('test', steps, store).run('SAGA-1', context);
+    const second = await new SagaOrchestrator('test', steps, store).run('SAGA-1', context);
+
+    expect(first.status).toBe('RETRY');
+    expect(second.status).toBe('FAILED');
+    expect(second.reason).toBe('Payment declined');
+    expect(context.log.filter((entry) => entry.startsWith('compensate'))).toEqual([
+      'compensate:authorize:authorize-1',
+      'compensate:reserve',
+    ]);
+  });
+
+  it('should treat a thrown step error as retryable', async () => {
+    const store = new InMemorySagaStateStore();
+    const saga = new SagaOrchestrator<TestContext>(
+      'test',
+      [
+        {
+          name: 'boom',
+          async execute() {
+            throw new Error('Lambda throttled');
+          },
+        },
+      ],
+      store
+    );
+
+    const result = await saga.run('SAGA-1', { log: [] });
+
+    expect(result.status).toBe('RETRY');
+    expect((await store.load('SAGA-1'))!.steps.boom.status).toBe('PENDING');
+  });
+
+  it('should reject concurrent saves from a stale copy', async () => {
+    const store = new InMemorySagaStateStore();
+    await new SagaOrchestrator('test', [createStep('a')], store).run('SAGA-1', { log: [] });
+    const state = (await store.load('SAGA-1'))!;
+
+    await expect(store.save({ ...state, version: state.version })).rejects.toThrow(
+      'updated concurrently'
+    );
+  });
+});
@@ -0,0 +1,469 @@
+import { DynamoDBRecord, DynamoDBStreamEvent } from 'aws-lambda';
+import { mockClient } from 'aws-sdk-client-mock';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import {
+  DeleteCommand,
+  PutCommand,
+  ScanCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { handler as streamHandler } from '../../services/stream-processor/src/handlers/stream-handler';
+import { handler as inventoryAlertsHandler } from '../../services/stream-processor/src/handlers/inventory-alerts';
+import { handler as reorderReportHandler } from '../../services/stream-processor/src/handlers/reorder-report';
+import {
+  ddbMock,
+  resetDynamoMocks,
+  mockReservations,
+  createReservation,
+  createDynamoOrder,
+  createInventoryItem,
+} from '../utils/dynamodb-mock';
+import {
+  InventoryItem,
+  LocalPaymentProvider,
+  Order,
+  OrderAmendment,
+  PaymentProvider,
+  PaymentTimeoutError,
+  money,
+  setPaymentProvider,
+} from '@acme-liquors/shared';
+
+const eventBridgeMock = mockClient(EventBridgeClient);
+
+type StreamImage = NonNullable<DynamoDBRecord['dynamodb']>['NewImage'];
+
+function createStatusChange(
+  oldStatus: string,
+  newStatus: string,
+  overrides: Partial<Order> = {}
+): DynamoDBStreamEvent {
+  const order = createDynamoOrder({ order_id: 'ORD-12345', ...overrides });
+  const image = (status: string) =>
+    marshall({ ...order, status } as Order, { removeUndefinedValues: true }) as StreamImage;
+
+  return {
+    Records: [
+      {
+        eventID: 'event-1',
+        eventName: 'MODIFY',
+        dynamodb: {
+          OldImage: image(oldStatus),
+          NewImage: image(newStatus),
+        },
+      },
+    ],
+  };
+}
+
+function createInventoryChange(
+  oldItem: InventoryItem | null,
+  newItem: InventoryItem
+): DynamoDBStreamEvent {
+  return {
+    Records: [
+      {
+        eventID: 'event-1',
+        eventName: oldItem ? 'MODIFY' : 'INSERT',
+        dynamodb: {
+          OldImage: oldItem ? (marshall(oldItem) as StreamImage) : undefined,
+          NewImage: marshall(newItem) as StreamImage,
+        },
+      },
+    ],
+  };
+}
+
+describe('Stream Processor', () => {
+  beforeEach(() => {
+    resetDynamoMocks();
+    eventBridgeMock.reset();
+    eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+  });
+
+  describe('inventory lifecycle', () => {
+    it('should commit the reservation when an order ships', async () => {
+      mockReservations([createReservation({ status: 'CONFIRMED' })]);
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      const result = await streamHandler(createStatusChange('CONFIRMED', 'SHIPPED'));
+
+      expect(result.batchItemFailures).toHaveLength(0);
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [reservation, inventory] = transaction.args[0].input.TransactItems!;
+      expect(reservation.Update!.ExpressionAttributeValues![':committed']).toBe('COMMITTED');
+      expect(inventory.Update).toMatchObject({
+        TableName: 'test-inventory',
+        Key: { store_sku: 'STORE-001#SKU-001' },
+        UpdateExpression: expect.stringContaining('quantity_available = quantity_available - :qty'),
+      });
+    });
+
+    it('should release the reservation when an order fails', async () => {
+      mockReservations([createReservation({ status: 'CONFIRMED' })]);
+      ddbMock.on(TransactWriteCommand).resolves({});
+
+      await streamHandler(createStatusChange('PENDING', 'FAILED'));
+
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [reservation, inventory] = transaction.args[0].input.TransactItems!;
+      expect(reservation.Update!.ExpressionAttributeValues![':released']).toBe('RELEASED');
+      expect(inventory.Update!.UpdateExpression).toBe(
+        'SET quantity_reserved = quantity_reserved - :qty, updated_at = :now'
+      );
+    });
+
+    it('should leave cancelled orders to the cancellation follow-ups', async () => {
+      mockReservations([createReservation({ status: 'CONFIRMED' })]);
+
+      await streamHandler(createStatusChange('CONFIRMED', 'CANCELLED'));
+
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should do nothing when a redelivered record finds the reservation already released', async () => {
+      mockReservations([createReservation({ status: 'RELEASED' })]);
+
+      const result = await streamHandler(createStatusChange('PENDING', 'FAILED'));
+
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should not fail the record when a concurrent delivery already committed the line', async () => {
+      mockReservations([createReservation({ status: 'CONFIRMED' })]);
+      ddbMock.on(TransactWriteCommand).rejects(
+        Object.assign(new Error('Transaction cancelled'), {
+          name: 'TransactionCanceledException',
+          CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }],
+        })
+      );
+
+      const result = await streamHandler(createStatusChange('CONFIRMED', 'SHIPPED'));
+
+      expect(result.batchItemFailures).toHaveLength(0);
+    });
+
+    it('should fail the record so it is retried when the inventory update errors', async () => {
+      mockReservations([createReservation({ status: 'CONFIRMED' })]);
+      ddbMock.on(TransactWriteCommand).rejects(new Error('Throttled'));
+
+      const result = await streamHandler(createStatusChange('CONFIRMED', 'SHIPPED'));
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'event-1' }]);
+    });
+  });
+
+  describe('payment lifecycle', () => {
+    const authorized = { payment_state: 'AUTHORIZED', payment_authorization_id: 'auth_0123456789abcdef' } as const;
+
+    beforeEach(() => {
+      setPaymentProvider(new LocalPaymentProvider());
+      mockReservations();
+      ddbMock.on(TransactWriteCommand).resolves({});
+    });
+
+    afterAll(() => {
+      setPaymentProvider(null);
+    });
+
+    it('should capture the authorization when an order ships', async () => {
+      const result = await streamHandler(createStatusChange('CONFIRMED', 'SHIPPED', authorized));
+
+      expect(result.batchItemFailures).toHaveLength(0);
+      const [transaction] = ddbMock.commandCalls(TransactWriteCommand);
+      const [orders] = transaction.args[0].input.TransactItems!;
+      expect(orders.Update).toMatchObject({
+        TableName: 'test-orders',
+        ConditionExpression: 'payment_state = :currentState',
+        ExpressionAttributeValues: {
+          ':newState': 'CAPTURED',
+          ':currentState': 'AUTHORIZED',
+          ':payment_capture_id': expect.stringMatching(/^cap_/),
+        },
+      });
+    });
+
+    it('should not capture an order that was never authorized', async () => {
+      await streamHandler(createStatusChange('CONFIRMED', 'SHIPPED'));
+
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('should retry the record when the provider times out', async () => {
+      const provider = new LocalPaymentProvider();
+      const timingOut: PaymentProvider = {
+        name: 'timing-out',
+        authorize: (request) => provider.authorize(request),
+        capture: async (request) => {
+          throw new PaymentTimeoutError(request.idempotency_key);
+        },
+        void: (request) => provider.void(request),
+        refund: (request) => provider.refund(request),
+        adjustAuthorization: (request) => provider.adjustAuthorization(request),
+      };
+      setPaymentProvider(timingOut);
+
+      const result = await streamHandler(createStatusChange('CONFIRMED', 'SHIPPED', authorized));
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'event-1' }]);
+      expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+  });
+
+  describe('payment events', () => {
+    it('should publish Payment State Changed for a further partial refund', async () => {
+      const order = createDynamoOrder({ order_id: 'ORD-12345', status: 'SHIPPED', payment_state: 'PARTIALLY_REFUNDED' });
+      const image = (refunded: number) =>
+        marshall({ ...order, refunded_total: money(refunded) } as Order, { removeUndefinedValues: true }) as StreamImage;
+
+      await streamHandler({
+        Records: [{ eventID: 'event-1', eventName: 'MODIFY', dynamodb: { OldImage: image(1000), NewImage: image(2500) } }],
+      });
+
+      const [entry] = eventBridgeMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries!;
+      expect(entry.DetailType).toBe('Payment State Changed');
+      expect(JSON.parse(entry.Detail!)).toMatchObject({
+        old_state: 'PARTIALLY_REFUNDED',
+        new_state: 'PARTIALLY_REFUNDED',
+        refunded_total: money(2500),
+      });
+    });
+  });
+
+  describe('event IDs', () => {
+    it('should give a redelivered stream record\'s events the same IDs', async () => {
+      mockReservations([]);
+      const change = createStatusChange('PACKED', 'SHIPPED');
+      change.Records[0].dynamodb!.SequenceNumber = '111';
+
+      await streamHandler(change);
+      await streamHandler(change);
+      change.Records[0].dynamodb!.SequenceNumber = '222';
+      await streamHandler(change);
+
+      const ids = eventBridgeMock
+        .commandCalls(PutEventsCommand)
+        .map((call) => call.args[0].input.Entries!.map((entry) => JSON.parse(entry.Detail!).event_id));
+      expect(ids[0]).toHaveLength(2);
+      expect(new Set(ids[0]).size).toBe(2);
+      expect(ids[1]).toEqual(ids[0]);
+      expect(ids[2][0]).not.toBe(ids[0][0]);
+    });
+  });
+
+  describe('fulfillment events', () => {
+    it('should publish Order Shipped with the carrier and tracking number', async () => {
+      mockReservations([]);
+      const fulfillment = { shipped_by: 'EMP-1', carrier: 'UPS', tracking_number: '1Z999AA10123456784' };
+
+      await streamHandler(createStatusChange('PACKED', 'SHIPPED', { fulfillment }));
+
+      const entries = eventBridgeMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries!;
+      expect(entries.map((e) => e.DetailType)).toEqual(['Order Status Changed', 'Order Shipped']);
+      expect(JSON.parse(entries[1].Detail!)).toMatchObject({ carrier: 'UPS', tracking_number: '1Z999AA10123456784' });
+    });
+
+    it('should publish Order Delivered with the ID check', async () => {
+      const fulfillment = {
+        delivered_by: 'EMP-2',
+        proof_of_delivery: { type: 'SIGNATURE' as const, reference: 'sig-123', recipient_name: 'Pat Doe' },
+        id_check: { id_type: 'DRIVERS_LICENSE' as const, recipient_age: 34, checked_at: '2026-10-05T18:00:00.000Z' },
+      };
+
+      await streamHandler(createStatusChange('SHIPPED', 'DELIVERED', { fulfillment }));
+
+      const entries = eventBridgeMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries!;
+      expect(entries[1].DetailType).toBe('Order Delivered');
+      expect(JSON.parse(entries[1].Detail!)).toMatchObject({
+        delivered_by: 'EMP-2',
+        proof_of_delivery_type: 'SIGNATURE',
+        id_check: { id_type: 'DRIVERS_LICENSE', recipient_age: 34 },
+      });
+    });
+  });
+
+  describe('amendment events', () => {
+    it('should publish Order Amended with the latest amendment\'s diff', async () => {
+      const order = createDynamoOrder({ order_id: 'ORD-12345', status: 'CONFIRMED' });
+      const amendment: OrderAmendment = {
+        amendment_id: 'AMD-1',
+        actor: 'customer:CUST-12345',
+        reason: 'One more bottle',
+        diff: {
+          items: [],
+          subtotal: { before: money(5000), after: money(7000) },
+          tax: { before: money(400), after: money(560) },
+          total: { before: money(5400), after: money(7560) },
+        },
+        amended_at: '2026-10-05T18:00:00.000Z',
+      };
+      const image = (o: Order) => marshall(o, { removeUndefinedValues: true }) as StreamImage;
+
+      await streamHandler({
+        Records: [
+          {
+            eventID: 'event-1',
+            eventName: 'MODIFY',
+            dynamodb: {
+              OldImage: image(order),
+              NewImage: image({ ...order, amendments: [amendment] }),
+            },
+          },
+        ],
+      });
+
+      const entries = eventBridgeMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries!;
+      expect(entries.map((e) => e.DetailType)).toEqual(['Order Amended']);
+      expect(JSON.parse(entries[0].Detail!)).toMatchObject({
+        event_type: 'ORDER_AMENDED',
+        amendment_id: 'AMD-1',
+        amended_by: 'customer:CUST-12345',
+        status: 'CONFIRMED',
+        diff: { total: { before: { amount: 5400 }, after: { amount: 7560 } } },
+      });
+    });
+  });
+
+  describe('line cancellation events', () => {
+    it('should publish Order Line Cancelled for a line the write cancelled', async () => {
+      const wine = { sku: 'WINE-001', name: 'Test Wine', quantity: 3, unit_price: money(1999), total_price: money(5997) };
+      const beer = { sku: 'BEER-001', name: 'Test Beer', quantity: 2, unit_price: money(800), total_price: money(1600) };
+      const order = createDynamoOrder({ order_id: 'ORD-12345', status: 'PACKED', items: [wine, beer], total: money(8224) });
+      const cancelled = {
+        ...beer,
+        status: 'CANCELLED' as const,
+        cancellation: {
+          cancellation_id: 'LCN-1',
+          reason_code: 'OUT_OF_STOCK' as const,
+          actor: 'staff:STAFF-1',
+          subtotal: money(1600),
+          tax: money(132),
+          amount: money(1732),
+          payment: { action: 'REDUCE_AUTHORIZATION' as const, amount: money(6492), status: 'PENDING' as const },
+          cancelled_at: '2026-10-05T18:00:00.000Z',
+        },
+      };
+      const image = (o: Order) => marshall(o, { removeUndefinedValues: true }) as StreamImage;
+      const after = { ...order, items: [wine, cancelled], total: money(6492) };
+      const payment = { ...cancelled.cancellation.payment, status: 'COMPLETED' as const };
+      const settled = { ...after, items: [wine, { ...cancelled, cancellation: { ...cancelled.cancellation, payment } }] };
+
+      await streamHandler({
+        Records: [
+          {
+            eventID: 'event-1',
+            eventName: 'MODIFY',
+            dynamodb: { OldImage: image(order), NewImage: image(after) },
+          },
+          {
+            // The payment follow-up settling later is not a second cancellation
+            eventID: 'event-2',
+            eventName: 'MODIFY',
+            dynamodb: { OldImage: image(after), NewImage: image(settled) },
+          },
+        ],
+      });
+
+      const entries = eventBridgeMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries!;
+      expect(entries.map((e) => e.DetailType)).toEqual(['Order Line Cancelled']);
+      expect(JSON.parse(entries[0].Detail!)).toMatchObject({
+        event_type: 'ORDER_LINE_CANCELLED',
+        sku: 'BEER-001',
+        quantity: 2,
+        reason_code: 'OUT_OF_STOCK',
+        cancelled_by: 'staff:STAFF-1',
+        amount: { amount: 1732 },
+        payment_action: 'REDUCE_AUTHORIZATION',
+        total: { amount: 6492 },
+      });
+    });
+  });
+
+  describe('inventory-alerts', () => {
+    // reorder_level 20: free stock 22 -> 18 crosses it
+    const before = createInventoryItem({ quantity_available: 32, quantity_reserved: 10 });
+    const after = createInventoryItem({ quantity_available: 32, quantity_reserved: 14 });
+
+    it('should publish Inventory Low when free stock drops below the reorder level', async () => {
+      ddbMock.on(PutCommand).resolves({});
+
+      const result = await inventoryAlertsHandler(createInventoryChange(before, after));
+
+      expect(result.batchItemFailures).toHaveLength(0);
+      const [entry] = eventBridgeMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries!;
+      expect(entry.Source).toBe('acme.inventory');
+      expect(entry.DetailType).toBe('Inventory Low');
+      expect(JSON.parse(entry.Detail!)).toMatchObject({
+        store_id: 'STORE-001',
+        sku: 'SKU-001',
+        quantity_free: 18,
+        reorder_level: 20,
+        suggested_quantity: 22,
+      });
+
+      const [claim] = ddbMock.commandCalls(PutCommand);
+      expect(claim.args[0].input.TableName).toBe('test-inventory-alerts');
+    });
+
+    it('should not alert again while the SKU stays low', async () => {
+      const lower = createInventoryItem({ quantity_available: 32, quantity_reserved: 20 });
+
+      await inventoryAlertsHandler(createInventoryChange(after, lower));
+
+      expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+      expect(eventBridgeMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+    });
+
+    it('should suppress an alert raised within the cooldown', async () => {
+      ddbMock.on(PutCommand).rejects(
+        Object.assign(new Error('Condition failed'), { name: 'ConditionalCheckFailedException' })
+      );
+
+      const result = await inventoryAlertsHandler(createInventoryChange(before, after));
+
+      expect(result.batchItemFailures).toHaveLength(0);
+      expect(eventBridgeMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+    });
+
+    it('should release the claim and retry the record when publishing fails', async () => {
+      ddbMock.on(PutCommand).resolves({});
+      ddbMock.on(DeleteCommand).resolves({});
+      eventBridgeMock.on(PutEventsCommand).rejects(new Error('Throttled'));
+
+      const result = await inventoryAlertsHandler(createInventoryChange(before, after));
+
+      expect(result.batchItemFailures).toEqual([{ itemIdentifier: 'event-1' }]);
+      expect(ddbMock.commandCalls(DeleteCommand)).toHaveLength(1);
+    });
+  });
+
+  describe('reorder-report', () => {
+    it('should publish one report per store with reorder suggestions', async () => {
+      ddbMock.on(ScanCommand).resolves({
+        Items: [
+          createInventoryItem({ sku: 'SKU-002', store_sku: 'STORE-001#SKU-002', quantity_available: 5, quantity_reserved: 0 }),
+          createInventoryItem({ sku: 'SKU-001', quantity_available: 100, quantity_reserved: 0 }),
+          createInventoryItem({ store_id: 'STORE-002', store_sku: 'STORE-002#SKU-001', quantity_available: 12, quantity_reserved: 2 }),
+        ],
+      });
+
+      const result = await reorderReportHandler();
+
+      expect(result).toEqual({ stores: 2, suggestions: 2 });
+      const entries = eventBridgeMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries!;
+      const reports = entries.map((entry) => JSON.parse(entry.Detail!));
+      expect(entries.every((entry) => entry.DetailType === 'Inventory Reorder Report')).toBe(true);
+      expect(reports.map((report) => report.store_id)).toEqual(['STORE-001', 'STORE-002']);
+      expect(reports[0].suggestions).toEqual([
+        expect.objectContaining({
+          sku: 'SKU-002',
+          quantity_free: 5,
+          suggested_quantity: 35,
+          estimated_cost: money(43750),
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  DynamoTaxRateSource,
+  RateTableTaxCalculator,
+  InMemoryTaxRateSource,
+  TaxRateSource,
+  TaxableLine,
+  money,
+} from '@acme-liquors/shared';
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { createTaxRateTable, ddbMock, mockTaxRates, resetDynamoMocks } from '../utils/dynamodb-mock';
+
+const AS_OF = '2025-06-01T12:00:00.000Z';
+
+function createLine(overrides: Partial<TaxableLine> = {}): TaxableLine {
+  return {
+    sku: 'SKU-001',
+    category: 'WINE',
+    quantity: 1,
+    volume_ml: 750,
+    abv: 13.5,
+    total_price: money(10000),
+    ...overrides,
+  };
+}
+
+describe('Tax Calculator', () => {
+  it('should apply state and county sales tax per line', async () => {
+    const calculator = new RateTableTaxCalculator(
+      new InMemoryTaxRateSource([createTaxRateTable()])
+    );
+
+    const result = await calculator.calculate({
+      state: 'TX',
+      county_id: 'COUNTY-001',
+      as_of: AS_OF,
+      lines: [createLine(), createLine({ sku: 'SKU-002', total_price: money(5000) })],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.breakdown!.lines.map((l) => l.total_tax)).toEqual([money(800), money(400)]);
+    expect(result.breakdown!.total_tax).toEqual(money(1200));
+  });
+
+  it('should compute per-gallon and per-proof-gallon excise by category', async () => {
+    const calculator = new RateTableTaxCalculator(
+      new InMemoryTaxRateSource([
+        createTaxRateTable({
+          state_sales_rate: 0,
+          county_sales_rate: 0,
+          excise: {
+            BEER: { per_gallon: 0.20 },
+            SPIRITS: { per_proof_gallon: 2.40 },
+          },
+        }),
+      ])
+    );
+
+    const result = await calculator.calculate({
+      state: 'TX',
+      county_id: 'COUNTY-001',
+      as_of: AS_OF,
+      lines: [
+        // 24 x 355ml = 2.25 gallons
+        createLine({ sku: 'BEER-001', category: 'BEER', quantity: 24, volume_ml: 355, abv: 5 }),
+        // 1 x 1750ml at 80 proof = 0.37 proof gallons
+        createLine({ sku: 'SPIRIT-001', category: 'SPIRITS', quantity: 1, volume_ml: 1750, abv: 40 }),
+        createLine({ sku: 'WINE-001', category: 'WINE' }),
+      ],
+    });
+
+    const [beer, spirits, wine] = result.breakdown!.lines;
+    expect(beer.components).toEqual([
+      expect.objectContaining({ type: 'EXCISE', rate: 0.20, amount: money(45) }),
+    ]);
+    expect(spirits.components[0].basis).toBeCloseTo(0.3698, 4);
+    expect(spirits.total_tax).toEqual(money(89));
+    expect(wine.components).toHaveLength(0);
+  });
+
+  it('should apply local option taxes only to their categories', async () => {
+    const calculator = new RateTableTaxCalculator(
+      new InMemoryTaxRateSource([
+        createTaxRateTable({
+          local_option_rates: [{ name: 'Mixed beverage tax', rate: 0.067, categories: ['SPIRITS'] }],
+        }),
+      ])
+    );
+
+    const result = await calculator.calculate({
+      state: 'TX',
+      county_id: 'COUNTY-001',
+      as_of: AS_OF,
+      lines: [createLine({ category: 'SPIRITS' }), createLine({ category: 'BEER' })],
+    });
+
+    expect(result.breakdown!.lines[0].total_tax).toEqual(money(1470));
+    expect(result.breakdown!.lines[1].total_tax).toEqual(money(800));
+  });
+
+  it('should select the rate table in effect at the order time', async () => {
+    const calculator = new RateTableTaxCalculator(
+      new InMemoryTaxRateSource([
+        createTaxRateTable({ effective_to: '2025-01-01T00:00:00.000Z' }),
+        createTaxRateTable({
+          effective_from: '2025-01-01T00:00:00.000Z',
+          version: 2,
+          county_sales_rate: 0.02,
+        }),
+      ])
+    );
+
+    const before = await calculator.calculate({
+      state: 'TX',
+      county_id: 'COUNTY-001',
+      as_of: '2024-12-31T23:59:59.000Z',
+      lines: [createLine()],
+    });
+    const after = await calculator.calculate({
+      state: 'TX',
+      county_id: 'COUNTY-001',
+      as_of: AS_OF,
+      lines: [createLine()],
+    });
+
+    expect(before.breakdown!.rate_table_version).toBe(1);
+    expect(before.breakdown!.total_tax).toEqual(money(800));
+    expect(after.breakdown!.rate_table_version).toBe(2);
+    expect(after.breakdown!.total_tax).toEqual(money(825));
+  });
+
+  it('should round half-cents using the jurisdiction rounding mode', async () => {
+    // $0.50 at 5% = 2.5 cents
+    const line = createLine({ total_price: money(50) });
+    const halfUp = new RateTableTaxCalculator(
+      new InMemoryTaxRateSource([createTaxRateTable({ state_sales_rate: 0.05, county_sales_rate: 0 })])
+    );
+    const halfEven = new RateTableTaxCalculator(
+      new InMemoryTaxRateSource([
+        createTaxRateTable({ state_sales_rate: 0.05, county_sales_rate: 0, rounding_mode: 'HALF_EVEN' }),
+      ])
+    );
+
+    const request = { state: 'TX', county_id: 'COUNTY-001', as_of: AS_OF, lines: [line] };
+    const up = await halfUp.calculate(request);
+    const even = await halfEven.calculate(request);
+
+    expect(up.breakdown!.rounding_mode).toBe('HALF_UP');
+    expect(up.breakdown!.total_tax).toEqual(money(3));
+    expect(even.breakdown!.rounding_mode).toBe('HALF_EVEN');
+    expect(even.breakdown!.total_tax).toEqual(money(2));
+  });
+
+  it('should fail when no rate table covers the jurisdiction', async () => {
+    const calculator = new RateTableTaxCalculator(
+      new InMemoryTaxRateSource([createTaxRateTable()])
+    );
+
+    const result = await calculator.calculate({
+      state: 'OK',
+      county_id: 'COUNTY-001',
+      as_of: AS_OF,
+      lines: [createLine()],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('OK/COUNTY-001');
+  });
+
+  describe('rate table versions', () => {
+    // Corrections republished for the same instant, out of order
+    const tables = [
+      createTaxRateTable({ version: 9, county_sales_rate: 0.02 }),
+      createTaxRateTable({ version: 10, county_sales_rate: 0.0225 }),
+      createTaxRateTable({ version: 2, county_sales_rate: 0.01 }),
+    ];
+
+    beforeEach(() => {
+      resetDynamoMocks();
+      mockTaxRates(tables);
+    });
+
+    it.each<[string, () => TaxRateSource]>([
+      ['DynamoTaxRateSource', () => new DynamoTaxRateSource()],
+      ['InMemoryTaxRateSource', () => new InMemoryTaxRateSource(tables)],
+    ])('should pick the highest version of tables with the same start (%s)', async (_, source) => {
+      const table = await source().getRateTable('TX', 'COUNTY-001', AS_OF);
+
+      expect(table?.version).toBe(10);
+      expect(table?.county_sales_rate).toBe(0.0225);
+    });
+
+    it('should key each version apart in DynamoDB', async () => {
+      await new DynamoTaxRateSource().getRateTable('TX', 'COUNTY-001', AS_OF);
+
+      expect(tables.map((t) => t.effective_version)).toEqual([
+        '2024-01-01T00:00:00.000Z#000009',
+        '2024-01-01T00:00:00.000Z#000010',
+        '2024-01-01T00:00:00.000Z#000002',
+      ]);
+      const [query] = ddbMock.commandCalls(QueryCommand);
+      expect(query.args[0].input).toMatchObject({
+        TableName: 'test-tax-rates',
+        KeyConditionExpression: 'jurisdiction_id = :jid AND effective_version <= :latest',
+        ExpressionAttributeValues: { ':jid': 'TX#COUNTY-001', ':latest': `${AS_OF}#999999` },
+        ScanIndexForward: false,
+      });
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { mockClient } from 'aws-sdk-client-mock';
-import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, UpdateCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
-import { Order, OrderById } from '@acme-liquors/shared';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand, UpdateCommand, BatchWriteCommand, BatchGetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { CountyComplianceRules, CustomerProfile, IdempotencyRecord, InventoryItem, Order, OrderById, Product, Reservation, TaxRateTable, money, rateTableSortKey } from '@acme-liquors/shared';
 
 // Create mock client
 export const ddbMock = mockClient(DynamoDBDocumentClient);
@@ -75,6 +75,25 @@ export function mockUpdateItemConditionalFailure(): void {
   ddbMock.on(UpdateCommand).rejects(error);
 }
 
+/**
+ * Mock successful TransactWriteCommand (order writes go to both tables in one)
+ */
+export function mockTransactWrite(): void {
+  ddbMock.on(TransactWriteCommand).resolves({});
+}
+
+/**
+ * Mock TransactWriteCommand cancelled by a failed condition
+ */
+export function mockTransactWriteConditionalFailure(): void {
+  ddbMock.on(TransactWriteCommand).rejects(
+    Object.assign(new Error('Transaction cancelled'), {
+      name: 'TransactionCanceledException',
+      CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }],
+    })
+  );
+}
+
 /**
  * Mock BatchWriteCommand
  */
@@ -84,6 +103,227 @@ export function mockBatchWrite(): void {
   });
 }
 
+/**
+ * Mock catalog BatchGetCommand, returning only the requested SKUs
+ */
+export function mockCatalog(products: Product[] = [createCatalogProduct()]): void {
+  const tableName = process.env.PRODUCTS_TABLE_NAME!;
+  ddbMock.on(BatchGetCommand).callsFake((input) => {
+    const keys = (input.RequestItems?.[tableName]?.Keys ?? []) as Array<{ sku: string }>;
+    const skus = new Set(keys.map((key) => key.sku));
+    return {
+      Responses: {
+        [tableName]: products.filter((product) => skus.has(product.sku)),
+      },
+    };
+  });
+}
+
+/**
+ * Create a mock catalog product
+ */
+export function createCatalogProduct(overrides: Partial<Product> = {}): Product {
+  return {
+    sku: 'SKU-001',
+    name: 'Test Wine',
+    category: 'WINE',
+    volume_ml: 750,
+    abv: 13.5,
+    list_price: money(2500),
+    active: true,
+    updated_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Mock customer profile lookups (GetCommand on the customers table)
+ */
+export function mockCustomerProfile(profile: CustomerProfile | null): void {
+  ddbMock.on(GetCommand, { TableName: process.env.CUSTOMERS_TABLE_NAME }).resolves({
+    Item: profile ?? undefined,
+  });
+}
+
+/**
+ * Create a mock customer profile (adult, born 1990-06-15)
+ */
+export function createCustomerProfile(overrides: Partial<CustomerProfile> = {}): CustomerProfile {
+  return {
+    customer_id: 'CUST-001',
+    name: 'Test Customer',
+    date_of_birth: '1990-06-15',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Mock tax rate table lookups (QueryCommand on the tax rates table)
+ */
+export function mockTaxRates(tables: TaxRateTable[] = [createTaxRateTable()]): void {
+  ddbMock.on(QueryCommand, { TableName: process.env.TAX_RATES_TABLE_NAME }).callsFake((input) => {
+    const jurisdictionId = input.ExpressionAttributeValues?.[':jid'];
+    const latest = input.ExpressionAttributeValues?.[':latest'];
+    const items = tables
+      .filter((t) => t.jurisdiction_id === jurisdictionId && t.effective_version <= latest)
+      .sort((a, b) => b.effective_version.localeCompare(a.effective_version));
+    return { Items: items.slice(0, input.Limit) };
+  });
+}
+
+/**
+ * Create a mock tax rate table (8% combined sales tax, no excise)
+ */
+export function createTaxRateTable(overrides: Partial<TaxRateTable> = {}): TaxRateTable {
+  const effectiveFrom = overrides.effective_from ?? '2024-01-01T00:00:00.000Z';
+  const version = overrides.version ?? 1;
+  return {
+    jurisdiction_id: 'TX#COUNTY-001',
+    effective_version: rateTableSortKey(effectiveFrom, version),
+    effective_from: effectiveFrom,
+    version,
+    state: 'TX',
+    county_id: 'COUNTY-001',
+    state_sales_rate: 0.0625,
+    county_sales_rate: 0.0175,
+    local_option_rates: [],
+    excise: {},
+    ...overrides,
+  };
+}
+
+/**
+ * Mock county compliance rules lookups (GetCommand on the compliance rules table)
+ */
+export function mockComplianceRules(
+  rules: CountyComplianceRules[] = [createComplianceRules()]
+): void {
+  ddbMock.on(GetCommand, { TableName: process.env.COMPLIANCE_RULES_TABLE_NAME }).callsFake((input) => ({
+    Item: rules.find((r) => r.county_id === input.Key?.county_id),
+  }));
+}
+
+/**
+ * Create mock compliance rules (wet county, no limits)
+ */
+export function createComplianceRules(
+  overrides: Partial<CountyComplianceRules> = {}
+): CountyComplianceRules {
+  return {
+    county_id: 'COUNTY-001',
+    state: 'TX',
+    wet_status: 'WET',
+    time_zone: 'America/Chicago',
+    version: 1,
+    updated_at: '2024-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Mock inventory item lookups by store_sku
+ */
+export function mockInventory(items: InventoryItem[] = [createInventoryItem()]): void {
+  ddbMock.on(GetCommand, { TableName: process.env.INVENTORY_TABLE_NAME }).callsFake((input) => ({
+    Item: items.find((item) => item.store_sku === input.Key?.store_sku),
+  }));
+}
+
+export function createInventoryItem(overrides: Partial<InventoryItem> = {}): InventoryItem {
+  return {
+    store_sku: 'STORE-001#SKU-001',
+    store_id: 'STORE-001',
+    sku: 'SKU-001',
+    product_name: 'Test Wine',
+    quantity_available: 100,
+    quantity_reserved: 10,
+    reorder_level: 20,
+    unit_cost: money(1250),
+    updated_at: '2026-10-01T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+/**
+ * Mock reservation queries (by reservation, by order and by expiry)
+ */
+export function mockReservations(lines: Reservation[] = []): void {
+  ddbMock.on(QueryCommand, { TableName: process.env.RESERVATIONS_TABLE_NAME }).callsFake((input) => {
+    const values = input.ExpressionAttributeValues ?? {};
+    const items = lines.filter((line) => {
+      if (input.IndexName === 'order-reservation-index') {
+        return line.order_id === values[':oid'];
+      }
+      if (input.IndexName === 'status-expiry-index') {
+        return line.status === values[':pending'] && line.expires_at <= values[':asOf'];
+      }
+      return line.reservation_id === values[':rid'];
+    });
+    return { Items: items };
+  });
+}
+
+export function createReservation(overrides: Partial<Reservation> = {}): Reservation {
+  return {
+    reservation_id: 'RES-001',
+    order_id: 'ORD-12345',
+    store_sku: 'STORE-001#SKU-001',
+    quantity: 5,
+    status: 'PENDING',
+    created_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + 30 * 60 * 1000).toISOString(),
+    ...overrides,
+  };
+}
+
+/**
+ * Mock catalog, compliance rules and tax rates needed to accept a new order
+ */
+export function mockOrderPricing(
+  products?: Product[],
+  taxTables?: TaxRateTable[],
+  complianceRules?: CountyComplianceRules[]
+): void {
+  mockCatalog(products);
+  mockComplianceRules(complianceRules);
+  mockTaxRates(taxTables);
+}
+
+/**
+ * Mock a customer's idempotency key as already claimed
+ */
+export function mockIdempotencyKey(record: IdempotencyRecord): void {
+  const error = new Error('ConditionalCheckFailedException');
+  error.name = 'ConditionalCheckFailedException';
+  ddbMock.on(PutCommand, { TableName: 'test-idempotency-keys' }).rejects(error);
+  ddbMock.on(GetCommand, { TableName: 'test-idempotency-keys' }).resolves({
+    Item: record as unknown as Record<string, unknown>,
+  });
+}
+
+/**
+ * Create a mock idempotency key record (held by a running request)
+ */
+export function createIdempotencyRecord(overrides: Partial<IdempotencyRecord> = {}): IdempotencyRecord {
+  const now = new Date();
+
+  return {
+    customer_id: 'CUST-001',
+    idempotency_key: 'test-idempotency-key',
+    request_hash: 'hash',
+    status: 'IN_PROGRESS',
+    order_id: 'ORD-FIRST-ATTEMPT',
+    order_ts: now.toISOString(),
+    locked_until: new Date(now.getTime() + 30_000).toISOString(),
+    created_at: now.toISOString(),
+    updated_at: now.toISOString(),
+    ttl: Math.floor(now.getTime() / 1000) + 24 * 60 * 60,
+    ...overrides,
+  };
+}
+
 /**
  * Create a mock order for DynamoDB response
  */
@@ -105,13 +345,13 @@ export function createDynamoOrder(overrides: Partial<Order> = {}): Order {
         sku: 'SKU-001',
         name: 'Test Product',
         quantity: 1,
-        unit_price: 10.00,
-        total_price: 10.00,
+        unit_price: money(1000),
+        total_price: money(1000),
       },
     ],
-    subtotal: 10.00,
-    tax: 0.80,
-    total: 10.80,
+    subtotal: money(1000),
+    tax: money(80),
+    total: money(1080),
     shipping_address: {
       street: '123 Test St',
       city: 'Test City',
@@ -144,13 +384,13 @@ export function createDynamoOrderById(overrides: Partial<OrderById> = {}): Order
         sku: 'SKU-001',
         name: 'Test Product',
         quantity: 1,
-        unit_price: 10.00,
-        total_price: 10.00,
+        unit_price: money(1000),
+        total_price: money(1000),
       },
     ],
-    subtotal: 10.00,
-    tax: 0.80,
-    total: 10.80,
+    subtotal: money(1000),
+    tax: money(80),
+    total: money(1080),
     shipping_address: {
       street: '123 Test St',
       city: 'Test City',
@@ -162,3 +402,44 @@ export function createDynamoOrderById(overrides: Partial<OrderById> = {}): Order
     ...overrides,
   } as OrderById;
 }
+
+/**
+ * Create a shipped, captured OrderById with two taxed lines
+ * WINE-001: 3 x 19.99 (tax 4.95), BEER-001: 2 x 8.00 (tax 1.32); total 82.24
+ */
+export function createCapturedOrderById(overrides: Partial<OrderById> = {}): OrderById {
+  const line = (sku: string, category: 'WINE' | 'BEER', taxable: number, tax: number) => ({
+    sku,
+    category,
+    taxable_amount: money(taxable),
+    components: [],
+    total_tax: money(tax),
+  });
+
+  return createDynamoOrderById({
+    order_id: 'ORD-REFUND',
+    status: 'SHIPPED',
+    payment_state: 'CAPTURED',
+    payment_method: 'pm_card_visa',
+    payment_authorization_id: 'auth_0123456789abcdef',
+    payment_capture_id: 'cap_0123456789abcdef',
+    items: [
+      { sku: 'WINE-001', name: 'Test Wine', quantity: 3, unit_price: money(1999), total_price: money(5997), category: 'WINE' },
+      { sku: 'BEER-001', name: 'Test Beer', quantity: 2, unit_price: money(800), total_price: money(1600), category: 'BEER' },
+    ],
+    subtotal: money(7597),
+    tax: money(627),
+    total: money(8224),
+    tax_breakdown: {
+      jurisdiction_id: 'TX#COUNTY-001',
+      rate_table_version: 1,
+      rate_table_effective_from: '2026-01-01T00:00:00.000Z',
+      rounding_mode: 'HALF_UP',
+      lines: [line('WINE-001', 'WINE', 5997, 495), line('BEER-001', 'BEER', 1600, 132)],
+      total_tax: money(627),
+      calculated_at: '2026-10-01T12:00:00.000Z',
+    },
+    updated_at: '2026-10-02T12:00:00.000Z',
+    ...overrides,
+  });
+}
@@ -0,0 +1,14 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { GetSecretValueCommand, SecretsManagerClient } from '@aws-sdk/client-secrets-manager';
+
+// Create mock client
+export const secretsMock = mockClient(SecretsManagerClient);
+
+/**
+ * Mock the pagination token signing key
+ */
+export function mockPaginationTokenSecret(secret: string = 'test-pagination-token-secret'): void {
+  secretsMock
+    .on(GetSecretValueCommand, { SecretId: process.env.PAGINATION_TOKEN_SECRET_ARN })
+    .resolves({ SecretString: secret });
+}
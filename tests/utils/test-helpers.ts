@@ -1,11 +1,35 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
-import { Order, OrderItem, OrderStatus, PaymentState } from '@acme-liquors/shared';
+import {
+  Caller,
+  CallerRole,
+  Order,
+  OrderItem,
+  OrderStatus,
+  PaymentState,
+  money,
+  toAuthorizerContext,
+} from '@acme-liquors/shared';
 
 /**
- * Create a mock API Gateway event
+ * Create a mock authenticated caller (a customer unless overridden)
+ */
+export function createMockCaller(overrides: Partial<Caller> = {}): Caller {
+  return {
+    subject: 'CUST-001',
+    role: CallerRole.CUSTOMER,
+    store_ids: [],
+    county_ids: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Create a mock API Gateway event, as passed through the authorizer for
+ * the given caller (null for an unauthenticated request)
  */
 export function createMockApiEvent(
-  overrides: Partial<APIGatewayProxyEvent> = {}
+  overrides: Partial<APIGatewayProxyEvent> = {},
+  caller: Caller | null = createMockCaller()
 ): APIGatewayProxyEvent {
   return {
     body: null,
@@ -21,7 +45,7 @@ export function createMockApiEvent(
     requestContext: {
       accountId: '123456789',
       apiId: 'test-api',
-      authorizer: null,
+      authorizer: caller ? { principalId: caller.subject, ...toAuthorizerContext(caller) } : null,
       protocol: 'HTTP/1.1',
       httpMethod: 'GET',
       identity: {
@@ -81,8 +105,8 @@ export function createMockOrderItem(overrides: Partial<OrderItem> = {}): OrderIt
     sku: 'SKU-001',
     name: 'Test Product',
     quantity: 2,
-    unit_price: 19.99,
-    total_price: 39.98,
+    unit_price: money(1999),
+    total_price: money(3998),
     ...overrides,
   };
 }
@@ -104,9 +128,9 @@ export function createMockOrder(overrides: Partial<Order> = {}): Order {
     status: OrderStatus.PENDING,
     payment_state: PaymentState.PENDING,
     items: [createMockOrderItem()],
-    subtotal: 39.98,
-    tax: 3.20,
-    total: 43.18,
+    subtotal: money(3998),
+    tax: money(320),
+    total: money(4318),
     shipping_address: {
       street: '123 Test St',
       city: 'Test City',
@@ -133,7 +157,7 @@ export function createMockCreateOrderRequest() {
         sku: 'SKU-001',
         name: 'Test Wine',
         quantity: 2,
-        unit_price: 25.00,
+        unit_price: money(2500),
       },
     ],
     shipping_address: {
@@ -142,6 +166,7 @@ export function createMockCreateOrderRequest() {
       state: 'TX',
       zip: '12345',
     },
+    payment_method: 'pm_card_visa',
   };
 }
 